@@ -12,9 +12,13 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Transactions from "./pages/Transactions";
 import Categories from "./pages/Categories";
+import Accounts from "./pages/Accounts";
+import Bills from "./pages/Bills";
 import Reports from "./pages/Reports";
 import Import from "./pages/Import";
+import ImportHistory from "./pages/ImportHistory";
 import Export from "./pages/Export";
+import ExportHistory from "./pages/ExportHistory";
 import Settings from "./pages/Settings";
 import Spreadsheet from "./pages/Spreadsheet";
 import Alerts from "./pages/Alerts";
@@ -42,9 +46,13 @@ const App = () => (
                   <Route path="/dashboard" element={<Dashboard />} />
                   <Route path="/transactions" element={<Transactions />} />
                   <Route path="/categories" element={<Categories />} />
+                  <Route path="/accounts" element={<Accounts />} />
+                  <Route path="/bills" element={<Bills />} />
                   <Route path="/reports" element={<Reports />} />
                   <Route path="/import" element={<Import />} />
+                  <Route path="/import/history" element={<ImportHistory />} />
                   <Route path="/export" element={<Export />} />
+                  <Route path="/export/history" element={<ExportHistory />} />
                   <Route path="/spreadsheet" element={<Spreadsheet />} />
                   <Route path="/alerts" element={<Alerts />} />
                   <Route path="/settings" element={<Settings />} />
@@ -0,0 +1,91 @@
+import { Calendar } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_LAST_DAYS,
+  DateRange,
+  PERIOD_PRESETS,
+  PeriodPreset,
+  PeriodSelection,
+  describeRange,
+} from '@/lib/periods';
+
+interface PeriodPickerProps {
+  value: PeriodSelection;
+  onChange: (value: PeriodSelection) => void;
+  /** Intervalo já resolvido, exibido abaixo da seleção */
+  range: DateRange;
+  className?: string;
+}
+
+/**
+ * Seleção de período compartilhada por exportação, relatórios e dashboard
+ */
+export function PeriodPicker({ value, onChange, range, className }: PeriodPickerProps) {
+  const handlePresetChange = (preset: string) => {
+    const next: PeriodSelection = { ...value, preset: preset as PeriodPreset };
+    // Personalizado começa no intervalo que estava selecionado
+    if (preset === 'custom' && !value.customStart && !value.customEnd) {
+      next.customStart = range.start;
+      next.customEnd = range.end;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex flex-wrap gap-2">
+        <Select value={value.preset} onValueChange={handlePresetChange}>
+          <SelectTrigger className="w-full sm:w-56">
+            <Calendar className="h-4 w-4 mr-2" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(PERIOD_PRESETS).map(([preset, label]) => (
+              <SelectItem key={preset} value={preset}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {value.preset === 'last_n_days' && (
+          <Input
+            type="number"
+            min={1}
+            max={3660}
+            className="w-28"
+            value={value.lastDays ?? DEFAULT_LAST_DAYS}
+            onChange={(e) => onChange({ ...value, lastDays: Number(e.target.value) || 1 })}
+            aria-label="Quantidade de dias"
+          />
+        )}
+
+        {value.preset === 'custom' && (
+          <>
+            <Input
+              type="date"
+              className="w-auto"
+              value={value.customStart || ''}
+              onChange={(e) => onChange({ ...value, customStart: e.target.value })}
+              aria-label="Data inicial"
+            />
+            <Input
+              type="date"
+              className="w-auto"
+              value={value.customEnd || ''}
+              onChange={(e) => onChange({ ...value, customEnd: e.target.value })}
+              aria-label="Data final"
+            />
+          </>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">{describeRange(range)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Wallet } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ALL_ACCOUNTS, Account } from '@/lib/accounts';
+
+interface AccountSelectProps {
+  accounts: Account[];
+  value: string;
+  onChange: (value: string) => void;
+  /** Mostra a opção "Todas as contas" (valor ALL_ACCOUNTS), para filtros */
+  allowAll?: boolean;
+  /** Opção extra no topo, ex: "Conta padrão" na importação */
+  emptyOption?: { value: string; label: string };
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Seleção de conta/carteira compartilhada por formulários e filtros
+ */
+export function AccountSelect({
+  accounts,
+  value,
+  onChange,
+  allowAll,
+  emptyOption,
+  className,
+  disabled,
+}: AccountSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className={className}>
+        {allowAll && <Wallet className="h-4 w-4 mr-2" />}
+        <SelectValue placeholder="Conta" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAll && <SelectItem value={ALL_ACCOUNTS}>Todas as contas</SelectItem>}
+        {emptyOption && <SelectItem value={emptyOption.value}>{emptyOption.label}</SelectItem>}
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: account.color }} />
+              {account.name}
+              {account.archived && <span className="text-xs text-muted-foreground">(arquivada)</span>}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,301 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { useToast } from '@/hooks/use-toast';
+import type { BillInput } from '@/hooks/useBills';
+import type { Account } from '@/lib/accounts';
+import { BILL_KINDS, Bill, BillKind, isOpenBill } from '@/lib/bills';
+
+const NONE_VALUE = '__none__';
+
+type EditScope = 'single' | 'series';
+
+interface BillCategory {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface BillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Título em edição; sem ele, cria um novo do tipo `kind` */
+  bill: Bill | null;
+  kind: BillKind;
+  categories: BillCategory[];
+  accounts: Account[];
+  today: string;
+  onSave: (input: BillInput, bill?: Bill) => Promise<{ error: Error | null }>;
+  /** Edição de uma ocorrência de recorrência valendo também para as próximas */
+  onSaveSeries?: (input: BillInput, bill: Bill) => Promise<{ error: Error | null }>;
+}
+
+/**
+ * Cadastro de conta a pagar ou a receber
+ */
+export function BillDialog({
+  open,
+  onOpenChange,
+  bill,
+  kind,
+  categories,
+  accounts,
+  today,
+  onSave,
+  onSaveSeries,
+}: BillDialogProps) {
+  const { toast } = useToast();
+  const [formKind, setFormKind] = useState<BillKind>(kind);
+  const [description, setDescription] = useState('');
+  const [counterparty, setCounterparty] = useState('');
+  const [documentNumber, setDocumentNumber] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [competenceDate, setCompetenceDate] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [scope, setScope] = useState<EditScope>('single');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormKind((bill?.kind as BillKind) || kind);
+    setDescription(bill?.description || '');
+    setCounterparty(bill?.counterparty || '');
+    setDocumentNumber(bill?.document_number || '');
+    setCategoryId(bill?.category_id || '');
+    setAccountId(bill?.account_id || '');
+    setAmount(bill ? String(bill.amount) : '');
+    setCompetenceDate(bill?.competence_date || today);
+    setDueDate(bill?.due_date || today);
+    setNotes(bill?.notes || '');
+    setScope('single');
+  }, [open, bill, kind, today]);
+
+  // Baixado ou cancelado: só dados descritivos podem mudar
+  const locked = !!bill && (bill.status === 'paid' || bill.status === 'cancelled');
+  const selectableAccounts = accounts.filter(a => !a.archived || a.id === bill?.account_id);
+  // Ocorrências já editadas à parte não voltam a seguir a regra
+  const canEditSeries = !!onSaveSeries && !!bill?.recurrence_id && !bill.recurrence_detached && isOpenBill(bill);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    if (!(value > 0)) {
+      toast({
+        title: 'Valor inválido',
+        description: 'Informe um valor maior que zero.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const input: BillInput = {
+      kind: formKind,
+      description,
+      counterparty: counterparty || null,
+      documentNumber: documentNumber || null,
+      categoryId: categoryId || null,
+      accountId: accountId || null,
+      amount: value,
+      competenceDate,
+      dueDate,
+      notes: notes || null,
+    };
+
+    setSaving(true);
+    const { error } = canEditSeries && scope === 'series'
+      ? await onSaveSeries(input, bill)
+      : await onSave(input, bill ?? undefined);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível salvar o título.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Sucesso',
+      description: canEditSeries && scope === 'series'
+        ? 'Recorrência atualizada a partir deste título.'
+        : bill ? 'Título atualizado com sucesso.' : 'Título criado com sucesso.',
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[540px]">
+        <DialogHeader>
+          <DialogTitle className="font-display">
+            {bill ? 'Editar Título' : `Nova Conta ${BILL_KINDS[formKind].label}`}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+          {canEditSeries && (
+            <div className="rounded-lg bg-muted/50 px-4 py-3 space-y-2">
+              <Label>Título recorrente: aplicar a alteração em</Label>
+              <RadioGroup value={scope} onValueChange={(v) => setScope(v as EditScope)} className="flex flex-wrap gap-4">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="single" id="bill-scope-single" />
+                  <Label htmlFor="bill-scope-single" className="font-normal">Somente este título</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="series" id="bill-scope-series" />
+                  <Label htmlFor="bill-scope-series" className="font-normal">Este e os próximos</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={formKind} onValueChange={(v) => setFormKind(v as BillKind)} disabled={!!bill}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BILL_KINDS).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bill-document">Documento</Label>
+              <Input
+                id="bill-document"
+                value={documentNumber}
+                onChange={(e) => setDocumentNumber(e.target.value)}
+                placeholder="Nº da nota, boleto..."
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="bill-description">Descrição</Label>
+              <Input
+                id="bill-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Ex: Aluguel do galpão"
+                required
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="bill-counterparty">{BILL_KINDS[formKind].counterparty}</Label>
+              <Input
+                id="bill-counterparty"
+                value={counterparty}
+                onChange={(e) => setCounterparty(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bill-amount">Valor</Label>
+              <Input
+                id="bill-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0,00"
+                disabled={locked}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select value={categoryId || NONE_VALUE} onValueChange={(v) => setCategoryId(v === NONE_VALUE ? '' : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE_VALUE}>Sem categoria</SelectItem>
+                  {categories.map(cat => (
+                    <SelectItem key={cat.id} value={cat.id}>
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} />
+                        {cat.name}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bill-competence">Competência</Label>
+              <Input
+                id="bill-competence"
+                type="date"
+                value={competenceDate}
+                onChange={(e) => setCompetenceDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bill-due">Vencimento</Label>
+              <Input
+                id="bill-due"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                disabled={locked}
+                required
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Conta prevista</Label>
+              <AccountSelect
+                accounts={selectableAccounts}
+                value={accountId || NONE_VALUE}
+                onChange={(v) => setAccountId(v === NONE_VALUE ? '' : v)}
+                emptyOption={{ value: NONE_VALUE, label: 'Conta padrão' }}
+                disabled={locked}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="bill-notes">Observações</Label>
+              <Textarea
+                id="bill-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notas adicionais..."
+                rows={2}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {bill ? 'Salvar' : 'Criar'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,401 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { useToast } from '@/hooks/use-toast';
+import type { RecurrenceInput } from '@/hooks/useRecurrences';
+import type { Account } from '@/lib/accounts';
+import { BILL_KINDS, BillKind } from '@/lib/bills';
+import {
+  RECURRENCE_FREQUENCIES,
+  RECURRENCE_HORIZON_DAYS,
+  Recurrence,
+  RecurrenceFrequency,
+  previewDates,
+} from '@/lib/recurrences';
+
+const NONE_VALUE = '__none__';
+
+type EndMode = 'never' | 'date' | 'count';
+
+const PREVIEW_COUNT = 4;
+
+const formatDay = (value: string) => value.split('-').reverse().join('/');
+
+interface RecurrenceCategory {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface RecurrenceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Regra em edição; sem ela, cria uma nova do tipo `kind` */
+  recurrence: Recurrence | null;
+  kind: BillKind;
+  categories: RecurrenceCategory[];
+  accounts: Account[];
+  today: string;
+  onSave: (input: RecurrenceInput, recurrence?: Recurrence) => Promise<{ error: Error | null }>;
+}
+
+/**
+ * Cadastro de recorrência: os títulos são gerados automaticamente a cada vencimento
+ */
+export function RecurrenceDialog({
+  open,
+  onOpenChange,
+  recurrence,
+  kind,
+  categories,
+  accounts,
+  today,
+  onSave,
+}: RecurrenceDialogProps) {
+  const { toast } = useToast();
+  const [formKind, setFormKind] = useState<BillKind>(kind);
+  const [description, setDescription] = useState('');
+  const [counterparty, setCounterparty] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+  const [intervalCount, setIntervalCount] = useState('1');
+  const [dayOfMonth, setDayOfMonth] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endMode, setEndMode] = useState<EndMode>('never');
+  const [endDate, setEndDate] = useState('');
+  const [maxOccurrences, setMaxOccurrences] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormKind((recurrence?.kind as BillKind) || kind);
+    setDescription(recurrence?.description || '');
+    setCounterparty(recurrence?.counterparty || '');
+    setCategoryId(recurrence?.category_id || '');
+    setAccountId(recurrence?.account_id || '');
+    setAmount(recurrence ? String(recurrence.amount) : '');
+    setFrequency((recurrence?.frequency as RecurrenceFrequency) || 'monthly');
+    setIntervalCount(String(recurrence?.interval_count ?? 1));
+    setDayOfMonth(String(recurrence?.day_of_month ?? Number(today.slice(8, 10))));
+    setStartDate(recurrence?.start_date || today);
+    setEndMode(recurrence?.max_occurrences ? 'count' : recurrence?.end_date ? 'date' : 'never');
+    setEndDate(recurrence?.end_date || '');
+    setMaxOccurrences(recurrence?.max_occurrences ? String(recurrence.max_occurrences) : '');
+    setNotes(recurrence?.notes || '');
+  }, [open, recurrence, kind, today]);
+
+  const selectableAccounts = accounts.filter(a => !a.archived || a.id === recurrence?.account_id);
+  const interval = parseInt(intervalCount) || 1;
+  const day = frequency === 'weekly' ? null : parseInt(dayOfMonth) || null;
+  const frequencyInfo = RECURRENCE_FREQUENCIES[frequency];
+
+  const preview = !recurrence && startDate && (frequency === 'weekly' || day)
+    ? previewDates({
+      frequency,
+      intervalCount: interval,
+      dayOfMonth: day,
+      startDate,
+      endDate: endMode === 'date' ? endDate || null : null,
+      maxOccurrences: endMode === 'count' ? parseInt(maxOccurrences) || null : null,
+    }, PREVIEW_COUNT)
+    : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    if (!(value > 0)) {
+      toast({
+        title: 'Valor inválido',
+        description: 'Informe um valor maior que zero.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (frequency !== 'weekly' && !(day >= 1 && day <= 31)) {
+      toast({
+        title: 'Dia inválido',
+        description: 'Informe o dia do vencimento, de 1 a 31.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (endMode === 'date' && endDate < startDate) {
+      toast({
+        title: 'Data final inválida',
+        description: 'A data final não pode ser anterior ao início.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await onSave({
+      kind: formKind,
+      description,
+      counterparty: counterparty || null,
+      categoryId: categoryId || null,
+      accountId: accountId || null,
+      amount: value,
+      notes: notes || null,
+      frequency,
+      intervalCount: interval,
+      dayOfMonth: day,
+      startDate,
+      endDate: endMode === 'date' ? endDate : null,
+      maxOccurrences: endMode === 'count' ? parseInt(maxOccurrences) || null : null,
+    }, recurrence ?? undefined);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível salvar a recorrência.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Sucesso',
+      description: recurrence
+        ? 'Recorrência atualizada; os títulos em aberto a partir de hoje foram refeitos.'
+        : 'Recorrência criada e próximos títulos gerados.',
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display">
+            {recurrence ? 'Editar Recorrência' : 'Nova Recorrência'}
+          </DialogTitle>
+          <DialogDescription>
+            Os títulos são gerados automaticamente {RECURRENCE_HORIZON_DAYS} dias antes do vencimento.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={formKind} onValueChange={(v) => setFormKind(v as BillKind)} disabled={!!recurrence}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BILL_KINDS).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurrence-amount">Valor</Label>
+              <Input
+                id="recurrence-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0,00"
+                required
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="recurrence-description">Descrição</Label>
+              <Input
+                id="recurrence-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Ex: Aluguel, assinatura, pró-labore"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurrence-counterparty">{BILL_KINDS[formKind].counterparty}</Label>
+              <Input
+                id="recurrence-counterparty"
+                value={counterparty}
+                onChange={(e) => setCounterparty(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select value={categoryId || NONE_VALUE} onValueChange={(v) => setCategoryId(v === NONE_VALUE ? '' : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE_VALUE}>Sem categoria</SelectItem>
+                  {categories.map(cat => (
+                    <SelectItem key={cat.id} value={cat.id}>
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} />
+                        {cat.name}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Conta prevista</Label>
+              <AccountSelect
+                accounts={selectableAccounts}
+                value={accountId || NONE_VALUE}
+                onChange={(v) => setAccountId(v === NONE_VALUE ? '' : v)}
+                emptyOption={{ value: NONE_VALUE, label: 'Conta padrão' }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Frequência</Label>
+              <Select value={frequency} onValueChange={(v) => setFrequency(v as RecurrenceFrequency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RECURRENCE_FREQUENCIES).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurrence-interval">
+                A cada ({interval === 1 ? frequencyInfo.unit : frequencyInfo.units})
+              </Label>
+              <Input
+                id="recurrence-interval"
+                type="number"
+                min="1"
+                max="60"
+                value={intervalCount}
+                onChange={(e) => setIntervalCount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurrence-start">Início</Label>
+              <Input
+                id="recurrence-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={!!recurrence}
+                required
+              />
+            </div>
+            {frequency !== 'weekly' && (
+              <div className="space-y-2">
+                <Label htmlFor="recurrence-day">Dia do vencimento</Label>
+                <Input
+                  id="recurrence-day"
+                  type="number"
+                  min="1"
+                  max="31"
+                  value={dayOfMonth}
+                  onChange={(e) => setDayOfMonth(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Término</Label>
+              <Select value={endMode} onValueChange={(v) => setEndMode(v as EndMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Sem data final</SelectItem>
+                  <SelectItem value="date">Até uma data</SelectItem>
+                  <SelectItem value="count">Número de ocorrências</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {endMode === 'date' && (
+              <div className="space-y-2">
+                <Label htmlFor="recurrence-end">Data final</Label>
+                <Input
+                  id="recurrence-end"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+            {endMode === 'count' && (
+              <div className="space-y-2">
+                <Label htmlFor="recurrence-count">Ocorrências</Label>
+                <Input
+                  id="recurrence-count"
+                  type="number"
+                  min="1"
+                  value={maxOccurrences}
+                  onChange={(e) => setMaxOccurrences(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="recurrence-notes">Observações</Label>
+              <Textarea
+                id="recurrence-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notas adicionais..."
+                rows={2}
+              />
+            </div>
+          </div>
+          {preview.length > 0 && (
+            <div className="rounded-lg bg-muted/50 px-4 py-3 text-sm">
+              <span className="text-muted-foreground">Próximos vencimentos: </span>
+              {preview.map(formatDay).join(', ')}
+              {preview.length === PREVIEW_COUNT && '...'}
+            </div>
+          )}
+          {recurrence && (
+            <p className="text-xs text-muted-foreground">
+              Ao salvar, os títulos em aberto a partir de hoje são refeitos com a nova regra.
+              Títulos baixados e os editados individualmente não mudam.
+            </p>
+          )}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {recurrence ? 'Salvar' : 'Criar'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
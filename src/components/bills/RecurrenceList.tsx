@@ -0,0 +1,140 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Pencil, Trash2, Pause, Play } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { BILL_KINDS, BillKind } from '@/lib/bills';
+import { Recurrence, describeRecurrence } from '@/lib/recurrences';
+
+interface RecurrenceListProps {
+  recurrences: Recurrence[];
+  loading: boolean;
+  categoryNames: Map<string, string>;
+  canEdit: boolean;
+  isAdmin: boolean;
+  onEdit: (recurrence: Recurrence) => void;
+  onToggleActive: (recurrence: Recurrence) => void;
+  onDelete: (recurrence: Recurrence) => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+/**
+ * Regras de recorrência com a frequência e quantas ocorrências já foram geradas
+ */
+export function RecurrenceList({
+  recurrences,
+  loading,
+  categoryNames,
+  canEdit,
+  isAdmin,
+  onEdit,
+  onToggleActive,
+  onDelete,
+}: RecurrenceListProps) {
+  const columnCount = 6 + (canEdit ? 1 : 0);
+
+  return (
+    <div className="card-finance overflow-hidden">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Descrição</TableHead>
+              <TableHead>Tipo</TableHead>
+              <TableHead>Frequência</TableHead>
+              <TableHead className="text-right">Valor</TableHead>
+              <TableHead>Gerados</TableHead>
+              <TableHead>Situação</TableHead>
+              {canEdit && <TableHead className="w-[130px]">Ações</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                  Carregando...
+                </TableCell>
+              </TableRow>
+            ) : recurrences.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                  Nenhuma recorrência cadastrada.
+                </TableCell>
+              </TableRow>
+            ) : (
+              recurrences.map((recurrence) => (
+                <TableRow key={recurrence.id} className={cn(!recurrence.active && 'opacity-60')}>
+                  <TableCell>
+                    <p className="font-medium">{recurrence.description}</p>
+                    {(recurrence.counterparty || recurrence.category_id) && (
+                      <p className="text-xs text-muted-foreground">
+                        {[recurrence.counterparty, recurrence.category_id && categoryNames.get(recurrence.category_id)]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{BILL_KINDS[recurrence.kind as BillKind]?.label ?? recurrence.kind}</TableCell>
+                  <TableCell className="text-sm">{describeRecurrence(recurrence)}</TableCell>
+                  <TableCell className={cn(
+                    'text-right font-semibold whitespace-nowrap',
+                    recurrence.kind === 'payable' ? 'text-destructive' : 'text-primary',
+                  )}>
+                    {formatCurrency(Number(recurrence.amount))}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {recurrence.max_occurrences
+                      ? `${recurrence.generated_count}/${recurrence.max_occurrences}`
+                      : recurrence.generated_count}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={cn(recurrence.active ? 'border-primary text-primary' : 'text-muted-foreground')}>
+                      {recurrence.active ? 'Ativa' : 'Pausada'}
+                    </Badge>
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" title="Editar" onClick={() => onEdit(recurrence)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={recurrence.active ? 'Pausar' : 'Retomar'}
+                          onClick={() => onToggleActive(recurrence)}
+                        >
+                          {recurrence.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                        </Button>
+                        {isAdmin && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Excluir"
+                            onClick={() => onDelete(recurrence)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { useToast } from '@/hooks/use-toast';
+import type { SettlementInput } from '@/hooks/useBills';
+import type { Account } from '@/lib/accounts';
+import { Bill, settledAmount } from '@/lib/bills';
+
+const NONE_VALUE = '__none__';
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+interface SettleBillDialogProps {
+  /** Título a baixar; null fecha o diálogo */
+  bill: Bill | null;
+  onClose: () => void;
+  accounts: Account[];
+  today: string;
+  onSettle: (bill: Bill, input: SettlementInput) => Promise<{ error: Error | null }>;
+}
+
+/**
+ * Baixa de título: data do pagamento, conta e juros/desconto sobre o valor original
+ */
+export function SettleBillDialog({ bill, onClose, accounts, today, onSettle }: SettleBillDialogProps) {
+  const { toast } = useToast();
+  const [paidAt, setPaidAt] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [interest, setInterest] = useState('');
+  const [discount, setDiscount] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!bill) return;
+    setPaidAt(today);
+    setAccountId(bill.account_id || '');
+    setInterest('');
+    setDiscount('');
+  }, [bill, today]);
+
+  const amount = Number(bill?.amount ?? 0);
+  const interestValue = parseFloat(interest) || 0;
+  const discountValue = parseFloat(discount) || 0;
+  const total = settledAmount(amount, interestValue, discountValue);
+  const isPayable = bill?.kind === 'payable';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bill) return;
+
+    if (interestValue < 0 || discountValue < 0 || total <= 0) {
+      toast({
+        title: 'Valores inválidos',
+        description: 'Juros e desconto não podem ser negativos nem zerar o valor pago.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await onSettle(bill, {
+      paidAt,
+      interest: interestValue,
+      discount: discountValue,
+      accountId: accountId || null,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível baixar o título.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Sucesso',
+      description: isPayable ? 'Pagamento registrado.' : 'Recebimento registrado.',
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!bill} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="font-display">
+            {isPayable ? 'Registrar Pagamento' : 'Registrar Recebimento'}
+          </DialogTitle>
+          <DialogDescription>
+            {bill?.description} · {formatCurrency(amount)}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settle-date">{isPayable ? 'Data do pagamento' : 'Data do recebimento'}</Label>
+              <Input
+                id="settle-date"
+                type="date"
+                value={paidAt}
+                onChange={(e) => setPaidAt(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Conta</Label>
+              <AccountSelect
+                accounts={accounts.filter(a => !a.archived || a.id === bill?.account_id)}
+                value={accountId || NONE_VALUE}
+                onChange={(v) => setAccountId(v === NONE_VALUE ? '' : v)}
+                emptyOption={{ value: NONE_VALUE, label: 'Conta padrão' }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settle-interest">Juros e multa</Label>
+              <Input
+                id="settle-interest"
+                type="number"
+                step="0.01"
+                min="0"
+                value={interest}
+                onChange={(e) => setInterest(e.target.value)}
+                placeholder="0,00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settle-discount">Desconto</Label>
+              <Input
+                id="settle-discount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={discount}
+                onChange={(e) => setDiscount(e.target.value)}
+                placeholder="0,00"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between rounded-lg bg-muted/50 px-4 py-3">
+            <span className="text-sm text-muted-foreground">{isPayable ? 'Valor pago' : 'Valor recebido'}</span>
+            <span className="text-lg font-semibold">{formatCurrency(total)}</span>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              Confirmar baixa
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
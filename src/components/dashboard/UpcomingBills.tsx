@@ -0,0 +1,59 @@
+import { Link } from 'react-router-dom';
+import { AlertTriangle, ArrowRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { DueSummary } from '@/lib/bills';
+
+interface UpcomingBillsProps {
+  next7: DueSummary;
+  next30: DueSummary;
+  overdue: DueSummary;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+function DueColumn({ title, summary, highlight }: { title: string; summary: DueSummary; highlight?: boolean }) {
+  return (
+    <div className={cn('p-4 rounded-lg bg-secondary/50', highlight && summary.count > 0 && 'bg-destructive/10')}>
+      <p className={cn('text-sm font-medium text-muted-foreground', highlight && summary.count > 0 && 'text-destructive')}>
+        {highlight && summary.count > 0 && <AlertTriangle className="inline h-4 w-4 mr-1 -mt-0.5" />}
+        {title}
+      </p>
+      <div className="mt-2 space-y-1 text-sm">
+        <div className="flex justify-between gap-2">
+          <span className="text-muted-foreground">A pagar</span>
+          <span className="font-semibold text-destructive">{formatCurrency(summary.payable)}</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-muted-foreground">A receber</span>
+          <span className="font-semibold text-primary">{formatCurrency(summary.receivable)}</span>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        {summary.count} {summary.count === 1 ? 'título' : 'títulos'}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Títulos em aberto: vencidos e a vencer nos próximos 7 e 30 dias
+ */
+export function UpcomingBills({ next7, next30, overdue }: UpcomingBillsProps) {
+  return (
+    <div className="card-finance">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-display font-semibold">Vencimentos</h3>
+        <Link to="/bills" className="text-sm text-primary flex items-center gap-1 hover:underline">
+          Contas a pagar e receber
+          <ArrowRight className="h-4 w-4" />
+        </Link>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <DueColumn title="Vencidos" summary={overdue} highlight />
+        <DueColumn title="Próximos 7 dias" summary={next7} />
+        <DueColumn title="Próximos 30 dias" summary={next30} />
+      </div>
+    </div>
+  );
+}
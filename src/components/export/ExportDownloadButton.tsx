@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCompany } from '@/hooks/useCompany';
+import { useToast } from '@/hooks/use-toast';
+import type { ExportHistoryItem } from '@/hooks/useExportHistory';
+import { isExportAvailable } from '@/lib/export/history';
+import { downloadBlob } from '@/lib/export/reports';
+
+interface ExportDownloadButtonProps {
+  item: ExportHistoryItem;
+  download: (item: ExportHistoryItem) => Promise<{ error: Error | null; blob: Blob | null }>;
+}
+
+/**
+ * Baixa novamente o arquivo de uma exportação do histórico; a trilha de auditoria só para admins
+ */
+export function ExportDownloadButton({ item, download }: ExportDownloadButtonProps) {
+  const { isAdmin } = useCompany();
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState(false);
+  const restricted = item.export_type === 'audit_trail' && !isAdmin;
+  const available = isExportAvailable(item) && !restricted;
+
+  const handleClick = async () => {
+    setDownloading(true);
+    try {
+      const { error, blob } = await download(item);
+      if (error || !blob) {
+        toast({
+          title: 'Erro',
+          description: error?.message || 'Não foi possível baixar o arquivo.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      downloadBlob(blob, item.file_name);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-7 w-7"
+      onClick={handleClick}
+      disabled={!available || downloading}
+      title={
+        restricted
+          ? 'Apenas administradores podem baixar a trilha de auditoria'
+          : available
+            ? 'Baixar arquivo'
+            : 'Arquivo não disponível (não guardado ou removido pela retenção)'
+      }
+    >
+      <Download className="h-4 w-4" />
+    </Button>
+  );
+}
@@ -0,0 +1,276 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { ExportSchedule, ExportScheduleInput } from '@/hooks/useExportSchedules';
+import { EXPORT_TYPE_LABELS, ExportType } from '@/lib/export/reports';
+import type { ExportTemplate } from '@/lib/export/templates';
+import {
+  MAX_DAY_OF_MONTH,
+  SCHEDULE_FREQUENCIES,
+  SCHEDULE_PERIODS,
+  ScheduleFrequency,
+  SchedulePeriod,
+  WEEKDAYS,
+  parseRecipients,
+} from '@/lib/export/schedules';
+
+// Mesmo formato da lista de tipos da tela de exportação
+const TEMPLATE_PREFIX = 'template:';
+
+const FORMATS: Record<ExportSchedule['format'], string> = {
+  xlsx: 'XLSX (Excel)',
+  csv: 'CSV',
+  pdf: 'PDF',
+};
+
+interface ExportScheduleDialogProps {
+  open: boolean;
+  /** Agendamento em edição; null cria um novo */
+  schedule: ExportSchedule | null;
+  templates: ExportTemplate[];
+  onClose: () => void;
+  onSave: (input: ExportScheduleInput, scheduleId?: string) => Promise<boolean>;
+}
+
+export function ExportScheduleDialog({ open, schedule, templates, onClose, onSave }: ExportScheduleDialogProps) {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<string>('monthly_summary');
+  const [format, setFormat] = useState<ExportSchedule['format']>('xlsx');
+  const [frequency, setFrequency] = useState<ScheduleFrequency>('monthly');
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [hour, setHour] = useState(8);
+  const [period, setPeriod] = useState<SchedulePeriod>('previous_month');
+  const [recipients, setRecipients] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(schedule?.name || '');
+    setType(schedule?.exportType === 'template'
+      ? `${TEMPLATE_PREFIX}${schedule.templateId}`
+      : schedule?.exportType || 'monthly_summary');
+    setFormat(schedule?.format || 'xlsx');
+    setFrequency(schedule?.frequency || 'monthly');
+    setDayOfWeek(schedule?.dayOfWeek ?? 1);
+    setDayOfMonth(schedule?.dayOfMonth ?? 1);
+    setHour(schedule?.hour ?? 8);
+    setPeriod(schedule?.period || 'previous_month');
+    setRecipients(schedule?.recipients.join(', ') || '');
+    setError(null);
+  }, [open, schedule]);
+
+  const isTemplate = type.startsWith(TEMPLATE_PREFIX);
+
+  const handleTypeChange = (value: string) => {
+    setType(value);
+    // Modelos definem colunas de planilha; não há PDF de modelo
+    if (value.startsWith(TEMPLATE_PREFIX) && format === 'pdf') setFormat('xlsx');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { valid, invalid } = parseRecipients(recipients);
+    if (!name.trim()) return setError('Informe o nome do agendamento.');
+    if (isTemplate && !templates.some(t => `${TEMPLATE_PREFIX}${t.id}` === type)) {
+      return setError('Selecione um modelo de exportação.');
+    }
+    if (invalid.length > 0) return setError(`E-mails inválidos: ${invalid.join(', ')}`);
+
+    setSaving(true);
+    try {
+      const saved = await onSave({
+        name,
+        exportType: isTemplate ? 'template' : type,
+        templateId: isTemplate ? type.slice(TEMPLATE_PREFIX.length) : null,
+        format,
+        frequency,
+        dayOfWeek: frequency === 'weekly' ? dayOfWeek : null,
+        dayOfMonth: frequency === 'monthly' ? dayOfMonth : null,
+        hour,
+        period,
+        recipients: valid,
+      }, schedule?.id);
+      if (saved) onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !saving && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{schedule ? 'Editar agendamento' : 'Nova exportação agendada'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="schedule_name">Nome</Label>
+            <Input
+              id="schedule_name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Fechamento mensal para o contador"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo de exportação</Label>
+              <Select value={type} onValueChange={handleTypeChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {/* A trilha de auditoria só é exportada manualmente, por admins */}
+                  {(Object.keys(EXPORT_TYPE_LABELS) as ExportType[]).filter(value => value !== 'audit_trail').map(value => (
+                    <SelectItem key={value} value={value}>{EXPORT_TYPE_LABELS[value]}</SelectItem>
+                  ))}
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={`${TEMPLATE_PREFIX}${template.id}`}>
+                      Modelo: {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Formato</Label>
+              <Select value={format} onValueChange={(v) => setFormat(v as ExportSchedule['format'])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FORMATS).map(([value, label]) => (
+                    <SelectItem key={value} value={value} disabled={value === 'pdf' && isTemplate}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Frequência</Label>
+              <Select value={frequency} onValueChange={(v) => setFrequency(v as ScheduleFrequency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SCHEDULE_FREQUENCIES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {frequency === 'weekly' && (
+              <div className="space-y-2">
+                <Label>Dia da semana</Label>
+                <Select value={String(dayOfWeek)} onValueChange={(v) => setDayOfWeek(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((label, index) => (
+                      <SelectItem key={index} value={String(index)}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {frequency === 'monthly' && (
+              <div className="space-y-2">
+                <Label>Dia do mês</Label>
+                <Select value={String(dayOfMonth)} onValueChange={(v) => setDayOfMonth(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: MAX_DAY_OF_MONTH }, (_, i) => i + 1).map(day => (
+                      <SelectItem key={day} value={String(day)}>Dia {day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Horário (fuso da empresa)</Label>
+              <Select value={String(hour)} onValueChange={(v) => setHour(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 24 }, (_, i) => i).map(h => (
+                    <SelectItem key={h} value={String(h)}>{String(h).padStart(2, '0')}:00</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Período exportado</Label>
+            <Select value={period} onValueChange={(v) => setPeriod(v as SchedulePeriod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SCHEDULE_PERIODS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Relativo à data de cada execução
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule_recipients">Destinatários</Label>
+            <Textarea
+              id="schedule_recipients"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              placeholder="contador@escritorio.com.br, financeiro@empresa.com.br"
+              rows={2}
+            />
+            <p className="text-xs text-muted-foreground">
+              Recebem um link para baixar o arquivo. Sem destinatários, o arquivo fica apenas no histórico.
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Salvando...' : 'Salvar agendamento'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,317 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { ExportTemplateInput } from '@/hooks/useExportTemplates';
+import {
+  DEFAULT_TEMPLATE_COLUMNS,
+  ExportTemplate,
+  TEMPLATE_DATE_FORMATS,
+  TEMPLATE_FIELDS,
+  TEMPLATE_NUMBER_FORMATS,
+  TEMPLATE_ORIGINS,
+  TemplateColumn,
+  TemplateDateFormat,
+  TemplateField,
+  TemplateNumberFormat,
+  UNCATEGORIZED_FILTER,
+} from '@/lib/export/templates';
+
+const ALL_TYPES = '__all__';
+
+interface ExportTemplateDialogProps {
+  open: boolean;
+  /** Modelo em edição; null cria um novo a partir das colunas padrão */
+  template: ExportTemplate | null;
+  categories: { id: string; name: string }[];
+  onClose: () => void;
+  onSave: (input: ExportTemplateInput, templateId?: string) => Promise<boolean>;
+}
+
+const parseAmountInput = (value: string): number | null => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return value.trim() && isFinite(parsed) ? parsed : null;
+};
+
+export function ExportTemplateDialog({ open, template, categories, onClose, onSave }: ExportTemplateDialogProps) {
+  const [name, setName] = useState('');
+  const [columns, setColumns] = useState<TemplateColumn[]>(DEFAULT_TEMPLATE_COLUMNS);
+  const [dateFormat, setDateFormat] = useState<TemplateDateFormat>('dd/MM/yyyy');
+  const [numberFormat, setNumberFormat] = useState<TemplateNumberFormat>('number');
+  const [type, setType] = useState<string>(ALL_TYPES);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [origins, setOrigins] = useState<string[]>([]);
+  const [sources, setSources] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name || '');
+    setColumns(template?.columns.length ? template.columns : DEFAULT_TEMPLATE_COLUMNS);
+    setDateFormat(template?.dateFormat || 'dd/MM/yyyy');
+    setNumberFormat(template?.numberFormat || 'number');
+    setType(template?.filters.type || ALL_TYPES);
+    setCategoryIds(template?.filters.categoryIds || []);
+    setOrigins(template?.filters.origins || []);
+    setSources(template?.filters.sources?.join(', ') || '');
+    setMinAmount(template?.filters.minAmount?.toString() || '');
+    setMaxAmount(template?.filters.maxAmount?.toString() || '');
+    setError(null);
+  }, [open, template]);
+
+  const availableFields = (Object.keys(TEMPLATE_FIELDS) as TemplateField[])
+    .filter(field => !columns.some(c => c.field === field));
+
+  const moveColumn = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    setColumns(next);
+  };
+
+  const toggle = (list: string[], value: string, checked: boolean) =>
+    checked ? [...list, value] : list.filter(v => v !== value);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const headers = columns.map(c => c.header.trim());
+    if (!name.trim()) return setError('Informe o nome do modelo.');
+    if (columns.length === 0) return setError('Selecione ao menos uma coluna.');
+    if (headers.some(h => !h)) return setError('Todas as colunas precisam de um título.');
+    if (new Set(headers.map(h => h.toLowerCase())).size !== headers.length) {
+      return setError('Os títulos das colunas precisam ser diferentes entre si.');
+    }
+
+    const min = parseAmountInput(minAmount);
+    const max = parseAmountInput(maxAmount);
+    if (min !== null && max !== null && min > max) return setError('O valor mínimo é maior que o máximo.');
+
+    setSaving(true);
+    try {
+      const saved = await onSave({
+        name,
+        columns: columns.map((c, i) => ({ field: c.field, header: headers[i] })),
+        dateFormat,
+        numberFormat,
+        filters: {
+          type: type === ALL_TYPES ? null : (type as 'income' | 'expense'),
+          categoryIds,
+          origins,
+          sources: sources.split(',').map(s => s.trim()).filter(Boolean),
+          minAmount: min,
+          maxAmount: max,
+        },
+      }, template?.id);
+      if (saved) onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !saving && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Editar modelo de exportação' : 'Novo modelo de exportação'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="template_name">Nome</Label>
+            <Input
+              id="template_name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Vendas para o contador"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Colunas</Label>
+            <div className="space-y-2">
+              {columns.map((column, index) => (
+                <div key={column.field} className="flex items-center gap-2">
+                  <span className="w-36 shrink-0 text-sm text-muted-foreground truncate">
+                    {TEMPLATE_FIELDS[column.field].label}
+                  </span>
+                  <Input
+                    value={column.header}
+                    onChange={(e) => setColumns(columns.map((c, i) => i === index ? { ...c, header: e.target.value } : c))}
+                    aria-label={`Título da coluna ${TEMPLATE_FIELDS[column.field].label}`}
+                  />
+                  <Button type="button" variant="ghost" size="icon" onClick={() => moveColumn(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveColumn(index, 1)}
+                    disabled={index === columns.length - 1}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setColumns(columns.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            {availableFields.length > 0 && (
+              <Select
+                value=""
+                onValueChange={(field) => setColumns([
+                  ...columns,
+                  { field: field as TemplateField, header: TEMPLATE_FIELDS[field as TemplateField].label },
+                ])}
+              >
+                <SelectTrigger className="w-full sm:w-64">
+                  <Plus className="h-4 w-4 mr-2" />
+                  <SelectValue placeholder="Adicionar coluna" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableFields.map(field => (
+                    <SelectItem key={field} value={field}>{TEMPLATE_FIELDS[field].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Formato de data</Label>
+              <Select value={dateFormat} onValueChange={(v) => setDateFormat(v as TemplateDateFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TEMPLATE_DATE_FORMATS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Formato de números</Label>
+              <Select value={numberFormat} onValueChange={(v) => setNumberFormat(v as TemplateNumberFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TEMPLATE_NUMBER_FORMATS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <Label>Filtros (além do período)</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Tipo</Label>
+                <Select value={type} onValueChange={setType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TYPES}>Receitas e despesas</SelectItem>
+                    <SelectItem value="income">Somente receitas</SelectItem>
+                    <SelectItem value="expense">Somente despesas</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template_min" className="text-xs text-muted-foreground">Valor mínimo</Label>
+                <Input id="template_min" inputMode="decimal" value={minAmount} onChange={(e) => setMinAmount(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template_max" className="text-xs text-muted-foreground">Valor máximo</Label>
+                <Input id="template_max" inputMode="decimal" value={maxAmount} onChange={(e) => setMaxAmount(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Categorias (nenhuma marcada = todas)</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-40 overflow-y-auto p-1">
+                {[...categories, { id: UNCATEGORIZED_FILTER, name: 'Sem categoria' }].map(category => (
+                  <label key={category.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={categoryIds.includes(category.id)}
+                      onCheckedChange={(checked) => setCategoryIds(toggle(categoryIds, category.id, checked === true))}
+                    />
+                    <span className="truncate">{category.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Origem (nenhuma marcada = todas)</Label>
+                <div className="flex flex-wrap gap-4">
+                  {Object.entries(TEMPLATE_ORIGINS).map(([value, label]) => (
+                    <label key={value} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={origins.includes(value)}
+                        onCheckedChange={(checked) => setOrigins(toggle(origins, value, checked === true))}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template_sources" className="text-xs text-muted-foreground">Fontes</Label>
+                <Input
+                  id="template_sources"
+                  value={sources}
+                  onChange={(e) => setSources(e.target.value)}
+                  placeholder="Mercado Livre, Shopee (separar por vírgula)"
+                />
+              </div>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Salvando...' : 'Salvar modelo'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
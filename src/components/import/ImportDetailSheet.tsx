@@ -0,0 +1,130 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ImportStatusBadge } from '@/components/import/ImportStatusBadge';
+import type { ImportHistoryItem } from '@/hooks/useImportHistory';
+import { parseErrorDetails } from '@/lib/import/history';
+
+interface ImportDetailSheetProps {
+  item: ImportHistoryItem | null;
+  onClose: () => void;
+  /** Ausente para quem não pode importar */
+  onRetry?: (item: ImportHistoryItem) => void;
+}
+
+export function ImportDetailSheet({ item, onClose, onRetry }: ImportDetailSheetProps) {
+  const details = useMemo(() => parseErrorDetails(item?.error_details ?? null), [item]);
+  const failedRows = details.filter(d => d.label);
+  const generalErrors = details.filter(d => !d.label);
+  const retryable = failedRows.filter(d => d.values).length;
+
+  return (
+    <Sheet open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl overflow-y-auto">
+        {item && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="font-display">{item.file_name}</SheetTitle>
+              <SheetDescription>
+                {format(new Date(item.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 my-6">
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <p className="text-xs text-muted-foreground">Linhas</p>
+                <p className="text-lg font-semibold">{item.rows_total ?? '-'}</p>
+              </div>
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <p className="text-xs text-muted-foreground">Importadas</p>
+                <p className="text-lg font-semibold text-primary">{item.rows_imported ?? 0}</p>
+              </div>
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <p className="text-xs text-muted-foreground">Ignoradas</p>
+                <p className="text-lg font-semibold">{item.rows_skipped ?? 0}</p>
+              </div>
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <p className="text-xs text-muted-foreground">Com falha</p>
+                <p className="text-lg font-semibold text-destructive">{item.rows_failed ?? 0}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between mb-4">
+              <ImportStatusBadge status={item.status} />
+              {onRetry && retryable > 0 && (
+                <Button size="sm" className="gap-2" onClick={() => onRetry(item)}>
+                  <RotateCcw className="h-4 w-4" />
+                  Reprocessar {retryable} {retryable === 1 ? 'linha' : 'linhas'} com falha
+                </Button>
+              )}
+            </div>
+
+            {generalErrors.length > 0 && (
+              <div className="mb-4 p-3 rounded-lg bg-destructive/10 text-sm text-destructive space-y-1">
+                {generalErrors.map((d, i) => <p key={i}>{d.error}</p>)}
+              </div>
+            )}
+
+            {failedRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Nenhuma linha rejeitada nesta importação.
+              </p>
+            ) : (
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Linha</TableHead>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Descrição</TableHead>
+                      <TableHead>Valor</TableHead>
+                      <TableHead>Categoria</TableHead>
+                      <TableHead>Erro</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {failedRows.map((d, i) => (
+                      <TableRow key={i}>
+                        <TableCell className="whitespace-nowrap text-muted-foreground">{d.label}</TableCell>
+                        {d.values ? (
+                          <>
+                            <TableCell className="whitespace-nowrap">{d.values.date}</TableCell>
+                            <TableCell className="max-w-[200px] truncate">{d.values.description}</TableCell>
+                            <TableCell className="whitespace-nowrap">{d.values.amount}</TableCell>
+                            <TableCell>{d.values.category}</TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={4} className="text-muted-foreground">
+                            Valores originais não registrados
+                          </TableCell>
+                        )}
+                        <TableCell className="text-destructive text-sm">{d.error}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { Bookmark, Save, Sparkles, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { ImportProfile } from '@/hooks/useImportProfiles';
+
+const NO_PROFILE = '__none__';
+
+interface ImportProfileBarProps {
+  profiles: ImportProfile[];
+  selectedId: string | null;
+  suggestedId: string | null;
+  onSelect: (profileId: string | null) => void;
+  onSave: (name: string, profileId?: string) => Promise<void>;
+  onDelete: (profileId: string) => Promise<void>;
+}
+
+export function ImportProfileBar({
+  profiles,
+  selectedId,
+  suggestedId,
+  onSelect,
+  onSave,
+  onDelete,
+}: ImportProfileBarProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [overwrite, setOverwrite] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const selectedProfile = profiles.find(p => p.id === selectedId) || null;
+
+  const openSaveDialog = () => {
+    setName(selectedProfile?.name || '');
+    setOverwrite(!!selectedProfile);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await onSave(name, overwrite && selectedProfile ? selectedProfile.id : undefined);
+      setDialogOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedProfile) return;
+    if (!confirm(`Excluir o perfil "${selectedProfile.name}"?`)) return;
+    await onDelete(selectedProfile.id);
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-end gap-3 p-4 bg-muted/50 rounded-lg">
+      <div className="flex-1 space-y-2">
+        <Label className="flex items-center gap-2">
+          <Bookmark className="h-4 w-4" />
+          Perfil de importação
+          {suggestedId && suggestedId === selectedId && (
+            <Badge variant="secondary" className="gap-1">
+              <Sparkles className="h-3 w-3" />
+              Reconhecido pelo cabeçalho
+            </Badge>
+          )}
+        </Label>
+        <Select
+          value={selectedId || NO_PROFILE}
+          onValueChange={(v) => onSelect(v === NO_PROFILE ? null : v)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PROFILE}>Nenhum (mapeamento manual)</SelectItem>
+            {profiles.map(p => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" className="gap-2" onClick={openSaveDialog}>
+          <Save className="h-4 w-4" />
+          Salvar perfil
+        </Button>
+        {selectedProfile && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleDelete}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle className="font-display">Salvar perfil de importação</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Nome</Label>
+              <Input
+                id="profile-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex: Extrato Mercado Livre"
+                required
+              />
+            </div>
+            {selectedProfile && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="profile-overwrite"
+                  checked={overwrite}
+                  onCheckedChange={(checked) => setOverwrite(checked === true)}
+                />
+                <Label htmlFor="profile-overwrite" className="font-normal">
+                  Atualizar o perfil "{selectedProfile.name}"
+                </Label>
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              O mapeamento, o formato de data, o separador decimal, a convenção de sinal,
+              a categoria padrão e a linha do cabeçalho serão reaplicados quando um arquivo
+              com o mesmo cabeçalho for enviado.
+            </p>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving || !name.trim()}>
+                {saving ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
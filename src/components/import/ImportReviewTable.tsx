@@ -0,0 +1,327 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeftRight, ChevronLeft, ChevronRight, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  CategoryRef,
+  ReviewRow,
+  RowFields,
+  formatCell,
+  isAccepted,
+  resolveCategory,
+} from '@/lib/import/review';
+
+type ReviewFilter = 'all' | 'valid' | 'invalid' | 'duplicate' | 'transfer' | 'excluded';
+
+/** Provável transferência de uma linha: a outra perna já lançada em outra conta */
+export interface ReviewTransfer {
+  accountName: string;
+  /** Vincular como transferência ao importar (o usuário pode desmarcar) */
+  linked: boolean;
+}
+
+const PAGE_SIZE = 50;
+
+const EDITABLE_FIELDS: { field: keyof RowFields; label: string }[] = [
+  { field: 'date', label: 'Data' },
+  { field: 'description', label: 'Descrição' },
+  { field: 'amount', label: 'Valor' },
+  { field: 'category', label: 'Categoria' },
+  { field: 'taxAmount', label: 'Imposto' },
+  { field: 'productCost', label: 'Custo' },
+];
+
+interface ImportReviewTableProps {
+  rows: ReviewRow[];
+  categories: CategoryRef[];
+  onFix: (index: number, fields: RowFields) => void;
+  onExclude: (index: number, excluded: boolean) => void;
+  /** Prováveis transferências por índice da linha */
+  transfers?: Map<number, ReviewTransfer>;
+  onLinkTransfer?: (index: number, linked: boolean) => void;
+}
+
+const NO_TRANSFERS = new Map<number, ReviewTransfer>();
+
+function matchesFilter(row: ReviewRow, filter: ReviewFilter, transfers: Map<number, ReviewTransfer>): boolean {
+  switch (filter) {
+    case 'valid':
+      return isAccepted(row);
+    case 'invalid':
+      return row.entry === null;
+    case 'duplicate':
+      return row.duplicate !== null;
+    case 'transfer':
+      return transfers.has(row.index);
+    case 'excluded':
+      return row.excluded;
+    default:
+      return true;
+  }
+}
+
+function StatusBadge({ row }: { row: ReviewRow }) {
+  if (row.excluded) return <Badge variant="outline">Excluída</Badge>;
+  if (!row.entry) return <Badge variant="destructive">Erro</Badge>;
+  if (row.duplicate === 'imported') return <Badge variant="secondary">Já importado</Badge>;
+  if (row.duplicate === 'probable') {
+    return <Badge variant="outline" className="border-warning text-warning">Possível duplicidade</Badge>;
+  }
+  return <Badge variant="secondary">{row.edited ? 'Corrigida' : 'Válida'}</Badge>;
+}
+
+export function ImportReviewTable({
+  rows,
+  categories,
+  onFix,
+  onExclude,
+  transfers = NO_TRANSFERS,
+  onLinkTransfer,
+}: ImportReviewTableProps) {
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [page, setPage] = useState(0);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Record<keyof RowFields, string> | null>(null);
+
+  const counts = useMemo(() => ({
+    all: rows.length,
+    valid: rows.filter(isAccepted).length,
+    invalid: rows.filter(r => r.entry === null).length,
+    duplicate: rows.filter(r => r.duplicate !== null).length,
+    transfer: rows.filter(r => transfers.has(r.index)).length,
+    excluded: rows.filter(r => r.excluded).length,
+  }), [rows, transfers]);
+
+  const filteredRows = useMemo(() => rows.filter(r => matchesFilter(r, filter, transfers)), [rows, filter, transfers]);
+  const pageCount = Math.max(1, Math.ceil(filteredRows.length / PAGE_SIZE));
+  const pageRows = filteredRows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  useEffect(() => {
+    setPage(0);
+  }, [filter]);
+
+  // Uma correção pode tirar a linha do filtro atual e esvaziar a última página
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [page, pageCount]);
+
+  const startEditing = (row: ReviewRow) => {
+    setEditingIndex(row.index);
+    setDraft(Object.fromEntries(
+      EDITABLE_FIELDS.map(({ field }) => [field, formatCell(row.fields[field])])
+    ) as Record<keyof RowFields, string>);
+  };
+
+  const cancelEditing = () => {
+    setEditingIndex(null);
+    setDraft(null);
+  };
+
+  const saveEditing = (row: ReviewRow) => {
+    if (!draft) return;
+    // Só substitui os campos alterados, preservando datas e números originais das células
+    const fields = { ...row.fields };
+    EDITABLE_FIELDS.forEach(({ field }) => {
+      if (draft[field] !== formatCell(row.fields[field])) fields[field] = draft[field];
+    });
+    onFix(row.index, fields);
+    cancelEditing();
+  };
+
+  const formatCurrency = (value: number) =>
+    value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2 text-sm">
+          <Badge variant="secondary">{counts.valid} serão importadas</Badge>
+          {counts.invalid > 0 && <Badge variant="destructive">{counts.invalid} com erro</Badge>}
+          {counts.duplicate > 0 && (
+            <Badge variant="outline" className="border-warning text-warning">{counts.duplicate} duplicidades</Badge>
+          )}
+          {counts.transfer > 0 && <Badge variant="outline">{counts.transfer} transferências prováveis</Badge>}
+          {counts.excluded > 0 && <Badge variant="outline">{counts.excluded} excluídas</Badge>}
+        </div>
+        <Select value={filter} onValueChange={(v) => setFilter(v as ReviewFilter)}>
+          <SelectTrigger className="w-full sm:w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas ({counts.all})</SelectItem>
+            <SelectItem value="valid">A importar ({counts.valid})</SelectItem>
+            <SelectItem value="invalid">Com erro ({counts.invalid})</SelectItem>
+            <SelectItem value="duplicate">Duplicidades ({counts.duplicate})</SelectItem>
+            <SelectItem value="transfer">Transferências ({counts.transfer})</SelectItem>
+            <SelectItem value="excluded">Excluídas ({counts.excluded})</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10" />
+              <TableHead>Linha</TableHead>
+              <TableHead>Data</TableHead>
+              <TableHead>Descrição</TableHead>
+              <TableHead>Tipo</TableHead>
+              <TableHead className="text-right">Valor</TableHead>
+              <TableHead>Categoria</TableHead>
+              <TableHead>Situação</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageRows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                  Nenhuma linha neste filtro
+                </TableCell>
+              </TableRow>
+            ) : pageRows.map((row) => {
+              const category = row.entry ? resolveCategory(row.entry, categories) : null;
+              const editing = editingIndex === row.index && draft;
+              const transfer = transfers.get(row.index);
+
+              return (
+                <Fragment key={row.index}>
+                  <TableRow className={!row.entry && !row.excluded ? 'bg-destructive/5' : row.excluded ? 'opacity-60' : ''}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!row.excluded}
+                        disabled={row.duplicate === 'imported'}
+                        onCheckedChange={(checked) => onExclude(row.index, checked !== true)}
+                        aria-label="Incluir linha"
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">{row.label}</TableCell>
+                    {row.entry ? (
+                      <>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(row.entry.date + 'T00:00:00'), 'dd/MM/yyyy')}
+                        </TableCell>
+                        <TableCell className="max-w-[280px] truncate">{row.entry.description}</TableCell>
+                        <TableCell>{row.entry.type === 'income' ? 'Receita' : 'Despesa'}</TableCell>
+                        <TableCell className={`text-right whitespace-nowrap ${row.entry.type === 'income' ? 'text-primary' : 'text-destructive'}`}>
+                          {formatCurrency(row.entry.amount)}
+                        </TableCell>
+                        <TableCell>
+                          {category ? (
+                            <div className="flex items-center gap-2">
+                              {category.color && (
+                                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color }} />
+                              )}
+                              <span>{category.name}</span>
+                              {category.isNew && <Badge variant="outline">nova</Badge>}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">Sem categoria</span>
+                          )}
+                        </TableCell>
+                      </>
+                    ) : (
+                      <TableCell colSpan={5}>
+                        <p className="text-sm truncate max-w-[480px]">
+                          {EDITABLE_FIELDS.map(({ field }) => formatCell(row.fields[field])).filter(Boolean).join(' · ')}
+                        </p>
+                        <p className="text-xs text-destructive">{row.errors.join('; ')}</p>
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <div className="flex flex-col items-start gap-1">
+                        <StatusBadge row={row} />
+                        {transfer && (
+                          <label className="flex items-center gap-1.5 text-xs text-muted-foreground whitespace-nowrap">
+                            <Checkbox
+                              checked={transfer.linked}
+                              disabled={!onLinkTransfer}
+                              onCheckedChange={(checked) => onLinkTransfer?.(row.index, checked === true)}
+                              aria-label="Vincular como transferência"
+                            />
+                            <ArrowLeftRight className="h-3 w-3" />
+                            Transferência com {transfer.accountName}
+                          </label>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => editing ? cancelEditing() : startEditing(row)}
+                        aria-label="Corrigir linha"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+
+                  {editing && (
+                    <TableRow className="hover:bg-transparent">
+                      <TableCell colSpan={9} className="bg-muted/50">
+                        <div className="grid gap-3 md:grid-cols-3 lg:grid-cols-6">
+                          {EDITABLE_FIELDS.map(({ field, label }) => (
+                            <div key={field} className="space-y-1">
+                              <Label className="text-xs">{label}</Label>
+                              <Input
+                                value={draft[field]}
+                                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex justify-end gap-2 mt-3">
+                          <Button variant="outline" size="sm" onClick={cancelEditing}>
+                            Cancelar
+                          </Button>
+                          <Button size="sm" onClick={() => saveEditing(row)}>
+                            Aplicar correção
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Página {page + 1} de {pageCount}
+          </span>
+          <Button variant="outline" size="icon" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Badge } from '@/components/ui/badge';
+import { IMPORT_STATUS } from '@/lib/import/history';
+
+interface ImportStatusBadgeProps {
+  status: string | null;
+  className?: string;
+}
+
+export function ImportStatusBadge({ status, className }: ImportStatusBadgeProps) {
+  const config = status ? IMPORT_STATUS[status] : null;
+  if (!config) return null;
+
+  return (
+    <Badge variant={config.variant} className={className}>
+      {config.label}
+    </Badge>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { ImportHistoryItem } from '@/hooks/useImportHistory';
+
+interface RevertImportDialogProps {
+  item: ImportHistoryItem | null;
+  onClose: () => void;
+  onConfirm: (item: ImportHistoryItem) => Promise<void>;
+}
+
+export function RevertImportDialog({ item, onClose, onConfirm }: RevertImportDialogProps) {
+  const [reverting, setReverting] = useState(false);
+
+  const handleConfirm = async () => {
+    if (!item) return;
+    setReverting(true);
+    try {
+      await onConfirm(item);
+    } finally {
+      setReverting(false);
+      onClose();
+    }
+  };
+
+  return (
+    <AlertDialog open={!!item} onOpenChange={(open) => !open && !reverting && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Desfazer importação</AlertDialogTitle>
+          <AlertDialogDescription>
+            Todos os lançamentos gravados por "{item?.file_name}" serão excluídos, assim como as
+            categorias criadas por ela que não estejam em uso. Esta ação não pode ser desfeita.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={reverting}>Cancelar</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              handleConfirm();
+            }}
+            disabled={reverting}
+            className="bg-destructive text-destructive-foreground"
+          >
+            {reverting ? 'Desfazendo...' : 'Desfazer'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
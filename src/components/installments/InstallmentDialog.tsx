@@ -0,0 +1,331 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { useInstallments, InstallmentPlan } from '@/hooks/useInstallments';
+import { useCompany } from '@/hooks/useCompany';
+import { useToast } from '@/hooks/use-toast';
+import type { Account } from '@/lib/accounts';
+import {
+  MAX_INSTALLMENTS,
+  MIN_INSTALLMENTS,
+  RemainderPlacement,
+  installmentDueDate,
+  installmentLabel,
+  installmentSchedule,
+} from '@/lib/installments';
+import { companyPeriodSettings, todayInTimeZone } from '@/lib/periods';
+
+const NONE_VALUE = '__none__';
+
+const COUNT_OPTIONS = Array.from(
+  { length: MAX_INSTALLMENTS - MIN_INSTALLMENTS + 1 },
+  (_, i) => MIN_INSTALLMENTS + i,
+);
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDay = (value: string) => value.split('-').reverse().join('/');
+
+interface InstallmentCategory {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface InstallmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: Account[];
+  categories: InstallmentCategory[];
+  /** Parcelamento em edição; sem ele, cria um novo */
+  plan: InstallmentPlan | null;
+  onSaved: () => void;
+}
+
+/**
+ * Compra ou venda parcelada: gera uma transação por parcela, no vencimento, todas com a
+ * data da venda como competência
+ */
+export function InstallmentDialog({ open, onOpenChange, accounts, categories, plan, onSaved }: InstallmentDialogProps) {
+  const { company } = useCompany();
+  const { savePlan } = useInstallments();
+  const { toast } = useToast();
+  const [type, setType] = useState<'income' | 'expense'>('income');
+  const [description, setDescription] = useState('');
+  const [totalAmount, setTotalAmount] = useState('');
+  const [count, setCount] = useState(String(MIN_INSTALLMENTS));
+  const [saleDate, setSaleDate] = useState('');
+  const [firstDueDate, setFirstDueDate] = useState('');
+  const [remainderOn, setRemainderOn] = useState<RemainderPlacement>('first');
+  const [categoryId, setCategoryId] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [source, setSource] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const today = todayInTimeZone(companyPeriodSettings(company).timeZone);
+    setType((plan?.type as 'income' | 'expense') || 'income');
+    setDescription(plan?.description || '');
+    setTotalAmount(plan ? String(plan.total_amount) : '');
+    setCount(String(plan?.installment_count ?? MIN_INSTALLMENTS));
+    setSaleDate(plan?.sale_date || today);
+    // A primeira parcela vence, por padrão, um mês depois da venda
+    setFirstDueDate(plan?.first_due_date || installmentDueDate(today, 2));
+    setRemainderOn((plan?.remainder_on as RemainderPlacement) || 'first');
+    setCategoryId(plan?.category_id || '');
+    setAccountId(plan?.account_id || '');
+    setSource(plan?.source || '');
+    setNotes(plan?.notes || '');
+  }, [open, plan, company]);
+
+  // Conta arquivada continua aparecendo ao editar um parcelamento dela
+  const selectable = accounts.filter(a => !a.archived || a.id === plan?.account_id);
+  // Sem conta escolhida, as parcelas vão para a conta padrão
+  const selectedAccountId = accountId || accounts.find(a => a.is_default && !a.archived)?.id || '';
+
+  const total = parseFloat(totalAmount);
+  const installmentCount = parseInt(count);
+  const schedule = total > 0 && firstDueDate
+    ? installmentSchedule(total, installmentCount, firstDueDate, remainderOn)
+    : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!(total > 0) || Math.round(total * 100) < installmentCount) {
+      toast({
+        title: 'Valor inválido',
+        description: 'Informe um valor total que cubra pelo menos um centavo por parcela.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (firstDueDate < saleDate) {
+      toast({
+        title: 'Vencimento inválido',
+        description: 'A primeira parcela não pode vencer antes da data da compra ou venda.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await savePlan({
+      type,
+      description,
+      totalAmount: total,
+      installmentCount,
+      saleDate,
+      firstDueDate,
+      remainderOn,
+      categoryId: categoryId || null,
+      accountId: selectedAccountId || null,
+      source: source || null,
+      notes: notes || null,
+    }, plan?.id);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível salvar o parcelamento.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Sucesso',
+      description: plan
+        ? 'Parcelamento atualizado; as parcelas foram reagendadas.'
+        : `Parcelamento registrado em ${installmentCount} parcelas.`,
+    });
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display">
+            {plan ? 'Editar Parcelamento' : 'Novo Parcelamento'}
+          </DialogTitle>
+          <DialogDescription>
+            Cada parcela entra no fluxo de caixa no vencimento e na DRE na data da compra ou venda.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="installment-description">Descrição</Label>
+              <Input
+                id="installment-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Ex: Venda parcelada no cartão"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={type} onValueChange={(v) => setType(v as 'income' | 'expense')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="income">Venda (receita)</SelectItem>
+                  <SelectItem value="expense">Compra (despesa)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="installment-total">Valor total</Label>
+              <Input
+                id="installment-total"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={totalAmount}
+                onChange={(e) => setTotalAmount(e.target.value)}
+                placeholder="0,00"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Parcelas</Label>
+              <Select value={count} onValueChange={setCount}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUNT_OPTIONS.map(n => (
+                    <SelectItem key={n} value={String(n)}>{n}x</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Centavos restantes</Label>
+              <Select value={remainderOn} onValueChange={(v) => setRemainderOn(v as RemainderPlacement)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="first">Na primeira parcela</SelectItem>
+                  <SelectItem value="last">Na última parcela</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="installment-sale-date">Data da compra/venda</Label>
+              <Input
+                id="installment-sale-date"
+                type="date"
+                value={saleDate}
+                onChange={(e) => setSaleDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="installment-first-due">Primeiro vencimento</Label>
+              <Input
+                id="installment-first-due"
+                type="date"
+                value={firstDueDate}
+                onChange={(e) => setFirstDueDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select value={categoryId || NONE_VALUE} onValueChange={(v) => setCategoryId(v === NONE_VALUE ? '' : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE_VALUE}>Sem categoria</SelectItem>
+                  {categories.map(cat => (
+                    <SelectItem key={cat.id} value={cat.id}>
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.color }} />
+                        {cat.name}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Conta</Label>
+              <AccountSelect accounts={selectable} value={selectedAccountId} onChange={setAccountId} />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="installment-source">Origem</Label>
+              <Input
+                id="installment-source"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder="Ex: Mercado Livre, Shopee..."
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="installment-notes">Observações</Label>
+              <Textarea
+                id="installment-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notas adicionais..."
+                rows={2}
+              />
+            </div>
+          </div>
+          {schedule.length > 0 && (
+            <div className="rounded-lg bg-muted/50 px-4 py-3 text-sm">
+              <p className="text-muted-foreground mb-2">Parcelas</p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1">
+                {schedule.map(item => (
+                  <div key={item.number} className="flex justify-between gap-2">
+                    <span className="text-muted-foreground">
+                      {installmentLabel(item.number, installmentCount)} · {formatDay(item.date)}
+                    </span>
+                    <span className="font-medium">{formatCurrency(item.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {plan ? 'Salvar' : 'Parcelar'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,12 +14,16 @@ import {
   Download,
   Table,
   Bell,
+  Wallet,
+  CalendarClock,
 } from 'lucide-react';
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Transações', href: '/transactions', icon: Receipt },
   { name: 'Planilha', href: '/spreadsheet', icon: Table },
+  { name: 'Contas', href: '/accounts', icon: Wallet },
+  { name: 'A Pagar/Receber', href: '/bills', icon: CalendarClock },
   { name: 'Categorias', href: '/categories', icon: Tags },
   { name: 'Relatórios', href: '/reports', icon: FileText },
   { name: 'Importar', href: '/import', icon: Upload },
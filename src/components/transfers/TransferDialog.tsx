@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { useTransfers, Transfer } from '@/hooks/useTransfers';
+import { useCompany } from '@/hooks/useCompany';
+import { useToast } from '@/hooks/use-toast';
+import type { Account } from '@/lib/accounts';
+import { TRANSFER_LABEL } from '@/lib/transfers';
+import { companyPeriodSettings, todayInTimeZone } from '@/lib/periods';
+
+interface TransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: Account[];
+  /** Transferência em edição; sem ela, cria uma nova */
+  transfer: Transfer | null;
+  onSaved: () => void;
+}
+
+/**
+ * Transferência entre contas: gera a saída na conta de origem e a entrada na de destino,
+ * que não contam como despesa nem receita
+ */
+export function TransferDialog({ open, onOpenChange, accounts, transfer, onSaved }: TransferDialogProps) {
+  const { company } = useCompany();
+  const { saveTransfer } = useTransfers();
+  const { toast } = useToast();
+  const [fromAccount, setFromAccount] = useState('');
+  const [toAccount, setToAccount] = useState('');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState('');
+  const [description, setDescription] = useState(TRANSFER_LABEL);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFromAccount(transfer?.from_account_id || '');
+    setToAccount(transfer?.to_account_id || '');
+    setAmount(transfer ? String(transfer.amount) : '');
+    setDate(transfer?.date || todayInTimeZone(companyPeriodSettings(company).timeZone));
+    setDescription(transfer?.description || TRANSFER_LABEL);
+    setNotes(transfer?.notes || '');
+  }, [open, transfer, company]);
+
+  // Conta arquivada continua aparecendo ao editar uma transferência dela
+  const selectable = accounts.filter(a =>
+    !a.archived || a.id === transfer?.from_account_id || a.id === transfer?.to_account_id);
+  // Sem origem escolhida, sai da conta padrão
+  const fromAccountId = fromAccount || accounts.find(a => a.is_default && !a.archived)?.id || '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!fromAccountId || !toAccount || fromAccountId === toAccount) {
+      toast({
+        title: 'Erro',
+        description: 'Escolha contas de origem e destino diferentes.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveTransfer({
+      fromAccountId,
+      toAccountId: toAccount,
+      amount: parseFloat(amount),
+      date,
+      description: description || TRANSFER_LABEL,
+      notes: notes || null,
+    }, transfer?.id);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível salvar a transferência.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Sucesso',
+      description: transfer ? 'Transferência atualizada com sucesso.' : 'Transferência registrada com sucesso.',
+    });
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="font-display">
+            {transfer ? 'Editar Transferência' : 'Nova Transferência'}
+          </DialogTitle>
+          <DialogDescription>
+            Movimenta o saldo entre contas sem contar como receita ou despesa.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+          <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-2">
+            <div className="space-y-2">
+              <Label>De</Label>
+              <AccountSelect accounts={selectable} value={fromAccountId} onChange={setFromAccount} />
+            </div>
+            <ArrowRight className="h-4 w-4 mb-3 text-muted-foreground" />
+            <div className="space-y-2">
+              <Label>Para</Label>
+              <AccountSelect accounts={selectable} value={toAccount} onChange={setToAccount} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-amount">Valor</Label>
+              <Input
+                id="transfer-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0,00"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-date">Data</Label>
+              <Input
+                id="transfer-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="transfer-description">Descrição</Label>
+              <Input
+                id="transfer-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                required
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="transfer-notes">Observações</Label>
+              <Textarea
+                id="transfer-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notas adicionais..."
+                rows={2}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {transfer ? 'Salvar' : 'Transferir'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCompany } from '@/hooks/useCompany';
+import type { Account, AccountType } from '@/lib/accounts';
+
+export interface AccountInput {
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  openingDate: string;
+  color: string;
+  isDefault: boolean;
+  archived: boolean;
+}
+
+/**
+ * Saldos por conta; sem data, o saldo atual (lançamentos até hoje, no fuso da empresa)
+ */
+export async function fetchAccountBalances(asOf?: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc('account_balances', asOf ? { p_as_of: asOf } : {});
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(b => [b.account_id, Number(b.balance)]));
+}
+
+export function useAccounts() {
+  const { user } = useAuth();
+  const { company } = useCompany();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [balances, setBalances] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchAccounts = useCallback(async () => {
+    if (!company?.id) return;
+
+    try {
+      const [accountsRes, currentBalances] = await Promise.all([
+        supabase
+          .from('accounts')
+          .select('*')
+          .eq('company_id', company.id)
+          .order('archived')
+          .order('name'),
+        fetchAccountBalances(),
+      ]);
+
+      if (accountsRes.error) throw accountsRes.error;
+
+      setAccounts(accountsRes.data || []);
+      setBalances(currentBalances);
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [company?.id]);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const saveAccount = useCallback(async (
+    input: AccountInput,
+    accountId?: string,
+  ): Promise<{ error: Error | null }> => {
+    if (!user || !company) {
+      return { error: new Error('Usuário não autenticado') };
+    }
+
+    const accountData = {
+      company_id: company.id,
+      name: input.name.trim(),
+      type: input.type,
+      opening_balance: input.openingBalance,
+      opening_date: input.openingDate,
+      color: input.color,
+      // Conta arquivada não pode ser a padrão
+      is_default: input.isDefault && !input.archived,
+      archived: input.archived,
+    };
+
+    try {
+      // Só uma conta padrão por empresa: a anterior deixa de ser antes da nova assumir
+      if (accountData.is_default) {
+        let query = supabase
+          .from('accounts')
+          .update({ is_default: false })
+          .eq('company_id', company.id)
+          .eq('is_default', true);
+        if (accountId) query = query.neq('id', accountId);
+
+        const { error } = await query;
+        if (error) throw error;
+      }
+
+      const { error } = accountId
+        ? await supabase.from('accounts').update(accountData).eq('id', accountId)
+        : await supabase.from('accounts').insert({ ...accountData, user_id: user.id });
+
+      if (error) throw error;
+
+      await fetchAccounts();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao salvar conta');
+      await fetchAccounts();
+      return { error };
+    }
+  }, [user, company, fetchAccounts]);
+
+  /**
+   * Só exclui contas sem lançamentos; as demais devem ser arquivadas
+   */
+  const deleteAccount = useCallback(async (accountId: string): Promise<{ error: Error | null }> => {
+    try {
+      const { count, error: countError } = await supabase
+        .from('transactions')
+        .select('id', { count: 'exact', head: true })
+        .eq('account_id', accountId);
+
+      if (countError) throw countError;
+      if (count) {
+        return { error: new Error(`A conta tem ${count} lançamento(s). Arquive-a em vez de excluir.`) };
+      }
+
+      const { error } = await supabase
+        .from('accounts')
+        .delete()
+        .eq('id', accountId);
+
+      if (error) throw error;
+
+      await fetchAccounts();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao excluir conta');
+      return { error };
+    }
+  }, [fetchAccounts]);
+
+  const activeAccounts = useMemo(() => accounts.filter(a => !a.archived), [accounts]);
+
+  return {
+    accounts,
+    activeAccounts,
+    balances,
+    loading,
+    refreshAccounts: fetchAccounts,
+    saveAccount,
+    deleteAccount,
+  };
+}
@@ -11,6 +11,8 @@ export type AlertType =
   | 'export_completed'
   | 'api_sync'
   | 'duplicate_detected'
+  | 'title_rejected'
+  | 'bill_overdue'
   | 'login'
   | 'logout'
   | 'system';
@@ -0,0 +1,240 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCompany } from '@/hooks/useCompany';
+import { useAudit } from '@/hooks/useAudit';
+import { companyPeriodSettings, todayInTimeZone } from '@/lib/periods';
+import { Bill, BillKind, openStatus } from '@/lib/bills';
+
+export interface BillInput {
+  kind: BillKind;
+  description: string;
+  counterparty: string | null;
+  documentNumber: string | null;
+  categoryId: string | null;
+  accountId: string | null;
+  amount: number;
+  competenceDate: string;
+  dueDate: string;
+  notes: string | null;
+}
+
+export interface SettlementInput {
+  paidAt: string;
+  interest: number;
+  discount: number;
+  accountId: string | null;
+}
+
+export function useBills() {
+  const { user } = useAuth();
+  const { company } = useCompany();
+  const { logAction } = useAudit();
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const today = todayInTimeZone(companyPeriodSettings(company).timeZone);
+
+  const fetchBills = useCallback(async () => {
+    if (!company?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('bills')
+        .select('*')
+        .eq('company_id', company.id)
+        .order('due_date')
+        .order('created_at');
+
+      if (error) throw error;
+      setBills(data || []);
+    } catch (error) {
+      console.error('Error fetching bills:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [company?.id]);
+
+  useEffect(() => {
+    fetchBills();
+  }, [fetchBills]);
+
+  const saveBill = useCallback(async (
+    input: BillInput,
+    bill?: Bill,
+  ): Promise<{ error: Error | null }> => {
+    if (!user || !company) {
+      return { error: new Error('Usuário não autenticado') };
+    }
+
+    const billData = {
+      company_id: company.id,
+      kind: input.kind,
+      description: input.description.trim(),
+      counterparty: input.counterparty?.trim() || null,
+      document_number: input.documentNumber?.trim() || null,
+      category_id: input.categoryId,
+      account_id: input.accountId,
+      amount: input.amount,
+      competence_date: input.competenceDate,
+      due_date: input.dueDate,
+      notes: input.notes?.trim() || null,
+      // Mudar o vencimento de um título em aberto pode tirá-lo (ou colocá-lo) em atraso
+      ...(!bill || bill.status === 'pending' || bill.status === 'overdue'
+        ? { status: openStatus(input.dueDate, today) }
+        : {}),
+      // Ocorrência de recorrência editada sozinha: mudanças na regra deixam de alterá-la
+      ...(bill?.recurrence_id ? { recurrence_detached: true } : {}),
+    };
+
+    try {
+      const { data, error } = bill
+        ? await supabase.from('bills').update(billData).eq('id', bill.id).select('id').single()
+        : await supabase.from('bills').insert({ ...billData, user_id: user.id }).select('id').single();
+
+      if (error) throw error;
+
+      await logAction({
+        action: bill ? 'update' : 'create',
+        tableName: 'bills',
+        recordId: data.id,
+        oldData: bill,
+        newData: billData,
+      });
+
+      await fetchBills();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao salvar título');
+      return { error };
+    }
+  }, [user, company, today, logAction, fetchBills]);
+
+  /**
+   * Baixa o título: grava o lançamento realizado com juros e desconto
+   */
+  const settleBill = useCallback(async (
+    bill: Bill,
+    input: SettlementInput,
+  ): Promise<{ error: Error | null }> => {
+    try {
+      const { data, error } = await supabase.rpc('settle_bill', {
+        p_bill_id: bill.id,
+        p_paid_at: input.paidAt,
+        p_interest: input.interest,
+        p_discount: input.discount,
+        ...(input.accountId ? { p_account_id: input.accountId } : {}),
+      });
+
+      if (error) throw error;
+
+      await logAction({
+        action: 'update',
+        tableName: 'bills',
+        recordId: bill.id,
+        oldData: bill,
+        newData: { status: 'paid', ...input, transaction_id: data },
+      });
+
+      await fetchBills();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao baixar título');
+      return { error };
+    }
+  }, [logAction, fetchBills]);
+
+  /**
+   * Estorna a baixa (só administradores): exclui o lançamento realizado e o título volta a ficar em aberto
+   */
+  const reopenBill = useCallback(async (bill: Bill): Promise<{ error: Error | null }> => {
+    try {
+      const { error } = await supabase.rpc('reopen_bill', { p_bill_id: bill.id });
+      if (error) throw error;
+
+      await logAction({
+        action: 'update',
+        tableName: 'bills',
+        recordId: bill.id,
+        oldData: bill,
+        newData: { status: openStatus(bill.due_date, today) },
+      });
+
+      await fetchBills();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao estornar baixa');
+      return { error };
+    }
+  }, [today, logAction, fetchBills]);
+
+  const cancelBill = useCallback(async (bill: Bill, cancelled: boolean): Promise<{ error: Error | null }> => {
+    const status = cancelled ? 'cancelled' : openStatus(bill.due_date, today);
+
+    try {
+      const { error } = await supabase
+        .from('bills')
+        .update({ status })
+        .eq('id', bill.id);
+
+      if (error) throw error;
+
+      await logAction({
+        action: 'update',
+        tableName: 'bills',
+        recordId: bill.id,
+        oldData: bill,
+        newData: { status },
+      });
+
+      await fetchBills();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao cancelar título');
+      return { error };
+    }
+  }, [today, logAction, fetchBills]);
+
+  /**
+   * Títulos baixados precisam ser estornados antes de excluir
+   */
+  const deleteBill = useCallback(async (bill: Bill): Promise<{ error: Error | null }> => {
+    if (bill.status === 'paid') {
+      return { error: new Error('Estorne a baixa antes de excluir o título.') };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('bills')
+        .delete()
+        .eq('id', bill.id);
+
+      if (error) throw error;
+
+      await logAction({
+        action: 'delete',
+        tableName: 'bills',
+        recordId: bill.id,
+        oldData: bill,
+      });
+
+      await fetchBills();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao excluir título');
+      return { error };
+    }
+  }, [logAction, fetchBills]);
+
+  return {
+    bills,
+    loading,
+    today,
+    refreshBills: fetchBills,
+    saveBill,
+    settleBill,
+    reopenBill,
+    cancelBill,
+    deleteBill,
+  };
+}
@@ -11,6 +11,10 @@ interface Company {
   email: string | null;
   phone: string | null;
   address: string | null;
+  /** Fuso IANA usado nos períodos de consulta */
+  timezone: string;
+  /** Mês de início do exercício fiscal (1 = janeiro) */
+  fiscal_year_start_month: number;
   created_at: string;
   updated_at: string;
 }
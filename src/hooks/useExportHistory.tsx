@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCompany } from '@/hooks/useCompany';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { EXPORTS_BUCKET, exportStoragePath, sha256Hex } from '@/lib/export/history';
+
+export type ExportHistoryItem = Tables<'export_history'>;
+
+export type ExportRecordInput = Pick<
+  TablesInsert<'export_history'>,
+  'file_name' | 'format' | 'export_type' | 'period_start' | 'period_end' | 'template_id' | 'template_snapshot'
+>;
+
+interface UseExportHistoryOptions {
+  page?: number;
+  pageSize?: number;
+  /** 'all' ou um dos formatos de exportação */
+  format?: string;
+}
+
+export function useExportHistory({ page = 0, pageSize = 20, format = 'all' }: UseExportHistoryOptions = {}) {
+  const { user } = useAuth();
+  const { company, canEdit } = useCompany();
+  const [items, setItems] = useState<ExportHistoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const fetchHistory = useCallback(async () => {
+    if (!company?.id) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('export_history')
+        .select('*', { count: 'exact' })
+        .eq('company_id', company.id)
+        .order('created_at', { ascending: false })
+        .range(page * pageSize, (page + 1) * pageSize - 1);
+
+      if (format !== 'all') {
+        query = query.eq('format', format);
+      }
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+
+      setItems(data || []);
+      setTotal(count ?? 0);
+    } catch (error) {
+      console.error('Error fetching export history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [company?.id, page, pageSize, format]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  /**
+   * Guarda o arquivo no Storage e registra a exportação com checksum e tamanho.
+   * Se o upload falhar a exportação ainda é registrada, sem arquivo (stored = false).
+   * Só admin e financeiro guardam arquivos; as exportações do perfil leitura ficam sem arquivo.
+   */
+  const recordExport = useCallback(async (
+    blob: Blob,
+    input: ExportRecordInput,
+  ): Promise<{ error: Error | null; stored: boolean }> => {
+    if (!user || !company) {
+      return { error: new Error('Usuário não autenticado'), stored: false };
+    }
+
+    try {
+      const checksum = await sha256Hex(blob);
+      const storagePath = exportStoragePath(company.id, input.file_name);
+
+      let stored = false;
+      if (canEdit) {
+        const { error: uploadError } = await supabase.storage
+          .from(EXPORTS_BUCKET)
+          .upload(storagePath, blob, { contentType: blob.type || undefined });
+
+        if (uploadError) {
+          console.error('Error uploading export file:', uploadError);
+        }
+        stored = !uploadError;
+      }
+
+      const { error } = await supabase.from('export_history').insert({
+        ...input,
+        user_id: user.id,
+        company_id: company.id,
+        checksum,
+        file_size: blob.size,
+        storage_path: stored ? storagePath : null,
+      });
+
+      if (error) throw error;
+
+      await fetchHistory();
+      return { error: null, stored };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao registrar exportação');
+      return { error, stored: false };
+    }
+  }, [user, company, canEdit, fetchHistory]);
+
+  /**
+   * Baixa o arquivo guardado, conferindo o checksum registrado na exportação
+   */
+  const downloadExport = useCallback(async (
+    item: ExportHistoryItem,
+  ): Promise<{ error: Error | null; blob: Blob | null }> => {
+    if (!item.storage_path) {
+      return { error: new Error('O arquivo desta exportação não está mais disponível.'), blob: null };
+    }
+
+    try {
+      const { data, error } = await supabase.storage.from(EXPORTS_BUCKET).download(item.storage_path);
+      if (error) throw error;
+
+      if (item.checksum && (await sha256Hex(data)) !== item.checksum) {
+        return { error: new Error('O arquivo guardado não confere com o checksum registrado.'), blob: null };
+      }
+
+      return { error: null, blob: data };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao baixar exportação');
+      return { error, blob: null };
+    }
+  }, []);
+
+  return {
+    items,
+    total,
+    loading,
+    refetch: fetchHistory,
+    recordExport,
+    downloadExport,
+  };
+}
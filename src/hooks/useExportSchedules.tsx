@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCompany } from '@/hooks/useCompany';
+import { ScheduleFrequency, SchedulePeriod, computeNextRun } from '@/lib/export/schedules';
+import { PeriodSettings, companyPeriodSettings } from '@/lib/periods';
+
+export interface ExportSchedule {
+  id: string;
+  name: string;
+  /** Tipo de exportação padrão ou 'template' */
+  exportType: string;
+  templateId: string | null;
+  format: 'csv' | 'xlsx' | 'pdf';
+  frequency: ScheduleFrequency;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  hour: number;
+  period: SchedulePeriod;
+  recipients: string[];
+  isActive: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastStatus: 'success' | 'error' | null;
+  lastError: string | null;
+}
+
+export type ExportScheduleInput = Omit<
+  ExportSchedule,
+  'id' | 'isActive' | 'nextRunAt' | 'lastRunAt' | 'lastStatus' | 'lastError'
+>;
+
+const nextRunFor = (
+  input: Pick<ExportSchedule, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'hour'>,
+  settings: PeriodSettings,
+) => computeNextRun(input, new Date(), settings).toISOString();
+
+export function useExportSchedules() {
+  const { user } = useAuth();
+  const { company } = useCompany();
+  const [schedules, setSchedules] = useState<ExportSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSchedules = useCallback(async () => {
+    if (!company?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('export_schedules')
+        .select('*')
+        .eq('company_id', company.id)
+        .order('name');
+
+      if (error) throw error;
+
+      setSchedules((data || []).map(s => ({
+        id: s.id,
+        name: s.name,
+        exportType: s.export_type,
+        templateId: s.template_id,
+        format: s.format as ExportSchedule['format'],
+        frequency: s.frequency as ScheduleFrequency,
+        dayOfWeek: s.day_of_week,
+        dayOfMonth: s.day_of_month,
+        hour: s.run_hour,
+        period: s.period as SchedulePeriod,
+        recipients: s.recipients,
+        isActive: s.is_active,
+        nextRunAt: s.next_run_at,
+        lastRunAt: s.last_run_at,
+        lastStatus: s.last_status as ExportSchedule['lastStatus'],
+        lastError: s.last_error,
+      })));
+    } catch (error) {
+      console.error('Error fetching export schedules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [company?.id]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const saveSchedule = useCallback(async (
+    input: ExportScheduleInput,
+    scheduleId?: string,
+  ): Promise<{ error: Error | null }> => {
+    if (!user || !company) {
+      return { error: new Error('Usuário não autenticado') };
+    }
+
+    const scheduleData = {
+      company_id: company.id,
+      name: input.name.trim(),
+      export_type: input.exportType,
+      template_id: input.exportType === 'template' ? input.templateId : null,
+      format: input.format,
+      frequency: input.frequency,
+      day_of_week: input.frequency === 'weekly' ? input.dayOfWeek : null,
+      day_of_month: input.frequency === 'monthly' ? input.dayOfMonth : null,
+      run_hour: input.hour,
+      period: input.period,
+      recipients: input.recipients,
+      // Mudanças na recorrência valem a partir de agora
+      next_run_at: nextRunFor(input, companyPeriodSettings(company)),
+    };
+
+    try {
+      const { error } = scheduleId
+        ? await supabase.from('export_schedules').update(scheduleData).eq('id', scheduleId)
+        : await supabase.from('export_schedules').insert({ ...scheduleData, user_id: user.id });
+
+      if (error) throw error;
+
+      await fetchSchedules();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao salvar agendamento');
+      return { error };
+    }
+  }, [user, company, fetchSchedules]);
+
+  const toggleSchedule = useCallback(async (schedule: ExportSchedule): Promise<{ error: Error | null }> => {
+    try {
+      const { error } = await supabase
+        .from('export_schedules')
+        .update({
+          is_active: !schedule.isActive,
+          // Ao reativar, não executa de uma vez as execuções perdidas
+          ...(schedule.isActive ? {} : { next_run_at: nextRunFor(schedule, companyPeriodSettings(company)) }),
+        })
+        .eq('id', schedule.id);
+
+      if (error) throw error;
+
+      await fetchSchedules();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao atualizar agendamento');
+      return { error };
+    }
+  }, [company, fetchSchedules]);
+
+  const deleteSchedule = useCallback(async (scheduleId: string): Promise<{ error: Error | null }> => {
+    try {
+      const { error } = await supabase
+        .from('export_schedules')
+        .delete()
+        .eq('id', scheduleId);
+
+      if (error) throw error;
+
+      await fetchSchedules();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao excluir agendamento');
+      return { error };
+    }
+  }, [fetchSchedules]);
+
+  return {
+    schedules,
+    loading,
+    saveSchedule,
+    toggleSchedule,
+    deleteSchedule,
+  };
+}
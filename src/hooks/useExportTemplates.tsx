@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCompany } from '@/hooks/useCompany';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  ExportTemplate,
+  TemplateColumn,
+  TemplateDateFormat,
+  TemplateFilters,
+  TemplateNumberFormat,
+  sanitizeTemplate,
+} from '@/lib/export/templates';
+
+export type ExportTemplateInput = Omit<ExportTemplate, 'id'>;
+
+export function useExportTemplates() {
+  const { user } = useAuth();
+  const { company } = useCompany();
+  const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!company?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('export_templates')
+        .select('*')
+        .eq('company_id', company.id)
+        .order('name');
+
+      if (error) throw error;
+
+      setTemplates((data || []).map(t => sanitizeTemplate({
+        id: t.id,
+        name: t.name,
+        columns: t.columns as unknown as TemplateColumn[],
+        dateFormat: t.date_format as TemplateDateFormat,
+        numberFormat: t.number_format as TemplateNumberFormat,
+        filters: t.filters as unknown as TemplateFilters,
+      })));
+    } catch (error) {
+      console.error('Error fetching export templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [company?.id]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const saveTemplate = useCallback(async (
+    input: ExportTemplateInput,
+    templateId?: string,
+  ): Promise<{ error: Error | null; template: ExportTemplate | null }> => {
+    if (!user || !company) {
+      return { error: new Error('Usuário não autenticado'), template: null };
+    }
+
+    const templateData = {
+      company_id: company.id,
+      user_id: user.id,
+      name: input.name.trim(),
+      columns: input.columns as unknown as Json,
+      date_format: input.dateFormat,
+      number_format: input.numberFormat,
+      filters: input.filters as unknown as Json,
+    };
+
+    try {
+      const query = templateId
+        ? supabase.from('export_templates').update(templateData).eq('id', templateId)
+        : supabase.from('export_templates').insert(templateData);
+
+      const { data, error } = await query.select('id').single();
+      if (error) throw error;
+
+      await fetchTemplates();
+      return { error: null, template: { ...input, id: data.id, name: templateData.name } };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao salvar modelo');
+      return { error, template: null };
+    }
+  }, [user, company, fetchTemplates]);
+
+  const deleteTemplate = useCallback(async (templateId: string): Promise<{ error: Error | null }> => {
+    try {
+      const { error } = await supabase
+        .from('export_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+
+      await fetchTemplates();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao excluir modelo');
+      return { error };
+    }
+  }, [fetchTemplates]);
+
+  return {
+    templates,
+    loading,
+    saveTemplate,
+    deleteTemplate,
+  };
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useCompany } from '@/hooks/useCompany';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ImportHistoryItem = Tables<'import_history'>;
+
+export interface RevertResult {
+  transactions_deleted: number;
+  categories_deleted: number;
+}
+
+interface UseImportHistoryOptions {
+  page?: number;
+  pageSize?: number;
+  /** 'all' ou um dos status de import_history */
+  status?: string;
+}
+
+export function useImportHistory({ page = 0, pageSize = 20, status = 'all' }: UseImportHistoryOptions = {}) {
+  const { company } = useCompany();
+  const [items, setItems] = useState<ImportHistoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const fetchHistory = useCallback(async () => {
+    if (!company?.id) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('import_history')
+        .select('*', { count: 'exact' })
+        .eq('company_id', company.id)
+        .order('created_at', { ascending: false })
+        .range(page * pageSize, (page + 1) * pageSize - 1);
+
+      if (status !== 'all') {
+        query = query.eq('status', status);
+      }
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+
+      setItems(data || []);
+      setTotal(count ?? 0);
+    } catch (error) {
+      console.error('Error fetching import history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [company?.id, page, pageSize, status]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const fetchImport = useCallback(async (importId: string): Promise<ImportHistoryItem | null> => {
+    const { data, error } = await supabase
+      .from('import_history')
+      .select('*')
+      .eq('id', importId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching import:', error);
+      return null;
+    }
+    return data;
+  }, []);
+
+  /**
+   * Desfaz o lote inteiro: lançamentos e categorias criadas por ele que não estejam em uso
+   */
+  const revertImport = useCallback(async (
+    importId: string
+  ): Promise<{ error: Error | null; result: RevertResult | null }> => {
+    try {
+      const { data, error } = await supabase.rpc('revert_import', { p_import_id: importId });
+      if (error) throw error;
+
+      await fetchHistory();
+      return { error: null, result: data as unknown as RevertResult };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao desfazer importação');
+      return { error, result: null };
+    }
+  }, [fetchHistory]);
+
+  return {
+    items,
+    total,
+    loading,
+    refetch: fetchHistory,
+    fetchImport,
+    revertImport,
+  };
+}
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCompany } from '@/hooks/useCompany';
+import {
+  ColumnMapping,
+  ImportSettings,
+  SignConvention,
+  headerSignature,
+  sanitizeMapping,
+  signatureSimilarity,
+} from '@/lib/import/mapping';
+import { toTabular } from '@/lib/import/spreadsheet';
+import type { DateFormat, DecimalSeparator } from '@/lib/import/values';
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  headerSignature: string;
+  mapping: ColumnMapping;
+  settings: ImportSettings;
+}
+
+interface ProfileMatch {
+  profile: ImportProfile;
+  score: number;
+}
+
+// Abaixo disso o arquivo é considerado de outra origem
+const MIN_SIGNATURE_SIMILARITY = 0.8;
+
+export function useImportProfiles() {
+  const { user } = useAuth();
+  const { company } = useCompany();
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProfiles = useCallback(async () => {
+    if (!company?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('import_profiles')
+        .select('*')
+        .eq('company_id', company.id)
+        .order('name');
+
+      if (error) throw error;
+
+      setProfiles((data || []).map(p => ({
+        id: p.id,
+        name: p.name,
+        headerSignature: p.header_signature,
+        mapping: p.mapping as unknown as ColumnMapping,
+        settings: {
+          dateFormat: p.date_format as DateFormat,
+          decimalSeparator: p.decimal_separator as DecimalSeparator,
+          signConvention: p.sign_convention as SignConvention,
+          defaultCategoryId: p.default_category_id,
+          accountId: p.account_id,
+          headerRow: p.header_row,
+        },
+      })));
+    } catch (error) {
+      console.error('Error fetching import profiles:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [company?.id]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  /**
+   * Encontra o perfil cujo cabeçalho mais se parece com o do arquivo,
+   * considerando a linha de cabeçalho configurada em cada perfil
+   */
+  const findMatchingProfile = useCallback((data: unknown[][]): ProfileMatch | null => {
+    let best: ProfileMatch | null = null;
+
+    for (const profile of profiles) {
+      const { headers } = toTabular(data, profile.settings.headerRow);
+      const score = signatureSimilarity(headerSignature(headers), profile.headerSignature);
+      if (score >= MIN_SIGNATURE_SIMILARITY && (!best || score > best.score)) {
+        best = { profile: { ...profile, mapping: sanitizeMapping(profile.mapping, headers) }, score };
+      }
+    }
+
+    return best;
+  }, [profiles]);
+
+  const saveProfile = useCallback(async (
+    name: string,
+    headers: string[],
+    mapping: ColumnMapping,
+    settings: ImportSettings,
+    profileId?: string,
+  ): Promise<{ error: Error | null; profile: ImportProfile | null }> => {
+    if (!user || !company) {
+      return { error: new Error('Usuário não autenticado'), profile: null };
+    }
+
+    const profileData = {
+      company_id: company.id,
+      user_id: user.id,
+      name: name.trim(),
+      header_signature: headerSignature(headers),
+      mapping: { ...mapping },
+      date_format: settings.dateFormat,
+      decimal_separator: settings.decimalSeparator,
+      sign_convention: settings.signConvention,
+      default_category_id: settings.defaultCategoryId,
+      account_id: settings.accountId,
+      header_row: settings.headerRow,
+    };
+
+    try {
+      const query = profileId
+        ? supabase.from('import_profiles').update(profileData).eq('id', profileId)
+        : supabase.from('import_profiles').insert(profileData);
+
+      const { data, error } = await query.select('id').single();
+      if (error) throw error;
+
+      await fetchProfiles();
+      return {
+        error: null,
+        profile: {
+          id: data.id,
+          name: profileData.name,
+          headerSignature: profileData.header_signature,
+          mapping,
+          settings,
+        },
+      };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao salvar perfil');
+      return { error, profile: null };
+    }
+  }, [user, company, fetchProfiles]);
+
+  const deleteProfile = useCallback(async (profileId: string): Promise<{ error: Error | null }> => {
+    try {
+      const { error } = await supabase
+        .from('import_profiles')
+        .delete()
+        .eq('id', profileId);
+
+      if (error) throw error;
+
+      await fetchProfiles();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao excluir perfil');
+      return { error };
+    }
+  }, [fetchProfiles]);
+
+  return {
+    profiles,
+    loading,
+    findMatchingProfile,
+    saveProfile,
+    deleteProfile,
+  };
+}
@@ -0,0 +1,103 @@
+import { useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAudit } from '@/hooks/useAudit';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RemainderPlacement } from '@/lib/installments';
+
+export type InstallmentPlan = Tables<'installment_plans'>;
+
+export interface InstallmentPlanInput {
+  type: 'income' | 'expense';
+  description: string;
+  totalAmount: number;
+  installmentCount: number;
+  saleDate: string;
+  firstDueDate: string;
+  remainderOn: RemainderPlacement;
+  categoryId: string | null;
+  accountId: string | null;
+  source: string | null;
+  notes: string | null;
+}
+
+/**
+ * Parcelamentos. As parcelas são gravadas, reagendadas e excluídas juntas pelas
+ * funções do banco (save_installment_plan, delete_installment_plan).
+ */
+export function useInstallments() {
+  const { logAction } = useAudit();
+
+  const fetchPlan = useCallback(async (planId: string): Promise<InstallmentPlan | null> => {
+    const { data, error } = await supabase
+      .from('installment_plans')
+      .select('*')
+      .eq('id', planId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching installment plan:', error);
+      return null;
+    }
+    return data;
+  }, []);
+
+  const savePlan = useCallback(async (
+    input: InstallmentPlanInput,
+    planId?: string,
+  ): Promise<{ id: string | null; error: Error | null }> => {
+    try {
+      const { data, error } = await supabase.rpc('save_installment_plan', {
+        p_type: input.type,
+        p_description: input.description.trim(),
+        p_total_amount: input.totalAmount,
+        p_installment_count: input.installmentCount,
+        p_sale_date: input.saleDate,
+        p_first_due_date: input.firstDueDate,
+        p_remainder_on: input.remainderOn,
+        p_category_id: input.categoryId,
+        p_account_id: input.accountId,
+        p_source: input.source,
+        p_notes: input.notes,
+        ...(planId ? { p_plan_id: planId } : {}),
+      });
+
+      if (error) throw error;
+
+      await logAction({
+        action: planId ? 'update' : 'create',
+        tableName: 'installment_plans',
+        recordId: data,
+        newData: { ...input },
+      });
+
+      return { id: data, error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao salvar parcelamento');
+      return { id: null, error };
+    }
+  }, [logAction]);
+
+  const deletePlan = useCallback(async (planId: string): Promise<{ error: Error | null }> => {
+    try {
+      const { error } = await supabase.rpc('delete_installment_plan', { p_plan_id: planId });
+      if (error) throw error;
+
+      await logAction({
+        action: 'delete',
+        tableName: 'installment_plans',
+        recordId: planId,
+      });
+
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao excluir parcelamento');
+      return { error };
+    }
+  }, [logAction]);
+
+  return {
+    fetchPlan,
+    savePlan,
+    deletePlan,
+  };
+}
@@ -0,0 +1,20 @@
+import { useMemo, useState } from 'react';
+import { useCompany } from '@/hooks/useCompany';
+import { PeriodSelection, companyPeriodSettings, resolvePeriod } from '@/lib/periods';
+
+/**
+ * Período escolhido na tela e o intervalo de datas correspondente,
+ * calculado no fuso e com o exercício fiscal da empresa
+ */
+export function usePeriod(initial: PeriodSelection) {
+  const { company } = useCompany();
+  const [selection, setSelection] = useState<PeriodSelection>(initial);
+  const { timeZone, fiscalYearStartMonth } = companyPeriodSettings(company);
+
+  const range = useMemo(
+    () => resolvePeriod(selection, { timeZone, fiscalYearStartMonth }),
+    [selection, timeZone, fiscalYearStartMonth],
+  );
+
+  return { selection, setSelection, range };
+}
@@ -0,0 +1,273 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCompany } from '@/hooks/useCompany';
+import { useAudit } from '@/hooks/useAudit';
+import type { BillInput } from '@/hooks/useBills';
+import { companyPeriodSettings, shiftDate, todayInTimeZone } from '@/lib/periods';
+import type { Bill, BillKind } from '@/lib/bills';
+import { RECURRENCE_HORIZON_DAYS, Recurrence, RecurrenceFrequency } from '@/lib/recurrences';
+
+export interface RecurrenceInput {
+  kind: BillKind;
+  description: string;
+  counterparty: string | null;
+  categoryId: string | null;
+  accountId: string | null;
+  amount: number;
+  notes: string | null;
+  frequency: RecurrenceFrequency;
+  intervalCount: number;
+  dayOfMonth: number | null;
+  /** Só vale na criação; depois, as ocorrências seguem a âncora da regra */
+  startDate: string;
+  endDate: string | null;
+  maxOccurrences: number | null;
+}
+
+/**
+ * Regras de recorrência. Os títulos gerados são lidos por useBills: depois de cada
+ * operação bem-sucedida, quem chama deve recarregar os títulos
+ */
+export function useRecurrences() {
+  const { user } = useAuth();
+  const { company } = useCompany();
+  const { logAction } = useAudit();
+  const [recurrences, setRecurrences] = useState<Recurrence[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const today = todayInTimeZone(companyPeriodSettings(company).timeZone);
+
+  const fetchRecurrences = useCallback(async () => {
+    if (!company?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('recurrences')
+        .select('*')
+        .eq('company_id', company.id)
+        .order('active', { ascending: false })
+        .order('description');
+
+      if (error) throw error;
+      setRecurrences(data || []);
+    } catch (error) {
+      console.error('Error fetching recurrences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [company?.id]);
+
+  useEffect(() => {
+    fetchRecurrences();
+  }, [fetchRecurrences]);
+
+  /**
+   * Na criação, gera as ocorrências dos próximos dias; na edição, refaz as ocorrências
+   * em aberto a partir de hoje (as pagas e as editadas à parte ficam como estão)
+   */
+  const saveRecurrence = useCallback(async (
+    input: RecurrenceInput,
+    recurrence?: Recurrence,
+  ): Promise<{ error: Error | null }> => {
+    if (!user || !company) {
+      return { error: new Error('Usuário não autenticado') };
+    }
+
+    const recurrenceData = {
+      company_id: company.id,
+      kind: input.kind,
+      description: input.description.trim(),
+      counterparty: input.counterparty?.trim() || null,
+      category_id: input.categoryId,
+      account_id: input.accountId,
+      amount: input.amount,
+      notes: input.notes?.trim() || null,
+      frequency: input.frequency,
+      interval_count: input.intervalCount,
+      day_of_month: input.frequency === 'weekly' ? null : input.dayOfMonth,
+      end_date: input.endDate,
+      max_occurrences: input.maxOccurrences,
+    };
+
+    try {
+      let recurrenceId = recurrence?.id;
+
+      if (recurrence) {
+        const { error } = await supabase.from('recurrences').update(recurrenceData).eq('id', recurrence.id);
+        if (error) throw error;
+
+        const { error: applyError } = await supabase.rpc('apply_recurrence', {
+          p_recurrence_id: recurrence.id,
+          p_from: today,
+        });
+        if (applyError) throw applyError;
+      } else {
+        const { data, error } = await supabase
+          .from('recurrences')
+          .insert({ ...recurrenceData, start_date: input.startDate, user_id: user.id })
+          .select('id')
+          .single();
+        if (error) throw error;
+        recurrenceId = data.id;
+
+        const { error: generateError } = await supabase.rpc('generate_recurrence_bills', {
+          p_recurrence_id: data.id,
+          p_until: shiftDate(today, RECURRENCE_HORIZON_DAYS),
+        });
+        if (generateError) throw generateError;
+      }
+
+      await logAction({
+        action: recurrence ? 'update' : 'create',
+        tableName: 'recurrences',
+        recordId: recurrenceId,
+        oldData: recurrence,
+        newData: recurrenceData,
+      });
+
+      await fetchRecurrences();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao salvar recorrência');
+      return { error };
+    }
+  }, [user, company, today, logAction, fetchRecurrences]);
+
+  /**
+   * Edição de uma ocorrência valendo para ela e as próximas: os dados passam para a regra
+   * e o novo vencimento vira a âncora das ocorrências seguintes
+   */
+  const updateFromOccurrence = useCallback(async (
+    input: BillInput,
+    bill: Bill,
+  ): Promise<{ error: Error | null }> => {
+    const recurrence = recurrences.find(r => r.id === bill.recurrence_id);
+    if (!recurrence) {
+      return { error: new Error('Recorrência não encontrada') };
+    }
+
+    const recurrenceData = {
+      description: input.description.trim(),
+      counterparty: input.counterparty?.trim() || null,
+      category_id: input.categoryId,
+      account_id: input.accountId,
+      amount: input.amount,
+      notes: input.notes?.trim() || null,
+      ...(recurrence.frequency === 'weekly' ? {} : { day_of_month: Number(input.dueDate.slice(8, 10)) }),
+    };
+
+    try {
+      const { error } = await supabase.from('recurrences').update(recurrenceData).eq('id', recurrence.id);
+      if (error) throw error;
+
+      const { error: applyError } = await supabase.rpc('apply_recurrence', {
+        p_recurrence_id: recurrence.id,
+        p_from: bill.due_date,
+        p_anchor: input.dueDate,
+      });
+      if (applyError) throw applyError;
+
+      // A ocorrência é refeita com o mesmo número; documento e competência são só dela
+      const { error: billError } = await supabase
+        .from('bills')
+        .update({
+          document_number: input.documentNumber?.trim() || null,
+          competence_date: input.competenceDate,
+        })
+        .eq('recurrence_id', recurrence.id)
+        .eq('recurrence_index', bill.recurrence_index);
+      if (billError) throw billError;
+
+      await logAction({
+        action: 'update',
+        tableName: 'recurrences',
+        recordId: recurrence.id,
+        oldData: recurrence,
+        newData: { ...recurrenceData, from_bill_id: bill.id, due_date: input.dueDate },
+      });
+
+      await fetchRecurrences();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao atualizar recorrência');
+      return { error };
+    }
+  }, [recurrences, logAction, fetchRecurrences]);
+
+  /**
+   * Pausar tira as ocorrências em aberto a partir de hoje; retomar volta a gerá-las
+   */
+  const setRecurrenceActive = useCallback(async (
+    recurrence: Recurrence,
+    active: boolean,
+  ): Promise<{ error: Error | null }> => {
+    try {
+      const { error } = await supabase.from('recurrences').update({ active }).eq('id', recurrence.id);
+      if (error) throw error;
+
+      const { error: applyError } = await supabase.rpc('apply_recurrence', {
+        p_recurrence_id: recurrence.id,
+        p_from: today,
+      });
+      if (applyError) throw applyError;
+
+      await logAction({
+        action: 'update',
+        tableName: 'recurrences',
+        recordId: recurrence.id,
+        oldData: recurrence,
+        newData: { active },
+      });
+
+      await fetchRecurrences();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao atualizar recorrência');
+      return { error };
+    }
+  }, [today, logAction, fetchRecurrences]);
+
+  /**
+   * Exclui a regra e as ocorrências em aberto a partir de hoje; as anteriores e as
+   * baixadas continuam como títulos avulsos
+   */
+  const deleteRecurrence = useCallback(async (recurrence: Recurrence): Promise<{ error: Error | null }> => {
+    try {
+      const { error: billsError } = await supabase
+        .from('bills')
+        .delete()
+        .eq('recurrence_id', recurrence.id)
+        .eq('recurrence_detached', false)
+        .in('status', ['pending', 'overdue'])
+        .gte('due_date', today);
+      if (billsError) throw billsError;
+
+      const { error } = await supabase.from('recurrences').delete().eq('id', recurrence.id);
+      if (error) throw error;
+
+      await logAction({
+        action: 'delete',
+        tableName: 'recurrences',
+        recordId: recurrence.id,
+        oldData: recurrence,
+      });
+
+      await fetchRecurrences();
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao excluir recorrência');
+      return { error };
+    }
+  }, [today, logAction, fetchRecurrences]);
+
+  return {
+    recurrences,
+    loading,
+    refreshRecurrences: fetchRecurrences,
+    saveRecurrence,
+    updateFromOccurrence,
+    setRecurrenceActive,
+    deleteRecurrence,
+  };
+}
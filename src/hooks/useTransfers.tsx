@@ -0,0 +1,123 @@
+import { useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAudit } from '@/hooks/useAudit';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Transfer = Tables<'transfers'>;
+
+export interface TransferInput {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: string;
+  description: string;
+  notes: string | null;
+}
+
+/**
+ * Transferências entre contas. As duas pernas são gravadas, alteradas e excluídas
+ * juntas pelas funções do banco (save_transfer, link_transfer, delete_transfer).
+ */
+export function useTransfers() {
+  const { logAction } = useAudit();
+
+  const fetchTransfer = useCallback(async (transferId: string): Promise<Transfer | null> => {
+    const { data, error } = await supabase
+      .from('transfers')
+      .select('*')
+      .eq('id', transferId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching transfer:', error);
+      return null;
+    }
+    return data;
+  }, []);
+
+  const saveTransfer = useCallback(async (
+    input: TransferInput,
+    transferId?: string,
+  ): Promise<{ id: string | null; error: Error | null }> => {
+    try {
+      const { data, error } = await supabase.rpc('save_transfer', {
+        p_from_account_id: input.fromAccountId,
+        p_to_account_id: input.toAccountId,
+        p_amount: input.amount,
+        p_date: input.date,
+        p_description: input.description.trim(),
+        p_notes: input.notes,
+        ...(transferId ? { p_transfer_id: transferId } : {}),
+      });
+
+      if (error) throw error;
+
+      await logAction({
+        action: transferId ? 'update' : 'create',
+        tableName: 'transfers',
+        recordId: data,
+        newData: { ...input },
+      });
+
+      return { id: data, error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao salvar transferência');
+      return { id: null, error };
+    }
+  }, [logAction]);
+
+  /**
+   * Liga dois lançamentos já existentes (saída e entrada de mesmo valor em contas
+   * diferentes) como uma transferência
+   */
+  const linkTransfer = useCallback(async (
+    firstId: string,
+    secondId: string,
+  ): Promise<{ id: string | null; error: Error | null }> => {
+    try {
+      const { data, error } = await supabase.rpc('link_transfer', {
+        p_first_id: firstId,
+        p_second_id: secondId,
+      });
+
+      if (error) throw error;
+
+      await logAction({
+        action: 'create',
+        tableName: 'transfers',
+        recordId: data,
+        newData: { transaction_ids: [firstId, secondId] },
+      });
+
+      return { id: data, error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao vincular transferência');
+      return { id: null, error };
+    }
+  }, [logAction]);
+
+  const deleteTransfer = useCallback(async (transferId: string): Promise<{ error: Error | null }> => {
+    try {
+      const { error } = await supabase.rpc('delete_transfer', { p_transfer_id: transferId });
+      if (error) throw error;
+
+      await logAction({
+        action: 'delete',
+        tableName: 'transfers',
+        recordId: transferId,
+      });
+
+      return { error: null };
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Erro ao excluir transferência');
+      return { error };
+    }
+  }, [logAction]);
+
+  return {
+    fetchTransfer,
+    saveTransfer,
+    linkTransfer,
+    deleteTransfer,
+  };
+}
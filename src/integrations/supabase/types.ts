@@ -14,6 +14,59 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          archived: boolean
+          color: string
+          company_id: string
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          opening_balance: number
+          opening_date: string
+          type: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          archived?: boolean
+          color?: string
+          company_id: string
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          opening_balance?: number
+          opening_date?: string
+          type?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          archived?: boolean
+          color?: string
+          company_id?: string
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          opening_balance?: number
+          opening_date?: string
+          type?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       alerts: {
         Row: {
           company_id: string | null
@@ -170,35 +223,148 @@ export type Database = {
         }
         Relationships: []
       }
+      bills: {
+        Row: {
+          account_id: string | null
+          amount: number
+          category_id: string | null
+          company_id: string
+          competence_date: string
+          counterparty: string | null
+          created_at: string
+          description: string
+          discount_amount: number
+          document_number: string | null
+          due_date: string
+          id: string
+          interest_amount: number
+          kind: string
+          notes: string | null
+          paid_amount: number | null
+          paid_at: string | null
+          recurrence_detached: boolean
+          recurrence_id: string | null
+          recurrence_index: number | null
+          status: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          category_id?: string | null
+          company_id: string
+          competence_date: string
+          counterparty?: string | null
+          created_at?: string
+          description: string
+          discount_amount?: number
+          document_number?: string | null
+          due_date: string
+          id?: string
+          interest_amount?: number
+          kind: string
+          notes?: string | null
+          paid_amount?: number | null
+          paid_at?: string | null
+          recurrence_detached?: boolean
+          recurrence_id?: string | null
+          recurrence_index?: number | null
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          category_id?: string | null
+          company_id?: string
+          competence_date?: string
+          counterparty?: string | null
+          created_at?: string
+          description?: string
+          discount_amount?: number
+          document_number?: string | null
+          due_date?: string
+          id?: string
+          interest_amount?: number
+          kind?: string
+          notes?: string | null
+          paid_amount?: number | null
+          paid_at?: string | null
+          recurrence_detached?: boolean
+          recurrence_id?: string | null
+          recurrence_index?: number | null
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bills_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_recurrence_id_fkey"
+            columns: ["recurrence_id"]
+            isOneToOne: false
+            referencedRelation: "recurrences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
+          account_code: string | null
           color: string
           company_id: string | null
           created_at: string
           icon: string | null
           id: string
+          import_id: string | null
           keywords: string[] | null
           name: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          account_code?: string | null
           color?: string
           company_id?: string | null
           created_at?: string
           icon?: string | null
           id?: string
+          import_id?: string | null
           keywords?: string[] | null
           name: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          account_code?: string | null
           color?: string
           company_id?: string | null
           created_at?: string
           icon?: string | null
           id?: string
+          import_id?: string | null
           keywords?: string[] | null
           name?: string
           updated_at?: string
@@ -212,73 +378,113 @@ export type Database = {
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "categories_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "import_history"
+            referencedColumns: ["id"]
+          },
         ]
       }
       companies: {
         Row: {
+          accounting_cash_account: string | null
           address: string | null
           created_at: string
           document: string | null
           email: string | null
+          export_retention_days: number
+          fiscal_year_start_month: number
           id: string
           name: string
           phone: string | null
+          timezone: string
           updated_at: string
         }
         Insert: {
+          accounting_cash_account?: string | null
           address?: string | null
           created_at?: string
           document?: string | null
           email?: string | null
+          export_retention_days?: number
+          fiscal_year_start_month?: number
           id?: string
           name: string
           phone?: string | null
+          timezone?: string
           updated_at?: string
         }
         Update: {
+          accounting_cash_account?: string | null
           address?: string | null
           created_at?: string
           document?: string | null
           email?: string | null
+          export_retention_days?: number
+          fiscal_year_start_month?: number
           id?: string
           name?: string
           phone?: string | null
+          timezone?: string
           updated_at?: string
         }
         Relationships: []
       }
       export_history: {
         Row: {
+          checksum: string | null
           company_id: string | null
           created_at: string
+          expires_at: string | null
           export_type: string
           file_name: string
+          file_size: number | null
           format: string
           id: string
           period_end: string | null
           period_start: string | null
+          schedule_id: string | null
+          storage_path: string | null
+          template_id: string | null
+          template_snapshot: Json | null
           user_id: string
         }
         Insert: {
+          checksum?: string | null
           company_id?: string | null
           created_at?: string
+          expires_at?: string | null
           export_type: string
           file_name: string
+          file_size?: number | null
           format: string
           id?: string
           period_end?: string | null
           period_start?: string | null
+          schedule_id?: string | null
+          storage_path?: string | null
+          template_id?: string | null
+          template_snapshot?: Json | null
           user_id: string
         }
         Update: {
+          checksum?: string | null
           company_id?: string | null
           created_at?: string
+          expires_at?: string | null
           export_type?: string
           file_name?: string
+          file_size?: number | null
           format?: string
           id?: string
           period_end?: string | null
           period_start?: string | null
+          schedule_id?: string | null
+          storage_path?: string | null
+          template_id?: string | null
+          template_snapshot?: Json | null
           user_id?: string
         }
         Relationships: [
@@ -289,6 +495,151 @@ export type Database = {
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "export_history_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "export_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "export_history_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "export_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      export_schedules: {
+        Row: {
+          company_id: string
+          created_at: string
+          day_of_month: number | null
+          day_of_week: number | null
+          export_type: string
+          format: string
+          frequency: string
+          id: string
+          is_active: boolean
+          last_error: string | null
+          last_run_at: string | null
+          last_status: string | null
+          name: string
+          next_run_at: string
+          period: string
+          recipients: string[]
+          run_hour: number
+          template_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          day_of_month?: number | null
+          day_of_week?: number | null
+          export_type?: string
+          format?: string
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          name: string
+          next_run_at: string
+          period?: string
+          recipients?: string[]
+          run_hour?: number
+          template_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          day_of_month?: number | null
+          day_of_week?: number | null
+          export_type?: string
+          format?: string
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          name?: string
+          next_run_at?: string
+          period?: string
+          recipients?: string[]
+          run_hour?: number
+          template_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "export_schedules_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "export_schedules_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "export_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      export_templates: {
+        Row: {
+          columns: Json
+          company_id: string
+          created_at: string
+          date_format: string
+          filters: Json
+          id: string
+          name: string
+          number_format: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          columns?: Json
+          company_id: string
+          created_at?: string
+          date_format?: string
+          filters?: Json
+          id?: string
+          name: string
+          number_format?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          columns?: Json
+          company_id?: string
+          created_at?: string
+          date_format?: string
+          filters?: Json
+          id?: string
+          name?: string
+          number_format?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "export_templates_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
         ]
       }
       import_history: {
@@ -298,8 +649,14 @@ export type Database = {
           error_details: Json | null
           file_name: string
           id: string
+          retry_of: string | null
+          reverted_at: string | null
+          reverted_by: string | null
           rows_failed: number | null
           rows_imported: number | null
+          rows_skipped: number | null
+          rows_total: number | null
+          settings: Json | null
           status: string | null
           user_id: string
         }
@@ -309,8 +666,14 @@ export type Database = {
           error_details?: Json | null
           file_name: string
           id?: string
+          retry_of?: string | null
+          reverted_at?: string | null
+          reverted_by?: string | null
           rows_failed?: number | null
           rows_imported?: number | null
+          rows_skipped?: number | null
+          rows_total?: number | null
+          settings?: Json | null
           status?: string | null
           user_id: string
         }
@@ -320,8 +683,14 @@ export type Database = {
           error_details?: Json | null
           file_name?: string
           id?: string
+          retry_of?: string | null
+          reverted_at?: string | null
+          reverted_by?: string | null
           rows_failed?: number | null
           rows_imported?: number | null
+          rows_skipped?: number | null
+          rows_total?: number | null
+          settings?: Json | null
           status?: string | null
           user_id?: string
         }
@@ -333,6 +702,165 @@ export type Database = {
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "import_history_retry_of_fkey"
+            columns: ["retry_of"]
+            isOneToOne: false
+            referencedRelation: "import_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_profiles: {
+        Row: {
+          account_id: string | null
+          company_id: string
+          created_at: string
+          date_format: string
+          decimal_separator: string
+          default_category_id: string | null
+          header_row: number
+          header_signature: string
+          id: string
+          mapping: Json
+          name: string
+          sign_convention: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          account_id?: string | null
+          company_id: string
+          created_at?: string
+          date_format?: string
+          decimal_separator?: string
+          default_category_id?: string | null
+          header_row?: number
+          header_signature: string
+          id?: string
+          mapping?: Json
+          name: string
+          sign_convention?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          account_id?: string | null
+          company_id?: string
+          created_at?: string
+          date_format?: string
+          decimal_separator?: string
+          default_category_id?: string | null
+          header_row?: number
+          header_signature?: string
+          id?: string
+          mapping?: Json
+          name?: string
+          sign_convention?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_profiles_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_profiles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_profiles_default_category_id_fkey"
+            columns: ["default_category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      installment_plans: {
+        Row: {
+          account_id: string | null
+          category_id: string | null
+          company_id: string
+          created_at: string
+          description: string
+          first_due_date: string
+          id: string
+          installment_count: number
+          notes: string | null
+          remainder_on: string
+          sale_date: string
+          source: string | null
+          total_amount: number
+          type: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          account_id?: string | null
+          category_id?: string | null
+          company_id: string
+          created_at?: string
+          description: string
+          first_due_date: string
+          id?: string
+          installment_count: number
+          notes?: string | null
+          remainder_on?: string
+          sale_date: string
+          source?: string | null
+          total_amount: number
+          type: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          account_id?: string | null
+          category_id?: string | null
+          company_id?: string
+          created_at?: string
+          description?: string
+          first_due_date?: string
+          id?: string
+          installment_count?: number
+          notes?: string | null
+          remainder_on?: string
+          sale_date?: string
+          source?: string | null
+          total_amount?: number
+          type?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "installment_plans_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installment_plans_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installment_plans_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -373,6 +901,103 @@ export type Database = {
           },
         ]
       }
+      recurrences: {
+        Row: {
+          account_id: string | null
+          active: boolean
+          amount: number
+          anchor_date: string | null
+          anchor_index: number
+          category_id: string | null
+          company_id: string
+          counterparty: string | null
+          created_at: string
+          day_of_month: number | null
+          description: string
+          end_date: string | null
+          frequency: string
+          generated_count: number
+          id: string
+          interval_count: number
+          kind: string
+          max_occurrences: number | null
+          notes: string | null
+          start_date: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          account_id?: string | null
+          active?: boolean
+          amount: number
+          anchor_date?: string | null
+          anchor_index?: number
+          category_id?: string | null
+          company_id: string
+          counterparty?: string | null
+          created_at?: string
+          day_of_month?: number | null
+          description: string
+          end_date?: string | null
+          frequency: string
+          generated_count?: number
+          id?: string
+          interval_count?: number
+          kind: string
+          max_occurrences?: number | null
+          notes?: string | null
+          start_date: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          account_id?: string | null
+          active?: boolean
+          amount?: number
+          anchor_date?: string | null
+          anchor_index?: number
+          category_id?: string | null
+          company_id?: string
+          counterparty?: string | null
+          created_at?: string
+          day_of_month?: number | null
+          description?: string
+          end_date?: string | null
+          frequency?: string
+          generated_count?: number
+          id?: string
+          interval_count?: number
+          kind?: string
+          max_occurrences?: number | null
+          notes?: string | null
+          start_date?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurrences_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurrences_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurrences_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subscriptions: {
         Row: {
           company_id: string
@@ -419,13 +1044,20 @@ export type Database = {
       }
       transactions: {
         Row: {
+          account_id: string | null
           amount: number
+          bill_id: string | null
           category_id: string | null
           company_id: string | null
+          competence_date: string | null
           created_at: string
           date: string
           description: string
+          external_id: string | null
           id: string
+          import_id: string | null
+          installment_number: number | null
+          installment_plan_id: string | null
           notes: string | null
           origin: string | null
           product_cost: number | null
@@ -433,18 +1065,26 @@ export type Database = {
           source: string | null
           subcategory: string | null
           tax_amount: number | null
+          transfer_id: string | null
           type: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          account_id?: string | null
           amount: number
+          bill_id?: string | null
           category_id?: string | null
           company_id?: string | null
+          competence_date?: string | null
           created_at?: string
           date?: string
           description: string
+          external_id?: string | null
           id?: string
+          import_id?: string | null
+          installment_number?: number | null
+          installment_plan_id?: string | null
           notes?: string | null
           origin?: string | null
           product_cost?: number | null
@@ -452,18 +1092,26 @@ export type Database = {
           source?: string | null
           subcategory?: string | null
           tax_amount?: number | null
+          transfer_id?: string | null
           type: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          account_id?: string | null
           amount?: number
+          bill_id?: string | null
           category_id?: string | null
           company_id?: string | null
+          competence_date?: string | null
           created_at?: string
           date?: string
           description?: string
+          external_id?: string | null
           id?: string
+          import_id?: string | null
+          installment_number?: number | null
+          installment_plan_id?: string | null
           notes?: string | null
           origin?: string | null
           product_cost?: number | null
@@ -471,11 +1119,26 @@ export type Database = {
           source?: string | null
           subcategory?: string | null
           tax_amount?: number | null
+          transfer_id?: string | null
           type?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_category_id_fkey"
             columns: ["category_id"]
@@ -490,6 +1153,91 @@ export type Database = {
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "import_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transfers: {
+        Row: {
+          amount: number
+          company_id: string
+          created_at: string
+          date: string
+          description: string
+          from_account_id: string
+          id: string
+          notes: string | null
+          to_account_id: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          amount: number
+          company_id: string
+          created_at?: string
+          date?: string
+          description?: string
+          from_account_id: string
+          id?: string
+          notes?: string | null
+          to_account_id: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number
+          company_id?: string
+          created_at?: string
+          date?: string
+          description?: string
+          from_account_id?: string
+          id?: string
+          notes?: string | null
+          to_account_id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfers_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_from_account_id_fkey"
+            columns: ["from_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -694,6 +1442,17 @@ export type Database = {
       }
     }
     Functions: {
+      account_balances: {
+        Args: { p_as_of?: string }
+        Returns: {
+          account_id: string
+          balance: number
+        }[]
+      }
+      apply_recurrence: {
+        Args: { p_anchor?: string; p_from: string; p_recurrence_id: string }
+        Returns: number
+      }
       bootstrap_user_company: {
         Args: {
           company_address?: string
@@ -709,21 +1468,39 @@ export type Database = {
         Args: { p_ciphertext: string; p_user_id: string }
         Returns: string
       }
+      delete_installment_plan: {
+        Args: { p_plan_id: string }
+        Returns: undefined
+      }
+      delete_transfer: { Args: { p_transfer_id: string }; Returns: undefined }
       encrypt_api_credential: {
         Args: { p_plaintext: string; p_user_id: string }
         Returns: string
       }
+      generate_recurrence_bills: {
+        Args: { p_recurrence_id: string; p_until?: string }
+        Returns: number
+      }
+      generate_recurring_bills: {
+        Args: { p_days_ahead?: number }
+        Returns: number
+      }
       get_user_company_id: { Args: never; Returns: string }
       has_role: {
         Args: { _role: Database["public"]["Enums"]["app_role"] }
         Returns: boolean
       }
+      is_audit_export: { Args: { _storage_path: string }; Returns: boolean }
       is_company_admin: { Args: { _company_id: string }; Returns: boolean }
       is_company_member: { Args: { _company_id: string }; Returns: boolean }
       is_subscription_active: {
         Args: { _company_id: string }
         Returns: boolean
       }
+      link_transfer: {
+        Args: { p_first_id: string; p_second_id: string }
+        Returns: string
+      }
       log_audit_event: {
         Args: {
           p_action: string
@@ -734,6 +1511,58 @@ export type Database = {
         }
         Returns: string
       }
+      mark_overdue_bills: { Args: never; Returns: number }
+      recurrence_date: {
+        Args: {
+          p_anchor: string
+          p_day: number
+          p_frequency: string
+          p_interval: number
+          p_step: number
+        }
+        Returns: string
+      }
+      reopen_bill: { Args: { p_bill_id: string }; Returns: undefined }
+      revert_import: { Args: { p_import_id: string }; Returns: Json }
+      save_installment_plan: {
+        Args: {
+          p_account_id?: string
+          p_category_id?: string
+          p_description: string
+          p_first_due_date: string
+          p_installment_count: number
+          p_notes?: string
+          p_plan_id?: string
+          p_remainder_on?: string
+          p_sale_date: string
+          p_source?: string
+          p_total_amount: number
+          p_type: string
+        }
+        Returns: string
+      }
+      save_transfer: {
+        Args: {
+          p_amount: number
+          p_date: string
+          p_description: string
+          p_from_account_id: string
+          p_notes?: string
+          p_to_account_id: string
+          p_transfer_id?: string
+        }
+        Returns: string
+      }
+      settle_bill: {
+        Args: {
+          p_account_id?: string
+          p_bill_id: string
+          p_discount?: number
+          p_interest?: number
+          p_paid_at: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "financeiro" | "leitura"
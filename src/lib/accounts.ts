@@ -0,0 +1,67 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+// =====================================================
+// CONTAS E CARTEIRAS
+// =====================================================
+
+export type Account = Tables<'accounts'>;
+
+export type AccountType = 'checking' | 'savings' | 'cash' | 'marketplace' | 'credit_card';
+
+export const ACCOUNT_TYPES: Record<AccountType, string> = {
+  checking: 'Conta corrente',
+  savings: 'Poupança',
+  cash: 'Caixa',
+  marketplace: 'Carteira de marketplace',
+  credit_card: 'Cartão de crédito',
+};
+
+export const accountTypeLabel = (type: string) => ACCOUNT_TYPES[type as AccountType] || type;
+
+/** Valor de filtro para "todas as contas" */
+export const ALL_ACCOUNTS = 'all';
+
+interface BalanceTransaction {
+  id: string;
+  date: string;
+  amount: number;
+  type: string;
+  created_at?: string;
+}
+
+/** Receita soma e despesa subtrai, independente do sinal gravado */
+export const signedAmount = (t: { amount: number; type: string }) =>
+  (t.type === 'income' ? 1 : -1) * Math.abs(Number(t.amount));
+
+/**
+ * Saldo da conta após cada lançamento, partindo do saldo atual (account_balances) e
+ * voltando do mais recente para o mais antigo. Assim a lista pode ter só os lançamentos
+ * mais recentes da conta. Lançamentos anteriores à data de abertura ficam sem saldo.
+ */
+export function runningBalances(
+  transactions: BalanceTransaction[],
+  currentBalance: number,
+  openingDate: string,
+): Map<string, number> {
+  const newestFirst = [...transactions].sort((a, b) =>
+    b.date.localeCompare(a.date)
+    || (b.created_at || '').localeCompare(a.created_at || '')
+    || b.id.localeCompare(a.id));
+
+  const balances = new Map<string, number>();
+  let balance = currentBalance;
+  for (const t of newestFirst) {
+    if (t.date < openingDate) continue;
+    balances.set(t.id, Math.round(balance * 100) / 100);
+    balance -= signedAmount(t);
+  }
+  return balances;
+}
+
+/**
+ * Saldo consolidado das contas informadas (ou de todas, quando a lista está vazia)
+ */
+export function consolidatedBalance(balances: Record<string, number>, accountIds: string[] = []): number {
+  const ids = accountIds.length > 0 ? accountIds : Object.keys(balances);
+  return ids.reduce((sum, id) => sum + (balances[id] ?? 0), 0);
+}
@@ -0,0 +1,125 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { shiftDate } from '@/lib/periods';
+
+// =====================================================
+// CONTAS A PAGAR E A RECEBER (TÍTULOS)
+// =====================================================
+
+export type Bill = Tables<'bills'>;
+
+export type BillKind = 'payable' | 'receivable';
+
+export type BillStatus = 'pending' | 'paid' | 'overdue' | 'cancelled';
+
+export const BILL_KINDS: Record<BillKind, { label: string; plural: string; counterparty: string }> = {
+  payable: { label: 'A pagar', plural: 'Contas a pagar', counterparty: 'Fornecedor' },
+  receivable: { label: 'A receber', plural: 'Contas a receber', counterparty: 'Cliente' },
+};
+
+export const BILL_STATUS_LABELS: Record<BillStatus, string> = {
+  pending: 'Pendente',
+  paid: 'Pago',
+  overdue: 'Vencido',
+  cancelled: 'Cancelado',
+};
+
+export const billStatusLabel = (status: string) => BILL_STATUS_LABELS[status as BillStatus] || status;
+
+/** Títulos em aberto: ainda serão pagos ou recebidos */
+export const isOpenBill = (bill: Pick<Bill, 'status'>) => bill.status === 'pending' || bill.status === 'overdue';
+
+/** Situação de um título em aberto pela data de vencimento */
+export const openStatus = (dueDate: string, today: string): BillStatus =>
+  dueDate < today ? 'overdue' : 'pending';
+
+/**
+ * Situação exibida: um título pendente já vencido aparece como vencido mesmo antes
+ * de mark_overdue_bills gravar a mudança
+ */
+export function effectiveStatus(bill: Pick<Bill, 'status' | 'due_date'>, today: string): BillStatus {
+  return isOpenBill(bill) ? openStatus(bill.due_date, today) : bill.status as BillStatus;
+}
+
+/** Valor efetivamente pago ou recebido na baixa */
+export const settledAmount = (amount: number, interest: number, discount: number) =>
+  Math.round((amount + interest - discount) * 100) / 100;
+
+// =====================================================
+// AGING (VENCIMENTOS POR FAIXA DE ATRASO)
+// =====================================================
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_over_90';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'A vencer' },
+  { key: 'days_1_30', label: '1 a 30 dias' },
+  { key: 'days_31_60', label: '31 a 60 dias' },
+  { key: 'days_61_90', label: '61 a 90 dias' },
+  { key: 'days_over_90', label: 'Mais de 90 dias' },
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Dias de atraso (negativo enquanto não vence) */
+export const daysOverdue = (dueDate: string, today: string) =>
+  Math.round((Date.parse(`${today}T00:00:00Z`) - Date.parse(`${dueDate}T00:00:00Z`)) / DAY);
+
+export function agingBucket(dueDate: string, today: string): AgingBucket {
+  const days = daysOverdue(dueDate, today);
+  if (days <= 0) return 'current';
+  if (days <= 30) return 'days_1_30';
+  if (days <= 60) return 'days_31_60';
+  if (days <= 90) return 'days_61_90';
+  return 'days_over_90';
+}
+
+export type AgingSummary = Record<AgingBucket, { count: number; total: number }>;
+
+/**
+ * Títulos em aberto agrupados por faixa de atraso
+ */
+export function agingSummary(bills: Bill[], today: string): AgingSummary {
+  const summary = Object.fromEntries(
+    AGING_BUCKETS.map(({ key }) => [key, { count: 0, total: 0 }])
+  ) as AgingSummary;
+
+  bills.filter(isOpenBill).forEach(bill => {
+    const bucket = summary[agingBucket(bill.due_date, today)];
+    bucket.count += 1;
+    bucket.total += Number(bill.amount);
+  });
+
+  return summary;
+}
+
+export interface DueSummary {
+  payable: number;
+  receivable: number;
+  count: number;
+}
+
+type DueBill = Pick<Bill, 'kind' | 'status' | 'due_date' | 'amount'>;
+
+function summarizeDue(bills: DueBill[]): DueSummary {
+  const summary: DueSummary = { payable: 0, receivable: 0, count: 0 };
+  bills.forEach(b => {
+    summary[b.kind as BillKind] += Number(b.amount);
+    summary.count += 1;
+  });
+  return summary;
+}
+
+/**
+ * Títulos em aberto que vencem de hoje até `days` dias à frente
+ */
+export function dueWithin(bills: DueBill[], today: string, days: number): DueSummary {
+  const end = shiftDate(today, days);
+  return summarizeDue(bills.filter(b => isOpenBill(b) && b.due_date >= today && b.due_date <= end));
+}
+
+/**
+ * Títulos em aberto com vencimento anterior a hoje
+ */
+export function overdueSummary(bills: DueBill[], today: string): DueSummary {
+  return summarizeDue(bills.filter(b => isOpenBill(b) && b.due_date < today));
+}
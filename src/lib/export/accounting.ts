@@ -0,0 +1,160 @@
+import type { ExportTransaction } from '@/lib/export/reports';
+import { withoutTransfers } from '@/lib/transfers';
+
+// =====================================================
+// LAYOUTS DE EXPORTAÇÃO PARA SISTEMAS CONTÁBEIS
+// =====================================================
+
+export type AccountingLayout = 'dominio' | 'accounting_csv';
+
+export interface AccountingLayoutInfo {
+  label: string;
+  description: string;
+  extension: string;
+  mime: string;
+}
+
+export const ACCOUNTING_LAYOUTS: Record<AccountingLayout, AccountingLayoutInfo> = {
+  dominio: {
+    label: 'Domínio (TXT)',
+    description: 'Leiaute padrão de importação de lançamentos da Domínio Sistemas',
+    extension: 'txt',
+    mime: 'text/plain;charset=windows-1252',
+  },
+  accounting_csv: {
+    label: 'Partidas dobradas (CSV)',
+    description: 'Data, conta débito, conta crédito, valor e histórico',
+    extension: 'csv',
+    mime: 'text/csv;charset=utf-8',
+  },
+};
+
+export interface AccountingEntry {
+  date: string;
+  debit: string;
+  credit: string;
+  amount: number;
+  history: string;
+}
+
+export interface UnmappedCategory {
+  name: string;
+  count: number;
+}
+
+export interface AccountingValidation {
+  entries: AccountingEntry[];
+  /** Categorias (ou "Sem categoria") com lançamentos no período e sem conta contábil */
+  unmapped: UnmappedCategory[];
+  missingCashAccount: boolean;
+}
+
+export const UNCATEGORIZED_LABEL = 'Sem categoria';
+
+const HISTORY_MAX_LENGTH = 200;
+
+/** Histórico sem quebras de linha nem os separadores dos layouts */
+function cleanHistory(text: string): string {
+  return text.replace(/[\r\n\t|;"]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, HISTORY_MAX_LENGTH);
+}
+
+/** Valor com vírgula decimal e sem separador de milhar (1234,56) */
+const formatAmount = (value: number) => Math.abs(value).toFixed(2).replace('.', ',');
+
+/** t.date é 'yyyy-MM-dd'; formatado sem passar por Date para não mudar de dia pelo fuso */
+const formatDate = (date: string) => date.slice(0, 10).split('-').reverse().join('/');
+
+/**
+ * Monta as partidas dobradas do período. Receita: débito no caixa, crédito na conta da
+ * categoria; despesa: débito na conta da categoria, crédito no caixa. Só gera lançamentos
+ * quando todas as transações têm conta. Transferências entre contas ficam de fora: as
+ * duas pernas caem na mesma conta de caixa.
+ */
+export function buildAccountingEntries(
+  allTransactions: ExportTransaction[],
+  cashAccount: string | null,
+): AccountingValidation {
+  const transactions = withoutTransfers(allTransactions);
+  const cash = (cashAccount || '').trim();
+  const unmapped = new Map<string, number>();
+
+  transactions.forEach(t => {
+    if (t.categories?.account_code?.trim()) return;
+    const name = t.categories?.name || UNCATEGORIZED_LABEL;
+    unmapped.set(name, (unmapped.get(name) || 0) + 1);
+  });
+
+  const validation: AccountingValidation = {
+    entries: [],
+    unmapped: [...unmapped.entries()]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count),
+    missingCashAccount: !cash,
+  };
+  if (validation.unmapped.length > 0 || validation.missingCashAccount) return validation;
+
+  validation.entries = [...transactions]
+    .filter(t => t.amount !== 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(t => {
+      const account = t.categories!.account_code!.trim();
+      const isIncome = t.type === 'income';
+      return {
+        date: t.date,
+        debit: isIncome ? cash : account,
+        credit: isIncome ? account : cash,
+        amount: Math.abs(t.amount),
+        history: cleanHistory(t.description),
+      };
+    });
+
+  return validation;
+}
+
+/**
+ * Leiaute padrão Domínio: registro 0000 com o CNPJ da empresa e, para cada lançamento,
+ * um 6000 (tipo X = um débito para um crédito) seguido da partida 6100
+ */
+export function formatDominioTxt(entries: AccountingEntry[], companyDocument: string | null): string {
+  const lines = [`|0000|${(companyDocument || '').replace(/\D/g, '')}|`];
+
+  entries.forEach(entry => {
+    lines.push('|6000|X||||');
+    lines.push(
+      `|6100|${formatDate(entry.date)}|${entry.debit}|${entry.credit}|${formatAmount(entry.amount)}||${entry.history}||||`
+    );
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function formatAccountingCsv(entries: AccountingEntry[]): string {
+  const header = 'Data;Conta Débito;Conta Crédito;Valor;Histórico';
+  const rows = entries.map(entry =>
+    [formatDate(entry.date), entry.debit, entry.credit, formatAmount(entry.amount), `"${entry.history}"`].join(';')
+  );
+  return [header, ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Sistemas contábeis desktop leem ANSI; acentos do português cabem em Latin-1
+ */
+function encodeLatin1(text: string): Uint8Array {
+  return Uint8Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    return code < 256 ? code : 63; // '?'
+  });
+}
+
+export function buildAccountingFile(
+  layout: AccountingLayout,
+  entries: AccountingEntry[],
+  companyDocument: string | null,
+): Blob {
+  const { mime } = ACCOUNTING_LAYOUTS[layout];
+  if (layout === 'dominio') {
+    return new Blob([encodeLatin1(formatDominioTxt(entries, companyDocument))], { type: mime });
+  }
+  // BOM para o Excel abrir o CSV com acentos corretos
+  return new Blob(['\uFEFF' + formatAccountingCsv(entries)], { type: mime });
+}
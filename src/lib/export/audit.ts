@@ -0,0 +1,215 @@
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { ExportRow } from '@/lib/export/reports';
+import { DateRange, dateInTimeZone } from '@/lib/periods';
+
+// =====================================================
+// TRILHA DE AUDITORIA E HISTÓRICO DE ALERTAS (EXPORTAÇÃO PARA ADMINS)
+// =====================================================
+
+export type AuditLogRecord = Tables<'audit_log'>;
+export type AlertRecord = Tables<'alerts'>;
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  create: 'Criação',
+  insert: 'Criação',
+  update: 'Alteração',
+  delete: 'Exclusão',
+  import: 'Importação',
+  export: 'Exportação',
+  revert: 'Reversão',
+  login: 'Login',
+  logout: 'Logout',
+  sync: 'Sincronização',
+};
+
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  transactions: 'Transações',
+  categories: 'Categorias',
+  accounts: 'Contas',
+  transfers: 'Transferências',
+  installment_plans: 'Parcelamentos',
+  bills: 'Contas a pagar e receber',
+  recurrences: 'Recorrências',
+  companies: 'Empresa',
+  profiles: 'Perfis',
+  user_roles: 'Permissões',
+  subscriptions: 'Assinatura',
+  import_history: 'Importações',
+  import_profiles: 'Perfis de importação',
+  export_history: 'Exportações',
+  export_templates: 'Modelos de exportação',
+  export_schedules: 'Exportações agendadas',
+  api_connections: 'Conexões de API',
+};
+
+/** Mesmos rótulos da tela de alertas */
+export const ALERT_TYPE_LABELS: Record<string, string> = {
+  create: 'Criação',
+  edit: 'Edição',
+  delete: 'Exclusão',
+  import: 'Importação',
+  export: 'Exportação',
+  duplicate: 'Duplicidade',
+  api_sync: 'Sincronização API',
+  login: 'Login',
+  logout: 'Logout',
+  system: 'Sistema',
+  transaction_created: 'Criação',
+  transaction_edited: 'Edição',
+  transaction_deleted: 'Exclusão',
+  import_completed: 'Importação',
+  export_completed: 'Exportação',
+  duplicate_detected: 'Duplicidade',
+  title_rejected: 'Boleto rejeitado',
+  bill_overdue: 'Conta vencida',
+};
+
+/** Colunas fixas, usadas também quando o período não tem registros */
+export const AUDIT_COLUMNS = ['Data/Hora', 'Usuário', 'Ação', 'Tabela', 'Registro', 'Alterações'];
+export const ALERT_COLUMNS = ['Data/Hora', 'Usuário', 'Tipo', 'Mensagem', 'Resolvido', 'Detalhes'];
+export const AUDIT_TRAIL_COLUMNS = ['Origem', 'Data/Hora', 'Usuário', 'Evento', 'Tabela', 'Registro', 'Detalhes'];
+
+const SYSTEM_USER = 'Sistema';
+const VALUE_MAX_LENGTH = 200;
+// Limite de texto de uma célula do Excel, com folga
+const CELL_MAX_LENGTH = 32000;
+// Atualizados a cada gravação, não dizem nada sobre o que mudou
+const IGNORED_FIELDS = ['updated_at'];
+
+export const auditActionLabel = (action: string) => AUDIT_ACTION_LABELS[action.toLowerCase()] || action;
+export const auditTableLabel = (table: string) => AUDIT_TABLE_LABELS[table] || table;
+export const alertTypeLabel = (type: string) => ALERT_TYPE_LABELS[type] || type;
+
+/**
+ * Registros criados dentro do período, considerando a data no fuso da empresa
+ */
+export function filterByPeriod<T extends { created_at: string }>(records: T[], range: DateRange, timeZone: string): T[] {
+  return records.filter(r => {
+    const date = dateInTimeZone(new Date(r.created_at), timeZone);
+    return date >= range.start && date <= range.end;
+  });
+}
+
+/** 'dd/MM/yyyy HH:mm:ss' no fuso da empresa */
+export function formatDateTime(value: string, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(value));
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return `${part('day')}/${part('month')}/${part('year')} ${part('hour')}:${part('minute')}:${part('second')}`;
+}
+
+const isObject = (value: Json | null): value is { [key: string]: Json | undefined } =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function valueText(value: Json | undefined): string {
+  if (value === null || value === undefined || value === '') return '(vazio)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > VALUE_MAX_LENGTH ? `${text.slice(0, VALUE_MAX_LENGTH)}…` : text;
+}
+
+/**
+ * Diferença entre os dados antes e depois: "campo: antes → depois" para alterações,
+ * "campo: valor" quando só existe um dos lados (criação ou exclusão)
+ */
+export function auditChanges(oldData: Json | null, newData: Json | null): string[] {
+  const before = isObject(oldData) ? oldData : null;
+  const after = isObject(newData) ? newData : null;
+  if (!before && !after) return [];
+
+  if (!before || !after) {
+    const only = (before || after)!;
+    return Object.keys(only)
+      .filter(field => !IGNORED_FIELDS.includes(field))
+      .map(field => `${field}: ${valueText(only[field])}`);
+  }
+
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => `${field}: ${valueText(before[field])} → ${valueText(after[field])}`);
+}
+
+const cell = (text: string) => (text.length > CELL_MAX_LENGTH ? `${text.slice(0, CELL_MAX_LENGTH)}…` : text);
+
+const byCreatedAt = <T extends { created_at: string }>(records: T[]) =>
+  [...records].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+const userName = (userId: string | null, userNames: Record<string, string>) =>
+  userId ? userNames[userId] || 'Usuário' : SYSTEM_USER;
+
+export function formatAuditRows(
+  entries: AuditLogRecord[],
+  userNames: Record<string, string>,
+  timeZone: string,
+): ExportRow[] {
+  return byCreatedAt(entries).map(entry => ({
+    'Data/Hora': formatDateTime(entry.created_at, timeZone),
+    'Usuário': userName(entry.user_id, userNames),
+    'Ação': auditActionLabel(entry.action),
+    'Tabela': auditTableLabel(entry.table_name),
+    'Registro': entry.record_id || '-',
+    'Alterações': cell(auditChanges(entry.old_data, entry.new_data).join('; ') || '-'),
+  }));
+}
+
+export function formatAlertRows(
+  alerts: AlertRecord[],
+  userNames: Record<string, string>,
+  timeZone: string,
+): ExportRow[] {
+  return byCreatedAt(alerts).map(alert => ({
+    'Data/Hora': formatDateTime(alert.created_at, timeZone),
+    'Usuário': userName(alert.user_id, userNames),
+    'Tipo': alertTypeLabel(alert.type),
+    'Mensagem': alert.message,
+    'Resolvido': alert.resolved ? 'Sim' : 'Não',
+    'Detalhes': cell(alert.metadata ? JSON.stringify(alert.metadata) : '-'),
+  }));
+}
+
+/**
+ * Auditoria e alertas em uma única tabela cronológica (para o CSV, que tem uma só aba)
+ */
+export function buildAuditTrailRows(
+  entries: AuditLogRecord[],
+  alerts: AlertRecord[],
+  userNames: Record<string, string>,
+  timeZone: string,
+): ExportRow[] {
+  const events = [
+    ...entries.map(entry => ({
+      created_at: entry.created_at,
+      row: {
+        'Origem': 'Auditoria',
+        'Data/Hora': formatDateTime(entry.created_at, timeZone),
+        'Usuário': userName(entry.user_id, userNames),
+        'Evento': auditActionLabel(entry.action),
+        'Tabela': auditTableLabel(entry.table_name),
+        'Registro': entry.record_id || '-',
+        'Detalhes': cell(auditChanges(entry.old_data, entry.new_data).join('; ') || '-'),
+      },
+    })),
+    ...alerts.map(alert => ({
+      created_at: alert.created_at,
+      row: {
+        'Origem': 'Alerta',
+        'Data/Hora': formatDateTime(alert.created_at, timeZone),
+        'Usuário': userName(alert.user_id, userNames),
+        'Evento': alertTypeLabel(alert.type),
+        'Tabela': '-',
+        'Registro': '-',
+        'Detalhes': cell(`${alert.message}${alert.resolved ? ' (resolvido)' : ''}`),
+      },
+    })),
+  ];
+
+  return byCreatedAt(events).map(event => event.row);
+}
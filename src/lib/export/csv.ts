@@ -0,0 +1,39 @@
+import type { ExportRow } from '@/lib/export/reports';
+
+// =====================================================
+// CSV EM PARTES
+// Gerado em blocos de linhas direto para o Blob, sem montar uma planilha ExcelJS
+// nem uma única string com o arquivo inteiro
+// =====================================================
+
+export const CSV_MIME = 'text/csv;charset=utf-8;';
+
+const CHUNK_ROWS = 1000;
+
+/** Aspas só quando o valor tem separador, aspas ou quebra de linha */
+function csvValue(value: string | number | undefined): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV separado por vírgula com as chaves da primeira linha como cabeçalho
+ */
+export function rowsToCsvBlob(rows: ExportRow[]): Blob {
+  if (rows.length === 0) return new Blob([], { type: CSV_MIME });
+
+  const columns = Object.keys(rows[0]);
+  const parts: string[] = [columns.map(csvValue).join(',') + '\n'];
+
+  for (let i = 0; i < rows.length; i += CHUNK_ROWS) {
+    parts.push(
+      rows
+        .slice(i, i + CHUNK_ROWS)
+        .map(row => columns.map(column => csvValue(row[column])).join(',') + '\n')
+        .join('')
+    );
+  }
+
+  return new Blob(parts, { type: CSV_MIME });
+}
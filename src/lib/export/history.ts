@@ -0,0 +1,46 @@
+import type { Json } from '@/integrations/supabase/types';
+import { EXPORT_TYPE_LABELS, ExportType } from '@/lib/export/reports';
+
+// =====================================================
+// ARQUIVOS DO HISTÓRICO DE EXPORTAÇÕES (BUCKET "exports")
+// Usado pela tela de exportação e pela Edge Function scheduled-exports
+// =====================================================
+
+export const EXPORTS_BUCKET = 'exports';
+
+/**
+ * Caminho do arquivo: <company_id>/<ano>/<uuid>/<arquivo>. A pasta única evita
+ * sobrescrever uma exportação anterior com o mesmo nome e período.
+ */
+export function exportStoragePath(companyId: string, fileName: string, date = new Date()): string {
+  return `${companyId}/${date.getFullYear()}/${crypto.randomUUID()}/${fileName}`;
+}
+
+/** SHA-256 do arquivo em hexadecimal, gravado em export_history.checksum */
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function formatFileSize(bytes: number | null): string {
+  if (bytes === null) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1).replace('.', ',')} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+}
+
+/**
+ * Tipo da exportação para exibição; modelos usam o nome gravado no momento da exportação
+ */
+export function exportHistoryTypeLabel(item: { export_type: string; template_snapshot: Json | null }): string {
+  if (item.export_type === 'template') {
+    const snapshot = item.template_snapshot as { name?: string } | null;
+    return `Modelo: ${snapshot?.name || 'excluído'}`;
+  }
+  return EXPORT_TYPE_LABELS[item.export_type as ExportType] || item.export_type;
+}
+
+/** Arquivo ainda disponível para download (não removido pela retenção) */
+export function isExportAvailable(item: { storage_path: string | null; expires_at: string | null }, now = new Date()) {
+  return !!item.storage_path && (!item.expires_at || new Date(item.expires_at) > now);
+}
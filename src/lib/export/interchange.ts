@@ -0,0 +1,163 @@
+import type { ExportTransaction } from '@/lib/export/reports';
+
+// =====================================================
+// OFX E QIF PARA OUTROS APLICATIVOS FINANCEIROS
+// =====================================================
+
+export type InterchangeFormat = 'ofx' | 'qif';
+
+export interface InterchangeFormatInfo {
+  label: string;
+  description: string;
+  extension: string;
+  mime: string;
+}
+
+export const INTERCHANGE_FORMATS: Record<InterchangeFormat, InterchangeFormatInfo> = {
+  ofx: {
+    label: 'OFX 2.x',
+    description: 'Extrato bancário padrão, aceito pela maioria dos aplicativos financeiros e ERPs',
+    extension: 'ofx',
+    mime: 'application/x-ofx',
+  },
+  qif: {
+    label: 'QIF',
+    description: 'Quicken Interchange Format, com a categoria de cada transação (datas dd/mm/aaaa)',
+    extension: 'qif',
+    mime: 'application/qif',
+  },
+};
+
+/**
+ * BANKID dos extratos exportados; junto com o ACCTID derivado da empresa, permite
+ * reconhecer o arquivo na importação OFX e não duplicar as transações originais
+ */
+export const OFX_EXPORT_BANK_ID = 'EXPORTADO';
+
+/** ACCTID tem no máximo 22 caracteres no OFX */
+export const ofxExportAccountId = (companyId: string) => companyId.replace(/-/g, '').slice(0, 22);
+
+const OFX_NAME_MAX_LENGTH = 32;
+const OFX_MEMO_MAX_LENGTH = 255;
+
+const signedAmount = (t: ExportTransaction) => (t.type === 'income' ? 1 : -1) * Math.abs(t.amount);
+
+const sortByDate = (transactions: ExportTransaction[]) =>
+  [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+
+/** Texto em uma linha, sem espaços repetidos */
+const singleLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/** 'yyyy-MM-dd' → 'yyyyMMdd', sem passar por Date para não mudar de dia pelo fuso */
+const ofxDate = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const ofxTimestamp = (now: Date) => `${now.toISOString().slice(0, 19).replace(/[-T:]/g, '')}[0:GMT]`;
+
+/**
+ * Extrato OFX 2.x (XML) de conta corrente. O FITID é o id da transação, então o mesmo
+ * lançamento tem sempre o mesmo identificador em exportações diferentes.
+ */
+export function formatOfx(
+  transactions: ExportTransaction[],
+  options: { companyId: string; start: string; end: string; now?: Date },
+): string {
+  const sorted = sortByDate(transactions);
+  const balance = sorted.reduce((sum, t) => sum + signedAmount(t), 0);
+  const timestamp = ofxTimestamp(options.now || new Date());
+
+  const statementLines = sorted.map(t => {
+    const description = singleLine(t.description) || 'Transação';
+    return [
+      '<STMTTRN>',
+      `<TRNTYPE>${t.type === 'income' ? 'CREDIT' : 'DEBIT'}</TRNTYPE>`,
+      `<DTPOSTED>${ofxDate(t.date)}</DTPOSTED>`,
+      `<TRNAMT>${signedAmount(t).toFixed(2)}</TRNAMT>`,
+      `<FITID>${t.id}</FITID>`,
+      `<NAME>${escapeXml(description.slice(0, OFX_NAME_MAX_LENGTH))}</NAME>`,
+      `<MEMO>${escapeXml(description.slice(0, OFX_MEMO_MAX_LENGTH))}</MEMO>`,
+      '</STMTTRN>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    `<DTSERVER>${timestamp}</DTSERVER>`,
+    '<LANGUAGE>POR</LANGUAGE>',
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1>',
+    '<STMTTRNRS>',
+    '<TRNUID>0</TRNUID>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    '<STMTRS>',
+    '<CURDEF>BRL</CURDEF>',
+    '<BANKACCTFROM>',
+    `<BANKID>${OFX_EXPORT_BANK_ID}</BANKID>`,
+    `<ACCTID>${ofxExportAccountId(options.companyId)}</ACCTID>`,
+    '<ACCTTYPE>CHECKING</ACCTTYPE>',
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(options.start)}</DTSTART>`,
+    `<DTEND>${ofxDate(options.end)}</DTEND>`,
+    ...statementLines,
+    '</BANKTRANLIST>',
+    // Não há saldo bancário real: o saldo informado é o resultado do período
+    '<LEDGERBAL>',
+    `<BALAMT>${balance.toFixed(2)}</BALAMT>`,
+    `<DTASOF>${ofxDate(options.end)}</DTASOF>`,
+    '</LEDGERBAL>',
+    '</STMTRS>',
+    '</STMTTRNRS>',
+    '</BANKMSGSRSV1>',
+    '</OFX>',
+  ].join('\n') + '\n';
+}
+
+/** No campo L do QIF, ':' separa subcategoria, '/' separa classe e colchetes indicam transferência */
+const qifCategoryPart = (name: string) => singleLine(name).replace(/[:/[\]]/g, '-');
+
+/**
+ * Arquivo QIF de conta bancária: data, valor com sinal, favorecido/descrição,
+ * observações e categoria (com subcategoria quando houver)
+ */
+export function formatQif(transactions: ExportTransaction[]): string {
+  const lines = ['!Type:Bank'];
+
+  sortByDate(transactions).forEach(t => {
+    lines.push(`D${t.date.slice(0, 10).split('-').reverse().join('/')}`);
+    lines.push(`T${signedAmount(t).toFixed(2)}`);
+    lines.push(`P${singleLine(t.description)}`);
+    if (t.notes?.trim()) lines.push(`M${singleLine(t.notes)}`);
+    if (t.categories?.name) {
+      const category = [t.categories.name, t.subcategory]
+        .filter((part): part is string => !!part?.trim())
+        .map(qifCategoryPart)
+        .join(':');
+      lines.push(`L${category}`);
+    }
+    lines.push('^');
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function buildInterchangeFile(
+  format: InterchangeFormat,
+  transactions: ExportTransaction[],
+  options: { companyId: string; start: string; end: string },
+): Blob {
+  const content = format === 'ofx' ? formatOfx(transactions, options) : formatQif(transactions);
+  return new Blob([content], { type: INTERCHANGE_FORMATS[format].mime });
+}
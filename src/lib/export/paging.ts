@@ -0,0 +1,56 @@
+// =====================================================
+// LEITURA PAGINADA PARA EXPORTAÇÕES GRANDES
+// O PostgREST devolve no máximo 1000 linhas por requisição (max-rows); sem paginar,
+// uma exportação anual era truncada sem aviso
+// =====================================================
+
+export const EXPORT_PAGE_SIZE = 1000;
+
+export interface PageResponse<T> {
+  data: T[] | null;
+  error: unknown;
+  /** Total da consulta, quando pedido com { count: 'exact' } */
+  count?: number | null;
+}
+
+export interface PagedResult<T> {
+  rows: T[];
+  /** Total informado pelo banco, ou null quando a consulta não pede contagem */
+  total: number | null;
+  /** Menos linhas que o total informado: o arquivo ficaria incompleto */
+  capped: boolean;
+}
+
+export interface PagingOptions {
+  pageSize?: number;
+  onProgress?: (loaded: number, total: number | null) => void;
+}
+
+/**
+ * Busca todas as páginas de uma consulta. A consulta deve ter ordenação estável
+ * (ex: data e id) para que nenhuma linha se repita ou fique de fora entre páginas.
+ * O deslocamento segue o que o banco devolveu, então um max-rows menor que a página
+ * só gera mais requisições.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResponse<T>>,
+  { pageSize = EXPORT_PAGE_SIZE, onProgress }: PagingOptions = {},
+): Promise<PagedResult<T>> {
+  const rows: T[] = [];
+  let total: number | null = null;
+
+  for (;;) {
+    const { data, error, count } = await fetchPage(rows.length, rows.length + pageSize - 1);
+    if (error) throw error;
+    if (typeof count === 'number') total = count;
+
+    const page = data || [];
+    for (const row of page) rows.push(row);
+    onProgress?.(rows.length, total);
+
+    if (page.length === 0) break;
+    if (total !== null ? rows.length >= total : page.length < pageSize) break;
+  }
+
+  return { rows, total, capped: total !== null && rows.length < total };
+}
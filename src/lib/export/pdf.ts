@@ -0,0 +1,535 @@
+import { jsPDF } from 'jspdf';
+import { autoTable, CellDef, RowInput } from 'jspdf-autotable';
+import { format } from 'date-fns';
+import {
+  CashFlowPoint,
+  CategoryShare,
+  EXPORT_TYPE_LABELS,
+  ExportRow,
+  ExportTransaction,
+  ExportType,
+  calculateCashFlow,
+  calculateCategoryShares,
+  calculateTotals,
+  formatCurrency,
+  formatTransactionsForExport,
+  generateCategorySummary,
+  generateFullReport,
+  generateMonthlySummary,
+} from '@/lib/export/reports';
+import { ALERT_COLUMNS, AUDIT_COLUMNS } from '@/lib/export/audit';
+
+// =====================================================
+// RELATÓRIOS EM PDF (NAVEGADOR E EDGE FUNCTION scheduled-exports)
+// =====================================================
+
+export interface PdfCompany {
+  name: string;
+  document: string | null;
+}
+
+interface PdfDocumentOptions {
+  company: PdfCompany;
+  start: Date;
+  end: Date;
+}
+
+export interface PdfReportOptions extends PdfDocumentOptions {
+  exportType: ExportType;
+  transactions: ExportTransaction[];
+  /** Transações com competência no período, usadas na DRE */
+  competenceTransactions: ExportTransaction[];
+}
+
+export interface PdfAuditOptions extends PdfDocumentOptions {
+  auditRows: ExportRow[];
+  alertRows: ExportRow[];
+}
+
+type RGB = [number, number, number];
+
+// Mesmas cores de --primary e --destructive do tema
+const PRIMARY: RGB = [16, 185, 129];
+const DESTRUCTIVE: RGB = [220, 38, 38];
+const MUTED: RGB = [100, 116, 139];
+const GRID: RGB = [226, 232, 240];
+const TEXT: RGB = [15, 23, 42];
+
+const MARGIN = 14;
+const HEADER_HEIGHT = 28;
+const FOOTER_HEIGHT = 12;
+
+const compact = new Intl.NumberFormat('pt-BR', { notation: 'compact', maximumFractionDigits: 1 });
+
+export function formatDocument(document: string | null): string {
+  const digits = (document || '').replace(/\D/g, '');
+  if (digits.length === 14) return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+  if (digits.length === 11) return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+  return document || '';
+}
+
+function hexToRgb(hex: string): RGB {
+  const match = hex.replace('#', '').match(/^([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : MUTED;
+}
+
+function money(value: number): CellDef {
+  return { content: formatCurrency(value), styles: value < 0 ? { textColor: DESTRUCTIVE } : {} };
+}
+
+function lastTableY(doc: jsPDF): number {
+  return (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+}
+
+const pageWidth = (doc: jsPDF) => doc.internal.pageSize.getWidth();
+const pageHeight = (doc: jsPDF) => doc.internal.pageSize.getHeight();
+
+/**
+ * Garante espaço para um bloco de altura fixa (gráficos, resumo), abrindo nova página se preciso
+ */
+function ensureSpace(doc: jsPDF, y: number, height: number): number {
+  if (y + height <= pageHeight(doc) - FOOTER_HEIGHT - 4) return y;
+  doc.addPage();
+  return HEADER_HEIGHT + 4;
+}
+
+function sectionTitle(doc: jsPDF, title: string, y: number): number {
+  y = ensureSpace(doc, y, 12);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(...TEXT);
+  doc.text(title, MARGIN, y + 4);
+  return y + 8;
+}
+
+// =====================================================
+// CABEÇALHO, RODAPÉ E RESUMO
+// =====================================================
+
+/**
+ * Cabeçalho e rodapé são desenhados no fim, quando o total de páginas já é conhecido
+ */
+function drawPageFrames(doc: jsPDF, options: PdfDocumentOptions, title: string) {
+  const total = doc.getNumberOfPages();
+  const width = pageWidth(doc);
+  const height = pageHeight(doc);
+  const period = `Período: ${format(options.start, 'dd/MM/yyyy')} a ${format(options.end, 'dd/MM/yyyy')}`;
+  const generatedAt = `Gerado em ${format(new Date(), "dd/MM/yyyy 'às' HH:mm")}`;
+  const document = formatDocument(options.company.document);
+
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.setTextColor(...TEXT);
+    doc.text(options.company.name, MARGIN, 14);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED);
+    if (document) doc.text(`CNPJ: ${document}`, MARGIN, 19.5);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(...TEXT);
+    doc.text(title, width - MARGIN, 14, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED);
+    doc.text(period, width - MARGIN, 19.5, { align: 'right' });
+
+    doc.setDrawColor(...PRIMARY);
+    doc.setLineWidth(0.6);
+    doc.line(MARGIN, 23, width - MARGIN, 23);
+
+    doc.setDrawColor(...GRID);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, height - FOOTER_HEIGHT + 2, width - MARGIN, height - FOOTER_HEIGHT + 2);
+    doc.setFontSize(8);
+    doc.text(generatedAt, MARGIN, height - 6);
+    doc.text(`Página ${page} de ${total}`, width - MARGIN, height - 6, { align: 'right' });
+  }
+}
+
+function drawTotals(doc: jsPDF, transactions: ExportTransaction[], y: number): number {
+  const { income, expense, balance } = calculateTotals(transactions);
+  const boxes: { label: string; value: number; color: RGB }[] = [
+    { label: 'Receitas', value: income, color: PRIMARY },
+    { label: 'Despesas', value: expense, color: DESTRUCTIVE },
+    { label: 'Saldo', value: balance, color: balance < 0 ? DESTRUCTIVE : PRIMARY },
+  ];
+
+  y = ensureSpace(doc, y, 18);
+  const gap = 4;
+  const width = (pageWidth(doc) - MARGIN * 2 - gap * (boxes.length - 1)) / boxes.length;
+
+  boxes.forEach(({ label, value, color }, i) => {
+    const x = MARGIN + i * (width + gap);
+    doc.setDrawColor(...GRID);
+    doc.setLineWidth(0.3);
+    doc.roundedRect(x, y, width, 15, 2, 2, 'S');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text(label, x + 4, y + 5.5);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(...color);
+    doc.text(formatCurrency(value), x + 4, y + 11.5);
+  });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED);
+  doc.text(`${transactions.length} lançamentos no período`, MARGIN, y + 20);
+  return y + 24;
+}
+
+// =====================================================
+// GRÁFICOS (DESENHADOS COM AS PRIMITIVAS DO jsPDF)
+// =====================================================
+
+function drawLegend(doc: jsPDF, items: { label: string; color: RGB }[], x: number, y: number) {
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  items.forEach(({ label, color }) => {
+    doc.setFillColor(...color);
+    doc.rect(x, y - 2.5, 3, 3, 'F');
+    doc.setTextColor(...TEXT);
+    doc.text(label, x + 4.5, y);
+    x += doc.getTextWidth(label) + 10;
+  });
+}
+
+/**
+ * Receitas x despesas por mês com a linha de saldo acumulado (aba Fluxo de Caixa dos Relatórios)
+ */
+function drawCashFlowChart(doc: jsPDF, points: CashFlowPoint[], y: number): number {
+  const height = 70;
+  y = ensureSpace(doc, y, height + 14);
+
+  const left = MARGIN + 16;
+  const right = pageWidth(doc) - MARGIN;
+  const top = y + 4;
+  const bottom = y + height - 8;
+  const values = points.flatMap(p => [p.income, p.expense, p.accumulated]);
+  const max = Math.max(0, ...values) || 1;
+  const min = Math.min(0, ...values);
+  const scale = (value: number) => bottom - ((value - min) / (max - min)) * (bottom - top);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setLineWidth(0.2);
+  for (let i = 0; i <= 4; i++) {
+    const value = min + ((max - min) * i) / 4;
+    const lineY = scale(value);
+    doc.setDrawColor(...GRID);
+    doc.line(left, lineY, right, lineY);
+    doc.setTextColor(...MUTED);
+    doc.text(compact.format(value), left - 2, lineY + 1, { align: 'right' });
+  }
+
+  const slot = (right - left) / Math.max(points.length, 1);
+  const barWidth = Math.min(slot / 3, 8);
+  const zero = scale(0);
+
+  points.forEach((point, i) => {
+    const center = left + slot * i + slot / 2;
+    doc.setFillColor(...PRIMARY);
+    doc.rect(center - barWidth, scale(point.income), barWidth, zero - scale(point.income), 'F');
+    doc.setFillColor(...DESTRUCTIVE);
+    doc.rect(center, scale(point.expense), barWidth, zero - scale(point.expense), 'F');
+    doc.setTextColor(...MUTED);
+    doc.text(point.month, center, bottom + 4, { align: 'center' });
+  });
+
+  doc.setDrawColor(59, 130, 246);
+  doc.setLineWidth(0.6);
+  points.forEach((point, i) => {
+    if (i === 0) return;
+    const x1 = left + slot * (i - 1) + slot / 2;
+    const x2 = left + slot * i + slot / 2;
+    doc.line(x1, scale(points[i - 1].accumulated), x2, scale(point.accumulated));
+  });
+
+  drawLegend(doc, [
+    { label: 'Receitas', color: PRIMARY },
+    { label: 'Despesas', color: DESTRUCTIVE },
+    { label: 'Saldo acumulado', color: [59, 130, 246] },
+  ], left, y + height);
+
+  return y + height + 6;
+}
+
+// Fatias pequenas são agrupadas para a legenda caber ao lado do gráfico
+const MAX_SLICES = 8;
+
+/**
+ * Participação por categoria (gráfico de pizza da Curva ABC dos Relatórios)
+ */
+function drawCategoryChart(doc: jsPDF, shares: CategoryShare[], y: number): number {
+  const height = 62;
+  y = ensureSpace(doc, y, height + 6);
+
+  let slices = shares.filter(s => s.value > 0);
+  if (slices.length > MAX_SLICES) {
+    const rest = slices.slice(MAX_SLICES - 1);
+    slices = [
+      ...slices.slice(0, MAX_SLICES - 1),
+      {
+        name: 'Outras',
+        value: rest.reduce((sum, s) => sum + s.value, 0),
+        percentage: rest.reduce((sum, s) => sum + s.percentage, 0),
+        color: '#94a3b8',
+      },
+    ];
+  }
+
+  const radius = 28;
+  const cx = MARGIN + radius + 4;
+  const cy = y + radius + 2;
+  let angle = -Math.PI / 2;
+
+  slices.forEach(slice => {
+    const sweep = (slice.percentage / 100) * Math.PI * 2;
+    // Fatia aproximada por triângulos de no máximo 2 graus
+    const steps = Math.max(1, Math.ceil(sweep / (Math.PI / 90)));
+    doc.setFillColor(...hexToRgb(slice.color));
+    for (let i = 0; i < steps; i++) {
+      const a1 = angle + (sweep * i) / steps;
+      const a2 = angle + (sweep * (i + 1)) / steps;
+      doc.triangle(
+        cx, cy,
+        cx + radius * Math.cos(a1), cy + radius * Math.sin(a1),
+        cx + radius * Math.cos(a2), cy + radius * Math.sin(a2),
+        'F',
+      );
+    }
+    angle += sweep;
+  });
+
+  const legendX = cx + radius + 12;
+  doc.setFontSize(8);
+  slices.forEach((slice, i) => {
+    const lineY = y + 6 + i * 6.5;
+    doc.setFillColor(...hexToRgb(slice.color));
+    doc.rect(legendX, lineY - 2.5, 3, 3, 'F');
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...TEXT);
+    doc.text(slice.name, legendX + 5, lineY);
+    doc.setTextColor(...MUTED);
+    doc.text(
+      `${formatCurrency(slice.value)} (${slice.percentage.toFixed(1)}%)`,
+      pageWidth(doc) - MARGIN,
+      lineY,
+      { align: 'right' },
+    );
+  });
+
+  return y + height;
+}
+
+// =====================================================
+// TABELAS DE CADA TIPO DE RELATÓRIO
+// =====================================================
+
+function emptyNote(doc: jsPDF, text: string, y: number): number {
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED);
+  doc.text(text, MARGIN, y + 3);
+  return y + 10;
+}
+
+function drawTable(
+  doc: jsPDF,
+  y: number,
+  head: string[],
+  body: RowInput[],
+  foot: RowInput[] | undefined,
+  rightAligned: number[],
+) {
+  autoTable(doc, {
+    startY: y,
+    head: [head],
+    body,
+    foot,
+    showFoot: 'lastPage',
+    margin: { top: HEADER_HEIGHT + 4, bottom: FOOTER_HEIGHT + 4, left: MARGIN, right: MARGIN },
+    styles: { font: 'helvetica', fontSize: 8, cellPadding: 1.8, textColor: TEXT },
+    headStyles: { fillColor: PRIMARY, textColor: [255, 255, 255], fontStyle: 'bold' },
+    footStyles: { fillColor: [241, 245, 249], textColor: TEXT, fontStyle: 'bold' },
+    alternateRowStyles: { fillColor: [248, 250, 252] },
+    columnStyles: Object.fromEntries(rightAligned.map(i => [i, { halign: 'right' }])),
+    didParseCell: (data) => {
+      if (data.section !== 'body' && rightAligned.includes(data.column.index)) {
+        data.cell.styles.halign = 'right';
+      }
+    },
+  });
+  return lastTableY(doc) + 8;
+}
+
+function transactionsTable(doc: jsPDF, transactions: ExportTransaction[], y: number): number {
+  const rows = formatTransactionsForExport(transactions);
+  const { income, expense, balance } = calculateTotals(transactions);
+
+  return drawTable(
+    doc,
+    y,
+    ['Data', 'Descrição', 'Categoria', 'Tipo', 'Valor', 'Imposto', 'Custo', 'Lucro', 'Origem'],
+    rows.map((row, i) => [
+      String(row['Data']),
+      String(row['Descrição']),
+      String(row['Categoria']),
+      String(row['Tipo']),
+      {
+        content: formatCurrency(row['Valor'] as number),
+        styles: { textColor: transactions[i].type === 'income' ? PRIMARY : DESTRUCTIVE },
+      },
+      formatCurrency(row['Imposto'] as number),
+      formatCurrency(row['Custo'] as number),
+      money(row['Lucro'] as number),
+      String(row['Origem']),
+    ]),
+    [[
+      { content: `Total de ${transactions.length} lançamentos`, colSpan: 4 },
+      {
+        content: `Receitas ${formatCurrency(income)}  ·  Despesas ${formatCurrency(expense)}  ·  Saldo ${formatCurrency(balance)}`,
+        colSpan: 5,
+        styles: { textColor: balance < 0 ? DESTRUCTIVE : TEXT },
+      },
+    ]],
+    [4, 5, 6, 7],
+  );
+}
+
+function monthlyTable(doc: jsPDF, transactions: ExportTransaction[], y: number): number {
+  const rows = generateMonthlySummary(transactions);
+  const { income, expense, balance } = calculateTotals(transactions);
+
+  return drawTable(
+    doc,
+    y,
+    ['Mês', 'Receitas', 'Despesas', 'Saldo'],
+    rows.map(row => [
+      String(row['Mês']),
+      formatCurrency(row['Receitas'] as number),
+      formatCurrency(row['Despesas'] as number),
+      money(row['Saldo'] as number),
+    ]),
+    [['Total', formatCurrency(income), formatCurrency(expense), money(balance)]],
+    [1, 2, 3],
+  );
+}
+
+function categoryTable(doc: jsPDF, transactions: ExportTransaction[], y: number): number {
+  const rows = generateCategorySummary(transactions).sort((a, b) => (b['Total'] as number) - (a['Total'] as number));
+  const movement = rows.reduce((sum, row) => sum + (row['Total'] as number), 0);
+
+  return drawTable(
+    doc,
+    y,
+    ['Categoria', 'Tipo', 'Total', '%', 'Quantidade', 'Média'],
+    rows.map(row => [
+      String(row['Categoria']),
+      String(row['Tipo']),
+      formatCurrency(row['Total'] as number),
+      movement > 0 ? `${(((row['Total'] as number) / movement) * 100).toFixed(1)}%` : '-',
+      String(row['Quantidade']),
+      formatCurrency(row['Média'] as number),
+    ]),
+    [['Total movimentado', '', formatCurrency(movement), '100%', String(transactions.length), '']],
+    [2, 3, 4, 5],
+  );
+}
+
+function dreTable(doc: jsPDF, transactions: ExportTransaction[], y: number): number {
+  const rows = generateFullReport(transactions);
+  const count = rows.pop();
+
+  return drawTable(
+    doc,
+    y,
+    ['Demonstração do Resultado', 'Valor'],
+    rows.map(row => {
+      const value = row['Valor'] as number;
+      const isResult = row['Métrica'] === 'Lucro Líquido';
+      return [
+        { content: String(row['Métrica']), styles: isResult ? { fontStyle: 'bold' } : {} },
+        { ...money(value), styles: { ...money(value).styles, ...(isResult ? { fontStyle: 'bold' } : {}) } },
+      ];
+    }),
+    count ? [[String(count['Métrica']), String(count['Valor'])]] : undefined,
+    [1],
+  );
+}
+
+// =====================================================
+// MONTAGEM DO DOCUMENTO
+// =====================================================
+
+export function buildPdfReport(options: PdfReportOptions): Blob {
+  const { exportType, transactions, competenceTransactions } = options;
+  const doc = new jsPDF({
+    orientation: exportType === 'transactions' ? 'landscape' : 'portrait',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  let y = drawTotals(doc, transactions, HEADER_HEIGHT + 2);
+
+  switch (exportType) {
+    case 'transactions':
+      transactionsTable(doc, transactions, y);
+      break;
+    case 'monthly_summary':
+      y = sectionTitle(doc, 'Fluxo de caixa', y);
+      y = drawCashFlowChart(doc, calculateCashFlow(transactions), y);
+      monthlyTable(doc, transactions, y);
+      break;
+    case 'category_summary':
+      y = sectionTitle(doc, 'Participação por categoria', y);
+      y = drawCategoryChart(doc, calculateCategoryShares(transactions), y);
+      categoryTable(doc, transactions, y);
+      break;
+    case 'full_report':
+      y = dreTable(doc, competenceTransactions, y);
+      y = sectionTitle(doc, 'Fluxo de caixa', y);
+      y = drawCashFlowChart(doc, calculateCashFlow(transactions), y);
+      y = monthlyTable(doc, transactions, y);
+      y = sectionTitle(doc, 'Participação por categoria', y);
+      y = drawCategoryChart(doc, calculateCategoryShares(transactions), y);
+      categoryTable(doc, transactions, y);
+      break;
+  }
+
+  drawPageFrames(doc, options, EXPORT_TYPE_LABELS[exportType]);
+  return doc.output('blob');
+}
+
+/**
+ * Trilha de auditoria e alertas do período, em paisagem para caber as alterações
+ */
+export function buildAuditPdf(options: PdfAuditOptions): Blob {
+  const { auditRows, alertRows } = options;
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  // A fonte padrão do jsPDF não tem a seta usada nas alterações
+  const toBody = (rows: ExportRow[], columns: string[]) =>
+    rows.map(row => columns.map(c => String(row[c]).replace(/→/g, '->')));
+
+  let y = sectionTitle(doc, `Trilha de auditoria (${auditRows.length} registros)`, HEADER_HEIGHT + 2);
+  y = auditRows.length > 0
+    ? drawTable(doc, y, AUDIT_COLUMNS, toBody(auditRows, AUDIT_COLUMNS), undefined, [])
+    : emptyNote(doc, 'Nenhuma alteração registrada no período.', y);
+
+  y = sectionTitle(doc, `Alertas (${alertRows.length})`, y);
+  if (alertRows.length > 0) {
+    drawTable(doc, y, ALERT_COLUMNS, toBody(alertRows, ALERT_COLUMNS), undefined, []);
+  } else {
+    emptyNote(doc, 'Nenhum alerta no período.', y);
+  }
+
+  drawPageFrames(doc, options, EXPORT_TYPE_LABELS.audit_trail);
+  return doc.output('blob');
+}
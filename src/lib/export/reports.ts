@@ -0,0 +1,297 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { competenceDate } from '@/lib/installments';
+import { DateRange, toLocalDate } from '@/lib/periods';
+import { TRANSFER_LABEL, isTransferLeg, withoutTransfers } from '@/lib/transfers';
+
+// =====================================================
+// DADOS DAS EXPORTAÇÕES (COMPARTILHADOS ENTRE CSV, XLSX E PDF)
+// =====================================================
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf' | 'dominio' | 'accounting_csv' | 'ofx' | 'qif';
+export type ExportType = 'transactions' | 'monthly_summary' | 'category_summary' | 'full_report' | 'audit_trail';
+
+export interface ExportTransaction {
+  id: string;
+  description: string;
+  amount: number;
+  type: string;
+  date: string;
+  /** Data da venda ou compra nas parcelas; a DRE usa esta data quando existe */
+  competence_date?: string | null;
+  source: string | null;
+  notes: string | null;
+  subcategory: string | null;
+  tax_amount: number;
+  product_cost: number;
+  profit: number;
+  origin: string;
+  category_id?: string | null;
+  user_id?: string;
+  created_at?: string;
+  external_id?: string | null;
+  /** Perna de transferência entre contas: fora dos totais de receita e despesa */
+  transfer_id?: string | null;
+  categories: {
+    name: string;
+    color: string;
+    account_code?: string | null;
+  } | null;
+}
+
+/** Linha de planilha: nome da coluna → valor */
+export type ExportRow = Record<string, string | number>;
+
+export const EXPORT_TYPE_LABELS: Record<ExportType, string> = {
+  transactions: 'Transações',
+  monthly_summary: 'Resumo Mensal',
+  category_summary: 'Por Categoria',
+  full_report: 'Relatório Completo',
+  audit_trail: 'Auditoria e Alertas',
+};
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'XLSX',
+  pdf: 'PDF',
+  dominio: 'Domínio',
+  accounting_csv: 'CSV contábil',
+  ofx: 'OFX',
+  qif: 'QIF',
+};
+
+export const EXPORT_FILE_PREFIXES: Record<ExportType, string> = {
+  transactions: 'transacoes',
+  monthly_summary: 'resumo-mensal',
+  category_summary: 'resumo-categorias',
+  full_report: 'relatorio-completo',
+  audit_trail: 'auditoria-alertas',
+};
+
+export const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export function formatTransactionsForExport(transactions: ExportTransaction[]): ExportRow[] {
+  return transactions.map(t => ({
+    'Data': format(toLocalDate(t.date), 'dd/MM/yyyy'),
+    'Descrição': t.description,
+    'Categoria': t.categories?.name || '-',
+    'Subcategoria': t.subcategory || '-',
+    'Tipo': isTransferLeg(t) ? TRANSFER_LABEL : t.type === 'income' ? 'Receita' : 'Despesa',
+    'Valor': t.amount,
+    'Imposto': t.tax_amount || 0,
+    'Custo': t.product_cost || 0,
+    'Lucro': t.profit || 0,
+    'Origem': t.origin || 'manual',
+    'Fonte': t.source || '-',
+    'Observações': t.notes || '-',
+  }));
+}
+
+export function generateMonthlySummary(transactions: ExportTransaction[]): ExportRow[] {
+  const summary: Record<string, { income: number; expense: number; balance: number }> = {};
+
+  withoutTransfers(transactions).forEach(t => {
+    const monthKey = t.date.slice(0, 7);
+    if (!summary[monthKey]) {
+      summary[monthKey] = { income: 0, expense: 0, balance: 0 };
+    }
+    if (t.type === 'income') {
+      summary[monthKey].income += t.amount;
+    } else {
+      summary[monthKey].expense += t.amount;
+    }
+    summary[monthKey].balance = summary[monthKey].income - summary[monthKey].expense;
+  });
+
+  return Object.entries(summary)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, data]) => ({
+      'Mês': format(new Date(month + '-01T00:00:00'), 'MMMM yyyy', { locale: ptBR }),
+      'Receitas': data.income,
+      'Despesas': data.expense,
+      'Saldo': data.balance,
+    }));
+}
+
+export function generateCategorySummary(transactions: ExportTransaction[]): ExportRow[] {
+  const summary: Record<string, { total: number; count: number; type: string }> = {};
+
+  withoutTransfers(transactions).forEach(t => {
+    const categoryName = t.categories?.name || 'Sem categoria';
+    if (!summary[categoryName]) {
+      summary[categoryName] = { total: 0, count: 0, type: t.type };
+    }
+    summary[categoryName].total += t.amount;
+    summary[categoryName].count += 1;
+  });
+
+  return Object.entries(summary).map(([category, data]) => ({
+    'Categoria': category,
+    'Tipo': data.type === 'income' ? 'Receita' : 'Despesa',
+    'Total': data.total,
+    'Quantidade': data.count,
+    'Média': data.total / data.count,
+  }));
+}
+
+/**
+ * Filtro das transações que entram nas exportações: data ou competência no período.
+ * A DRE de cada exportação usa as de competência no período (ver splitByBasis)
+ */
+export const periodFilter = ({ start, end }: DateRange) =>
+  `and(date.gte.${start},date.lte.${end}),and(competence_date.gte.${start},competence_date.lte.${end})`;
+
+/**
+ * Separa as transações lidas com periodFilter: as de data no período (listas, fluxo de
+ * caixa e categorias) e as de competência no período (DRE), como na página de relatórios
+ */
+export function splitByBasis(
+  transactions: ExportTransaction[],
+  { start, end }: DateRange,
+): { cash: ExportTransaction[]; competence: ExportTransaction[] } {
+  return {
+    cash: transactions.filter(t => t.date >= start && t.date <= end),
+    competence: transactions.filter(t => competenceDate(t) >= start && competenceDate(t) <= end),
+  };
+}
+
+/**
+ * DRE do período; recebe as transações com competência no período
+ */
+export function generateFullReport(allTransactions: ExportTransaction[]): ExportRow[] {
+  const transactions = withoutTransfers(allTransactions);
+  const totalIncome = transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
+  const totalExpense = transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
+  const totalTax = transactions.reduce((sum, t) => sum + (t.tax_amount || 0), 0);
+  const totalCost = transactions.reduce((sum, t) => sum + (t.product_cost || 0), 0);
+
+  return [
+    { 'Métrica': 'Receita Bruta', 'Valor': totalIncome },
+    { 'Métrica': '(-) Impostos', 'Valor': totalTax },
+    { 'Métrica': '(-) Custos de Mercadoria', 'Valor': totalCost },
+    { 'Métrica': '(-) Despesas Operacionais', 'Valor': totalExpense },
+    { 'Métrica': 'Lucro Líquido', 'Valor': totalIncome - totalTax - totalCost - totalExpense },
+    { 'Métrica': 'Total de Transações', 'Valor': transactions.length },
+  ];
+}
+
+/**
+ * Dados tabulares de cada tipo de exportação; a DRE (relatório completo) usa as
+ * transações por competência
+ */
+export function buildExportRows(
+  exportType: ExportType,
+  transactions: ExportTransaction[],
+  competenceTransactions: ExportTransaction[],
+): ExportRow[] {
+  switch (exportType) {
+    case 'monthly_summary':
+      return generateMonthlySummary(transactions);
+    case 'category_summary':
+      return generateCategorySummary(transactions);
+    case 'full_report':
+      return generateFullReport(competenceTransactions);
+    default:
+      return formatTransactionsForExport(transactions);
+  }
+}
+
+export function exportFileName(exportType: ExportType, start: Date, end: Date): string {
+  return `${EXPORT_FILE_PREFIXES[exportType]}-${format(start, 'yyyy-MM-dd')}-a-${format(end, 'yyyy-MM-dd')}`;
+}
+
+// =====================================================
+// TOTAIS E SÉRIES DOS GRÁFICOS (MESMOS DA PÁGINA DE RELATÓRIOS)
+// =====================================================
+
+export const CHART_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#ec4899'];
+
+export interface ExportTotals {
+  income: number;
+  expense: number;
+  balance: number;
+}
+
+export function calculateTotals(allTransactions: ExportTransaction[]): ExportTotals {
+  const transactions = withoutTransfers(allTransactions);
+  const income = transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
+  const expense = transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
+  return { income, expense, balance: income - expense };
+}
+
+export interface CashFlowPoint {
+  month: string;
+  income: number;
+  expense: number;
+  accumulated: number;
+}
+
+/**
+ * Fluxo de caixa mês a mês, com saldo acumulado (rótulo curto, ex: "jan/24")
+ */
+export function calculateCashFlow(transactions: ExportTransaction[]): CashFlowPoint[] {
+  const months: Record<string, { income: number; expense: number }> = {};
+
+  withoutTransfers(transactions).forEach(t => {
+    const monthKey = t.date.slice(0, 7);
+    if (!months[monthKey]) months[monthKey] = { income: 0, expense: 0 };
+    if (t.type === 'income') months[monthKey].income += t.amount;
+    else months[monthKey].expense += t.amount;
+  });
+
+  let accumulated = 0;
+  return Object.entries(months)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, data]) => {
+      accumulated += data.income - data.expense;
+      return {
+        month: format(new Date(month + '-01T00:00:00'), 'MMM/yy', { locale: ptBR }),
+        income: data.income,
+        expense: data.expense,
+        accumulated,
+      };
+    });
+}
+
+export interface CategoryShare {
+  name: string;
+  value: number;
+  percentage: number;
+  color: string;
+}
+
+/**
+ * Participação de cada categoria no total movimentado, da maior para a menor
+ */
+export function calculateCategoryShares(transactions: ExportTransaction[]): CategoryShare[] {
+  const totals: Record<string, { name: string; value: number; color: string | null }> = {};
+
+  withoutTransfers(transactions).forEach(t => {
+    const name = t.categories?.name || 'Sem categoria';
+    if (!totals[name]) totals[name] = { name, value: 0, color: t.categories?.color || null };
+    totals[name].value += t.amount;
+  });
+
+  const sorted = Object.values(totals).sort((a, b) => b.value - a.value);
+  const total = sorted.reduce((sum, c) => sum + c.value, 0);
+
+  return sorted.map((c, i) => ({
+    name: c.name,
+    value: c.value,
+    percentage: total > 0 ? (c.value / total) * 100 : 0,
+    color: c.color || CHART_COLORS[i % CHART_COLORS.length],
+  }));
+}
+
+/**
+ * Baixa um arquivo gerado no navegador
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,194 @@
+import { isValidEmail } from '@/lib/validators';
+import { DEFAULT_PERIOD_SETTINGS, PeriodSettings, resolvePeriod } from '@/lib/periods';
+
+// =====================================================
+// EXPORTAÇÕES AGENDADAS: RECORRÊNCIA E PERÍODOS RELATIVOS
+// Usado pela tela de exportação e pela Edge Function scheduled-exports,
+// por isso não depende do navegador nem de bibliotecas de data. Horários e
+// períodos seguem o fuso e o exercício fiscal da empresa.
+// =====================================================
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type SchedulePeriod =
+  | 'previous_day'
+  | 'previous_week'
+  | 'previous_month'
+  | 'month_to_date'
+  | 'last_7_days'
+  | 'last_30_days'
+  | 'previous_fiscal_year';
+
+export const SCHEDULE_FREQUENCIES: Record<ScheduleFrequency, string> = {
+  daily: 'Diária',
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+};
+
+export const SCHEDULE_PERIODS: Record<SchedulePeriod, string> = {
+  previous_day: 'Dia anterior',
+  previous_week: 'Semana anterior (dom. a sáb.)',
+  previous_month: 'Mês anterior',
+  month_to_date: 'Mês atual até a data',
+  last_7_days: 'Últimos 7 dias',
+  last_30_days: 'Últimos 30 dias',
+  previous_fiscal_year: 'Exercício fiscal anterior',
+};
+
+export const WEEKDAYS = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+// Dias acima de 28 não existem em todos os meses
+export const MAX_DAY_OF_MONTH = 28;
+
+export interface ScheduleRecurrence {
+  frequency: ScheduleFrequency;
+  /** 0 = domingo; usado nos agendamentos semanais */
+  dayOfWeek: number | null;
+  /** 1 a 28; usado nos agendamentos mensais */
+  dayOfMonth: number | null;
+  /** Hora no fuso da empresa (0 a 23) */
+  hour: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * Diferença entre o horário "de parede" do fuso e o UTC no instante informado
+ */
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wall = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wall - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** Data e hora "de parede" no fuso, lidas com os métodos getUTC* */
+const toLocal = (date: Date, timeZone: string) => new Date(date.getTime() + timeZoneOffset(date, timeZone));
+const fromLocal = (date: Date, timeZone: string) => {
+  // O deslocamento é o do instante resultante, não o do horário de parede
+  const guess = new Date(date.getTime() - timeZoneOffset(date, timeZone));
+  return new Date(date.getTime() - timeZoneOffset(guess, timeZone));
+};
+
+const localDay = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Próxima execução estritamente depois de `after`, no horário do fuso da empresa
+ */
+export function computeNextRun(
+  recurrence: ScheduleRecurrence,
+  after: Date,
+  settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS,
+): Date {
+  const local = toLocal(after, settings.timeZone);
+  const hour = Math.min(Math.max(recurrence.hour, 0), 23);
+  let candidate = localDay(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+
+  switch (recurrence.frequency) {
+    case 'daily':
+      break;
+    case 'weekly': {
+      const target = recurrence.dayOfWeek ?? 1;
+      candidate = new Date(candidate.getTime() + ((target - candidate.getUTCDay() + 7) % 7) * DAY);
+      break;
+    }
+    case 'monthly': {
+      const day = Math.min(Math.max(recurrence.dayOfMonth ?? 1, 1), MAX_DAY_OF_MONTH);
+      candidate = localDay(candidate.getUTCFullYear(), candidate.getUTCMonth(), day);
+      break;
+    }
+  }
+
+  const at = (day: Date) => new Date(day.getTime() + hour * HOUR);
+  while (at(candidate).getTime() <= local.getTime()) {
+    if (recurrence.frequency === 'monthly') {
+      candidate = localDay(candidate.getUTCFullYear(), candidate.getUTCMonth() + 1, candidate.getUTCDate());
+    } else {
+      candidate = new Date(candidate.getTime() + (recurrence.frequency === 'weekly' ? 7 : 1) * DAY);
+    }
+  }
+
+  return fromLocal(at(candidate), settings.timeZone);
+}
+
+/**
+ * Período coberto por uma execução, em datas 'yyyy-MM-dd' no fuso da empresa
+ */
+export function computeSchedulePeriod(
+  period: SchedulePeriod,
+  runAt: Date,
+  settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS,
+): { start: string; end: string } {
+  const local = toLocal(runAt, settings.timeZone);
+  const today = localDay(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+  const yesterday = new Date(today.getTime() - DAY);
+
+  switch (period) {
+    case 'previous_day':
+      return { start: isoDay(yesterday), end: isoDay(yesterday) };
+    case 'previous_week': {
+      // Domingo desta semana, menos 7 dias: a semana começa no domingo, como em periods.ts
+      const sunday = new Date(today.getTime() - today.getUTCDay() * DAY);
+      return { start: isoDay(new Date(sunday.getTime() - 7 * DAY)), end: isoDay(new Date(sunday.getTime() - DAY)) };
+    }
+    case 'previous_month':
+      return {
+        start: isoDay(localDay(today.getUTCFullYear(), today.getUTCMonth() - 1, 1)),
+        end: isoDay(localDay(today.getUTCFullYear(), today.getUTCMonth(), 0)),
+      };
+    case 'month_to_date':
+      return { start: isoDay(localDay(today.getUTCFullYear(), today.getUTCMonth(), 1)), end: isoDay(today) };
+    case 'last_7_days':
+      return { start: isoDay(new Date(today.getTime() - 7 * DAY)), end: isoDay(yesterday) };
+    case 'last_30_days':
+      return { start: isoDay(new Date(today.getTime() - 30 * DAY)), end: isoDay(yesterday) };
+    case 'previous_fiscal_year':
+      return resolvePeriod({ preset: 'previous_fiscal_year' }, settings, runAt);
+  }
+}
+
+/** Data e hora no fuso da empresa, ex: "05/03/26 08:00" */
+export function formatScheduleTime(value: string, timeZone: string): string {
+  return new Intl.DateTimeFormat('pt-BR', {
+    timeZone,
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(value)).replace(',', '');
+}
+
+/**
+ * Descrição da recorrência, ex: "Mensal, dia 5 às 08:00"
+ */
+export function describeRecurrence(recurrence: ScheduleRecurrence): string {
+  const time = `${String(recurrence.hour).padStart(2, '0')}:00`;
+  switch (recurrence.frequency) {
+    case 'daily':
+      return `Diária às ${time}`;
+    case 'weekly':
+      return `Semanal, ${WEEKDAYS[recurrence.dayOfWeek ?? 1].toLowerCase()} às ${time}`;
+    case 'monthly':
+      return `Mensal, dia ${recurrence.dayOfMonth ?? 1} às ${time}`;
+  }
+}
+
+/** E-mails separados por vírgula, ponto e vírgula ou linha; retorna os inválidos à parte */
+export function parseRecipients(text: string): { valid: string[]; invalid: string[] } {
+  const items = text.split(/[,;\s]+/).map(e => e.trim().toLowerCase()).filter(Boolean);
+  const unique = [...new Set(items)];
+  return { valid: unique.filter(isValidEmail), invalid: unique.filter(e => !isValidEmail(e)) };
+}
@@ -0,0 +1,246 @@
+import { format } from 'date-fns';
+import type { ExportRow, ExportTransaction } from '@/lib/export/reports';
+import { TRANSFER_LABEL, isTransferLeg } from '@/lib/transfers';
+
+// =====================================================
+// MODELOS DE EXPORTAÇÃO PERSONALIZADOS
+// =====================================================
+
+export type TemplateField =
+  | 'date'
+  | 'description'
+  | 'type'
+  | 'amount'
+  | 'signed_amount'
+  | 'category'
+  | 'category_color'
+  | 'subcategory'
+  | 'tax_amount'
+  | 'product_cost'
+  | 'profit'
+  | 'margin'
+  | 'origin'
+  | 'source'
+  | 'notes'
+  | 'created_by'
+  | 'created_at'
+  | 'external_id';
+
+type FieldKind = 'text' | 'date' | 'number' | 'percent';
+
+export const TEMPLATE_FIELDS: Record<TemplateField, { label: string; kind: FieldKind }> = {
+  date: { label: 'Data', kind: 'date' },
+  description: { label: 'Descrição', kind: 'text' },
+  type: { label: 'Tipo', kind: 'text' },
+  amount: { label: 'Valor', kind: 'number' },
+  signed_amount: { label: 'Valor com sinal', kind: 'number' },
+  category: { label: 'Categoria', kind: 'text' },
+  category_color: { label: 'Cor da categoria', kind: 'text' },
+  subcategory: { label: 'Subcategoria', kind: 'text' },
+  tax_amount: { label: 'Imposto', kind: 'number' },
+  product_cost: { label: 'Custo', kind: 'number' },
+  profit: { label: 'Lucro', kind: 'number' },
+  margin: { label: 'Margem', kind: 'percent' },
+  origin: { label: 'Origem', kind: 'text' },
+  source: { label: 'Fonte', kind: 'text' },
+  notes: { label: 'Observações', kind: 'text' },
+  created_by: { label: 'Criado por', kind: 'text' },
+  created_at: { label: 'Criado em', kind: 'date' },
+  external_id: { label: 'ID externo', kind: 'text' },
+};
+
+export interface TemplateColumn {
+  field: TemplateField;
+  /** Título da coluna no arquivo */
+  header: string;
+}
+
+export type TemplateDateFormat = 'dd/MM/yyyy' | 'yyyy-MM-dd' | 'MM/dd/yyyy';
+
+/**
+ * number: valor numérico (células de número no XLSX); decimal_comma: texto "1.234,56";
+ * currency: texto "R$ 1.234,56"
+ */
+export type TemplateNumberFormat = 'number' | 'decimal_comma' | 'currency';
+
+export const TEMPLATE_DATE_FORMATS: Record<TemplateDateFormat, string> = {
+  'dd/MM/yyyy': 'DD/MM/AAAA',
+  'yyyy-MM-dd': 'AAAA-MM-DD',
+  'MM/dd/yyyy': 'MM/DD/AAAA',
+};
+
+export const TEMPLATE_NUMBER_FORMATS: Record<TemplateNumberFormat, string> = {
+  number: 'Número (1234.56)',
+  decimal_comma: 'Texto com vírgula (1.234,56)',
+  currency: 'Moeda (R$ 1.234,56)',
+};
+
+export interface TemplateFilters {
+  type?: 'income' | 'expense' | null;
+  categoryIds?: string[];
+  origins?: string[];
+  sources?: string[];
+  minAmount?: number | null;
+  maxAmount?: number | null;
+}
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  columns: TemplateColumn[];
+  dateFormat: TemplateDateFormat;
+  numberFormat: TemplateNumberFormat;
+  filters: TemplateFilters;
+}
+
+/** Colunas da exportação padrão de transações, ponto de partida de um novo modelo */
+export const DEFAULT_TEMPLATE_COLUMNS: TemplateColumn[] = (
+  ['date', 'description', 'category', 'subcategory', 'type', 'amount', 'tax_amount', 'product_cost', 'profit', 'origin', 'source', 'notes'] as TemplateField[]
+).map(field => ({ field, header: TEMPLATE_FIELDS[field].label }));
+
+export const TEMPLATE_ORIGINS: Record<string, string> = {
+  manual: 'Manual',
+  import: 'Importação',
+  api: 'API',
+};
+
+/** Valor usado para "sem categoria" no filtro de categorias */
+export const UNCATEGORIZED_FILTER = 'none';
+
+/**
+ * Descarta campos desconhecidos e filtros malformados de um modelo salvo (JSONB)
+ */
+export function sanitizeTemplate(template: ExportTemplate): ExportTemplate {
+  const columns = (Array.isArray(template.columns) ? template.columns : [])
+    .filter(c => c && c.field in TEMPLATE_FIELDS)
+    .map(c => ({ field: c.field, header: String(c.header || TEMPLATE_FIELDS[c.field].label) }));
+  const filters = template.filters && typeof template.filters === 'object' ? template.filters : {};
+  const list = (value: unknown) => Array.isArray(value) ? value.map(String) : [];
+  const amount = (value: unknown) => typeof value === 'number' && isFinite(value) ? value : null;
+
+  return {
+    ...template,
+    columns,
+    dateFormat: template.dateFormat in TEMPLATE_DATE_FORMATS ? template.dateFormat : 'dd/MM/yyyy',
+    numberFormat: template.numberFormat in TEMPLATE_NUMBER_FORMATS ? template.numberFormat : 'number',
+    filters: {
+      type: filters.type === 'income' || filters.type === 'expense' ? filters.type : null,
+      categoryIds: list(filters.categoryIds),
+      origins: list(filters.origins),
+      sources: list(filters.sources),
+      minAmount: amount(filters.minAmount),
+      maxAmount: amount(filters.maxAmount),
+    },
+  };
+}
+
+/**
+ * Filtros do modelo, aplicados sobre as transações do período
+ */
+export function applyTemplateFilters(transactions: ExportTransaction[], filters: TemplateFilters): ExportTransaction[] {
+  const sources = (filters.sources || []).map(s => s.trim().toLowerCase()).filter(Boolean);
+
+  return transactions.filter(t => {
+    if (filters.type && t.type !== filters.type) return false;
+    if (filters.categoryIds?.length && !filters.categoryIds.includes(t.category_id || UNCATEGORIZED_FILTER)) return false;
+    if (filters.origins?.length && !filters.origins.includes(t.origin || 'manual')) return false;
+    if (sources.length && !sources.includes((t.source || '').trim().toLowerCase())) return false;
+    if (filters.minAmount !== null && filters.minAmount !== undefined && t.amount < filters.minAmount) return false;
+    if (filters.maxAmount !== null && filters.maxAmount !== undefined && t.amount > filters.maxAmount) return false;
+    return true;
+  });
+}
+
+/** Datas só com dia ('yyyy-MM-dd') são lidas no fuso local para não voltar um dia */
+function parseDate(value: string): Date {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+}
+
+function formatNumber(value: number, numberFormat: TemplateNumberFormat): string | number {
+  const rounded = Math.round(value * 100) / 100;
+  if (numberFormat === 'number') return rounded;
+  return new Intl.NumberFormat('pt-BR', {
+    ...(numberFormat === 'currency' ? { style: 'currency', currency: 'BRL' } : {}),
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(rounded);
+}
+
+function fieldValue(t: ExportTransaction, field: TemplateField, creators: Record<string, string>): string | number | null {
+  switch (field) {
+    case 'date': return t.date;
+    case 'description': return t.description;
+    case 'type': return isTransferLeg(t) ? TRANSFER_LABEL : t.type === 'income' ? 'Receita' : 'Despesa';
+    case 'amount': return t.amount;
+    case 'signed_amount': return t.type === 'income' ? t.amount : -t.amount;
+    case 'category': return t.categories?.name || '';
+    case 'category_color': return t.categories?.color || '';
+    case 'subcategory': return t.subcategory || '';
+    case 'tax_amount': return t.tax_amount || 0;
+    case 'product_cost': return t.product_cost || 0;
+    case 'profit': return t.profit || 0;
+    // Lucro sobre o valor da receita; despesas não têm margem
+    case 'margin': return t.type === 'income' && t.amount ? (t.profit || 0) / t.amount : null;
+    case 'origin': return t.origin || 'manual';
+    case 'source': return t.source || '';
+    case 'notes': return t.notes || '';
+    case 'created_by': return (t.user_id && creators[t.user_id]) || '';
+    case 'created_at': return t.created_at || null;
+    case 'external_id': return t.external_id || '';
+  }
+}
+
+/**
+ * Linhas do arquivo na ordem e com os títulos do modelo
+ * @param creators nome de quem criou cada transação, por user_id
+ */
+export function buildTemplateRows(
+  transactions: ExportTransaction[],
+  template: ExportTemplate,
+  creators: Record<string, string> = {},
+): ExportRow[] {
+  return applyTemplateFilters(transactions, template.filters).map(t => {
+    const row: ExportRow = {};
+
+    template.columns.forEach(({ field, header }) => {
+      const value = fieldValue(t, field, creators);
+      const { kind } = TEMPLATE_FIELDS[field];
+
+      if (value === null || value === '') {
+        row[header] = '';
+      } else if (kind === 'date') {
+        row[header] = format(parseDate(String(value)), template.dateFormat + (field === 'created_at' ? ' HH:mm' : ''));
+      } else if (kind === 'percent') {
+        const percent = Math.round((value as number) * 1000) / 10;
+        row[header] = template.numberFormat === 'number' ? percent : `${formatNumber(percent, 'decimal_comma')}%`;
+      } else if (kind === 'number') {
+        row[header] = formatNumber(value as number, template.numberFormat);
+      } else {
+        row[header] = value;
+      }
+    });
+
+    return row;
+  });
+}
+
+const slugify = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/** Nome do arquivo (sem extensão): nome do modelo + período */
+export function templateFileName(template: ExportTemplate, start: Date, end: Date): string {
+  return `${slugify(template.name) || 'modelo'}-${format(start, 'yyyy-MM-dd')}-a-${format(end, 'yyyy-MM-dd')}`;
+}
+
+/**
+ * Configuração gravada no histórico para reproduzir a exportação exatamente
+ */
+export function templateSnapshot(template: ExportTemplate) {
+  return {
+    name: template.name,
+    columns: template.columns.map(c => ({ ...c })),
+    date_format: template.dateFormat,
+    number_format: template.numberFormat,
+    filters: { ...template.filters },
+  };
+}
@@ -0,0 +1,360 @@
+import ExcelJS from 'exceljs';
+import {
+  ExportRow,
+  ExportTransaction,
+  calculateTotals,
+  formatCurrency,
+  formatTransactionsForExport,
+  generateCategorySummary,
+  generateFullReport,
+  generateMonthlySummary,
+} from '@/lib/export/reports';
+import { ALERT_COLUMNS, AUDIT_COLUMNS } from '@/lib/export/audit';
+
+// =====================================================
+// PLANILHAS XLSX FORMATADAS
+// =====================================================
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const CURRENCY_FORMAT = '"R$" #,##0.00;-"R$" #,##0.00';
+const PERCENT_FORMAT = '0.0%';
+const DATE_FORMAT = 'dd/mm/yyyy';
+
+// Mesmas cores do tema (--primary e --destructive)
+const HEADER_FILL = 'FF10B981';
+const TOTAL_FILL = 'FFF1F5F9';
+const NEGATIVE_COLOR = 'FFDC2626';
+
+type ColumnFormat = 'text' | 'currency' | 'integer' | 'percent' | 'date';
+
+interface SheetColumn {
+  header: string;
+  format?: ColumnFormat;
+  /** Valores negativos em vermelho (formatação condicional) */
+  highlightNegative?: boolean;
+}
+
+/** Valor de célula: fórmulas levam o resultado já calculado para leitores que não recalculam */
+type SheetValue = string | number | Date | { formula: string; result: number };
+
+interface SheetOptions {
+  name: string;
+  columns: SheetColumn[];
+  rows: SheetValue[][];
+  /** Linha de totais, normalmente com fórmulas sobre as linhas de dados */
+  totals?: SheetValue[];
+}
+
+const NUMBER_FORMATS: Partial<Record<ColumnFormat, string>> = {
+  currency: CURRENCY_FORMAT,
+  integer: '0',
+  percent: PERCENT_FORMAT,
+  date: DATE_FORMAT,
+};
+
+/** Letra da coluna (1 = A) */
+const col = (index: number) => String.fromCharCode(64 + index);
+
+function displayLength(value: SheetValue, format: ColumnFormat = 'text'): number {
+  const raw = typeof value === 'object' && !(value instanceof Date) ? value.result : value;
+  if (raw instanceof Date || format === 'date') return 10;
+  if (typeof raw === 'number') {
+    if (format === 'currency') return formatCurrency(raw).length;
+    if (format === 'percent') return 7;
+    return String(raw).length;
+  }
+  return String(raw ?? '').length;
+}
+
+/**
+ * Aba com cabeçalho congelado, filtro, colunas ajustadas ao conteúdo e linha de totais
+ */
+function addSheet(workbook: ExcelJS.Workbook, { name, columns, rows, totals }: SheetOptions) {
+  const worksheet = workbook.addWorksheet(name, {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  const header = worksheet.addRow(columns.map(c => c.header));
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  header.alignment = { vertical: 'middle' };
+
+  rows.forEach(row => worksheet.addRow(row));
+
+  const lastDataRow = rows.length + 1;
+  if (rows.length > 0) {
+    worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: lastDataRow, column: columns.length } };
+  }
+
+  if (totals) {
+    const totalRow = worksheet.addRow(totals);
+    totalRow.font = { bold: true };
+    totalRow.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: TOTAL_FILL } };
+    totalRow.border = { top: { style: 'thin' } };
+  }
+
+  const lastRow = worksheet.rowCount;
+  columns.forEach((column, i) => {
+    const sheetColumn = worksheet.getColumn(i + 1);
+    const numFmt = NUMBER_FORMATS[column.format || 'text'];
+    if (numFmt) {
+      for (let r = 2; r <= lastRow; r++) worksheet.getCell(r, i + 1).numFmt = numFmt;
+    }
+
+    // Espaço extra para o botão do filtro no cabeçalho
+    const values = [...rows.map(row => row[i]), ...(totals ? [totals[i]] : [])];
+    const width = Math.max(column.header.length + 4, ...values.map(v => displayLength(v, column.format) + 2));
+    sheetColumn.width = Math.min(Math.max(width, 10), 60);
+
+    if (column.highlightNegative && lastRow > 1) {
+      worksheet.addConditionalFormatting({
+        ref: `${col(i + 1)}2:${col(i + 1)}${lastRow}`,
+        rules: [{
+          type: 'cellIs',
+          operator: 'lessThan',
+          formulae: [0],
+          priority: 1,
+          style: { font: { color: { argb: NEGATIVE_COLOR } } },
+        }],
+      });
+    }
+  });
+
+  return worksheet;
+}
+
+const sum = (column: string, lastRow: number, result: number) =>
+  ({ formula: `SUM(${column}2:${column}${lastRow})`, result });
+
+const total = (rows: ExportRow[], key: string) =>
+  rows.reduce((acc, row) => acc + (row[key] as number), 0);
+
+// =====================================================
+// RELATÓRIO COMPLETO
+// =====================================================
+
+function addDreSheet(workbook: ExcelJS.Workbook, transactions: ExportTransaction[]) {
+  const report = generateFullReport(transactions);
+  const value = (metric: string) => report.find(r => r['Métrica'] === metric)?.['Valor'] as number;
+  const gross = value('Receita Bruta');
+  const ratio = (row: number, result: number) =>
+    ({ formula: `IF($B$2=0,0,B${row}/$B$2)`, result: gross ? result / gross : 0 });
+
+  // Linhas 2 a 5 são as parcelas; o lucro é calculado pela própria planilha
+  const deductions = ['(-) Impostos', '(-) Custos de Mercadoria', '(-) Despesas Operacionais'];
+  const profit = value('Lucro Líquido');
+
+  addSheet(workbook, {
+    name: 'DRE',
+    columns: [
+      { header: 'Demonstração do Resultado', format: 'text' },
+      { header: 'Valor', format: 'currency', highlightNegative: true },
+      { header: '% da Receita', format: 'percent', highlightNegative: true },
+    ],
+    rows: [
+      ['Receita Bruta', gross, ratio(2, gross)],
+      ...deductions.map((metric, i) => [metric, value(metric), ratio(i + 3, value(metric))]),
+    ],
+    totals: ['Lucro Líquido', { formula: 'B2-B3-B4-B5', result: profit }, ratio(6, profit)],
+  });
+
+  const count = workbook.getWorksheet('DRE')!.addRow(['Total de Transações', transactions.length]);
+  count.getCell(2).numFmt = '0';
+}
+
+function addCashFlowSheet(workbook: ExcelJS.Workbook, transactions: ExportTransaction[]) {
+  const rows = generateMonthlySummary(transactions);
+  const last = rows.length + 1;
+  let accumulated = 0;
+
+  addSheet(workbook, {
+    name: 'Fluxo de Caixa',
+    columns: [
+      { header: 'Mês' },
+      { header: 'Receitas', format: 'currency' },
+      { header: 'Despesas', format: 'currency' },
+      { header: 'Saldo', format: 'currency', highlightNegative: true },
+      { header: 'Saldo Acumulado', format: 'currency', highlightNegative: true },
+    ],
+    rows: rows.map((row, i) => {
+      const line = i + 2;
+      accumulated += row['Saldo'] as number;
+      return [
+        row['Mês'],
+        row['Receitas'],
+        row['Despesas'],
+        { formula: `B${line}-C${line}`, result: row['Saldo'] as number },
+        { formula: i === 0 ? `D${line}` : `E${line - 1}+D${line}`, result: accumulated },
+      ];
+    }),
+    totals: [
+      'Total',
+      sum('B', last, total(rows, 'Receitas')),
+      sum('C', last, total(rows, 'Despesas')),
+      sum('D', last, total(rows, 'Saldo')),
+      '',
+    ],
+  });
+}
+
+function addCategorySheet(workbook: ExcelJS.Workbook, transactions: ExportTransaction[]) {
+  const rows = generateCategorySummary(transactions)
+    .sort((a, b) => (b['Total'] as number) - (a['Total'] as number));
+  const last = rows.length + 1;
+  const movement = total(rows, 'Total');
+
+  addSheet(workbook, {
+    name: 'Categorias',
+    columns: [
+      { header: 'Categoria' },
+      { header: 'Tipo' },
+      { header: 'Total', format: 'currency' },
+      { header: 'Quantidade', format: 'integer' },
+      { header: 'Média', format: 'currency' },
+      { header: '% do Movimento', format: 'percent' },
+    ],
+    rows: rows.map((row, i) => [
+      row['Categoria'],
+      row['Tipo'],
+      row['Total'],
+      row['Quantidade'],
+      { formula: `IF(D${i + 2}=0,0,C${i + 2}/D${i + 2})`, result: row['Média'] as number },
+      { formula: `IF($C$${last + 1}=0,0,C${i + 2}/$C$${last + 1})`, result: movement ? (row['Total'] as number) / movement : 0 },
+    ]),
+    totals: [
+      'Total',
+      '',
+      sum('C', last, movement),
+      sum('D', last, total(rows, 'Quantidade')),
+      { formula: `IF(D${last + 1}=0,0,C${last + 1}/D${last + 1})`, result: transactions.length ? movement / transactions.length : 0 },
+      sum('F', last, movement ? 1 : 0),
+    ],
+  });
+}
+
+function addTransactionsSheet(workbook: ExcelJS.Workbook, transactions: ExportTransaction[]) {
+  const rows = formatTransactionsForExport(transactions);
+  const headers = Object.keys(rows[0] || {});
+  const last = rows.length + 1;
+  const { balance } = calculateTotals(transactions);
+
+  const formats: Record<string, ColumnFormat> = {
+    'Data': 'date',
+    'Valor': 'currency',
+    'Imposto': 'currency',
+    'Custo': 'currency',
+    'Lucro': 'currency',
+  };
+  const letter = (header: string) => col(headers.indexOf(header) + 1);
+  const type = letter('Tipo');
+  const amount = letter('Valor');
+
+  addSheet(workbook, {
+    name: 'Transações',
+    columns: headers.map(header => ({
+      header,
+      format: formats[header] || 'text',
+      highlightNegative: header === 'Lucro',
+    })),
+    // Data como data de verdade (t.date é 'yyyy-MM-dd', meia-noite UTC como o Excel espera)
+    rows: rows.map((row, i) => headers.map(header => header === 'Data' ? new Date(transactions[i].date) : row[header])),
+    totals: headers.map(header => {
+      if (header === 'Data') return 'Total';
+      // Valor mistura receitas e despesas; o total é o saldo do período
+      if (header === 'Valor') {
+        return {
+          formula: `SUMIF(${type}2:${type}${last},"Receita",${amount}2:${amount}${last})-SUMIF(${type}2:${type}${last},"Despesa",${amount}2:${amount}${last})`,
+          result: balance,
+        };
+      }
+      if (formats[header] === 'currency') return sum(letter(header), last, total(rows, header));
+      return '';
+    }),
+  });
+}
+
+/**
+ * Relatório completo em abas: DRE (por competência), fluxo de caixa mensal, categorias e transações
+ */
+export function buildFullReportWorkbook(
+  transactions: ExportTransaction[],
+  competenceTransactions: ExportTransaction[],
+  companyName?: string,
+): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = companyName || '';
+  workbook.created = new Date();
+
+  addDreSheet(workbook, competenceTransactions);
+  addCashFlowSheet(workbook, transactions);
+  addCategorySheet(workbook, transactions);
+  addTransactionsSheet(workbook, transactions);
+
+  return workbook;
+}
+
+// =====================================================
+// PLANILHA SIMPLES (CSV E XLSX DAS DEMAIS EXPORTAÇÕES)
+// =====================================================
+
+/**
+ * Uma aba "Dados" com as linhas como estão, cabeçalho em negrito
+ */
+export function buildRowsWorkbook(rows: ExportRow[]): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Dados');
+
+  if (rows.length > 0) {
+    worksheet.addRow(Object.keys(rows[0]));
+
+    const headerRow = worksheet.getRow(1);
+    headerRow.font = { bold: true };
+    headerRow.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFE0E0E0' }
+    };
+
+    rows.forEach(item => {
+      worksheet.addRow(Object.values(item));
+    });
+
+    worksheet.columns.forEach(column => {
+      column.width = 15;
+    });
+  }
+
+  return workbook;
+}
+
+// =====================================================
+// TRILHA DE AUDITORIA
+// =====================================================
+
+/**
+ * Abas "Auditoria" e "Alertas", com as colunas fixas mesmo quando o período não tem registros
+ */
+export function buildAuditWorkbook(auditRows: ExportRow[], alertRows: ExportRow[], companyName?: string): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = companyName || '';
+  workbook.created = new Date();
+
+  addSheet(workbook, {
+    name: 'Auditoria',
+    columns: AUDIT_COLUMNS.map(header => ({ header })),
+    rows: auditRows.map(row => AUDIT_COLUMNS.map(header => row[header])),
+  });
+  addSheet(workbook, {
+    name: 'Alertas',
+    columns: ALERT_COLUMNS.map(header => ({ header })),
+    rows: alertRows.map(row => ALERT_COLUMNS.map(header => row[header])),
+  });
+
+  return workbook;
+}
+
+export async function workbookToBlob(workbook: ExcelJS.Workbook): Promise<Blob> {
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_MIME });
+}
@@ -0,0 +1,543 @@
+import type { ImportEntry } from '@/lib/import/types';
+
+// =====================================================
+// ARQUIVOS DE RETORNO DE COBRANÇA (CNAB 240 E 400)
+// =====================================================
+
+/** Posição inicial e final (1 = primeira coluna, inclusive), como nos manuais dos bancos */
+type Position = [number, number];
+
+export interface CnabTitle {
+  /** "Linha 12" ou "Linhas 12-13" (segmentos T e U) */
+  label: string;
+  /** Linha do registro no arquivo (a do segmento T no CNAB 240) */
+  line: number;
+  ourNumber: string;
+  documentNumber: string;
+  payerName: string | null;
+  dueDate: string | null;
+  amount: number;
+  occurrence: string;
+  occurrenceDate: string | null;
+  creditDate: string | null;
+  fee: number;
+  interest: number;
+  /** Desconto concedido somado ao abatimento */
+  discount: number;
+  paid: number;
+  /** Códigos de motivo da ocorrência (rejeições) */
+  reasons: string[];
+}
+
+export interface CnabLineError {
+  label: string;
+  error: string;
+}
+
+export type CnabNoticeKind = 'rejected' | 'returned';
+
+/**
+ * Títulos rejeitados ou baixados sem pagamento; viram alertas na importação
+ */
+export interface CnabNotice {
+  kind: CnabNoticeKind;
+  title: CnabTitle;
+  description: string;
+}
+
+export interface CnabReturn {
+  format: '240' | '400';
+  bankCode: string;
+  bankName: string;
+  titles: CnabTitle[];
+  errors: CnabLineError[];
+}
+
+interface OccurrenceCodes {
+  liquidated: string[];
+  /** Liquidações parciais: entra o valor efetivamente pago, não o do título */
+  partial: string[];
+  rejected: string[];
+  returned: string[];
+  /** Débito avulso de tarifas, sem liquidação */
+  fees: string[];
+  descriptions: Record<string, string>;
+}
+
+interface Cnab400Layout {
+  bankName: string;
+  /** Tipo do registro de detalhe ('1'; '7' no convênio de 7 posições do BB) */
+  detailType: string;
+  fields: {
+    ourNumber: Position;
+    documentNumber: Position;
+    payerName?: Position;
+    occurrence: Position;
+    occurrenceDate: Position;
+    dueDate: Position;
+    amount: Position;
+    fee: Position;
+    otherExpenses?: Position;
+    rebate: Position;
+    discount: Position;
+    paid: Position;
+    interest: Position;
+    creditDate: Position;
+    reasons?: Position;
+  };
+  codes: OccurrenceCodes;
+}
+
+const FEBRABAN_240_CODES: OccurrenceCodes = {
+  liquidated: ['06', '17'],
+  partial: [],
+  rejected: ['03', '26', '30'],
+  returned: ['09'],
+  fees: ['28'],
+  descriptions: {
+    '02': 'Entrada confirmada',
+    '03': 'Entrada rejeitada',
+    '06': 'Liquidação',
+    '09': 'Baixa',
+    '17': 'Liquidação após baixa ou título não registrado',
+    '26': 'Instrução rejeitada',
+    '28': 'Débito de tarifas/custas',
+    '30': 'Alteração de dados rejeitada',
+  },
+};
+
+/**
+ * Variantes do CNAB 400 por código do banco (posições do registro de detalhe)
+ */
+const CNAB_400_LAYOUTS: Record<string, Cnab400Layout> = {
+  '341': {
+    bankName: 'Itaú',
+    detailType: '1',
+    fields: {
+      ourNumber: [63, 70],
+      documentNumber: [117, 126],
+      payerName: [325, 354],
+      occurrence: [109, 110],
+      occurrenceDate: [111, 116],
+      dueDate: [147, 152],
+      amount: [153, 165],
+      fee: [176, 188],
+      rebate: [228, 240],
+      discount: [241, 253],
+      paid: [254, 266],
+      interest: [267, 279],
+      creditDate: [296, 301],
+      reasons: [378, 385],
+    },
+    codes: {
+      liquidated: ['06', '07', '08', '10'],
+      partial: ['07'],
+      rejected: ['03', '15', '16'],
+      returned: ['09'],
+      fees: [],
+      descriptions: {
+        '03': 'Entrada rejeitada',
+        '06': 'Liquidação normal',
+        '07': 'Liquidação parcial',
+        '08': 'Liquidação em cartório',
+        '09': 'Baixa simples',
+        '10': 'Baixa por ter sido liquidado',
+        '15': 'Pagamento em cartório rejeitado',
+        '16': 'Instrução rejeitada',
+      },
+    },
+  },
+  '237': {
+    bankName: 'Bradesco',
+    detailType: '1',
+    fields: {
+      ourNumber: [71, 82],
+      documentNumber: [117, 126],
+      occurrence: [109, 110],
+      occurrenceDate: [111, 116],
+      dueDate: [147, 152],
+      amount: [153, 165],
+      fee: [176, 188],
+      otherExpenses: [189, 201],
+      rebate: [228, 240],
+      discount: [241, 253],
+      paid: [254, 266],
+      interest: [267, 279],
+      creditDate: [296, 301],
+      reasons: [319, 328],
+    },
+    codes: {
+      liquidated: ['06', '15', '17'],
+      partial: [],
+      rejected: ['03', '24', '27', '30', '32'],
+      returned: ['09', '10'],
+      fees: ['28'],
+      descriptions: {
+        '03': 'Entrada rejeitada',
+        '06': 'Liquidação normal',
+        '09': 'Baixado automaticamente',
+        '10': 'Baixado conforme instruções',
+        '15': 'Liquidação em cartório',
+        '17': 'Liquidação após baixa',
+        '24': 'Entrada rejeitada por CEP irregular',
+        '27': 'Baixa rejeitada',
+        '28': 'Débito de tarifas/custas',
+        '30': 'Alteração de outros dados rejeitada',
+        '32': 'Instrução rejeitada',
+      },
+    },
+  },
+  '001': {
+    bankName: 'Banco do Brasil',
+    detailType: '7',
+    fields: {
+      ourNumber: [64, 80],
+      documentNumber: [117, 126],
+      occurrence: [109, 110],
+      occurrenceDate: [111, 116],
+      dueDate: [147, 152],
+      amount: [153, 165],
+      fee: [182, 188],
+      otherExpenses: [189, 201],
+      rebate: [228, 240],
+      discount: [241, 253],
+      paid: [254, 266],
+      interest: [267, 279],
+      creditDate: [176, 181],
+      reasons: [87, 88],
+    },
+    codes: {
+      liquidated: ['05', '06', '07', '08', '15'],
+      partial: ['07', '08'],
+      rejected: ['03'],
+      returned: ['09', '10'],
+      fees: ['28'],
+      descriptions: {
+        '03': 'Comando recusado',
+        '05': 'Liquidado sem registro',
+        '06': 'Liquidação normal',
+        '07': 'Liquidação por conta',
+        '08': 'Liquidação por saldo',
+        '09': 'Baixa de título',
+        '10': 'Baixa solicitada',
+        '15': 'Liquidação em cartório',
+        '28': 'Débito de tarifas',
+      },
+    },
+  },
+};
+
+export const SUPPORTED_CNAB_400_BANKS = Object.values(CNAB_400_LAYOUTS).map(l => l.bankName);
+
+/**
+ * Categorias dos lançamentos gerados; criadas na importação quando não existem
+ */
+export const CNAB_CATEGORIES = {
+  principal: 'Recebimentos de boletos',
+  interest: 'Juros e multas recebidos',
+  discount: 'Descontos concedidos',
+  fee: 'Tarifas bancárias',
+};
+
+function splitLines(text: string): string[] {
+  // Alguns sistemas bancários ainda gravam o caractere de fim de arquivo (SUB)
+  const lines = text.split(String.fromCharCode(26)).join('').split(/\r?\n/);
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+  return lines;
+}
+
+/**
+ * Reconhece o arquivo pelo registro header: '0' na posição 8 (240) ou "02RETORNO" (400)
+ */
+export function detectCnabFormat(text: string): '240' | '400' | null {
+  const [first = ''] = splitLines(text.slice(0, 1024));
+  if (/^\d{3}00000/.test(first) && first.trimEnd().length <= 240 && first.length >= 143) return '240';
+  if (first.startsWith('02RETORNO') || first.startsWith('02 RETORNO')) return '400';
+  return null;
+}
+
+/** Extensões aceitas na seleção do arquivo; .txt também pode ser CSV/TSV */
+export function hasCnabExtension(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return name.endsWith('.ret') || name.endsWith('.txt') || name.endsWith('.cnab');
+}
+
+/**
+ * .ret e .cnab são sempre retornos; um .txt só é tratado como CNAB quando o header confere
+ */
+export async function isCnabFile(file: File): Promise<boolean> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.ret') || name.endsWith('.cnab')) return true;
+  if (!name.endsWith('.txt')) return false;
+  return detectCnabFormat(await file.slice(0, 1024).text()) !== null;
+}
+
+const slice = (line: string, [start, end]: Position) => line.slice(start - 1, end);
+
+/**
+ * Lê campos numéricos com 2 decimais implícitas; campos em branco valem zero
+ */
+function readAmount(line: string, position: Position): number {
+  const raw = slice(line, position).trim();
+  if (!raw) return 0;
+  if (!/^\d+$/.test(raw)) throw new Error(`Valor não numérico "${raw}" nas posições ${position[0]}-${position[1]}`);
+  return parseInt(raw, 10) / 100;
+}
+
+/**
+ * DDMMAAAA (240) ou DDMMAA (400); zeros ou brancos indicam data não informada
+ */
+function readDate(line: string, position: Position): string | null {
+  const raw = slice(line, position).trim();
+  if (!raw || /^0+$/.test(raw)) return null;
+  if (!/^\d{6}(\d{2})?$/.test(raw)) throw new Error(`Data inválida "${raw}" nas posições ${position[0]}-${position[1]}`);
+
+  const day = parseInt(raw.slice(0, 2));
+  const month = parseInt(raw.slice(2, 4));
+  const year = raw.length === 8 ? parseInt(raw.slice(4)) : 2000 + parseInt(raw.slice(4));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`Data inválida "${raw}" nas posições ${position[0]}-${position[1]}`);
+  }
+  return date.toISOString().split('T')[0];
+}
+
+function readReasons(line: string, position: Position | undefined): string[] {
+  if (!position) return [];
+  return (slice(line, position).match(/.{1,2}/g) || [])
+    .map(code => code.trim())
+    .filter(code => code && !/^0+$/.test(code));
+}
+
+/**
+ * CNAB 240 FEBRABAN: cada título vem em um segmento T seguido do segmento U
+ */
+function parseCnab240(lines: string[]): CnabReturn {
+  const header = lines[0];
+  if (header[142] === '1') throw new Error('O arquivo é uma remessa, não um retorno');
+
+  const titles: CnabTitle[] = [];
+  const errors: CnabLineError[] = [];
+  let pending: { line: string; number: number } | null = null;
+
+  const unmatched = () => {
+    if (pending) errors.push({ label: `Linha ${pending.number}`, error: 'Segmento T sem o segmento U correspondente' });
+    pending = null;
+  };
+
+  lines.forEach((rawLine, i) => {
+    const number = i + 1;
+    if (rawLine.length > 240) {
+      errors.push({ label: `Linha ${number}`, error: `Linha com ${rawLine.length} posições (esperado 240)` });
+      return;
+    }
+    const line = rawLine.padEnd(240);
+    const recordType = line[7];
+    if (recordType !== '3') {
+      unmatched();
+      return;
+    }
+
+    const segment = line[13];
+    if (segment === 'T') {
+      unmatched();
+      pending = { line, number };
+      return;
+    }
+    if (segment !== 'U') {
+      // Segmentos opcionais (Y, W...) não alteram os valores do título
+      if (!['Y', 'W', 'Z'].includes(segment)) {
+        errors.push({ label: `Linha ${number}`, error: `Segmento "${segment.trim() || ' '}" desconhecido` });
+      }
+      return;
+    }
+
+    if (!pending) {
+      errors.push({ label: `Linha ${number}`, error: 'Segmento U sem o segmento T correspondente' });
+      return;
+    }
+
+    const t = pending.line;
+    const tLine = pending.number;
+    const label = `Linhas ${tLine}-${number}`;
+    pending = null;
+    try {
+      titles.push({
+        label,
+        line: tLine,
+        ourNumber: slice(t, [38, 57]).trim(),
+        documentNumber: slice(t, [59, 73]).trim(),
+        payerName: slice(t, [149, 188]).trim() || null,
+        dueDate: readDate(t, [74, 81]),
+        amount: readAmount(t, [82, 96]),
+        occurrence: slice(t, [16, 17]),
+        occurrenceDate: readDate(line, [138, 145]),
+        creditDate: readDate(line, [146, 153]),
+        fee: readAmount(t, [199, 213]) + readAmount(line, [108, 122]),
+        interest: readAmount(line, [18, 32]),
+        discount: readAmount(line, [33, 47]) + readAmount(line, [48, 62]),
+        paid: readAmount(line, [78, 92]),
+        reasons: readReasons(t, [214, 223]),
+      });
+    } catch (error) {
+      errors.push({ label, error: (error as Error).message });
+    }
+  });
+  unmatched();
+
+  return {
+    format: '240',
+    bankCode: header.slice(0, 3),
+    bankName: slice(header, [103, 132]).trim() || `Banco ${header.slice(0, 3)}`,
+    titles,
+    errors,
+  };
+}
+
+function parseCnab400(lines: string[]): CnabReturn {
+  const header = lines[0];
+  const bankCode = slice(header, [77, 79]);
+  const layout = CNAB_400_LAYOUTS[bankCode];
+  if (!layout) {
+    throw new Error(`Retorno CNAB 400 do banco ${bankCode} não suportado (suportados: ${SUPPORTED_CNAB_400_BANKS.join(', ')})`);
+  }
+
+  const titles: CnabTitle[] = [];
+  const errors: CnabLineError[] = [];
+  const { fields } = layout;
+
+  lines.forEach((rawLine, i) => {
+    const label = `Linha ${i + 1}`;
+    if (rawLine.length > 400) {
+      errors.push({ label, error: `Linha com ${rawLine.length} posições (esperado 400)` });
+      return;
+    }
+    const line = rawLine.padEnd(400);
+    // Header (0), trailer (9) e registros complementares não trazem títulos
+    if (line[0] !== layout.detailType) return;
+
+    try {
+      titles.push({
+        label,
+        line: i + 1,
+        ourNumber: slice(line, fields.ourNumber).trim(),
+        documentNumber: slice(line, fields.documentNumber).trim(),
+        payerName: fields.payerName ? slice(line, fields.payerName).trim() || null : null,
+        dueDate: readDate(line, fields.dueDate),
+        amount: readAmount(line, fields.amount),
+        occurrence: slice(line, fields.occurrence),
+        occurrenceDate: readDate(line, fields.occurrenceDate),
+        creditDate: readDate(line, fields.creditDate),
+        fee: readAmount(line, fields.fee) + (fields.otherExpenses ? readAmount(line, fields.otherExpenses) : 0),
+        interest: readAmount(line, fields.interest),
+        discount: readAmount(line, fields.discount) + readAmount(line, fields.rebate),
+        paid: readAmount(line, fields.paid),
+        reasons: readReasons(line, fields.reasons),
+      });
+    } catch (error) {
+      errors.push({ label, error: (error as Error).message });
+    }
+  });
+
+  return { format: '400', bankCode, bankName: layout.bankName, titles, errors };
+}
+
+/**
+ * Lê o arquivo de retorno. Erros de cada linha ou segmento são devolvidos em `errors`;
+ * lança erro apenas quando o arquivo inteiro não pode ser interpretado.
+ */
+export function parseCnab(text: string): CnabReturn {
+  const format = detectCnabFormat(text);
+  if (!format) throw new Error('O arquivo não é um retorno CNAB 240 ou 400');
+  const lines = splitLines(text);
+  return format === '240' ? parseCnab240(lines) : parseCnab400(lines);
+}
+
+function codesFor(cnab: CnabReturn): OccurrenceCodes {
+  return cnab.format === '240' ? FEBRABAN_240_CODES : CNAB_400_LAYOUTS[cnab.bankCode].codes;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Converte os títulos liquidados em lançamentos: o valor do título é receita, juros e multa
+ * são receita à parte, descontos/abatimentos e tarifas são despesas. Títulos rejeitados
+ * ou baixados sem pagamento são devolvidos como avisos; as demais ocorrências são ignoradas.
+ */
+export function cnabToEntries(
+  cnab: CnabReturn,
+): { entries: ImportEntry[]; labels: string[]; notices: CnabNotice[]; errors: CnabLineError[] } {
+  const codes = codesFor(cnab);
+  const entries: ImportEntry[] = [];
+  const labels: string[] = [];
+  const notices: CnabNotice[] = [];
+  const errors: CnabLineError[] = [];
+
+  cnab.titles.forEach(title => {
+    const description = codes.descriptions[title.occurrence] || `Ocorrência ${title.occurrence}`;
+    const reference = title.documentNumber || title.ourNumber;
+    const date = title.creditDate || title.occurrenceDate;
+    // Data e linha distinguem liquidações parciais do mesmo título com a mesma ocorrência
+    const externalBase = [
+      'cnab',
+      cnab.bankCode,
+      title.ourNumber || title.documentNumber,
+      title.occurrence,
+      date || 'sem-data',
+      title.line,
+    ].join(':');
+    const notes = [
+      `Nosso número ${title.ourNumber}`,
+      title.dueDate ? `Vencimento ${title.dueDate.split('-').reverse().join('/')}` : null,
+      `${description} (${cnab.bankName})`,
+    ].filter(Boolean).join('\n');
+
+    const push = (
+      component: keyof typeof CNAB_CATEGORIES,
+      amount: number,
+      type: ImportEntry['type'],
+      text: string,
+    ) => {
+      if (round(amount) <= 0) return;
+      entries.push({
+        date,
+        description: `${text} ${reference}${title.payerName && component === 'principal' ? ` - ${title.payerName}` : ''}`,
+        amount: round(amount),
+        type,
+        categoryName: CNAB_CATEGORIES[component],
+        notes,
+        externalId: `${externalBase}:${component}`,
+      });
+      labels.push(`${title.label} · ${CNAB_CATEGORIES[component].toLowerCase()}`);
+    };
+
+    const generatesEntries = codes.liquidated.includes(title.occurrence) || codes.fees.includes(title.occurrence);
+    if (generatesEntries && !date) {
+      errors.push({ label: title.label, error: `${description} sem data de crédito ou de ocorrência` });
+      return;
+    }
+
+    if (codes.liquidated.includes(title.occurrence)) {
+      // Alguns bancos só informam o valor pago; o título é o pago sem juros e com os descontos.
+      // Na liquidação parcial vale sempre o pago, o restante do título continua em aberto
+      const paidPrincipal = title.paid - title.interest + title.discount;
+      const principal = codes.partial.includes(title.occurrence)
+        ? paidPrincipal
+        : title.amount || paidPrincipal;
+      push('principal', principal, 'income', 'Boleto');
+      push('interest', title.interest, 'income', 'Juros/multa boleto');
+      push('discount', title.discount, 'expense', 'Desconto concedido boleto');
+      push('fee', title.fee, 'expense', 'Tarifa de cobrança boleto');
+    } else if (codes.fees.includes(title.occurrence)) {
+      push('fee', title.fee, 'expense', 'Tarifa de cobrança boleto');
+    } else if (codes.rejected.includes(title.occurrence) || codes.returned.includes(title.occurrence)) {
+      notices.push({
+        kind: codes.rejected.includes(title.occurrence) ? 'rejected' : 'returned',
+        title,
+        description: title.reasons.length > 0 ? `${description} (motivos ${title.reasons.join(', ')})` : description,
+      });
+    }
+  });
+
+  return { entries, labels, notices, errors };
+}
@@ -0,0 +1,202 @@
+// =====================================================
+// LEITOR CSV (RFC 4180) COM DETECÇÃO DE DELIMITADOR E CODIFICAÇÃO
+// =====================================================
+
+export type CSVEncoding = 'utf-8' | 'windows-1252';
+
+export interface CSVReadResult {
+  rows: string[][];
+  delimiter: string;
+  encoding: CSVEncoding;
+}
+
+const DELIMITER_CANDIDATES = [';', ',', '\t', '|'];
+const SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Parser incremental: recebe o texto em pedaços e emite cada registro completo.
+ * Suporta campos entre aspas com delimitadores, quebras de linha e aspas escapadas ("").
+ */
+export class CSVParser {
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private quotePending = false;
+  private fieldQuoted = false;
+  private lastWasCR = false;
+
+  constructor(
+    private readonly delimiter: string,
+    private readonly onRow: (row: string[]) => void,
+  ) {}
+
+  write(chunk: string): void {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          // Aspa anterior fechou o campo; o caractere atual é tratado fora das aspas
+          this.inQuotes = false;
+        } else if (char === '"') {
+          this.quotePending = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (this.lastWasCR) {
+        this.lastWasCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (char === '"' && this.field === '' && !this.fieldQuoted) {
+        this.inQuotes = true;
+        this.fieldQuoted = true;
+      } else if (char === this.delimiter) {
+        this.pushField();
+      } else if (char === '\n' || char === '\r') {
+        this.pushField();
+        this.pushRow();
+        this.lastWasCR = char === '\r';
+      } else {
+        this.field += char;
+      }
+    }
+  }
+
+  end(): void {
+    this.inQuotes = false;
+    this.quotePending = false;
+    if (this.field !== '' || this.fieldQuoted || this.row.length > 0) {
+      this.pushField();
+      this.pushRow();
+    }
+  }
+
+  private pushField() {
+    this.row.push(this.field);
+    this.field = '';
+    this.fieldQuoted = false;
+  }
+
+  private pushRow() {
+    this.onRow(this.row);
+    this.row = [];
+  }
+}
+
+/**
+ * Faz o parse completo de um texto CSV já decodificado
+ */
+export function parseCSV(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  const parser = new CSVParser(delimiter, row => rows.push(row));
+  parser.write(stripSeparatorHint(text));
+  parser.end();
+  return rows.filter(row => row.some(value => value.trim() !== ''));
+}
+
+/**
+ * Lê a dica "sep=;" que o Excel grava na primeira linha
+ */
+function separatorHint(text: string): string | null {
+  const match = text.match(/^sep=(.)\r?\n/i);
+  return match ? match[1] : null;
+}
+
+function stripSeparatorHint(text: string): string {
+  return separatorHint(text) ? text.replace(/^sep=.\r?\n/i, '') : text;
+}
+
+/**
+ * Detecta o delimitador escolhendo o candidato que produz a mesma quantidade
+ * de colunas (maior que uma) no maior número de linhas da amostra
+ */
+export function detectDelimiter(sample: string): string {
+  const hint = separatorHint(sample);
+  if (hint) return hint;
+
+  // Descarta a última linha da amostra, que pode estar truncada
+  const text = sample.length >= SAMPLE_SIZE ? sample.slice(0, sample.lastIndexOf('\n')) : sample;
+
+  let best = { delimiter: ',', score: 0, columns: 0 };
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts: number[] = [];
+    const parser = new CSVParser(delimiter, row => {
+      if (counts.length < 50 && row.some(v => v.trim() !== '')) counts.push(row.length);
+    });
+    parser.write(text);
+    parser.end();
+
+    const frequency = new Map<number, number>();
+    counts.forEach(c => frequency.set(c, (frequency.get(c) || 0) + 1));
+    let columns = 0;
+    let score = 0;
+    frequency.forEach((occurrences, count) => {
+      if (count > 1 && (occurrences > score || (occurrences === score && count > columns))) {
+        columns = count;
+        score = occurrences;
+      }
+    });
+
+    if (score > best.score || (score === best.score && columns > best.columns)) {
+      best = { delimiter, score, columns };
+    }
+  }
+
+  return best.delimiter;
+}
+
+async function streamFile(
+  file: Blob,
+  encoding: CSVEncoding,
+  delimiter: string,
+): Promise<string[][]> {
+  const rows: string[][] = [];
+  const parser = new CSVParser(delimiter, row => {
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+  });
+  const decoder = new TextDecoder(encoding, { fatal: encoding === 'utf-8' });
+  const reader = file.stream().getReader();
+  let first = true;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    let chunk = done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    if (first && chunk) {
+      chunk = stripSeparatorHint(chunk.charCodeAt(0) === 0xfeff ? chunk.slice(1) : chunk);
+      first = false;
+    }
+    parser.write(chunk);
+    if (done) break;
+  }
+
+  parser.end();
+  return rows;
+}
+
+/**
+ * Lê um arquivo CSV em streaming. Tenta UTF-8 e, se encontrar bytes inválidos,
+ * relê como Windows-1252 (padrão do Excel pt-BR e de vários bancos).
+ */
+export async function readCSVFile(file: Blob, options: { delimiter?: string } = {}): Promise<CSVReadResult> {
+  const sampleBuffer = await file.slice(0, SAMPLE_SIZE).arrayBuffer();
+  const sample = new TextDecoder('utf-8').decode(sampleBuffer).replace(/^\uFEFF/, '');
+  const delimiter = options.delimiter || detectDelimiter(sample);
+
+  try {
+    return { rows: await streamFile(file, 'utf-8', delimiter), delimiter, encoding: 'utf-8' };
+  } catch (error) {
+    if (!(error instanceof TypeError)) throw error;
+    return { rows: await streamFile(file, 'windows-1252', delimiter), delimiter, encoding: 'windows-1252' };
+  }
+}
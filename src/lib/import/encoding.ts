@@ -0,0 +1,17 @@
+// =====================================================
+// DETECÇÃO DE CODIFICAÇÃO DE ARQUIVOS
+// =====================================================
+
+/**
+ * Decodifica um arquivo de texto tentando UTF-8 e caindo para Windows-1252
+ * (superconjunto do Latin-1 usado pelos bancos e pelo Excel pt-BR)
+ */
+export function decodeText(buffer: ArrayBuffer): string {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    // Remove BOM
+    return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
@@ -0,0 +1,109 @@
+import type { Json } from '@/integrations/supabase/types';
+import { ColumnMapping, DEFAULT_IMPORT_SETTINGS, ImportSettings } from '@/lib/import/mapping';
+import { ReviewRow, RowFields, createReviewRow, formatCell } from '@/lib/import/review';
+
+// =====================================================
+// DETALHES DE ERRO DO HISTÓRICO (import_history.error_details)
+// =====================================================
+
+/**
+ * Campos como gravados no histórico: datas em AAAA-MM-DD e números preservados,
+ * para que o reprocessamento não dependa do formato de exibição
+ */
+export type StoredFields = Record<keyof ColumnMapping, string | number>;
+
+export interface FailedRowDetail {
+  /** "Linha 12", "Lançamento 3"; vazio para erros que não são de uma linha */
+  label: string;
+  values: StoredFields | null;
+  extra?: ReviewRow['extra'];
+  error: string;
+}
+
+const FIELD_KEYS: (keyof ColumnMapping)[] = ['date', 'description', 'amount', 'category', 'taxAmount', 'productCost'];
+
+export function serializeFields(fields: RowFields): StoredFields {
+  const result = {} as StoredFields;
+  FIELD_KEYS.forEach(field => {
+    const value = fields[field];
+    if (value instanceof Date) {
+      result[field] = isNaN(value.getTime()) ? '' : value.toISOString().split('T')[0];
+    } else if (typeof value === 'number') {
+      result[field] = value;
+    } else {
+      result[field] = formatCell(value);
+    }
+  });
+  return result;
+}
+
+export function toFailedRow(row: ReviewRow, error: string): FailedRowDetail {
+  return {
+    label: row.label,
+    values: serializeFields(row.fields),
+    extra: Object.values(row.extra).some(value => value != null) ? row.extra : undefined,
+    error,
+  };
+}
+
+export function generalError(error: string): FailedRowDetail {
+  return { label: '', values: null, error };
+}
+
+/**
+ * Lê error_details, aceitando também o formato antigo (lista de textos "Linha 5: mensagem")
+ */
+export function parseErrorDetails(details: Json | null): FailedRowDetail[] {
+  if (!Array.isArray(details)) return [];
+
+  return details.map((item): FailedRowDetail => {
+    if (typeof item === 'string') {
+      const match = item.match(/^((?:Linha|Lançamento) \d+): (.*)$/s);
+      return match ? { label: match[1], values: null, error: match[2] } : generalError(item);
+    }
+
+    const detail = (item ?? {}) as Partial<FailedRowDetail>;
+    return {
+      label: detail.label ?? '',
+      values: detail.values ?? null,
+      extra: detail.extra,
+      error: detail.error ?? '',
+    };
+  });
+}
+
+/**
+ * Opções do lote; lotes anteriores a este registro usam o padrão
+ */
+export function parseImportSettings(settings: Json | null): ImportSettings {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) return DEFAULT_IMPORT_SETTINGS;
+  return { ...DEFAULT_IMPORT_SETTINGS, ...(settings as Partial<ImportSettings>) };
+}
+
+/**
+ * Linhas que falharam e guardaram seus valores, prontas para voltar à revisão
+ */
+export function failedRowsToReviewRows(details: FailedRowDetail[], settings: ImportSettings): ReviewRow[] {
+  return details
+    .filter(d => d.values)
+    .map((d, i) => createReviewRow(i, d.label, { ...d.values }, settings, d.extra ?? {}));
+}
+
+// =====================================================
+// SITUAÇÃO DOS LOTES
+// =====================================================
+
+export const IMPORT_STATUS: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  processing: { label: 'Interrompida', variant: 'destructive' },
+  success: { label: 'Concluída', variant: 'secondary' },
+  partial: { label: 'Parcial', variant: 'outline' },
+  failed: { label: 'Falhou', variant: 'destructive' },
+  reverted: { label: 'Desfeita', variant: 'outline' },
+};
+
+/**
+ * Lotes que ainda têm lançamentos gravados; 'processing' indica importação interrompida
+ */
+export function canRevertImport(item: { status: string | null; rows_imported: number | null }): boolean {
+  return item.status !== 'reverted' && ((item.rows_imported ?? 0) > 0 || item.status === 'processing');
+}
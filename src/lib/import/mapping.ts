@@ -0,0 +1,180 @@
+import type { TransactionType } from '@/lib/import/types';
+import type { DateFormat, DecimalSeparator } from '@/lib/import/values';
+
+// =====================================================
+// MAPEAMENTO DE COLUNAS E RECONHECIMENTO DE CABEÇALHOS
+// =====================================================
+
+export interface ColumnMapping {
+  date: string;
+  description: string;
+  amount: string;
+  category: string;
+  taxAmount: string;
+  productCost: string;
+}
+
+export const EMPTY_MAPPING: ColumnMapping = {
+  date: '',
+  description: '',
+  amount: '',
+  category: '',
+  taxAmount: '',
+  productCost: '',
+};
+
+/**
+ * Nomes usuais de cada campo em planilhas de bancos e marketplaces, já normalizados
+ */
+const FIELD_SYNONYMS: Record<keyof ColumnMapping, string[]> = {
+  date: ['data', 'data lancamento', 'data movimento', 'data transacao', 'data da venda', 'data pagamento', 'dt', 'date', 'dia'],
+  description: ['descricao', 'historico', 'lancamento', 'detalhes', 'detalhe', 'memo', 'produto', 'titulo', 'description', 'nome'],
+  amount: ['valor', 'valor r', 'valor total', 'valor liquido', 'montante', 'quantia', 'total', 'amount', 'preco'],
+  category: ['categoria', 'classificacao', 'grupo', 'tipo de despesa', 'category'],
+  taxAmount: ['imposto', 'impostos', 'tributos', 'tributo', 'tax', 'taxes'],
+  productCost: ['custo', 'custo do produto', 'custo produto', 'cmv', 'cost'],
+};
+
+const MIN_SCORE = 0.6;
+
+/**
+ * Normaliza um cabeçalho: minúsculas, sem acentos e só letras/números ("Valor (R$)" → "valor r")
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Assinatura dos cabeçalhos de um arquivo, usada para reconhecer a mesma origem
+ */
+export function headerSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).filter(Boolean).join('|');
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = temp;
+    }
+  }
+  return previous[b.length];
+}
+
+function similarity(header: string, synonym: string): number {
+  if (header === synonym) return 1;
+  const words = header.split(' ');
+  if (words[0] === synonym || header.startsWith(`${synonym} `)) return 0.9;
+  if (words.includes(synonym)) return 0.8;
+  const distance = levenshtein(header, synonym);
+  return 1 - distance / Math.max(header.length, synonym.length);
+}
+
+/**
+ * Sugere o mapeamento comparando cada cabeçalho com os sinônimos conhecidos.
+ * Cada coluna é usada no máximo uma vez, priorizando as maiores semelhanças.
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const candidates: { field: keyof ColumnMapping; header: string; score: number }[] = [];
+
+  headers.forEach(header => {
+    const normalized = normalizeHeader(header);
+    if (!normalized) return;
+    (Object.keys(FIELD_SYNONYMS) as (keyof ColumnMapping)[]).forEach(field => {
+      const score = Math.max(...FIELD_SYNONYMS[field].map(s => similarity(normalized, s)));
+      if (score >= MIN_SCORE) candidates.push({ field, header, score });
+    });
+  });
+
+  const mapping = { ...EMPTY_MAPPING };
+  const usedHeaders = new Set<string>();
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ field, header }) => {
+      if (mapping[field] || usedHeaders.has(header)) return;
+      mapping[field] = header;
+      usedHeaders.add(header);
+    });
+
+  return mapping;
+}
+
+/**
+ * Semelhança entre duas assinaturas de cabeçalho (índice de Jaccard)
+ */
+export function signatureSimilarity(a: string, b: string): number {
+  const setA = new Set(a.split('|').filter(Boolean));
+  const setB = new Set(b.split('|').filter(Boolean));
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let intersection = 0;
+  setA.forEach(h => setB.has(h) && intersection++);
+  return intersection / (setA.size + setB.size - intersection);
+}
+
+/**
+ * Mantém apenas as colunas do mapeamento que existem no arquivo atual
+ */
+export function sanitizeMapping(mapping: Partial<ColumnMapping>, headers: string[]): ColumnMapping {
+  const result = { ...EMPTY_MAPPING };
+  (Object.keys(EMPTY_MAPPING) as (keyof ColumnMapping)[]).forEach(field => {
+    const column = mapping[field];
+    if (column && headers.includes(column)) result[field] = column;
+  });
+  return result;
+}
+
+// =====================================================
+// OPÇÕES DE INTERPRETAÇÃO DO ARQUIVO
+// =====================================================
+
+/**
+ * signed: positivo é receita; inverted: positivo é despesa (faturas de cartão);
+ * expense/income: todas as linhas têm o mesmo tipo, independente do sinal
+ */
+export type SignConvention = 'signed' | 'inverted' | 'expense' | 'income';
+
+export interface ImportSettings {
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+  signConvention: SignConvention;
+  defaultCategoryId: string | null;
+  /** Conta de destino dos lançamentos; null usa a conta padrão da empresa */
+  accountId: string | null;
+  /** Linha do cabeçalho, começando em 1 */
+  headerRow: number;
+}
+
+export const DEFAULT_IMPORT_SETTINGS: ImportSettings = {
+  dateFormat: 'auto',
+  decimalSeparator: 'auto',
+  signConvention: 'signed',
+  defaultCategoryId: null,
+  accountId: null,
+  headerRow: 1,
+};
+
+export function resolveType(signedAmount: number, convention: SignConvention): TransactionType {
+  switch (convention) {
+    case 'inverted':
+      return signedAmount >= 0 ? 'expense' : 'income';
+    case 'expense':
+      return 'expense';
+    case 'income':
+      return 'income';
+    default:
+      return signedAmount >= 0 ? 'income' : 'expense';
+  }
+}
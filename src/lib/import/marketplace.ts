@@ -0,0 +1,290 @@
+import type { ImportEntry } from '@/lib/import/types';
+import { normalizeHeader } from '@/lib/import/mapping';
+import { formatCell } from '@/lib/import/review';
+import { parseAmount, parseDate } from '@/lib/import/values';
+
+// =====================================================
+// RELATÓRIOS DE REPASSE DE MARKETPLACES
+// =====================================================
+
+export type MarketplacePlatform = 'mercado_livre' | 'shopee' | 'magalu' | 'loja_integrada';
+
+type TextField = 'order' | 'date' | 'description' | 'status';
+type AmountField = 'gross' | 'commission' | 'shipping' | 'fees';
+
+export interface MarketplaceLayout {
+  platform: MarketplacePlatform;
+  /** Nome exibido e gravado em transactions.source */
+  name: string;
+  /** Cabeçalhos normalizados que, juntos, identificam o relatório */
+  signature: string[];
+  /** Cabeçalhos normalizados de cada campo de texto; vale o primeiro encontrado */
+  columns: Record<TextField, string[]>;
+  /**
+   * Parcelas somadas em cada campo de valor (ex: taxa de serviço + taxa de transação da
+   * Shopee); cada parcela lista nomes alternativos da mesma coluna, e vale o primeiro encontrado
+   */
+  amounts: Record<AmountField, string[][]>;
+}
+
+export interface MarketplaceReport {
+  layout: MarketplaceLayout;
+  /** Posição do cabeçalho em `data` (os relatórios costumam ter linhas de título antes) */
+  headerIndex: number;
+}
+
+export interface MarketplaceRejection {
+  label: string;
+  error: string;
+}
+
+export const MARKETPLACE_LAYOUTS: MarketplaceLayout[] = [
+  {
+    platform: 'mercado_livre',
+    name: 'Mercado Livre',
+    signature: ['n de venda', 'tarifa de venda e impostos brl'],
+    columns: {
+      order: ['n de venda'],
+      date: ['data da venda'],
+      description: ['titulo do anuncio'],
+      status: ['estado'],
+    },
+    amounts: {
+      gross: [['receita por produtos brl']],
+      commission: [['tarifa de venda e impostos brl']],
+      shipping: [['tarifas de envio brl']],
+      fees: [['custo de antecipacao brl', 'tarifa de antecipacao brl']],
+    },
+  },
+  {
+    platform: 'shopee',
+    name: 'Shopee',
+    signature: ['id do pedido', 'taxa de comissao'],
+    columns: {
+      order: ['id do pedido'],
+      date: ['data de conclusao do pagamento', 'data do pedido'],
+      description: ['nome do produto'],
+      status: ['status do pedido'],
+    },
+    amounts: {
+      gross: [['subtotal do produto', 'preco original do produto']],
+      commission: [['taxa de comissao']],
+      shipping: [['taxa de envio reversa'], ['frete pago pelo vendedor']],
+      fees: [['taxa de servico'], ['taxa de transacao']],
+    },
+  },
+  {
+    platform: 'magalu',
+    name: 'Magalu',
+    signature: ['pedido', 'valor bruto', 'comissao magalu'],
+    columns: {
+      order: ['pedido'],
+      date: ['data do repasse', 'data do pedido'],
+      description: ['produto'],
+      status: ['status'],
+    },
+    amounts: {
+      gross: [['valor bruto']],
+      commission: [['comissao magalu']],
+      shipping: [['frete', 'coparticipacao de frete']],
+      fees: [['taxa de antecipacao'], ['tarifa fixa']],
+    },
+  },
+  {
+    platform: 'loja_integrada',
+    name: 'Loja Integrada',
+    signature: ['numero do pedido', 'valor total do pedido', 'taxa do gateway'],
+    columns: {
+      order: ['numero do pedido'],
+      date: ['data do pagamento', 'data do pedido'],
+      description: ['cliente'],
+      status: ['situacao'],
+    },
+    amounts: {
+      gross: [['valor total do pedido']],
+      commission: [['taxa do gateway']],
+      shipping: [['valor do frete pago pela loja']],
+      fees: [['taxa de antecipacao'], ['tarifa por transacao']],
+    },
+  },
+];
+
+/**
+ * Categorias usadas nos lançamentos gerados; são criadas na importação quando não existem
+ */
+export const MARKETPLACE_CATEGORIES: Record<AmountField, string> = {
+  gross: 'Vendas em marketplace',
+  commission: 'Comissões de marketplace',
+  shipping: 'Fretes de marketplace',
+  fees: 'Tarifas de marketplace',
+};
+
+const COMPONENT_LABELS: Record<AmountField, string> = {
+  gross: 'Venda',
+  commission: 'Comissão',
+  shipping: 'Frete',
+  fees: 'Tarifas',
+};
+
+const EXPENSE_FIELDS: AmountField[] = ['commission', 'shipping', 'fees'];
+
+// Linhas de título antes do cabeçalho costumam ser poucas
+const HEADER_SEARCH_ROWS = 20;
+
+/**
+ * Procura, nas primeiras linhas, um cabeçalho com a assinatura de algum marketplace
+ */
+export function detectMarketplaceReport(data: unknown[][]): MarketplaceReport | null {
+  const limit = Math.min(data.length, HEADER_SEARCH_ROWS);
+  for (let i = 0; i < limit; i++) {
+    const headers = (data[i] || []).map(h => normalizeHeader(formatCell(h)));
+    const layout = MARKETPLACE_LAYOUTS.find(l => l.signature.every(s => headers.includes(s)));
+    if (layout) return { layout, headerIndex: i };
+  }
+  return null;
+}
+
+const MONTHS = ['janeiro', 'fevereiro', 'marco', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
+
+/**
+ * Aceita também datas por extenso do Mercado Livre ("3 de janeiro de 2024 14:05 hs.")
+ */
+function parseReportDate(value: unknown): string | null {
+  const date = parseDate(value);
+  if (date) return date;
+
+  const match = normalizeHeader(formatCell(value)).match(/^(\d{1,2}) de ([a-z]+) de (\d{4})/);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[2]) + 1;
+  return month > 0 ? parseDate(`${match[3]}-${month}-${match[1]}`) : null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Pedidos que não geraram repasse
+const CANCELLED_STATUS = /cancel|devolv|reembols|nao pago/;
+
+interface OrderTotals {
+  order: string;
+  date: string | null;
+  titles: string[];
+  cancelled: boolean;
+  invalid: boolean;
+  amounts: Record<AmountField, number>;
+  label: string;
+}
+
+/**
+ * Converte o relatório em lançamentos, agrupando as linhas de cada pedido: a venda bruta
+ * vira receita (com o lucro do pedido) e comissão, frete e tarifas viram despesas.
+ * Pedidos cancelados são contados e ignorados.
+ */
+export function marketplaceReportToEntries(
+  data: unknown[][],
+  report: MarketplaceReport,
+): { entries: ImportEntry[]; labels: string[]; rejected: MarketplaceRejection[]; cancelled: number } {
+  const { layout, headerIndex } = report;
+  const headers = (data[headerIndex] || []).map(h => normalizeHeader(formatCell(h)));
+  const indexes = (names: string[]) => names.map(name => headers.indexOf(name)).filter(i => i >= 0);
+  const firstText = (row: unknown[], field: TextField) =>
+    indexes(layout.columns[field]).map(i => formatCell(row[i])).find(Boolean) || '';
+  // Uma coluna por parcela: nomes alternativos da mesma parcela não são somados duas vezes
+  const amountIndexes = (field: AmountField) =>
+    layout.amounts[field].map(aliases => indexes(aliases)[0]).filter((i): i is number => i !== undefined);
+
+  const orders = new Map<string, OrderTotals>();
+  const rejected: MarketplaceRejection[] = [];
+
+  data.slice(headerIndex + 1).forEach((row, i) => {
+    if (!row || !row.some(value => formatCell(value) !== '')) return;
+    const label = `Linha ${headerIndex + i + 2}`;
+
+    const order = firstText(row, 'order');
+    // Linhas de total no fim do relatório não têm número de pedido
+    if (!order) return;
+
+    let totals = orders.get(order);
+    if (!totals) {
+      totals = {
+        order,
+        date: null,
+        titles: [],
+        cancelled: false,
+        invalid: false,
+        amounts: { gross: 0, commission: 0, shipping: 0, fees: 0 },
+        label,
+      };
+      orders.set(order, totals);
+    }
+
+    totals.date ??= parseReportDate(firstText(row, 'date'));
+    const title = firstText(row, 'description');
+    if (title && !totals.titles.includes(title)) totals.titles.push(title);
+    if (CANCELLED_STATUS.test(normalizeHeader(firstText(row, 'status')))) totals.cancelled = true;
+
+    (Object.keys(totals.amounts) as AmountField[]).forEach(field => {
+      amountIndexes(field).forEach(index => {
+        const value = formatCell(row[index]) ? parseAmount(row[index]) : 0;
+        if (value === null) {
+          rejected.push({ label, error: `Valor inválido "${formatCell(row[index])}" no pedido ${order}` });
+          totals.invalid = true;
+          return;
+        }
+        // Relatórios trazem os descontos ora negativos, ora positivos
+        totals.amounts[field] += Math.abs(value);
+      });
+    });
+  });
+
+  const entries: ImportEntry[] = [];
+  const labels: string[] = [];
+  let cancelled = 0;
+
+  orders.forEach(totals => {
+    if (totals.cancelled) {
+      cancelled++;
+      return;
+    }
+    // Um valor ilegível invalida o pedido inteiro, para não gravar o repasse pela metade
+    if (totals.invalid) return;
+    if (!totals.date) {
+      rejected.push({ label: totals.label, error: `Data ausente ou inválida no pedido ${totals.order}` });
+      return;
+    }
+    if (totals.amounts.gross <= 0) {
+      rejected.push({ label: totals.label, error: `Pedido ${totals.order} sem valor de venda` });
+      return;
+    }
+
+    const amounts = Object.fromEntries(
+      Object.entries(totals.amounts).map(([field, value]) => [field, round(value)])
+    ) as Record<AmountField, number>;
+    const profit = round(amounts.gross - amounts.commission - amounts.shipping - amounts.fees);
+    const title = totals.titles.length > 1
+      ? `${totals.titles[0]} +${totals.titles.length - 1}`
+      : totals.titles[0];
+
+    const push = (field: AmountField, profitValue: number) => {
+      entries.push({
+        date: totals.date,
+        description: `${COMPONENT_LABELS[field]} ${layout.name} #${totals.order}${title && field === 'gross' ? ` - ${title}` : ''}`,
+        amount: amounts[field],
+        type: field === 'gross' ? 'income' : 'expense',
+        categoryName: MARKETPLACE_CATEGORIES[field],
+        source: layout.name,
+        profit: profitValue,
+        notes: `Pedido ${totals.order}`,
+        externalId: `${layout.platform}:${totals.order}:${field}`,
+      });
+      labels.push(`Pedido ${totals.order} · ${COMPONENT_LABELS[field].toLowerCase()}`);
+    };
+
+    // O lucro do pedido fica na receita; as despesas não o repetem
+    push('gross', profit);
+    EXPENSE_FIELDS.forEach(field => {
+      if (amounts[field] > 0) push(field, 0);
+    });
+  });
+
+  return { entries, labels, rejected, cancelled };
+}
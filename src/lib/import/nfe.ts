@@ -0,0 +1,287 @@
+import JSZip from 'jszip';
+import type { ImportEntry, TransactionType } from '@/lib/import/types';
+import { decodeText } from '@/lib/import/encoding';
+import { isValidCNPJ, isValidDocument } from '@/lib/validators';
+
+// =====================================================
+// LEITURA DE NF-e (XML AUTORIZADO E ZIP DE XMLs)
+// =====================================================
+
+export interface NFeParty {
+  document: string | null;
+  name: string | null;
+}
+
+export interface NFeItem {
+  code: string | null;
+  description: string;
+  ncm: string | null;
+  cfop: string | null;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface NFeTaxes {
+  icms: number;
+  ipi: number;
+  pis: number;
+  cofins: number;
+}
+
+export interface NFeDocument {
+  accessKey: string;
+  number: string | null;
+  series: string | null;
+  /** Natureza da operação (ex: "Venda de mercadoria") */
+  operation: string | null;
+  /** tpNF: 0 = entrada, 1 = saída */
+  direction: 'in' | 'out';
+  issueDate: string;
+  issuer: NFeParty;
+  recipient: NFeParty;
+  productsTotal: number;
+  discount: number;
+  total: number;
+  taxes: NFeTaxes;
+  items: NFeItem[];
+  /** cStat do protocolo de autorização; null quando o XML não traz o protocolo */
+  status: string | null;
+}
+
+export interface NFeSource {
+  fileName: string;
+  text: string;
+}
+
+export interface NFeRejection {
+  fileName: string;
+  error: string;
+}
+
+// Autorizado o uso da NF-e (100) e autorizado fora de prazo (150)
+const AUTHORIZED_STATUS = ['100', '150'];
+
+export function isNFeXML(text: string): boolean {
+  return /<(\w+:)?infNFe[\s>]/.test(text.slice(0, 4096));
+}
+
+export function isNFeFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return name.endsWith('.xml') || name.endsWith('.zip');
+}
+
+/**
+ * Valida a chave de acesso (44 dígitos, dígito verificador módulo 11)
+ */
+export function isValidAccessKey(key: string): boolean {
+  if (!/^\d{44}$/.test(key)) return false;
+  let weight = 2;
+  let sum = 0;
+  for (let i = 42; i >= 0; i--) {
+    sum += parseInt(key[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const remainder = sum % 11;
+  const digit = remainder < 2 ? 0 : 11 - remainder;
+  return digit === parseInt(key[43]);
+}
+
+function child(parent: Element | null, name: string): Element | null {
+  if (!parent) return null;
+  return Array.from(parent.children).find(c => c.localName === name) || null;
+}
+
+function text(parent: Element | null, name: string): string | null {
+  const value = child(parent, name)?.textContent?.trim();
+  return value ? value : null;
+}
+
+function amount(parent: Element | null, name: string): number {
+  const value = parseFloat(text(parent, name) || '');
+  return isNaN(value) ? 0 : value;
+}
+
+function parseParty(node: Element | null): NFeParty {
+  return {
+    document: text(node, 'CNPJ') || text(node, 'CPF'),
+    name: text(node, 'xNome'),
+  };
+}
+
+/**
+ * Lê o XML de uma NF-e (nfeProc ou NFe avulsa). Lança erro quando o documento
+ * não é uma NF-e válida.
+ */
+export function parseNFe(xml: string): NFeDocument {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('XML mal formado');
+  }
+
+  const infNFe = doc.getElementsByTagNameNS('*', 'infNFe')[0];
+  if (!infNFe) throw new Error('O arquivo não é uma NF-e');
+
+  const infProt = doc.getElementsByTagNameNS('*', 'infProt')[0] || null;
+  const accessKey = (text(infProt, 'chNFe') || (infNFe.getAttribute('Id') || '').replace(/^NFe/, '')).trim();
+  if (!isValidAccessKey(accessKey)) throw new Error(`Chave de acesso inválida "${accessKey}"`);
+
+  const ide = child(infNFe, 'ide');
+  // dhEmi a partir da versão 3.10; dEmi nas anteriores. A data local de emissão é mantida.
+  const issueDate = (text(ide, 'dhEmi') || text(ide, 'dEmi') || '').slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(issueDate)) throw new Error('Data de emissão ausente');
+
+  const icmsTot = child(child(infNFe, 'total'), 'ICMSTot');
+  if (!icmsTot) throw new Error('Totais da nota (ICMSTot) ausentes');
+
+  const items = Array.from(infNFe.children)
+    .filter(c => c.localName === 'det')
+    .map((det): NFeItem => {
+      const prod = child(det, 'prod');
+      return {
+        code: text(prod, 'cProd'),
+        description: text(prod, 'xProd') || '',
+        ncm: text(prod, 'NCM'),
+        cfop: text(prod, 'CFOP'),
+        quantity: amount(prod, 'qCom'),
+        unitPrice: amount(prod, 'vUnCom'),
+        total: amount(prod, 'vProd'),
+      };
+    });
+
+  return {
+    accessKey,
+    number: text(ide, 'nNF'),
+    series: text(ide, 'serie'),
+    operation: text(ide, 'natOp'),
+    direction: text(ide, 'tpNF') === '0' ? 'in' : 'out',
+    issueDate,
+    issuer: parseParty(child(infNFe, 'emit')),
+    recipient: parseParty(child(infNFe, 'dest')),
+    productsTotal: amount(icmsTot, 'vProd'),
+    discount: amount(icmsTot, 'vDesc'),
+    total: amount(icmsTot, 'vNF'),
+    taxes: {
+      icms: amount(icmsTot, 'vICMS'),
+      ipi: amount(icmsTot, 'vIPI'),
+      pis: amount(icmsTot, 'vPIS'),
+      cofins: amount(icmsTot, 'vCOFINS'),
+    },
+    items,
+    status: text(infProt, 'cStat'),
+  };
+}
+
+/**
+ * Extrai os XMLs de um arquivo .xml ou .zip (ignorando pastas e metadados do macOS)
+ */
+export async function readNFeSources(file: File): Promise<NFeSource[]> {
+  if (!file.name.toLowerCase().endsWith('.zip')) {
+    return [{ fileName: file.name, text: decodeText(await file.arrayBuffer()) }];
+  }
+
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const sources: NFeSource[] = [];
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || entry.name.startsWith('__MACOSX/') || !entry.name.toLowerCase().endsWith('.xml')) continue;
+    sources.push({
+      fileName: entry.name.split('/').pop() || entry.name,
+      text: decodeText(await entry.async('arraybuffer')),
+    });
+  }
+  return sources;
+}
+
+const onlyDigits = (value: string | null) => (value || '').replace(/\D/g, '');
+
+const formatBRL = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/**
+ * Receita quando a empresa emitiu uma nota de saída; despesa quando é a destinatária
+ * ou quando emitiu nota de entrada (compra de pessoa física, importação)
+ */
+export function nfeTransactionType(nfe: NFeDocument, companyDocument: string): TransactionType | null {
+  const company = onlyDigits(companyDocument);
+  if (onlyDigits(nfe.issuer.document) === company) return nfe.direction === 'out' ? 'income' : 'expense';
+  if (onlyDigits(nfe.recipient.document) === company) return 'expense';
+  return null;
+}
+
+/**
+ * Converte a NF-e em lançamento. Nas compras o custo do produto é o valor das
+ * mercadorias menos descontos; nas vendas o XML não informa o custo.
+ */
+export function nfeToEntry(nfe: NFeDocument, companyDocument: string): ImportEntry {
+  if (!isValidCNPJ(onlyDigits(nfe.issuer.document))) {
+    throw new Error(`CNPJ do emitente inválido "${nfe.issuer.document || ''}"`);
+  }
+  if (nfe.recipient.document && !isValidDocument(nfe.recipient.document)) {
+    throw new Error(`Documento do destinatário inválido "${nfe.recipient.document}"`);
+  }
+  if (nfe.status && !AUTHORIZED_STATUS.includes(nfe.status)) {
+    throw new Error(`NF-e não autorizada (cStat ${nfe.status})`);
+  }
+
+  const type = nfeTransactionType(nfe, companyDocument);
+  if (!type) throw new Error('A empresa não é emitente nem destinatária desta NF-e');
+
+  const counterpart = type === 'income' || onlyDigits(nfe.recipient.document) !== onlyDigits(companyDocument)
+    ? nfe.recipient
+    : nfe.issuer;
+  const { icms, ipi, pis, cofins } = nfe.taxes;
+  const taxAmount = Math.round((icms + ipi + pis + cofins) * 100) / 100;
+
+  const itemLines = nfe.items.map(item =>
+    `${item.description} (${item.quantity.toLocaleString('pt-BR')} x ${formatBRL(item.unitPrice)})`
+  );
+
+  return {
+    date: nfe.issueDate,
+    description: `NF-e ${nfe.number || ''}${counterpart.name ? ` - ${counterpart.name}` : ''}`.trim(),
+    amount: nfe.total,
+    type,
+    taxAmount: taxAmount || null,
+    productCost: type === 'expense' ? Math.max(nfe.productsTotal - nfe.discount, 0) || null : null,
+    notes: [
+      nfe.operation,
+      `Chave ${nfe.accessKey}`,
+      `ICMS ${formatBRL(icms)} | IPI ${formatBRL(ipi)} | PIS ${formatBRL(pis)} | COFINS ${formatBRL(cofins)}`,
+      ...itemLines,
+    ].filter(Boolean).join('\n'),
+    externalId: `nfe:${nfe.accessKey}`,
+  };
+}
+
+/**
+ * Lê várias NF-e, separando os lançamentos das notas rejeitadas.
+ * Notas repetidas no mesmo lote (mesma chave) entram uma única vez.
+ */
+export function nfeSourcesToEntries(
+  sources: NFeSource[],
+  companyDocument: string,
+): { entries: ImportEntry[]; labels: string[]; rejected: NFeRejection[] } {
+  const entries: ImportEntry[] = [];
+  const labels: string[] = [];
+  const rejected: NFeRejection[] = [];
+  const seen = new Set<string>();
+
+  for (const source of sources) {
+    if (!isNFeXML(source.text)) {
+      rejected.push({ fileName: source.fileName, error: 'O arquivo não é uma NF-e (eventos e cancelamentos são ignorados)' });
+      continue;
+    }
+
+    try {
+      const nfe = parseNFe(source.text);
+      if (seen.has(nfe.accessKey)) continue;
+      seen.add(nfe.accessKey);
+
+      entries.push(nfeToEntry(nfe, companyDocument));
+      labels.push(`NF-e ${nfe.number || source.fileName}`);
+    } catch (error) {
+      rejected.push({ fileName: source.fileName, error: (error as Error).message });
+    }
+  }
+
+  return { entries, labels, rejected };
+}
@@ -0,0 +1,217 @@
+import type { ImportEntry } from '@/lib/import/types';
+import { OFX_EXPORT_BANK_ID } from '@/lib/export/interchange';
+import { parseAmount } from '@/lib/import/values';
+
+// =====================================================
+// PARSER DE EXTRATOS OFX (1.x SGML e 2.x XML)
+// =====================================================
+
+interface OFXNode {
+  name: string;
+  value: string | null;
+  children: OFXNode[];
+}
+
+export interface OFXTransaction {
+  fitId: string | null;
+  trnType: string | null;
+  date: string;
+  amount: number;
+  name: string | null;
+  memo: string | null;
+  checkNum: string | null;
+}
+
+export interface OFXStatement {
+  bankId: string | null;
+  accountId: string | null;
+  currency: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  ledgerBalance: number | null;
+  transactions: OFXTransaction[];
+}
+
+/**
+ * Verifica se o conteúdo parece um arquivo OFX (cabeçalho SGML ou XML)
+ */
+export function isOFX(text: string): boolean {
+  const head = text.slice(0, 2048).toUpperCase();
+  return head.includes('OFXHEADER') || head.includes('<OFX>');
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Monta a árvore de elementos. No OFX 1.x os elementos folha não são fechados,
+ * então uma tag só é tratada como agregado quando existe o fechamento correspondente.
+ */
+function buildTree(text: string): OFXNode {
+  const start = text.toUpperCase().indexOf('<OFX>');
+  if (start < 0) {
+    throw new Error('Arquivo OFX inválido: elemento <OFX> não encontrado');
+  }
+
+  const body = text.slice(start);
+  const upperBody = body.toUpperCase();
+  const root: OFXNode = { name: 'ROOT', value: null, children: [] };
+  const stack: OFXNode[] = [root];
+  const tagRegex = /<(\/?)([A-Za-z0-9._]+)(\/?)>([^<]*)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagRegex.exec(body)) !== null) {
+    const [, closing, rawName, selfClosing, rawText] = match;
+    const name = rawName.toUpperCase();
+    const text = decodeEntities(rawText.trim());
+    const parent = stack[stack.length - 1];
+
+    if (closing) {
+      let index = stack.length - 1;
+      while (index > 0 && stack[index].name !== name) index--;
+      // Fechamento de elemento folha (OFX 2.x) não altera a pilha
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    if (selfClosing) {
+      parent.children.push({ name, value: '', children: [] });
+      continue;
+    }
+
+    if (text || !upperBody.includes(`</${name}>`, match.index)) {
+      parent.children.push({ name, value: text, children: [] });
+      continue;
+    }
+
+    const node: OFXNode = { name, value: null, children: [] };
+    parent.children.push(node);
+    stack.push(node);
+  }
+
+  return root;
+}
+
+function findAll(node: OFXNode, name: string, result: OFXNode[] = []): OFXNode[] {
+  for (const child of node.children) {
+    if (child.name === name) result.push(child);
+    findAll(child, name, result);
+  }
+  return result;
+}
+
+function find(node: OFXNode, name: string): OFXNode | null {
+  return findAll(node, name)[0] || null;
+}
+
+function valueOf(node: OFXNode | null, name: string): string | null {
+  if (!node) return null;
+  const child = node.children.find(c => c.name === name);
+  return child?.value ? child.value : null;
+}
+
+/**
+ * Converte data OFX (AAAAMMDD[HHMMSS[.XXX]][TZ]) para AAAA-MM-DD
+ */
+export function parseOFXDate(value: string | null): string | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+/**
+ * Converte valores OFX. O padrão usa ponto decimal ("1234.56"); alguns bancos brasileiros
+ * gravam no formato local ("-1.234,56"), que segue a detecção de parseAmount
+ */
+export function parseOFXAmount(value: string | null): number | null {
+  if (!value) return null;
+  return parseAmount(value, value.includes(',') ? 'auto' : '.');
+}
+
+function parseTransaction(node: OFXNode): OFXTransaction | null {
+  const date = parseOFXDate(valueOf(node, 'DTPOSTED'));
+  const amount = parseOFXAmount(valueOf(node, 'TRNAMT'));
+  if (!date || amount === null) return null;
+
+  return {
+    fitId: valueOf(node, 'FITID'),
+    trnType: valueOf(node, 'TRNTYPE'),
+    date,
+    amount,
+    name: valueOf(node, 'NAME'),
+    memo: valueOf(node, 'MEMO'),
+    checkNum: valueOf(node, 'CHECKNUM'),
+  };
+}
+
+/**
+ * Lê todos os extratos (conta corrente e cartão de crédito) de um arquivo OFX
+ */
+export function parseOFX(text: string): OFXStatement[] {
+  const root = buildTree(text);
+  const statementNodes = [...findAll(root, 'STMTRS'), ...findAll(root, 'CCSTMTRS')];
+
+  return statementNodes.map(stmt => {
+    const account = find(stmt, 'BANKACCTFROM') || find(stmt, 'CCACCTFROM');
+    const tranList = find(stmt, 'BANKTRANLIST');
+    const ledger = find(stmt, 'LEDGERBAL');
+
+    return {
+      bankId: valueOf(account, 'BANKID'),
+      accountId: valueOf(account, 'ACCTID'),
+      currency: valueOf(stmt, 'CURDEF'),
+      startDate: parseOFXDate(valueOf(tranList, 'DTSTART')),
+      endDate: parseOFXDate(valueOf(tranList, 'DTEND')),
+      ledgerBalance: parseOFXAmount(valueOf(ledger, 'BALAMT')),
+      transactions: findAll(stmt, 'STMTTRN')
+        .map(parseTransaction)
+        .filter((t): t is OFXTransaction => t !== null),
+    };
+  });
+}
+
+/**
+ * Identificador externo estável de um lançamento OFX. O FITID só é único
+ * dentro da conta, por isso é prefixado com banco e conta.
+ */
+export function ofxExternalId(statement: OFXStatement, transaction: OFXTransaction): string | null {
+  if (!transaction.fitId) return null;
+  const account = [statement.bankId, statement.accountId].filter(Boolean).join('-') || 'conta';
+  return `ofx:${account}:${transaction.fitId}`;
+}
+
+/**
+ * Id da transação de origem quando o lançamento vem de um OFX exportado pelo próprio sistema
+ * (BANKID fixo e FITID igual ao id da transação)
+ */
+export function exportedTransactionId(externalId: string): string | null {
+  const match = externalId.match(new RegExp(`^ofx:${OFX_EXPORT_BANK_ID}-[0-9a-f]+:([0-9a-f-]{36})$`, 'i'));
+  return match ? match[1] : null;
+}
+
+/**
+ * Converte os extratos em lançamentos de importação (sinal do TRNAMT define o tipo)
+ */
+export function ofxToEntries(statements: OFXStatement[]): ImportEntry[] {
+  return statements.flatMap(statement =>
+    statement.transactions.map(t => ({
+      date: t.date,
+      description: t.memo || t.name || t.trnType || 'Lançamento OFX',
+      amount: Math.abs(t.amount),
+      type: t.amount >= 0 ? 'income' as const : 'expense' as const,
+      // NAME costuma ser o começo do MEMO truncado em 32 caracteres
+      notes: t.memo && t.name && !t.memo.startsWith(t.name) ? t.name : null,
+      externalId: ofxExternalId(statement, t),
+    }))
+  );
+}
@@ -0,0 +1,332 @@
+import type { ImportEntry } from '@/lib/import/types';
+import { ColumnMapping, ImportSettings, resolveType } from '@/lib/import/mapping';
+import { parseAmount, parseDate } from '@/lib/import/values';
+import { shiftDate } from '@/lib/periods';
+import { TRANSFER_MATCH_DAYS, TransferCandidate, findTransferMatches } from '@/lib/transfers';
+
+// =====================================================
+// REVISÃO DAS LINHAS ANTES DA IMPORTAÇÃO (SIMULAÇÃO)
+// =====================================================
+
+/**
+ * Valores de origem de cada campo mapeado. Células do XLSX podem ser Date ou número;
+ * campos corrigidos pelo usuário passam a ser texto.
+ */
+export type RowFields = Record<keyof ColumnMapping, unknown>;
+
+/**
+ * imported: o identificador externo já existe na base;
+ * probable: mesmo valor e categoria na mesma semana (heurística de useAlerts)
+ */
+export type DuplicateKind = 'imported' | 'probable';
+
+export interface ReviewRow {
+  /** Posição da linha na revisão, estável durante as correções */
+  index: number;
+  label: string;
+  fields: RowFields;
+  /** Dados que não vêm das colunas (ex: FITID e memo do OFX, canal e lucro do marketplace) */
+  extra: Pick<ImportEntry, 'externalId' | 'notes' | 'source' | 'profit'>;
+  entry: ImportEntry | null;
+  errors: string[];
+  excluded: boolean;
+  edited: boolean;
+  duplicate: DuplicateKind | null;
+  duplicateOf: string | null;
+}
+
+export interface ExistingTransaction {
+  id: string;
+  amount: number;
+  date: string;
+  type: string;
+  category_id: string | null;
+  account_id: string | null;
+  transfer_id: string | null;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Texto exibido para uma célula; datas do Excel aparecem como dd/MM/aaaa
+ */
+export function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    return `${pad(value.getUTCDate())}/${pad(value.getUTCMonth() + 1)}/${value.getUTCFullYear()}`;
+  }
+  return String(value).trim();
+}
+
+export function extractFields(row: unknown[], headers: string[], mapping: ColumnMapping): RowFields {
+  const cell = (column: string) => {
+    const idx = column ? headers.indexOf(column) : -1;
+    return idx >= 0 ? row[idx] ?? '' : '';
+  };
+
+  return {
+    date: cell(mapping.date),
+    description: cell(mapping.description),
+    amount: cell(mapping.amount),
+    category: cell(mapping.category),
+    taxAmount: cell(mapping.taxAmount),
+    productCost: cell(mapping.productCost),
+  };
+}
+
+/**
+ * Converte os campos em lançamento, reunindo todos os problemas encontrados
+ */
+export function validateFields(
+  fields: RowFields,
+  settings: ImportSettings,
+  extra: ReviewRow['extra'] = {},
+): { entry: ImportEntry | null; errors: string[] } {
+  const errors: string[] = [];
+
+  const description = formatCell(fields.description);
+  if (!description) errors.push('Descrição em branco');
+
+  const signedAmount = parseAmount(fields.amount, settings.decimalSeparator);
+  if (signedAmount === null) {
+    errors.push(formatCell(fields.amount) ? `Valor inválido "${formatCell(fields.amount)}"` : 'Valor em branco');
+  }
+
+  const date = parseDate(fields.date, settings.dateFormat);
+  if (!date) {
+    errors.push(formatCell(fields.date) ? `Data inválida "${formatCell(fields.date)}"` : 'Data em branco');
+  }
+
+  const optionalAmount = (value: unknown, label: string) => {
+    if (!formatCell(value)) return null;
+    const parsed = parseAmount(value, settings.decimalSeparator);
+    if (parsed === null) {
+      errors.push(`${label} inválido "${formatCell(value)}"`);
+      return null;
+    }
+    return parsed ? Math.abs(parsed) : null;
+  };
+  const taxAmount = optionalAmount(fields.taxAmount, 'Imposto');
+  const productCost = optionalAmount(fields.productCost, 'Custo');
+
+  if (errors.length > 0) return { entry: null, errors };
+
+  return {
+    entry: {
+      date,
+      description,
+      amount: Math.abs(signedAmount),
+      type: resolveType(signedAmount, settings.signConvention),
+      categoryName: formatCell(fields.category),
+      categoryId: settings.defaultCategoryId,
+      taxAmount,
+      productCost,
+      notes: extra.notes ?? null,
+      source: extra.source ?? null,
+      profit: extra.profit ?? null,
+      externalId: extra.externalId ?? null,
+    },
+    errors,
+  };
+}
+
+/**
+ * Cria a linha de revisão já validada com as opções informadas
+ */
+export function createReviewRow(
+  index: number,
+  label: string,
+  fields: RowFields,
+  settings: ImportSettings,
+  extra: ReviewRow['extra'] = {},
+): ReviewRow {
+  return {
+    index,
+    label,
+    fields,
+    extra,
+    ...validateFields(fields, settings, extra),
+    excluded: false,
+    edited: false,
+    duplicate: null,
+    duplicateOf: null,
+  };
+}
+
+/**
+ * Simula a importação de todas as linhas da planilha. Linhas totalmente vazias são descartadas.
+ * `firstRowNumber` é o número da primeira linha de dados no arquivo; `sheetName` identifica
+ * a aba quando várias são importadas juntas.
+ */
+export function buildReviewRows(
+  rows: unknown[][],
+  headers: string[],
+  mapping: ColumnMapping,
+  settings: ImportSettings,
+  firstRowNumber: number,
+  sheetName?: string,
+): ReviewRow[] {
+  const result: ReviewRow[] = [];
+
+  rows.forEach((row, i) => {
+    if (!row || !row.some(value => formatCell(value) !== '')) return;
+    const fields = extractFields(row, headers, mapping);
+    const label = `${sheetName ? `${sheetName} · ` : ''}Linha ${firstRowNumber + i}`;
+    result.push(createReviewRow(result.length, label, fields, settings));
+  });
+
+  return result;
+}
+
+/**
+ * Revisão de lançamentos já normalizados (OFX, NF-e, marketplaces); o valor volta a ter sinal para permitir correções
+ */
+export function entriesToReviewRows(entries: ImportEntry[], settings: ImportSettings, labels: string[] = []): ReviewRow[] {
+  return entries.map((entry, i) => createReviewRow(
+    i,
+    labels[i] || `Lançamento ${i + 1}`,
+    {
+      date: entry.date,
+      description: entry.description,
+      amount: entry.type === 'expense' ? -entry.amount : entry.amount,
+      category: entry.categoryName || '',
+      taxAmount: entry.taxAmount ?? '',
+      productCost: entry.productCost ?? '',
+    },
+    settings,
+    { externalId: entry.externalId, notes: entry.notes, source: entry.source, profit: entry.profit },
+  ));
+}
+
+/**
+ * Reaplica a validação após uma correção manual
+ */
+export function reviseRow(row: ReviewRow, fields: RowFields, settings: ImportSettings): ReviewRow {
+  return {
+    ...row,
+    fields,
+    ...validateFields(fields, settings, row.extra),
+    edited: true,
+  };
+}
+
+/**
+ * Linhas que serão gravadas: válidas e não excluídas pelo usuário
+ */
+export function isAccepted(row: ReviewRow): boolean {
+  return !row.excluded && row.entry !== null && row.duplicate !== 'imported';
+}
+
+function weekBounds(date: string): [string, string] {
+  const start = new Date(`${date}T00:00:00Z`);
+  start.setUTCDate(start.getUTCDate() - start.getUTCDay());
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + 6);
+  return [start.toISOString().split('T')[0], end.toISOString().split('T')[0]];
+}
+
+/**
+ * Mesmo critério de `checkDuplicates`: mesmo valor (e categoria, quando houver) na mesma semana
+ */
+export function findProbableDuplicate(
+  entry: ImportEntry,
+  categoryId: string | null,
+  existing: ExistingTransaction[],
+): string | null {
+  const [weekStart, weekEnd] = weekBounds(entry.date);
+  const match = existing.find(t =>
+    Number(t.amount) === entry.amount &&
+    t.date >= weekStart &&
+    t.date <= weekEnd &&
+    (!categoryId || t.category_id === categoryId)
+  );
+  return match?.id ?? null;
+}
+
+/**
+ * Intervalo de datas a consultar para detectar duplicidades e transferências das linhas válidas
+ */
+export function reviewDateRange(rows: ReviewRow[]): [string, string] | null {
+  const dates = rows.map(r => r.entry?.date).filter((d): d is string => !!d).sort();
+  if (dates.length === 0) return null;
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+  const start = [weekBounds(first)[0], shiftDate(first, -TRANSFER_MATCH_DAYS)].sort()[0];
+  const end = [weekBounds(last)[1], shiftDate(last, TRANSFER_MATCH_DAYS)].sort()[1];
+  return [start, end];
+}
+
+export interface DuplicateContext {
+  knownExternalIds: Set<string>;
+  existing: ExistingTransaction[];
+}
+
+/**
+ * Marca a linha como já importada (identificador externo conhecido) ou como possível duplicidade.
+ * `categoryId` undefined indica categoria nova, que ainda não tem lançamentos.
+ */
+export function flagDuplicate(row: ReviewRow, context: DuplicateContext, categoryId: string | null | undefined): ReviewRow {
+  const clear = { ...row, duplicate: null, duplicateOf: null };
+  if (!row.entry) return clear;
+
+  if (row.entry.externalId) {
+    return context.knownExternalIds.has(row.entry.externalId)
+      ? { ...row, duplicate: 'imported', duplicateOf: null }
+      : clear;
+  }
+
+  const duplicateOf = categoryId === undefined ? null : findProbableDuplicate(row.entry, categoryId, context.existing);
+  return duplicateOf ? { ...row, duplicate: 'probable', duplicateOf } : clear;
+}
+
+/**
+ * Prováveis transferências: linhas a importar na conta `accountId` cuja outra perna (tipo
+ * oposto, mesmo valor, poucos dias de diferença) já está lançada em outra conta.
+ * Retorna o lançamento correspondente por índice da linha.
+ */
+export function findReviewTransfers(
+  rows: ReviewRow[],
+  existing: ExistingTransaction[],
+  accountId: string | null,
+): Map<number, TransferCandidate> {
+  const entries = rows
+    .filter(isAccepted)
+    .map(r => ({ key: r.index, date: r.entry!.date, amount: r.entry!.amount, type: r.entry!.type }));
+  return findTransferMatches(entries, existing, accountId);
+}
+
+// =====================================================
+// CATEGORIAS
+// =====================================================
+
+export interface CategoryRef {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface ResolvedCategory {
+  /** null quando a categoria será criada na importação */
+  id: string | null;
+  name: string;
+  color: string | null;
+  isNew: boolean;
+}
+
+/**
+ * Categoria que o lançamento receberá: a da coluna (por nome, sem diferenciar maiúsculas)
+ * ou a categoria padrão do perfil
+ */
+export function resolveCategory(entry: ImportEntry, categories: CategoryRef[]): ResolvedCategory | null {
+  if (entry.categoryName) {
+    const name = entry.categoryName.toLowerCase();
+    const existing = categories.find(c => c.name.toLowerCase() === name);
+    return existing
+      ? { id: existing.id, name: existing.name, color: existing.color, isNew: false }
+      : { id: null, name: entry.categoryName, color: null, isNew: true };
+  }
+
+  const fallback = entry.categoryId ? categories.find(c => c.id === entry.categoryId) : null;
+  return fallback ? { id: fallback.id, name: fallback.name, color: fallback.color, isNew: false } : null;
+}
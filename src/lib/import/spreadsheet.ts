@@ -0,0 +1,135 @@
+import ExcelJS from 'exceljs';
+import { readCSVFile } from '@/lib/import/csv';
+import { normalizeHeader } from '@/lib/import/mapping';
+
+// =====================================================
+// LEITURA DE PLANILHAS (CSV E XLSX) EM FORMATO TABULAR
+// =====================================================
+
+export interface TabularData {
+  headers: string[];
+  rows: unknown[][];
+}
+
+export interface WorksheetData {
+  name: string;
+  rows: unknown[][];
+}
+
+/** CSV, TSV e texto delimitado salvo como .txt (retornos CNAB são separados antes) */
+export function isCSVFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return name.endsWith('.csv') || name.endsWith('.tsv') || name.endsWith('.txt')
+    || file.type === 'text/csv' || file.type === 'text/tab-separated-values';
+}
+
+/**
+ * Valor exibido de uma célula do ExcelJS: fórmulas viram o resultado calculado,
+ * textos formatados e links viram texto simples e erros (#N/D, #DIV/0!) viram vazio
+ */
+export function resolveCellValue(value: ExcelJS.CellValue): unknown {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date || typeof value !== 'object') return value;
+
+  if ('formula' in value || 'sharedFormula' in value) {
+    const result = value.result;
+    return result !== null && typeof result === 'object' && !(result instanceof Date) ? '' : result ?? '';
+  }
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('hyperlink' in value) return value.text;
+  return '';
+}
+
+/**
+ * Lê todas as abas visíveis uma única vez; prévia e importação usam o mesmo resultado.
+ * CSV é tratado como uma planilha de uma aba só.
+ */
+export async function readWorksheets(file: File): Promise<WorksheetData[]> {
+  if (isCSVFile(file)) {
+    const { rows } = await readCSVFile(file);
+    return [{ name: file.name, rows: rows.map(row => row.map(value => value.trim())) }];
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const worksheets = workbook.worksheets.filter(ws => ws.state === 'visible');
+  if (worksheets.length === 0) throw new Error('O arquivo não contém planilhas.');
+
+  return worksheets.map(worksheet => {
+    const data: unknown[][] = [];
+    worksheet.eachRow((row) => {
+      const values: unknown[] = [];
+      // Células mescladas repetem o valor da célula principal em toda a área
+      row.eachCell({ includeEmpty: true }, (cell, col) => {
+        values[col - 1] = resolveCellValue(cell.isMerged ? cell.master.value : cell.value);
+      });
+      // eachRow pula linhas vazias; a posição real mantém "Linha N" igual à do Excel
+      data[row.number - 1] = Array.from(values, value => value ?? '');
+    });
+    return { name: worksheet.name, rows: Array.from(data, row => row ?? []) };
+  });
+}
+
+/**
+ * Separa cabeçalho e dados a partir da linha do cabeçalho (1 = primeira linha)
+ */
+export function toTabular(data: unknown[][], headerRow = 1): TabularData {
+  const headerIndex = Math.max(0, headerRow - 1);
+  if (data.length <= headerIndex) return { headers: [], rows: [] };
+
+  return {
+    headers: data[headerIndex].map(h => String(h ?? '').trim()),
+    rows: data.slice(headerIndex + 1),
+  };
+}
+
+const cellText = (value: unknown) => value instanceof Date ? '' : String(value ?? '').trim();
+
+// Linhas de título costumam ocupar as primeiras linhas
+const HEADER_SEARCH_ROWS = 20;
+
+/**
+ * Sugere a linha do cabeçalho (1 = primeira): a primeira linha com mais textos distintos,
+ * ignorando blocos de título (uma célula, às vezes mesclada por toda a largura) e linhas de números
+ */
+export function detectHeaderRow(data: unknown[][]): number {
+  let best = 1;
+  let bestScore = 0;
+
+  data.slice(0, HEADER_SEARCH_ROWS).forEach((row, i) => {
+    const texts = new Set(
+      (row || []).map(cellText).filter(text => text && !/^[-+\d.,/:%R$()\s]+$/.test(text))
+    );
+    if (texts.size > bestScore) {
+      best = i + 1;
+      bestScore = texts.size;
+    }
+  });
+
+  return bestScore >= 2 ? best : 1;
+}
+
+const FOOTER_LABEL = /^(sub ?total|total|totais|soma|saldo)( (geral|final|anterior|atual|do mes|do periodo|de [a-z]+|r))*$/;
+
+const isFilled = (value: unknown) => value instanceof Date || cellText(value) !== '';
+
+function isFooterRow(row: unknown[]): boolean {
+  const filled = (row || []).filter(isFilled);
+  if (filled.length === 0) return true;
+  return filled.some(value => FOOTER_LABEL.test(normalizeHeader(cellText(value))));
+}
+
+/**
+ * Remove o rodapé da planilha: linhas de total, subtotal ou saldo (e vazias entre elas)
+ * depois do último lançamento
+ */
+export function stripFooterRows(rows: unknown[][]): { rows: unknown[][]; skipped: number } {
+  let end = rows.length;
+  while (end > 0 && isFooterRow(rows[end - 1])) end--;
+
+  return {
+    rows: rows.slice(0, end),
+    skipped: rows.slice(end).filter(row => (row || []).some(isFilled)).length,
+  };
+}
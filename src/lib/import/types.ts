@@ -0,0 +1,27 @@
+// =====================================================
+// TIPOS COMPARTILHADOS DA IMPORTAÇÃO
+// =====================================================
+
+export type TransactionType = 'income' | 'expense';
+
+/**
+ * Lançamento já normalizado, pronto para virar uma linha de `transactions`
+ */
+export interface ImportEntry {
+  date: string;
+  description: string;
+  amount: number;
+  type: TransactionType;
+  categoryName?: string | null;
+  /** Categoria já resolvida; usada quando não há nome de categoria na linha */
+  categoryId?: string | null;
+  taxAmount?: number | null;
+  productCost?: number | null;
+  notes?: string | null;
+  /** Canal de venda gravado em transactions.source (ex: "Mercado Livre") */
+  source?: string | null;
+  /** Lucro informado pela origem (ex: repasse líquido do pedido no marketplace) */
+  profit?: number | null;
+  /** Identificador no sistema de origem (ex: FITID), usado para deduplicação */
+  externalId?: string | null;
+}
@@ -0,0 +1,114 @@
+// =====================================================
+// CONVERSÃO DE VALORES DE PLANILHAS (PADRÃO BRASILEIRO)
+// =====================================================
+
+export type DecimalSeparator = 'auto' | ',' | '.';
+export type DateFormat = 'auto' | 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'yyyy-MM-dd';
+
+/**
+ * Converte valores monetários em número com sinal.
+ * Aceita "1.234,56", "1,234.56", "R$ -10,00", "(1.234,56)" e "10,00-".
+ * Retorna null quando o texto não representa um número.
+ */
+export function parseAmount(value: unknown, decimalSeparator: DecimalSeparator = 'auto'): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (value === null || value === undefined) return null;
+
+  let text = String(value).replace(/R\$|\s/gi, '');
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  if (!/^[\d.,]+$/.test(text)) return null;
+
+  const separator = decimalSeparator === 'auto' ? detectDecimalSeparator(text) : decimalSeparator;
+  const thousands = separator === ',' ? '.' : ',';
+  const normalized = text.split(thousands).join('').replace(separator, '.');
+
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(normalized)) return null;
+  const amount = parseFloat(normalized);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+/**
+ * Decide o separador decimal de um número sem sinal. O último separador presente
+ * é o decimal; um único ponto seguido de exatamente três dígitos ("1.234") é
+ * tratado como milhar, como no padrão brasileiro.
+ */
+function detectDecimalSeparator(text: string): ',' | '.' {
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) return lastComma > lastDot ? ',' : '.';
+  if (lastComma >= 0) {
+    // "1,234,567" só faz sentido como milhar
+    return text.indexOf(',') !== lastComma ? '.' : ',';
+  }
+  if (lastDot >= 0) {
+    if (text.indexOf('.') !== lastDot) return ',';
+    return text.length - lastDot - 1 === 3 ? ',' : '.';
+  }
+  return ',';
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function toISODate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year >= 70 ? 1900 : 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Converte datas para AAAA-MM-DD. Aceita objetos Date (células do Excel),
+ * números de série do Excel, "dd/MM/aaaa", "dd-MM-aa", "dd.MM.aaaa" e ISO.
+ * Com `dateFormat` 'MM/dd/yyyy' dia e mês são invertidos (planilhas em inglês).
+ * Retorna null quando a data é inválida.
+ */
+export function parseDate(value: unknown, dateFormat: DateFormat = 'auto'): string | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().split('T')[0];
+  }
+
+  // Número de série do Excel (dias desde 30/12/1899)
+  if (typeof value === 'number') {
+    if (value < 1 || value > 2958465) return null;
+    const date = new Date(Math.round((value - 25569) * 86400 * 1000));
+    return date.toISOString().split('T')[0];
+  }
+
+  const text = String(value).trim();
+
+  const isoMatch = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (isoMatch) {
+    return toISODate(parseInt(isoMatch[1]), parseInt(isoMatch[2]), parseInt(isoMatch[3]));
+  }
+
+  const brMatch = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (brMatch && dateFormat !== 'yyyy-MM-dd') {
+    const [day, month] = dateFormat === 'MM/dd/yyyy' ? [brMatch[2], brMatch[1]] : [brMatch[1], brMatch[2]];
+    return toISODate(parseInt(brMatch[3]), parseInt(month), parseInt(day));
+  }
+
+  return null;
+}
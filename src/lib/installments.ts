@@ -0,0 +1,65 @@
+// =====================================================
+// PARCELAMENTOS (COMPRAS E VENDAS PARCELADAS)
+// As parcelas são gravadas no banco (save_installment_plan); o cálculo abaixo repete
+// o do banco para a prévia no formulário.
+// =====================================================
+
+export const MIN_INSTALLMENTS = 2;
+export const MAX_INSTALLMENTS = 12;
+
+/** Parcela que recebe os centavos que sobram da divisão */
+export type RemainderPlacement = 'first' | 'last';
+
+export interface InstallmentPreview {
+  number: number;
+  date: string;
+  amount: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Vencimento da parcela `number` (1 = primeira): um mês depois da anterior, no último
+ * dia do mês quando o dia da primeira não existe (31/01 → 28/02 → 31/03)
+ */
+export function installmentDueDate(firstDueDate: string, number: number): string {
+  const [year, month, day] = firstDueDate.split('-').map(Number);
+  const monthIndex = year * 12 + month - 1 + number - 1;
+  const y = Math.floor(monthIndex / 12);
+  const m = monthIndex % 12;
+  const lastDay = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return `${y}-${pad(m + 1)}-${pad(Math.min(day, lastDay))}`;
+}
+
+/**
+ * Valores das parcelas em ordem; a soma é exatamente o total
+ */
+export function splitInstallments(total: number, count: number, remainderOn: RemainderPlacement): number[] {
+  const totalCents = Math.round(total * 100);
+  const base = Math.floor(totalCents / count);
+  const rest = totalCents - base * count;
+  const remainderIndex = remainderOn === 'first' ? 0 : count - 1;
+  return Array.from({ length: count }, (_, i) => (base + (i === remainderIndex ? rest : 0)) / 100);
+}
+
+export function installmentSchedule(
+  total: number,
+  count: number,
+  firstDueDate: string,
+  remainderOn: RemainderPlacement,
+): InstallmentPreview[] {
+  return splitInstallments(total, count, remainderOn).map((amount, i) => ({
+    number: i + 1,
+    date: installmentDueDate(firstDueDate, i + 1),
+    amount,
+  }));
+}
+
+/** Ex: "3/10" */
+export const installmentLabel = (number: number, count: number) => `${number}/${count}`;
+
+/**
+ * Data usada na DRE por competência: a da venda nas parcelas, a do lançamento nos demais
+ */
+export const competenceDate = (t: { date: string; competence_date?: string | null }) =>
+  t.competence_date || t.date;
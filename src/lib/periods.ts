@@ -0,0 +1,255 @@
+// =====================================================
+// PERÍODOS DE CONSULTA (EXPORTAÇÃO, RELATÓRIOS E DASHBOARD)
+// Calculados no fuso horário da empresa e devolvidos como datas 'yyyy-MM-dd',
+// o mesmo formato da coluna transactions.date, sem passar por UTC.
+// =====================================================
+
+export type PeriodPreset =
+  | 'today'
+  | 'yesterday'
+  | 'this_week'
+  | 'this_month'
+  | 'previous_month'
+  | 'this_quarter'
+  | 'previous_quarter'
+  | 'this_semester'
+  | 'previous_semester'
+  | 'year_to_date'
+  | 'this_year'
+  | 'previous_year'
+  | 'this_fiscal_year'
+  | 'previous_fiscal_year'
+  | 'last_n_days'
+  | 'custom';
+
+export const PERIOD_PRESETS: Record<PeriodPreset, string> = {
+  today: 'Hoje',
+  yesterday: 'Ontem',
+  this_week: 'Esta semana',
+  this_month: 'Este mês',
+  previous_month: 'Mês anterior',
+  this_quarter: 'Este trimestre',
+  previous_quarter: 'Trimestre anterior',
+  this_semester: 'Este semestre',
+  previous_semester: 'Semestre anterior',
+  year_to_date: 'Ano até hoje',
+  this_year: 'Este ano',
+  previous_year: 'Ano anterior',
+  this_fiscal_year: 'Exercício fiscal atual',
+  previous_fiscal_year: 'Exercício fiscal anterior',
+  last_n_days: 'Últimos N dias',
+  custom: 'Personalizado',
+};
+
+export interface PeriodSelection {
+  preset: PeriodPreset;
+  /** Usado em 'last_n_days' (inclui hoje) */
+  lastDays?: number;
+  /** 'yyyy-MM-dd', usados em 'custom' */
+  customStart?: string;
+  customEnd?: string;
+}
+
+export interface PeriodSettings {
+  /** Fuso IANA, ex: 'America/Sao_Paulo' */
+  timeZone: string;
+  /** Mês de início do exercício fiscal (1 = janeiro) */
+  fiscalYearStartMonth: number;
+}
+
+/** Intervalo fechado de datas 'yyyy-MM-dd' */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export const DEFAULT_TIME_ZONE = 'America/Sao_Paulo';
+
+export const BRAZIL_TIME_ZONES: Record<string, string> = {
+  'America/Sao_Paulo': 'Brasília (SP, RJ, MG, Sul, GO, DF...)',
+  'America/Bahia': 'Bahia',
+  'America/Fortaleza': 'Nordeste (CE, RN, PB, PI, MA)',
+  'America/Recife': 'Pernambuco',
+  'America/Maceio': 'Alagoas e Sergipe',
+  'America/Belem': 'Pará e Amapá',
+  'America/Araguaina': 'Tocantins',
+  'America/Cuiaba': 'Mato Grosso',
+  'America/Campo_Grande': 'Mato Grosso do Sul',
+  'America/Manaus': 'Amazonas',
+  'America/Porto_Velho': 'Rondônia',
+  'America/Boa_Vista': 'Roraima',
+  'America/Rio_Branco': 'Acre',
+  'America/Noronha': 'Fernando de Noronha',
+};
+
+export const DEFAULT_PERIOD_SETTINGS: PeriodSettings = {
+  timeZone: DEFAULT_TIME_ZONE,
+  fiscalYearStartMonth: 1,
+};
+
+export const DEFAULT_LAST_DAYS = 30;
+
+/**
+ * Configuração de períodos da empresa (fuso e início do exercício fiscal)
+ */
+export function companyPeriodSettings(
+  company: { timezone?: string | null; fiscal_year_start_month?: number | null } | null,
+): PeriodSettings {
+  return {
+    timeZone: company?.timezone || DEFAULT_TIME_ZONE,
+    fiscalYearStartMonth: company?.fiscal_year_start_month || 1,
+  };
+}
+
+// Dias de calendário como datas UTC, para que somar dias e meses não dependa do fuso do navegador
+const DAY = 24 * 60 * 60 * 1000;
+const day = (year: number, month: number, date: number) => new Date(Date.UTC(year, month, date));
+const iso = (date: Date) => date.toISOString().slice(0, 10);
+const parse = (value: string) => {
+  const [year, month, date] = value.split('-').map(Number);
+  return day(year, month - 1, date);
+};
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY);
+const monthRange = (year: number, month: number, months: number): DateRange => ({
+  start: iso(day(year, month, 1)),
+  end: iso(day(year, month + months, 0)),
+});
+
+/**
+ * Data ('yyyy-MM-dd') de um instante no fuso informado
+ */
+export function dateInTimeZone(value: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(value);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Data de hoje ('yyyy-MM-dd') no fuso informado
+ */
+export function todayInTimeZone(timeZone: string, now = new Date()): string {
+  return dateInTimeZone(now, timeZone);
+}
+
+/**
+ * Limites UTC de consulta para colunas timestamptz que cobrem o intervalo em qualquer fuso
+ * (folga de um dia em cada ponta); o corte exato é feito depois com `dateInTimeZone`
+ */
+export function timestampBounds(range: DateRange): { from: string; to: string } {
+  return {
+    from: `${iso(addDays(parse(range.start), -1))}T00:00:00Z`,
+    to: `${iso(addDays(parse(range.end), 2))}T00:00:00Z`,
+  };
+}
+
+/**
+ * Intervalo de datas do período escolhido. Trimestres e semestres são os do calendário;
+ * a semana começa no domingo, como no calendário brasileiro.
+ */
+export function resolvePeriod(
+  selection: PeriodSelection,
+  settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS,
+  now = new Date(),
+): DateRange {
+  const todayIso = todayInTimeZone(settings.timeZone, now);
+  const today = parse(todayIso);
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+  const quarter = Math.floor(month / 3) * 3;
+  const semester = Math.floor(month / 6) * 6;
+  const fiscalMonth = Math.min(Math.max(settings.fiscalYearStartMonth, 1), 12) - 1;
+  const fiscalYear = month >= fiscalMonth ? year : year - 1;
+
+  switch (selection.preset) {
+    case 'today':
+      return { start: todayIso, end: todayIso };
+    case 'yesterday': {
+      const yesterday = iso(addDays(today, -1));
+      return { start: yesterday, end: yesterday };
+    }
+    case 'this_week': {
+      const sunday = addDays(today, -today.getUTCDay());
+      return { start: iso(sunday), end: iso(addDays(sunday, 6)) };
+    }
+    case 'this_month':
+      return monthRange(year, month, 1);
+    case 'previous_month':
+      return monthRange(year, month - 1, 1);
+    case 'this_quarter':
+      return monthRange(year, quarter, 3);
+    case 'previous_quarter':
+      return monthRange(year, quarter - 3, 3);
+    case 'this_semester':
+      return monthRange(year, semester, 6);
+    case 'previous_semester':
+      return monthRange(year, semester - 6, 6);
+    case 'year_to_date':
+      return { start: iso(day(year, 0, 1)), end: todayIso };
+    case 'this_year':
+      return monthRange(year, 0, 12);
+    case 'previous_year':
+      return monthRange(year - 1, 0, 12);
+    case 'this_fiscal_year':
+      return monthRange(fiscalYear, fiscalMonth, 12);
+    case 'previous_fiscal_year':
+      return monthRange(fiscalYear - 1, fiscalMonth, 12);
+    case 'last_n_days': {
+      const days = Math.max(Math.floor(selection.lastDays || DEFAULT_LAST_DAYS), 1);
+      return { start: iso(addDays(today, -(days - 1))), end: todayIso };
+    }
+    case 'custom': {
+      const start = selection.customStart || todayIso;
+      const end = selection.customEnd || todayIso;
+      return start <= end ? { start, end } : { start: end, end: start };
+    }
+  }
+}
+
+/**
+ * Período anterior equivalente: meses inteiros voltam o mesmo número de meses,
+ * os demais voltam o mesmo número de dias
+ */
+export function previousPeriod(range: DateRange): DateRange {
+  const start = parse(range.start);
+  const end = parse(range.end);
+
+  if (start.getUTCDate() === 1 && addDays(end, 1).getUTCDate() === 1) {
+    const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth() + 1;
+    return monthRange(start.getUTCFullYear(), start.getUTCMonth() - months, months);
+  }
+
+  const days = Math.round((end.getTime() - start.getTime()) / DAY) + 1;
+  return { start: iso(addDays(start, -days)), end: iso(addDays(start, -1)) };
+}
+
+/** Data 'yyyy-MM-dd' deslocada em dias de calendário */
+export const shiftDate = (value: string, days: number) => iso(addDays(parse(value), days));
+
+/**
+ * Meses ('yyyy-MM') cobertos pelo intervalo, em ordem
+ */
+export function monthsInRange(range: DateRange): string[] {
+  const months: string[] = [];
+  const end = range.end.slice(0, 7);
+  let cursor = parse(range.start);
+  while (iso(cursor).slice(0, 7) <= end) {
+    months.push(iso(cursor).slice(0, 7));
+    cursor = day(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1);
+  }
+  return months;
+}
+
+/** 'yyyy-MM-dd' como meia-noite local, para formatar com date-fns */
+export const toLocalDate = (value: string) => new Date(`${value}T00:00:00`);
+
+const formatDay = (value: string) => value.split('-').reverse().join('/');
+
+/** Ex: "01/01/2026 a 31/03/2026" ou só a data quando início e fim coincidem */
+export function describeRange(range: DateRange): string {
+  return range.start === range.end ? formatDay(range.start) : `${formatDay(range.start)} a ${formatDay(range.end)}`;
+}
@@ -0,0 +1,121 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { shiftDate } from '@/lib/periods';
+
+// =====================================================
+// RECORRÊNCIAS (TÍTULOS GERADOS POR REGRA)
+// Os títulos são gerados no banco (generate_recurrence_bills); as datas abaixo
+// repetem public.recurrence_date para a prévia dos próximos vencimentos.
+// =====================================================
+
+export type Recurrence = Tables<'recurrences'>;
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'yearly';
+
+export const RECURRENCE_FREQUENCIES: Record<RecurrenceFrequency, { label: string; unit: string; units: string }> = {
+  weekly: { label: 'Semanal', unit: 'semana', units: 'semanas' },
+  monthly: { label: 'Mensal', unit: 'mês', units: 'meses' },
+  yearly: { label: 'Anual', unit: 'ano', units: 'anos' },
+};
+
+/** Quantos dias à frente a geração diária mantém títulos criados */
+export const RECURRENCE_HORIZON_DAYS = 60;
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  intervalCount: number;
+  /** Dia do vencimento (mensal e anual) */
+  dayOfMonth: number | null;
+  startDate: string;
+  endDate: string | null;
+  maxOccurrences: number | null;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Data da ocorrência `step` (0 = primeira) a partir da âncora. Mensal e anual caem no dia
+ * informado (ou no último dia de meses mais curtos), a partir do primeiro mês em que esse
+ * dia não é anterior à âncora
+ */
+export function recurrenceDate(
+  anchor: string,
+  frequency: RecurrenceFrequency,
+  intervalCount: number,
+  dayOfMonth: number,
+  step: number,
+): string {
+  if (frequency === 'weekly') return shiftDate(anchor, step * intervalCount * 7);
+
+  const [year, month, day] = anchor.split('-').map(Number);
+  let monthIndex = year * 12 + month - 1;
+  if (Math.min(dayOfMonth, lastDayOfMonth(year, month - 1)) < day) monthIndex += 1;
+
+  monthIndex += step * intervalCount * (frequency === 'yearly' ? 12 : 1);
+  const y = Math.floor(monthIndex / 12);
+  const m = monthIndex % 12;
+  return `${y}-${pad(m + 1)}-${pad(Math.min(dayOfMonth, lastDayOfMonth(y, m)))}`;
+}
+
+/**
+ * Primeiros vencimentos de uma regra nova, respeitando data final e número de ocorrências
+ */
+export function previewDates(schedule: RecurrenceSchedule, count: number): string[] {
+  const dates: string[] = [];
+  for (let step = 0; dates.length < count; step++) {
+    if (schedule.maxOccurrences && step >= schedule.maxOccurrences) break;
+    const date = recurrenceDate(
+      schedule.startDate,
+      schedule.frequency,
+      schedule.intervalCount,
+      schedule.dayOfMonth ?? 1,
+      step,
+    );
+    if (schedule.endDate && date > schedule.endDate) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+const MONTHS = [
+  'janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho',
+  'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro',
+];
+
+const WEEKDAYS = [
+  'aos domingos', 'às segundas', 'às terças', 'às quartas', 'às quintas', 'às sextas', 'aos sábados',
+];
+
+/**
+ * Ex: "Mensal, dia 10", "A cada 2 semanas, às quartas", "Anual, 5 de março · 12 vezes"
+ */
+export function describeRecurrence(recurrence: Pick<Recurrence,
+  'frequency' | 'interval_count' | 'day_of_month' | 'start_date' | 'end_date' | 'max_occurrences' | 'anchor_date'
+>): string {
+  // Depois de uma alteração, as ocorrências seguem a âncora, não mais a data inicial
+  const anchor = recurrence.anchor_date ?? recurrence.start_date;
+  const frequency = recurrence.frequency as RecurrenceFrequency;
+  const info = RECURRENCE_FREQUENCIES[frequency];
+  const every = recurrence.interval_count > 1
+    ? `A cada ${recurrence.interval_count} ${info?.units ?? ''}`
+    : info?.label ?? recurrence.frequency;
+
+  let when: string;
+  if (frequency === 'weekly') {
+    when = WEEKDAYS[new Date(`${anchor}T00:00:00Z`).getUTCDay()];
+  } else if (frequency === 'yearly') {
+    const first = recurrenceDate(anchor, frequency, 1, recurrence.day_of_month ?? 1, 0);
+    when = `${recurrence.day_of_month} de ${MONTHS[Number(first.slice(5, 7)) - 1]}`;
+  } else {
+    when = `dia ${recurrence.day_of_month}`;
+  }
+
+  const limit = recurrence.max_occurrences
+    ? ` · ${recurrence.max_occurrences} ${recurrence.max_occurrences === 1 ? 'vez' : 'vezes'}`
+    : recurrence.end_date
+      ? ` · até ${recurrence.end_date.split('-').reverse().join('/')}`
+      : '';
+
+  return `${every}, ${when}${limit}`;
+}
@@ -0,0 +1,73 @@
+// =====================================================
+// TRANSFERÊNCIAS ENTRE CONTAS
+// As duas pernas (saída na origem, entrada no destino) ficam em transactions com
+// transfer_id; movem o saldo das contas, mas não são receita nem despesa
+// =====================================================
+
+export const TRANSFER_LABEL = 'Transferência';
+
+/** Janela, em dias, entre a saída e a entrada de uma provável transferência na importação */
+export const TRANSFER_MATCH_DAYS = 3;
+
+export const isTransferLeg = (t: { transfer_id?: string | null }) => !!t.transfer_id;
+
+/** Lançamentos que entram em receitas e despesas (sem pernas de transferência) */
+export const withoutTransfers = <T extends { transfer_id?: string | null }>(transactions: T[]): T[] =>
+  transactions.filter(t => !isTransferLeg(t));
+
+interface MatchEntry {
+  key: number;
+  date: string;
+  amount: number;
+  type: string;
+}
+
+export interface TransferCandidate {
+  id: string;
+  date: string;
+  amount: number;
+  type: string;
+  account_id: string | null;
+  transfer_id?: string | null;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysBetween = (a: string, b: string) =>
+  Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / DAY;
+
+const cents = (value: number) => Math.round(Math.abs(value) * 100);
+
+/**
+ * Pares de provável transferência: cada linha importada na conta `accountId` com um
+ * lançamento de outra conta, de tipo oposto, mesmo valor e até TRANSFER_MATCH_DAYS dias
+ * de diferença. Cada lançamento é usado uma vez, priorizando as datas mais próximas.
+ */
+export function findTransferMatches(
+  entries: MatchEntry[],
+  candidates: TransferCandidate[],
+  accountId: string | null,
+  maxDays = TRANSFER_MATCH_DAYS,
+): Map<number, TransferCandidate> {
+  const pairs: { key: number; candidate: TransferCandidate; distance: number }[] = [];
+
+  for (const entry of entries) {
+    for (const candidate of candidates) {
+      if (candidate.transfer_id || !candidate.account_id || candidate.account_id === accountId) continue;
+      if (candidate.type === entry.type || cents(candidate.amount) !== cents(entry.amount)) continue;
+      const distance = daysBetween(entry.date, candidate.date);
+      if (distance <= maxDays) pairs.push({ key: entry.key, candidate, distance });
+    }
+  }
+
+  const matches = new Map<number, TransferCandidate>();
+  const used = new Set<string>();
+  pairs
+    .sort((a, b) => a.distance - b.distance)
+    .forEach(({ key, candidate }) => {
+      if (matches.has(key) || used.has(candidate.id)) return;
+      matches.set(key, candidate);
+      used.add(candidate.id);
+    });
+
+  return matches;
+}
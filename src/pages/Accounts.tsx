@@ -0,0 +1,379 @@
+import { useState } from 'react';
+import { useCompany } from '@/hooks/useCompany';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Pencil, Trash2, Wallet } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { ACCOUNT_TYPES, Account, AccountType, accountTypeLabel, consolidatedBalance } from '@/lib/accounts';
+import { companyPeriodSettings, toLocalDate, todayInTimeZone } from '@/lib/periods';
+
+const colorOptions = [
+  { name: 'Azul', value: '#3B82F6' },
+  { name: 'Verde', value: '#10B981' },
+  { name: 'Roxo', value: '#8B5CF6' },
+  { name: 'Rosa', value: '#EC4899' },
+  { name: 'Amarelo', value: '#F59E0B' },
+  { name: 'Vermelho', value: '#EF4444' },
+  { name: 'Ciano', value: '#06B6D4' },
+  { name: 'Laranja', value: '#F97316' },
+];
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export default function Accounts() {
+  const { company, canEdit } = useCompany();
+  const { toast } = useToast();
+  const { accounts, activeAccounts, balances, loading, saveAccount, deleteAccount } = useAccounts();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Form states
+  const [formName, setFormName] = useState('');
+  const [formType, setFormType] = useState<AccountType>('checking');
+  const [formOpeningBalance, setFormOpeningBalance] = useState('0');
+  const [formOpeningDate, setFormOpeningDate] = useState('');
+  const [formColor, setFormColor] = useState('#3B82F6');
+  const [formDefault, setFormDefault] = useState(false);
+  const [formArchived, setFormArchived] = useState(false);
+
+  const today = todayInTimeZone(companyPeriodSettings(company).timeZone);
+  const totalBalance = consolidatedBalance(balances, activeAccounts.map(a => a.id));
+
+  const resetForm = () => {
+    setFormName('');
+    setFormType('checking');
+    setFormOpeningBalance('0');
+    setFormOpeningDate(today);
+    setFormColor('#3B82F6');
+    setFormDefault(false);
+    setFormArchived(false);
+    setEditingAccount(null);
+  };
+
+  const openEditDialog = (account: Account) => {
+    setEditingAccount(account);
+    setFormName(account.name);
+    setFormType(account.type as AccountType);
+    setFormOpeningBalance(String(account.opening_balance));
+    setFormOpeningDate(account.opening_date);
+    setFormColor(account.color);
+    setFormDefault(account.is_default);
+    setFormArchived(account.archived);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const openingBalance = parseFloat(formOpeningBalance.replace(',', '.'));
+    if (isNaN(openingBalance)) {
+      toast({
+        title: 'Saldo inicial inválido',
+        description: 'Informe um valor numérico, negativo para contas devedoras.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveAccount({
+      name: formName,
+      type: formType,
+      openingBalance,
+      openingDate: formOpeningDate || today,
+      color: formColor,
+      isDefault: formDefault,
+      archived: formArchived,
+    }, editingAccount?.id);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível salvar a conta.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Sucesso',
+      description: editingAccount ? 'Conta atualizada com sucesso.' : 'Conta criada com sucesso.',
+    });
+    setDialogOpen(false);
+    resetForm();
+  };
+
+  const handleDelete = async (account: Account) => {
+    if (!confirm(`Tem certeza que deseja excluir a conta "${account.name}"?`)) return;
+
+    const { error } = await deleteAccount(account.id);
+    if (error) {
+      toast({
+        title: 'Não foi possível excluir',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Sucesso',
+      description: 'Conta excluída com sucesso.',
+    });
+  };
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground">
+            Contas e Carteiras
+          </h1>
+          <p className="text-muted-foreground">
+            Contas bancárias, caixa, carteiras de marketplace e cartões, com saldo de cada uma
+          </p>
+        </div>
+        {canEdit && (
+          <Dialog open={dialogOpen} onOpenChange={(open) => {
+            setDialogOpen(open);
+            if (!open) resetForm();
+          }}>
+            <DialogTrigger asChild>
+              <Button className="gap-2" onClick={resetForm}>
+                <Plus className="h-4 w-4" />
+                Nova Conta
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[420px]">
+              <DialogHeader>
+                <DialogTitle className="font-display">
+                  {editingAccount ? 'Editar Conta' : 'Nova Conta'}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Nome</Label>
+                  <Input
+                    id="name"
+                    value={formName}
+                    onChange={(e) => setFormName(e.target.value)}
+                    placeholder="Ex: Banco do Brasil, Carteira Mercado Livre"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Tipo</Label>
+                  <Select value={formType} onValueChange={(v) => setFormType(v as AccountType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ACCOUNT_TYPES).map(([type, label]) => (
+                        <SelectItem key={type} value={type}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="opening_balance">Saldo inicial</Label>
+                    <Input
+                      id="opening_balance"
+                      type="number"
+                      step="0.01"
+                      value={formOpeningBalance}
+                      onChange={(e) => setFormOpeningBalance(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="opening_date">Data de abertura</Label>
+                    <Input
+                      id="opening_date"
+                      type="date"
+                      value={formOpeningDate}
+                      onChange={(e) => setFormOpeningDate(e.target.value)}
+                      required
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  O saldo considera os lançamentos a partir da data de abertura.
+                  {formType === 'credit_card' && ' No cartão, saldo negativo é o valor em aberto da fatura.'}
+                </p>
+                <div className="space-y-2">
+                  <Label>Cor</Label>
+                  <div className="grid grid-cols-8 gap-2">
+                    {colorOptions.map((color) => (
+                      <button
+                        key={color.value}
+                        type="button"
+                        onClick={() => setFormColor(color.value)}
+                        className={`w-full aspect-square rounded-lg border-2 transition-all ${
+                          formColor === color.value
+                            ? 'border-foreground scale-105'
+                            : 'border-transparent'
+                        }`}
+                        style={{ backgroundColor: color.value }}
+                        title={color.name}
+                      />
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="is_default">Conta padrão</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Recebe os lançamentos que chegam sem conta
+                    </p>
+                  </div>
+                  <Switch
+                    id="is_default"
+                    checked={formDefault && !formArchived}
+                    disabled={formArchived}
+                    onCheckedChange={setFormDefault}
+                  />
+                </div>
+                {editingAccount && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="archived">Arquivada</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Some da seleção em novos lançamentos, mas mantém o histórico
+                      </p>
+                    </div>
+                    <Switch
+                      id="archived"
+                      checked={formArchived}
+                      disabled={editingAccount.is_default}
+                      onCheckedChange={setFormArchived}
+                    />
+                  </div>
+                )}
+                <div className="flex justify-end gap-2 pt-4">
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancelar
+                  </Button>
+                  <Button type="submit" disabled={saving}>
+                    {editingAccount ? 'Salvar' : 'Criar'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {/* Consolidated balance */}
+      <div className="card-finance flex items-center justify-between">
+        <div>
+          <p className="text-sm text-muted-foreground">Saldo consolidado</p>
+          <p className="text-xs text-muted-foreground">
+            {activeAccounts.length} {activeAccounts.length === 1 ? 'conta ativa' : 'contas ativas'}
+          </p>
+        </div>
+        <p className={cn('text-2xl font-bold', totalBalance >= 0 ? 'text-primary' : 'text-destructive')}>
+          {formatCurrency(totalBalance)}
+        </p>
+      </div>
+
+      {/* Accounts Grid */}
+      {loading ? (
+        <div className="text-center py-12 text-muted-foreground">
+          Carregando...
+        </div>
+      ) : accounts.length === 0 ? (
+        <div className="card-finance text-center py-12">
+          <Wallet className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">Nenhuma conta criada.</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Cadastre suas contas para acompanhar o saldo de cada uma!
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {accounts.map((account, index) => {
+            const balance = balances[account.id] ?? Number(account.opening_balance);
+            return (
+              <div
+                key={account.id}
+                className={cn('card-finance animate-fade-in', account.archived && 'opacity-60')}
+                style={{ animationDelay: `${index * 50}ms` }}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className="w-10 h-10 rounded-xl flex items-center justify-center"
+                      style={{ backgroundColor: account.color + '20' }}
+                    >
+                      <Wallet className="h-5 w-5" style={{ color: account.color }} />
+                    </div>
+                    <div>
+                      <h3 className="font-semibold text-foreground">{account.name}</h3>
+                      <p className="text-xs text-muted-foreground">{accountTypeLabel(account.type)}</p>
+                    </div>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => openEditDialog(account)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(account)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <p className={cn('text-xl font-bold mt-4', balance >= 0 ? 'text-foreground' : 'text-destructive')}>
+                  {formatCurrency(balance)}
+                </p>
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  <span className="text-xs text-muted-foreground">
+                    Saldo inicial de {formatCurrency(Number(account.opening_balance))} em{' '}
+                    {format(toLocalDate(account.opening_date), 'dd/MM/yyyy')}
+                  </span>
+                  {account.is_default && <Badge variant="secondary">Padrão</Badge>}
+                  {account.archived && <Badge variant="outline">Arquivada</Badge>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -60,6 +60,8 @@ const ALERT_TYPES = {
   import_completed: { label: 'Importação', icon: CheckCircle, color: 'text-primary' },
   export_completed: { label: 'Exportação', icon: CheckCircle, color: 'text-primary' },
   duplicate_detected: { label: 'Duplicidade', icon: AlertTriangle, color: 'text-warning' },
+  title_rejected: { label: 'Boleto rejeitado', icon: AlertTriangle, color: 'text-warning' },
+  bill_overdue: { label: 'Conta vencida', icon: AlertTriangle, color: 'text-destructive' },
 };
 
 export default function Alerts() {
@@ -0,0 +1,515 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useCompany } from '@/hooks/useCompany';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useBills } from '@/hooks/useBills';
+import { useRecurrences } from '@/hooks/useRecurrences';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Pencil, Trash2, Search, Filter, CheckCircle, Undo2, Ban, RotateCcw, Repeat } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { BillDialog } from '@/components/bills/BillDialog';
+import { SettleBillDialog } from '@/components/bills/SettleBillDialog';
+import { RecurrenceDialog } from '@/components/bills/RecurrenceDialog';
+import { RecurrenceList } from '@/components/bills/RecurrenceList';
+import {
+  AGING_BUCKETS,
+  AgingBucket,
+  BILL_KINDS,
+  Bill,
+  BillKind,
+  BillStatus,
+  agingBucket,
+  agingSummary,
+  billStatusLabel,
+  daysOverdue,
+  effectiveStatus,
+  isOpenBill,
+} from '@/lib/bills';
+import { toLocalDate } from '@/lib/periods';
+import type { Recurrence } from '@/lib/recurrences';
+
+interface Category {
+  id: string;
+  name: string;
+  color: string;
+}
+
+type StatusFilter = 'open' | 'all' | BillStatus;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDate = (value: string) => format(toLocalDate(value), 'dd/MM/yyyy');
+
+const STATUS_BADGE: Record<BillStatus, string> = {
+  pending: 'border-info text-info',
+  overdue: 'border-destructive text-destructive',
+  paid: 'border-primary text-primary',
+  cancelled: 'text-muted-foreground',
+};
+
+export default function Bills() {
+  const { company, canEdit, isAdmin } = useCompany();
+  const { toast } = useToast();
+  const { accounts } = useAccounts();
+  const {
+    bills,
+    loading,
+    today,
+    refreshBills,
+    saveBill,
+    settleBill,
+    reopenBill,
+    cancelBill,
+    deleteBill,
+  } = useBills();
+  const {
+    recurrences,
+    loading: loadingRecurrences,
+    saveRecurrence,
+    updateFromOccurrence,
+    setRecurrenceActive,
+    deleteRecurrence,
+  } = useRecurrences();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [kind, setKind] = useState<BillKind>('payable');
+  const [showRecurrences, setShowRecurrences] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingBill, setEditingBill] = useState<Bill | null>(null);
+  const [settlingBill, setSettlingBill] = useState<Bill | null>(null);
+  const [recurrenceDialogOpen, setRecurrenceDialogOpen] = useState(false);
+  const [editingRecurrence, setEditingRecurrence] = useState<Recurrence | null>(null);
+
+  // Filter states
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState<StatusFilter>('open');
+  const [filterBucket, setFilterBucket] = useState<AgingBucket | null>(null);
+
+  useEffect(() => {
+    if (!company) return;
+
+    supabase
+      .from('categories')
+      .select('id, name, color')
+      .eq('company_id', company.id)
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching categories:', error);
+          return;
+        }
+        setCategories(data || []);
+      });
+  }, [company]);
+
+  const categoryById = useMemo(() => new Map(categories.map(c => [c.id, c])), [categories]);
+  const categoryNames = useMemo(() => new Map(categories.map(c => [c.id, c.name])), [categories]);
+  const kindBills = useMemo(() => bills.filter(b => b.kind === kind), [bills, kind]);
+  const aging = useMemo(() => agingSummary(kindBills, today), [kindBills, today]);
+
+  const filteredBills = kindBills.filter(bill => {
+    const status = effectiveStatus(bill, today);
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term
+      || bill.description.toLowerCase().includes(term)
+      || (bill.counterparty || '').toLowerCase().includes(term)
+      || (bill.document_number || '').toLowerCase().includes(term);
+    const matchesStatus = filterStatus === 'all'
+      || (filterStatus === 'open' ? isOpenBill(bill) : status === filterStatus);
+    const matchesBucket = !filterBucket || (isOpenBill(bill) && agingBucket(bill.due_date, today) === filterBucket);
+    return matchesSearch && matchesStatus && matchesBucket;
+  });
+
+  const openTotal = AGING_BUCKETS.reduce((sum, { key }) => sum + aging[key].total, 0);
+
+  const openCreateDialog = () => {
+    if (showRecurrences) {
+      setEditingRecurrence(null);
+      setRecurrenceDialogOpen(true);
+      return;
+    }
+    setEditingBill(null);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (bill: Bill) => {
+    setEditingBill(bill);
+    setDialogOpen(true);
+  };
+
+  const showResult = (error: Error | null, success: string) => {
+    toast(error ? {
+      title: 'Erro',
+      description: error.message,
+      variant: 'destructive',
+    } : {
+      title: 'Sucesso',
+      description: success,
+    });
+  };
+
+  const handleReopen = async (bill: Bill) => {
+    if (!confirm(`Estornar a baixa de "${bill.description}"? O lançamento realizado será excluído.`)) return;
+    const { error } = await reopenBill(bill);
+    showResult(error, 'Baixa estornada; o título voltou a ficar em aberto.');
+  };
+
+  const handleCancel = async (bill: Bill) => {
+    const cancelling = bill.status !== 'cancelled';
+    if (cancelling && !confirm(`Cancelar o título "${bill.description}"?`)) return;
+    const { error } = await cancelBill(bill, cancelling);
+    showResult(error, cancelling ? 'Título cancelado.' : 'Título reativado.');
+  };
+
+  const handleDelete = async (bill: Bill) => {
+    if (!confirm(`Tem certeza que deseja excluir o título "${bill.description}"?`)) return;
+    const { error } = await deleteBill(bill);
+    showResult(error, 'Título excluído com sucesso.');
+  };
+
+  // Recorrências geram e refazem títulos no banco: a lista de títulos precisa ser relida
+  const withBillsRefresh = <A extends unknown[]>(
+    action: (...args: A) => Promise<{ error: Error | null }>,
+  ) => async (...args: A) => {
+    const result = await action(...args);
+    if (!result.error) await refreshBills();
+    return result;
+  };
+
+  const openRecurrenceDialog = (recurrence: Recurrence) => {
+    setEditingRecurrence(recurrence);
+    setRecurrenceDialogOpen(true);
+  };
+
+  const handleToggleRecurrence = async (recurrence: Recurrence) => {
+    const pausing = recurrence.active;
+    if (pausing && !confirm(`Pausar "${recurrence.description}"? Os títulos em aberto a partir de hoje serão removidos.`)) return;
+    const { error } = await withBillsRefresh(setRecurrenceActive)(recurrence, !pausing);
+    showResult(error, pausing ? 'Recorrência pausada.' : 'Recorrência retomada e próximos títulos gerados.');
+  };
+
+  const handleDeleteRecurrence = async (recurrence: Recurrence) => {
+    if (!confirm(
+      `Excluir a recorrência "${recurrence.description}"? Os títulos em aberto a partir de hoje serão excluídos; `
+      + 'os anteriores e os baixados continuam como títulos avulsos.',
+    )) return;
+    const { error } = await withBillsRefresh(deleteRecurrence)(recurrence);
+    showResult(error, 'Recorrência excluída com sucesso.');
+  };
+
+  const columnCount = 7 + (canEdit ? 1 : 0);
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground">
+            Contas a Pagar e Receber
+          </h1>
+          <p className="text-muted-foreground">
+            Títulos com vencimento, baixa com juros e desconto e acompanhamento de atrasos
+          </p>
+        </div>
+        {canEdit && (
+          <Button className="gap-2" onClick={openCreateDialog}>
+            <Plus className="h-4 w-4" />
+            {showRecurrences ? 'Nova Recorrência' : 'Novo Título'}
+          </Button>
+        )}
+      </div>
+
+      <Tabs
+        value={showRecurrences ? 'recurrences' : kind}
+        onValueChange={(v) => {
+          setShowRecurrences(v === 'recurrences');
+          if (v !== 'recurrences') {
+            setKind(v as BillKind);
+            setFilterBucket(null);
+          }
+        }}
+      >
+        <TabsList>
+          <TabsTrigger value="payable">{BILL_KINDS.payable.plural}</TabsTrigger>
+          <TabsTrigger value="receivable">{BILL_KINDS.receivable.plural}</TabsTrigger>
+          <TabsTrigger value="recurrences" className="gap-1">
+            <Repeat className="h-4 w-4" />
+            Recorrências
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {showRecurrences ? (
+        <RecurrenceList
+          recurrences={recurrences}
+          loading={loadingRecurrences}
+          categoryNames={categoryNames}
+          canEdit={canEdit}
+          isAdmin={isAdmin}
+          onEdit={openRecurrenceDialog}
+          onToggleActive={handleToggleRecurrence}
+          onDelete={handleDeleteRecurrence}
+        />
+      ) : (
+        <>
+          {/* Aging */}
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+            <div className="card-finance">
+              <p className="text-sm text-muted-foreground">Em aberto</p>
+              <p className="text-xl font-bold mt-1">{formatCurrency(openTotal)}</p>
+            </div>
+            {AGING_BUCKETS.map(({ key, label }) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setFilterBucket(filterBucket === key ? null : key)}
+                className={cn(
+                  'card-finance text-left transition-colors',
+                  filterBucket === key && 'ring-2 ring-primary',
+                )}
+              >
+                <p className="text-sm text-muted-foreground">{key === 'current' ? label : `Vencidos · ${label}`}</p>
+                <p className={cn(
+                  'text-xl font-bold mt-1',
+                  key !== 'current' && aging[key].total > 0 && 'text-destructive',
+                )}>
+                  {formatCurrency(aging[key].total)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {aging[key].count} {aging[key].count === 1 ? 'título' : 'títulos'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {/* Filters */}
+          <div className="card-finance">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder={`Buscar por descrição, ${BILL_KINDS[kind].counterparty.toLowerCase()} ou documento...`}
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={filterStatus} onValueChange={(v) => setFilterStatus(v as StatusFilter)}>
+                <SelectTrigger className="w-full sm:w-44">
+                  <Filter className="h-4 w-4 mr-2" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">Em aberto</SelectItem>
+                  <SelectItem value="pending">Pendentes</SelectItem>
+                  <SelectItem value="overdue">Vencidos</SelectItem>
+                  <SelectItem value="paid">{kind === 'payable' ? 'Pagos' : 'Recebidos'}</SelectItem>
+                  <SelectItem value="cancelled">Cancelados</SelectItem>
+                  <SelectItem value="all">Todos</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Bills Table */}
+          <div className="card-finance overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vencimento</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>Categoria</TableHead>
+                    <TableHead>Competência</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead>Situação</TableHead>
+                    <TableHead>Baixa</TableHead>
+                    {canEdit && <TableHead className="w-[160px]">Ações</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                        Carregando...
+                      </TableCell>
+                    </TableRow>
+                  ) : filteredBills.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                        Nenhum título encontrado.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredBills.map((bill) => {
+                      const status = effectiveStatus(bill, today);
+                      const category = bill.category_id ? categoryById.get(bill.category_id) : undefined;
+
+                      return (
+                        <TableRow key={bill.id} className={cn(bill.status === 'cancelled' && 'opacity-60')}>
+                          <TableCell className="whitespace-nowrap">{formatDate(bill.due_date)}</TableCell>
+                          <TableCell>
+                            <p className="font-medium flex items-center gap-1">
+                              {bill.recurrence_id && (
+                                <Repeat className="h-3.5 w-3.5 text-muted-foreground shrink-0" aria-label="Recorrente" />
+                              )}
+                              {bill.description}
+                            </p>
+                            {(bill.counterparty || bill.document_number) && (
+                              <p className="text-xs text-muted-foreground">
+                                {[bill.counterparty, bill.document_number].filter(Boolean).join(' · ')}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {category ? (
+                              <div className="flex items-center gap-2">
+                                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color }} />
+                                <span className="text-sm">{category.name}</span>
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground whitespace-nowrap">
+                            {formatDate(bill.competence_date)}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold whitespace-nowrap">
+                            {formatCurrency(Number(bill.amount))}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col items-start gap-1">
+                              <Badge variant="outline" className={STATUS_BADGE[status]}>
+                                {status === 'paid' && kind === 'receivable' ? 'Recebido' : billStatusLabel(status)}
+                              </Badge>
+                              {status === 'overdue' && (
+                                <span className="text-xs text-destructive">
+                                  {daysOverdue(bill.due_date, today)} dia(s) de atraso
+                                </span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                            {bill.status === 'paid' && bill.paid_at ? (
+                              <>
+                                <p>{formatDate(bill.paid_at)} · {formatCurrency(Number(bill.paid_amount))}</p>
+                                {(Number(bill.interest_amount) > 0 || Number(bill.discount_amount) > 0) && (
+                                  <p className="text-xs">
+                                    {Number(bill.interest_amount) > 0 && `Juros ${formatCurrency(Number(bill.interest_amount))} `}
+                                    {Number(bill.discount_amount) > 0 && `Desc. ${formatCurrency(Number(bill.discount_amount))}`}
+                                  </p>
+                                )}
+                              </>
+                            ) : '-'}
+                          </TableCell>
+                          {canEdit && (
+                            <TableCell>
+                              <div className="flex items-center gap-1">
+                                {isOpenBill(bill) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title={kind === 'payable' ? 'Registrar pagamento' : 'Registrar recebimento'}
+                                    onClick={() => setSettlingBill(bill)}
+                                  >
+                                    <CheckCircle className="h-4 w-4 text-primary" />
+                                  </Button>
+                                )}
+                                {isAdmin && bill.status === 'paid' && (
+                                  <Button variant="ghost" size="icon" title="Estornar baixa" onClick={() => handleReopen(bill)}>
+                                    <Undo2 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                <Button variant="ghost" size="icon" title="Editar" onClick={() => openEditDialog(bill)}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                {bill.status !== 'paid' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title={bill.status === 'cancelled' ? 'Reativar' : 'Cancelar título'}
+                                    onClick={() => handleCancel(bill)}
+                                  >
+                                    {bill.status === 'cancelled'
+                                      ? <RotateCcw className="h-4 w-4" />
+                                      : <Ban className="h-4 w-4" />}
+                                  </Button>
+                                )}
+                                {isAdmin && bill.status !== 'paid' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Excluir"
+                                    onClick={() => handleDelete(bill)}
+                                    className="text-destructive hover:text-destructive"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </>
+      )}
+
+      <BillDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        bill={editingBill}
+        kind={kind}
+        categories={categories}
+        accounts={accounts}
+        today={today}
+        onSave={saveBill}
+        onSaveSeries={withBillsRefresh(updateFromOccurrence)}
+      />
+
+      <RecurrenceDialog
+        open={recurrenceDialogOpen}
+        onOpenChange={setRecurrenceDialogOpen}
+        recurrence={editingRecurrence}
+        kind={kind}
+        categories={categories}
+        accounts={accounts}
+        today={today}
+        onSave={withBillsRefresh(saveRecurrence)}
+      />
+
+      <SettleBillDialog
+        bill={settlingBill}
+        onClose={() => setSettlingBill(null)}
+        accounts={accounts}
+        today={today}
+        onSettle={settleBill}
+      />
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ interface Category {
   color: string;
   keywords: string[];
   icon: string | null;
+  account_code: string | null;
 }
 
 const colorOptions = [
@@ -47,6 +48,7 @@ export default function Categories() {
   const [formName, setFormName] = useState('');
   const [formColor, setFormColor] = useState('#10B981');
   const [formKeywords, setFormKeywords] = useState('');
+  const [formAccountCode, setFormAccountCode] = useState('');
 
   useEffect(() => {
     if (user && company) {
@@ -82,6 +84,7 @@ export default function Categories() {
     setFormName('');
     setFormColor('#10B981');
     setFormKeywords('');
+    setFormAccountCode('');
     setEditingCategory(null);
   };
 
@@ -90,6 +93,7 @@ export default function Categories() {
     setFormName(category.name);
     setFormColor(category.color);
     setFormKeywords(category.keywords?.join(', ') || '');
+    setFormAccountCode(category.account_code || '');
     setDialogOpen(true);
   };
 
@@ -108,6 +112,7 @@ export default function Categories() {
       name: formName,
       color: formColor,
       keywords: keywordsArray,
+      account_code: formAccountCode.trim() || null,
     };
 
     try {
@@ -243,6 +248,18 @@ export default function Categories() {
                     Usado para categorização automática de transações
                   </p>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="account_code">Conta contábil (opcional)</Label>
+                  <Input
+                    id="account_code"
+                    value={formAccountCode}
+                    onChange={(e) => setFormAccountCode(e.target.value)}
+                    placeholder="Ex: 3.1.1.01.001"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Código no plano de contas do seu contador, usado na exportação contábil
+                  </p>
+                </div>
                 <div className="flex justify-end gap-2 pt-4">
                   <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                     Cancelar
@@ -291,6 +308,11 @@ export default function Categories() {
                   </div>
                   <div>
                     <h3 className="font-semibold text-foreground">{category.name}</h3>
+                    {category.account_code && (
+                      <p className="text-xs font-mono text-muted-foreground">
+                        Conta {category.account_code}
+                      </p>
+                    )}
                     {category.keywords && category.keywords.length > 0 && (
                       <p className="text-xs text-muted-foreground mt-1">
                         {category.keywords.slice(0, 3).join(', ')}
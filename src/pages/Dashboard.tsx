@@ -2,13 +2,23 @@ import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useCompany } from '@/hooks/useCompany';
+import { useAccounts, fetchAccountBalances } from '@/hooks/useAccounts';
 import { StatCard } from '@/components/dashboard/StatCard';
 import { RecentTransactions } from '@/components/dashboard/RecentTransactions';
 import { MonthlyChart } from '@/components/dashboard/MonthlyChart';
+import { UpcomingBills } from '@/components/dashboard/UpcomingBills';
 import { Button } from '@/components/ui/button';
-import { Plus, TrendingUp, TrendingDown, Wallet, Target, AlertTriangle } from 'lucide-react';
+import { Plus, TrendingUp, TrendingDown, Wallet, Target, AlertTriangle, Landmark } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { usePeriod } from '@/hooks/usePeriod';
+import { PeriodPicker } from '@/components/PeriodPicker';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { companyPeriodSettings, monthsInRange, shiftDate, toLocalDate, todayInTimeZone } from '@/lib/periods';
+import { ALL_ACCOUNTS, consolidatedBalance } from '@/lib/accounts';
+import { DueSummary, dueWithin, overdueSummary } from '@/lib/bills';
 
 interface Transaction {
   id: string;
@@ -27,19 +37,34 @@ interface DashboardStats {
   totalExpense: number;
   balance: number;
   transactionCount: number;
+  /** Saldo das contas no fim do período (saldo inicial mais lançamentos) */
+  accountsBalance: number;
 }
 
+interface BillsDue {
+  next7: DueSummary;
+  next30: DueSummary;
+  overdue: DueSummary;
+}
+
+const EMPTY_DUE: DueSummary = { payable: 0, receivable: 0, count: 0 };
+
 export default function Dashboard() {
   const { user } = useAuth();
   const { company, canEdit } = useCompany();
+  const { selection: period, setSelection: setPeriod, range } = usePeriod({ preset: 'this_month' });
+  const { accounts } = useAccounts();
+  const [filterAccount, setFilterAccount] = useState(ALL_ACCOUNTS);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [stats, setStats] = useState<DashboardStats>({
     totalIncome: 0,
     totalExpense: 0,
     balance: 0,
     transactionCount: 0,
+    accountsBalance: 0,
   });
   const [chartData, setChartData] = useState<{ month: string; income: number; expense: number }[]>([]);
+  const [billsDue, setBillsDue] = useState<BillsDue>({ next7: EMPTY_DUE, next30: EMPTY_DUE, overdue: EMPTY_DUE });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -67,14 +92,16 @@ export default function Dashboard() {
         supabase.removeChannel(channel);
       };
     }
-  }, [user, company]);
+  }, [user, company, range, filterAccount]);
 
   const fetchDashboardData = async () => {
     if (!company) return;
     
+    const accountId = filterAccount !== ALL_ACCOUNTS ? filterAccount : null;
+
     try {
       // Fetch recent transactions with categories
-      const { data: transactionsData, error: transactionsError } = await supabase
+      let recentQuery = supabase
         .from('transactions')
         .select(`
           id,
@@ -87,7 +114,10 @@ export default function Dashboard() {
             color
           )
         `)
-        .eq('company_id', company.id)
+        .eq('company_id', company.id);
+      if (accountId) recentQuery = recentQuery.eq('account_id', accountId);
+
+      const { data: transactionsData, error: transactionsError } = await recentQuery
         .order('date', { ascending: false })
         .limit(5);
 
@@ -107,17 +137,20 @@ export default function Dashboard() {
 
       setTransactions(formattedTransactions);
 
-      // Calculate stats for current month
-      const now = new Date();
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0];
-      const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).toISOString().split('T')[0];
-
-      const { data: monthlyData, error: monthlyError } = await supabase
+      // Calculate stats for the selected period (transfers between accounts are not income/expense)
+      let periodQuery = supabase
         .from('transactions')
         .select('amount, type')
         .eq('company_id', company.id)
-        .gte('date', startOfMonth)
-        .lte('date', endOfMonth);
+        .is('transfer_id', null)
+        .gte('date', range.start)
+        .lte('date', range.end);
+      if (accountId) periodQuery = periodQuery.eq('account_id', accountId);
+
+      const [{ data: monthlyData, error: monthlyError }, balances] = await Promise.all([
+        periodQuery,
+        fetchAccountBalances(range.end),
+      ]);
 
       if (monthlyError) throw monthlyError;
 
@@ -134,36 +167,34 @@ export default function Dashboard() {
         totalExpense,
         balance: totalIncome - totalExpense,
         transactionCount: monthlyData?.length || 0,
+        accountsBalance: consolidatedBalance(balances, accountId ? [accountId] : []),
       });
 
-      // Generate chart data for last 6 months
-      const months = [];
-      for (let i = 5; i >= 0; i--) {
-        const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-        months.push({
-          month: date.toLocaleDateString('pt-BR', { month: 'short' }),
-          start: new Date(date.getFullYear(), date.getMonth(), 1).toISOString().split('T')[0],
-          end: new Date(date.getFullYear(), date.getMonth() + 1, 0).toISOString().split('T')[0],
-        });
-      }
-
-      const { data: allTransactions, error: allError } = await supabase
+      // Generate chart data for the 6 months ending at the selected period
+      const [endYear, endMonth] = range.end.split('-').map(Number);
+      const months = monthsInRange({
+        start: new Date(Date.UTC(endYear, endMonth - 6, 1)).toISOString().slice(0, 10),
+        end: range.end,
+      });
+
+      let chartQuery = supabase
         .from('transactions')
         .select('amount, type, date')
         .eq('company_id', company.id)
-        .gte('date', months[0].start)
-        .lte('date', months[5].end);
+        .is('transfer_id', null)
+        .gte('date', `${months[0]}-01`)
+        .lte('date', new Date(Date.UTC(endYear, endMonth, 0)).toISOString().slice(0, 10));
+      if (accountId) chartQuery = chartQuery.eq('account_id', accountId);
+
+      const { data: allTransactions, error: allError } = await chartQuery;
 
       if (allError) throw allError;
 
       const chartDataFormatted = months.map(m => {
-        const monthTransactions = (allTransactions || []).filter(t => {
-          const tDate = t.date;
-          return tDate >= m.start && tDate <= m.end;
-        });
+        const monthTransactions = (allTransactions || []).filter(t => t.date.startsWith(m));
 
         return {
-          month: m.month,
+          month: format(toLocalDate(`${m}-01`), 'MMM', { locale: ptBR }),
           income: monthTransactions
             .filter(t => t.type === 'income')
             .reduce((sum, t) => sum + Number(t.amount), 0),
@@ -174,6 +205,24 @@ export default function Dashboard() {
       });
 
       setChartData(chartDataFormatted);
+
+      // Títulos em aberto vencidos ou a vencer em até 30 dias, de todas as contas
+      const today = todayInTimeZone(companyPeriodSettings(company).timeZone);
+
+      const { data: openBills, error: billsError } = await supabase
+        .from('bills')
+        .select('kind, status, due_date, amount')
+        .eq('company_id', company.id)
+        .in('status', ['pending', 'overdue'])
+        .lte('due_date', shiftDate(today, 30));
+
+      if (billsError) throw billsError;
+
+      setBillsDue({
+        next7: dueWithin(openBills || [], today, 7),
+        next30: dueWithin(openBills || [], today, 30),
+        overdue: overdueSummary(openBills || [], today),
+      });
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
     } finally {
@@ -200,14 +249,24 @@ export default function Dashboard() {
             Bem-vindo de volta, {user?.user_metadata?.full_name || 'Usuário'}! | {company?.name}
           </p>
         </div>
-        {canEdit && (
-          <Link to="/transactions">
-            <Button className="gap-2">
-              <Plus className="h-4 w-4" />
-              Nova Transação
-            </Button>
-          </Link>
-        )}
+        <div className="flex flex-col sm:flex-row sm:items-start gap-2">
+          <AccountSelect
+            accounts={accounts}
+            value={filterAccount}
+            onChange={setFilterAccount}
+            allowAll
+            className="w-full sm:w-48"
+          />
+          <PeriodPicker value={period} onChange={setPeriod} range={range} />
+          {canEdit && (
+            <Link to="/transactions">
+              <Button className="gap-2">
+                <Plus className="h-4 w-4" />
+                Nova Transação
+              </Button>
+            </Link>
+          )}
+        </div>
       </div>
 
       {/* Negative Balance Alert */}
@@ -217,40 +276,49 @@ export default function Dashboard() {
           <div>
             <p className="font-medium text-destructive">Saldo Negativo</p>
             <p className="text-sm text-destructive/80">
-              Seu saldo do mês está negativo em {formatCurrency(Math.abs(stats.balance))}
+              Seu saldo do período está negativo em {formatCurrency(Math.abs(stats.balance))}
             </p>
           </div>
         </div>
       )}
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
         <StatCard
-          title="Receitas do Mês"
+          title="Receitas do Período"
           value={formatCurrency(stats.totalIncome)}
           icon={TrendingUp}
           variant="income"
         />
         <StatCard
-          title="Despesas do Mês"
+          title="Despesas do Período"
           value={formatCurrency(stats.totalExpense)}
           icon={TrendingDown}
           variant="expense"
         />
         <StatCard
-          title="Saldo do Mês"
+          title="Saldo do Período"
           value={formatCurrency(stats.balance)}
           icon={Wallet}
           variant={stats.balance >= 0 ? 'income' : 'expense'}
         />
+        <StatCard
+          title={filterAccount === ALL_ACCOUNTS ? 'Saldo Consolidado' : 'Saldo da Conta'}
+          value={formatCurrency(stats.accountsBalance)}
+          subtitle={`Em ${format(toLocalDate(range.end), 'dd/MM/yyyy')}`}
+          icon={Landmark}
+          variant={stats.accountsBalance >= 0 ? 'default' : 'expense'}
+        />
         <StatCard
           title="Transações"
           value={stats.transactionCount.toString()}
-          subtitle="Este mês"
+          subtitle="No período"
           icon={Target}
         />
       </div>
 
+      <UpcomingBills {...billsDue} />
+
       {/* Charts and Transactions */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <MonthlyChart data={chartData} />
@@ -4,6 +4,14 @@ import { useAuth } from '@/hooks/useAuth';
 import { useCompany } from '@/hooks/useCompany';
 import { useToast } from '@/hooks/use-toast';
 import { useAlerts } from '@/hooks/useAlerts';
+import { ExportTemplateInput, useExportTemplates } from '@/hooks/useExportTemplates';
+import { ExportTemplateDialog } from '@/components/export/ExportTemplateDialog';
+import { ExportSchedule, ExportScheduleInput, useExportSchedules } from '@/hooks/useExportSchedules';
+import { ExportScheduleDialog } from '@/components/export/ExportScheduleDialog';
+import { useExportHistory } from '@/hooks/useExportHistory';
+import { usePeriod } from '@/hooks/usePeriod';
+import { PeriodPicker } from '@/components/PeriodPicker';
+import { ExportDownloadButton } from '@/components/export/ExportDownloadButton';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,268 +22,323 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
 import {
   Download,
   FileSpreadsheet,
   FileText,
   File,
-  Calendar,
+  FileType,
   History,
   AlertCircle,
+  BookOpen,
+  Pencil,
+  Plus,
+  Trash2,
+  Clock,
+  Mail,
+  ArrowLeftRight,
 } from 'lucide-react';
-import ExcelJS from 'exceljs';
-import { format, startOfMonth, endOfMonth, startOfWeek, endOfWeek, startOfYear, endOfYear, subMonths } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
-
-interface ExportHistory {
-  id: string;
-  file_name: string;
-  format: string;
-  export_type: string;
-  period_start: string | null;
-  period_end: string | null;
-  created_at: string;
-}
-
-interface Transaction {
-  id: string;
-  description: string;
-  amount: number;
-  type: string;
-  date: string;
-  source: string | null;
-  notes: string | null;
-  subcategory: string | null;
-  tax_amount: number;
-  product_cost: number;
-  profit: number;
-  origin: string;
-  categories: {
-    name: string;
-    color: string;
-  } | null;
-}
-
-type PeriodType = 'today' | 'week' | 'month' | 'quarter' | 'year' | 'custom';
-type ExportFormat = 'csv' | 'xlsx';
-type ExportType = 'transactions' | 'monthly_summary' | 'category_summary' | 'full_report';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  EXPORT_FORMAT_LABELS,
+  EXPORT_TYPE_LABELS,
+  ExportFormat,
+  ExportRow,
+  ExportTransaction,
+  ExportType,
+  buildExportRows,
+  downloadBlob,
+  exportFileName,
+  periodFilter,
+  splitByBasis,
+} from '@/lib/export/reports';
+import {
+  ACCOUNTING_LAYOUTS,
+  AccountingLayout,
+  AccountingValidation,
+  UNCATEGORIZED_LABEL,
+  buildAccountingEntries,
+  buildAccountingFile,
+} from '@/lib/export/accounting';
+import { INTERCHANGE_FORMATS, InterchangeFormat, buildInterchangeFile } from '@/lib/export/interchange';
+import { buildAuditPdf, buildPdfReport } from '@/lib/export/pdf';
+import {
+  buildAuditWorkbook,
+  buildFullReportWorkbook,
+  buildRowsWorkbook,
+  workbookToBlob,
+} from '@/lib/export/xlsx';
+import { rowsToCsvBlob } from '@/lib/export/csv';
+import { PagedResult, fetchAllPages } from '@/lib/export/paging';
+import { ExportTemplate, buildTemplateRows, templateFileName, templateSnapshot } from '@/lib/export/templates';
+import { SCHEDULE_PERIODS, describeRecurrence, formatScheduleTime } from '@/lib/export/schedules';
+import { exportHistoryTypeLabel } from '@/lib/export/history';
+import {
+  AlertRecord,
+  AuditLogRecord,
+  buildAuditTrailRows,
+  filterByPeriod,
+  formatAlertRows,
+  formatAuditRows,
+} from '@/lib/export/audit';
+import { DateRange, companyPeriodSettings, timestampBounds, toLocalDate } from '@/lib/periods';
+
+// Modelos aparecem na lista de tipos como "template:<id>"
+const TEMPLATE_PREFIX = 'template:';
 
 export default function Export() {
   const { user } = useAuth();
-  const { company } = useCompany();
+  const { company, canEdit, isAdmin } = useCompany();
+  const companyTimeZone = companyPeriodSettings(company).timeZone;
   const { toast } = useToast();
   const { createAlert } = useAlerts();
+  const { templates, saveTemplate, deleteTemplate } = useExportTemplates();
+  const { schedules, saveSchedule, toggleSchedule, deleteSchedule } = useExportSchedules();
   const [loading, setLoading] = useState(false);
-  const [exportHistory, setExportHistory] = useState<ExportHistory[]>([]);
+  const [progress, setProgress] = useState<{ label: string; loaded: number; total: number | null } | null>(null);
+  const { items: exportHistory, recordExport, downloadExport } = useExportHistory({ pageSize: 5 });
   
-  const [periodType, setPeriodType] = useState<PeriodType>('month');
-  const [customStartDate, setCustomStartDate] = useState('');
-  const [customEndDate, setCustomEndDate] = useState('');
+  const { selection: period, setSelection: setPeriod, range } = usePeriod({ preset: 'this_month' });
   const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
   const [exportType, setExportType] = useState<ExportType>('transactions');
+  const [accountingIssues, setAccountingIssues] = useState<AccountingValidation | null>(null);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<ExportTemplate | null>(null);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<ExportSchedule | null>(null);
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) || null;
 
   useEffect(() => {
     if (user && company) {
-      fetchExportHistory();
+      fetchCategories();
     }
   }, [user, company]);
 
-  const fetchExportHistory = async () => {
+  const fetchCategories = async () => {
     if (!company) return;
-    
-    try {
-      const { data, error } = await supabase
-        .from('export_history')
-        .select('*')
-        .eq('company_id', company.id)
-        .order('created_at', { ascending: false })
-        .limit(5);
 
-      if (error) throw error;
-      setExportHistory(data || []);
-    } catch (error) {
-      console.error('Error fetching export history:', error);
-    }
-  };
+    const { data, error } = await supabase
+      .from('categories')
+      .select('id, name')
+      .eq('company_id', company.id)
+      .order('name');
 
-  const getDateRange = (): { start: Date; end: Date } => {
-    const now = new Date();
-    
-    switch (periodType) {
-      case 'today':
-        return { start: now, end: now };
-      case 'week':
-        return { start: startOfWeek(now, { locale: ptBR }), end: endOfWeek(now, { locale: ptBR }) };
-      case 'month':
-        return { start: startOfMonth(now), end: endOfMonth(now) };
-      case 'quarter':
-        return { start: subMonths(startOfMonth(now), 2), end: endOfMonth(now) };
-      case 'year':
-        return { start: startOfYear(now), end: endOfYear(now) };
-      case 'custom':
-        return {
-          start: customStartDate ? new Date(customStartDate) : now,
-          end: customEndDate ? new Date(customEndDate) : now,
-        };
-      default:
-        return { start: startOfMonth(now), end: endOfMonth(now) };
+    if (error) {
+      console.error('Error fetching categories:', error);
+      return;
     }
+    setCategories(data || []);
   };
 
-  const fetchTransactions = async (startDate: Date, endDate: Date): Promise<Transaction[]> => {
-    if (!company) return [];
-    
+  /**
+   * Nome dos usuários, para a coluna "Criado por" dos modelos e a trilha de auditoria
+   */
+  const fetchUserNames = async (ids: (string | null | undefined)[]): Promise<Record<string, string>> => {
+    const userIds = [...new Set(ids.filter(Boolean))] as string[];
+    if (userIds.length === 0) return {};
+
     const { data, error } = await supabase
-      .from('transactions')
-      .select(`
-        *,
-        categories (
-          name,
-          color
-        )
-      `)
-      .eq('company_id', company.id)
-      .gte('date', startDate.toISOString().split('T')[0])
-      .lte('date', endDate.toISOString().split('T')[0])
-      .order('date', { ascending: false });
+      .from('profiles')
+      .select('user_id, full_name')
+      .in('user_id', userIds);
 
     if (error) throw error;
-    return data || [];
+    return Object.fromEntries((data || []).map(p => [p.user_id, p.full_name || 'Usuário']));
   };
 
-  const formatTransactionsForExport = (transactions: Transaction[]) => {
-    return transactions.map(t => ({
-      'Data': format(new Date(t.date), 'dd/MM/yyyy'),
-      'Descrição': t.description,
-      'Categoria': t.categories?.name || '-',
-      'Subcategoria': t.subcategory || '-',
-      'Tipo': t.type === 'income' ? 'Receita' : 'Despesa',
-      'Valor': t.amount,
-      'Imposto': t.tax_amount || 0,
-      'Custo': t.product_cost || 0,
-      'Lucro': t.profit || 0,
-      'Origem': t.origin || 'manual',
-      'Fonte': t.source || '-',
-      'Observações': t.notes || '-',
-    }));
+  const handleTypeChange = (value: string) => {
+    if (value.startsWith(TEMPLATE_PREFIX)) {
+      setSelectedTemplateId(value.slice(TEMPLATE_PREFIX.length));
+      // Modelos definem colunas de planilha; PDF e layouts contábeis têm colunas fixas
+      if (exportFormat !== 'csv' && exportFormat !== 'xlsx') setExportFormat('xlsx');
+    } else {
+      setSelectedTemplateId(null);
+      setExportType(value as ExportType);
+    }
   };
 
-  const generateMonthlySummary = (transactions: Transaction[]) => {
-    const summary: Record<string, { income: number; expense: number; balance: number }> = {};
-    
-    transactions.forEach(t => {
-      const monthKey = format(new Date(t.date), 'yyyy-MM');
-      if (!summary[monthKey]) {
-        summary[monthKey] = { income: 0, expense: 0, balance: 0 };
-      }
-      if (t.type === 'income') {
-        summary[monthKey].income += t.amount;
-      } else {
-        summary[monthKey].expense += t.amount;
-      }
-      summary[monthKey].balance = summary[monthKey].income - summary[monthKey].expense;
-    });
+  const handleSaveTemplate = async (input: ExportTemplateInput, templateId?: string) => {
+    const { error, template } = await saveTemplate(input, templateId);
+    if (error || !template) {
+      toast({
+        title: 'Erro',
+        description: error?.message.includes('duplicate')
+          ? 'Já existe um modelo com esse nome.'
+          : 'Não foi possível salvar o modelo.',
+        variant: 'destructive',
+      });
+      return false;
+    }
 
-    return Object.entries(summary).map(([month, data]) => ({
-      'Mês': format(new Date(month + '-01'), 'MMMM yyyy', { locale: ptBR }),
-      'Receitas': data.income,
-      'Despesas': data.expense,
-      'Saldo': data.balance,
-    }));
+    setSelectedTemplateId(template.id);
+    toast({
+      title: 'Modelo salvo',
+      description: `O modelo "${template.name}" está disponível para exportação.`,
+    });
+    return true;
   };
 
-  const generateCategorySummary = (transactions: Transaction[]) => {
-    const summary: Record<string, { total: number; count: number; type: string }> = {};
-    
-    transactions.forEach(t => {
-      const categoryName = t.categories?.name || 'Sem categoria';
-      if (!summary[categoryName]) {
-        summary[categoryName] = { total: 0, count: 0, type: t.type };
-      }
-      summary[categoryName].total += t.amount;
-      summary[categoryName].count += 1;
-    });
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate) return;
+    if (!confirm(`Excluir o modelo "${selectedTemplate.name}"?`)) return;
 
-    return Object.entries(summary).map(([category, data]) => ({
-      'Categoria': category,
-      'Tipo': data.type === 'income' ? 'Receita' : 'Despesa',
-      'Total': data.total,
-      'Quantidade': data.count,
-      'Média': data.total / data.count,
-    }));
+    const { error } = await deleteTemplate(selectedTemplate.id);
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível excluir o modelo.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setSelectedTemplateId(null);
   };
 
-  const generateFullReport = (transactions: Transaction[]) => {
-    const totalIncome = transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
-    const totalExpense = transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
-    const totalTax = transactions.reduce((sum, t) => sum + (t.tax_amount || 0), 0);
-    const totalCost = transactions.reduce((sum, t) => sum + (t.product_cost || 0), 0);
-    
-    return [
-      { 'Métrica': 'Receita Bruta', 'Valor': totalIncome },
-      { 'Métrica': '(-) Impostos', 'Valor': totalTax },
-      { 'Métrica': '(-) Custos de Mercadoria', 'Valor': totalCost },
-      { 'Métrica': '(-) Despesas Operacionais', 'Valor': totalExpense },
-      { 'Métrica': 'Lucro Líquido', 'Valor': totalIncome - totalTax - totalCost - totalExpense },
-      { 'Métrica': 'Total de Transações', 'Valor': transactions.length },
-    ];
+  const handleSaveSchedule = async (input: ExportScheduleInput, scheduleId?: string) => {
+    const { error } = await saveSchedule(input, scheduleId);
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível salvar o agendamento.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    toast({
+      title: 'Agendamento salvo',
+      description: `"${input.name.trim()}" será executado automaticamente.`,
+    });
+    return true;
   };
 
-  const downloadFile = async (data: any[], fileName: string, exportFormat: ExportFormat) => {
-    const workbook = new ExcelJS.Workbook();
-    const worksheet = workbook.addWorksheet('Dados');
-
-    if (data.length > 0) {
-      const headers = Object.keys(data[0]);
-      worksheet.addRow(headers);
-      
-      const headerRow = worksheet.getRow(1);
-      headerRow.font = { bold: true };
-      headerRow.fill = {
-        type: 'pattern',
-        pattern: 'solid',
-        fgColor: { argb: 'FFE0E0E0' }
-      };
-
-      data.forEach(item => {
-        worksheet.addRow(Object.values(item));
+  const handleToggleSchedule = async (schedule: ExportSchedule) => {
+    const { error } = await toggleSchedule(schedule);
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível atualizar o agendamento.',
+        variant: 'destructive',
       });
+    }
+  };
+
+  const handleDeleteSchedule = async (schedule: ExportSchedule) => {
+    if (!confirm(`Excluir o agendamento "${schedule.name}"?`)) return;
 
-      worksheet.columns.forEach(column => {
-        column.width = 15;
+    const { error } = await deleteSchedule(schedule.id);
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível excluir o agendamento.',
+        variant: 'destructive',
       });
     }
+  };
 
-    if (exportFormat === 'csv') {
-      const csvContent = await workbook.csv.writeBuffer();
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${fileName}.csv`;
-      a.click();
-      URL.revokeObjectURL(url);
-    } else {
-      const buffer = await workbook.xlsx.writeBuffer();
-      const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${fileName}.xlsx`;
-      a.click();
-      URL.revokeObjectURL(url);
-    }
+  const getScheduleTypeLabel = (schedule: ExportSchedule) =>
+    schedule.exportType === 'template'
+      ? `Modelo: ${templates.find(t => t.id === schedule.templateId)?.name || 'excluído'}`
+      : EXPORT_TYPE_LABELS[schedule.exportType as ExportType] || schedule.exportType;
+
+  const trackProgress = (label: string) => (loaded: number, total: number | null) =>
+    setProgress({ label, loaded, total });
+
+  /**
+   * Transações do período (por data ou competência) em páginas (o PostgREST devolve no
+   * máximo 1000 linhas por vez)
+   */
+  const fetchTransactions = async (period: DateRange): Promise<PagedResult<ExportTransaction>> => {
+    if (!company) return { rows: [], total: 0, capped: false };
+
+    return fetchAllPages<ExportTransaction>((from, to) =>
+      supabase
+        .from('transactions')
+        .select(`
+          *,
+          categories (
+            name,
+            color,
+            account_code
+          )
+        `, { count: 'exact' })
+        .eq('company_id', company.id)
+        .or(periodFilter(period))
+        .order('date', { ascending: false })
+        .order('id')
+        .range(from, to),
+      { onProgress: trackProgress('transações') },
+    );
   };
 
+  /**
+   * Confirma antes de gerar um arquivo com menos linhas do que o banco informou
+   */
+  const confirmCapped = ({ rows, total, capped }: PagedResult<unknown>, label: string) =>
+    !capped || confirm(
+      `Só ${rows.length.toLocaleString('pt-BR')} de ${(total ?? 0).toLocaleString('pt-BR')} ${label} puderam ser lidas. ` +
+      'Gerar mesmo assim um arquivo incompleto?'
+    );
+
+  /**
+   * Registros de auditoria e alertas do período (no fuso da empresa), também paginados
+   */
+  const fetchAuditTrail = async (period: DateRange) => {
+    if (!company) return null;
+    const { from, to } = timestampBounds(period);
+
+    const entries = await fetchAllPages<AuditLogRecord>((start, end) =>
+      supabase
+        .from('audit_log')
+        .select('*', { count: 'exact' })
+        .eq('company_id', company.id)
+        .gte('created_at', from)
+        .lt('created_at', to)
+        .order('created_at')
+        .order('id')
+        .range(start, end),
+      { onProgress: trackProgress('registros de auditoria') },
+    );
+
+    const alerts = await fetchAllPages<AlertRecord>((start, end) =>
+      supabase
+        .from('alerts')
+        .select('*', { count: 'exact' })
+        .eq('company_id', company.id)
+        .gte('created_at', from)
+        .lt('created_at', to)
+        .order('created_at')
+        .order('id')
+        .range(start, end),
+      { onProgress: trackProgress('alertas') },
+    );
+
+    return { entries, alerts };
+  };
+
+  const rowsFile = async (data: ExportRow[], exportFormat: ExportFormat): Promise<Blob> =>
+    exportFormat === 'csv' ? rowsToCsvBlob(data) : workbookToBlob(buildRowsWorkbook(data));
+
   const handleExport = async () => {
     if (!company) return;
     
     setLoading(true);
     try {
-      const { start, end } = getDateRange();
-      const transactions = await fetchTransactions(start, end);
+      const result = await fetchTransactions(range);
+      setProgress(null);
+      if (!confirmCapped(result, 'transações')) return;
+
+      // Parcelas com vencimento fora do período entram só na DRE, pela data da venda
+      const { cash: transactions, competence } = splitByBasis(result.rows, range);
+      const start = toLocalDate(range.start);
+      const end = toLocalDate(range.end);
 
       if (transactions.length === 0) {
         toast({
@@ -286,56 +349,121 @@ export default function Export() {
         return;
       }
 
-      let data: any[];
-      let fileName: string;
-
-      switch (exportType) {
-        case 'transactions':
-          data = formatTransactionsForExport(transactions);
-          fileName = `transacoes-${format(start, 'yyyy-MM-dd')}-a-${format(end, 'yyyy-MM-dd')}`;
-          break;
-        case 'monthly_summary':
-          data = generateMonthlySummary(transactions);
-          fileName = `resumo-mensal-${format(start, 'yyyy-MM-dd')}-a-${format(end, 'yyyy-MM-dd')}`;
-          break;
-        case 'category_summary':
-          data = generateCategorySummary(transactions);
-          fileName = `resumo-categorias-${format(start, 'yyyy-MM-dd')}-a-${format(end, 'yyyy-MM-dd')}`;
-          break;
-        case 'full_report':
-          data = generateFullReport(transactions);
-          fileName = `relatorio-completo-${format(start, 'yyyy-MM-dd')}-a-${format(end, 'yyyy-MM-dd')}`;
-          break;
-        default:
-          data = formatTransactionsForExport(transactions);
-          fileName = `exportacao-${format(new Date(), 'yyyy-MM-dd')}`;
+      setAccountingIssues(null);
+      const isAccounting = exportFormat in ACCOUNTING_LAYOUTS;
+      const isInterchange = exportFormat in INTERCHANGE_FORMATS;
+      const template = isAccounting || isInterchange ? null : selectedTemplate;
+      const recordedType: string = template ? 'template' : isAccounting || isInterchange ? 'transactions' : exportType;
+      const period = `${range.start}-a-${range.end}`;
+      let rowsCount = 0;
+      let fileName = '';
+      let extension: string = exportFormat;
+      let blob: Blob;
+
+      if (isAccounting) {
+        const layout = exportFormat as AccountingLayout;
+        const { data: companyData, error: companyError } = await supabase
+          .from('companies')
+          .select('accounting_cash_account')
+          .eq('id', company.id)
+          .single();
+
+        if (companyError) throw companyError;
+
+        // Só gera o arquivo com todas as transações do período mapeadas para uma conta
+        const validation = buildAccountingEntries(transactions, companyData.accounting_cash_account);
+        if (validation.unmapped.length > 0 || validation.missingCashAccount) {
+          setAccountingIssues(validation);
+          toast({
+            title: 'Mapeamento contábil incompleto',
+            description: 'Defina as contas contábeis pendentes antes de gerar o arquivo.',
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        fileName = `lancamentos-contabeis-${period}`;
+        extension = ACCOUNTING_LAYOUTS[layout].extension;
+        rowsCount = validation.entries.length;
+        blob = buildAccountingFile(layout, validation.entries, company.document);
+      } else if (isInterchange) {
+        fileName = exportFileName('transactions', start, end);
+        extension = INTERCHANGE_FORMATS[exportFormat as InterchangeFormat].extension;
+        rowsCount = transactions.length;
+        blob = buildInterchangeFile(exportFormat as InterchangeFormat, transactions, {
+          companyId: company.id,
+          start: range.start,
+          end: range.end,
+        });
+      } else if (template) {
+        const creators = template.columns.some(c => c.field === 'created_by')
+          ? await fetchUserNames(transactions.map(t => t.user_id))
+          : {};
+        const rows = buildTemplateRows(transactions, template, creators);
+        if (rows.length === 0) {
+          toast({
+            title: 'Aviso',
+            description: 'Nenhuma transação do período atende aos filtros do modelo.',
+          });
+          return;
+        }
+
+        fileName = templateFileName(template, start, end);
+        rowsCount = rows.length;
+        blob = await rowsFile(rows, exportFormat);
+      } else if (exportFormat === 'pdf') {
+        fileName = exportFileName(exportType, start, end);
+        rowsCount = transactions.length;
+        blob = buildPdfReport({
+          exportType,
+          company: { name: company.name, document: company.document },
+          start,
+          end,
+          transactions,
+          competenceTransactions: competence,
+        });
+      } else if (exportFormat === 'xlsx' && exportType === 'full_report') {
+        fileName = exportFileName(exportType, start, end);
+        rowsCount = transactions.length;
+        blob = await workbookToBlob(buildFullReportWorkbook(transactions, competence, company.name));
+      } else {
+        const data = buildExportRows(exportType, transactions, competence);
+        fileName = exportFileName(exportType, start, end);
+        rowsCount = data.length;
+        blob = await rowsFile(data, exportFormat);
       }
 
-      await downloadFile(data, fileName, exportFormat);
+      downloadBlob(blob, `${fileName}.${extension}`);
 
-      await supabase.from('export_history').insert({
-        user_id: user?.id,
-        company_id: company.id,
-        file_name: `${fileName}.${exportFormat}`,
+      const { error: recordError, stored } = await recordExport(blob, {
+        file_name: `${fileName}.${extension}`,
         format: exportFormat,
-        export_type: exportType,
-        period_start: start.toISOString().split('T')[0],
-        period_end: end.toISOString().split('T')[0],
+        export_type: recordedType,
+        period_start: range.start,
+        period_end: range.end,
+        template_id: template?.id ?? null,
+        template_snapshot: template ? templateSnapshot(template) : null,
       });
 
-      await createAlert('export_completed', `Exportação concluída - Formato ${exportFormat.toUpperCase()}`, {
-        file_name: `${fileName}.${exportFormat}`,
+      if (recordError) {
+        console.error('Error recording export:', recordError);
+      }
+
+      await createAlert('export_completed', `Exportação concluída - Formato ${EXPORT_FORMAT_LABELS[exportFormat]}`, {
+        file_name: `${fileName}.${extension}`,
         format: exportFormat,
-        export_type: exportType,
-        rows_count: data.length,
+        export_type: recordedType,
+        rows_count: rowsCount,
       });
 
       toast({
         title: 'Sucesso',
-        description: 'Exportação realizada com sucesso!',
+        description: stored
+          ? 'Exportação realizada com sucesso! O arquivo ficou guardado no histórico.'
+          : canEdit
+            ? 'Exportação realizada, mas o arquivo não pôde ser guardado no histórico.'
+            : 'Exportação realizada com sucesso!',
       });
-
-      fetchExportHistory();
     } catch (error) {
       console.error('Error exporting data:', error);
       toast({
@@ -345,19 +473,100 @@ export default function Export() {
       });
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
-  const getExportTypeLabel = (type: string) => {
-    switch (type) {
-      case 'transactions': return 'Transações';
-      case 'monthly_summary': return 'Resumo Mensal';
-      case 'category_summary': return 'Por Categoria';
-      case 'full_report': return 'Relatório Completo';
-      default: return type;
+  // Layouts contábeis, OFX e QIF sempre exportam as transações
+  /**
+   * Trilha de auditoria e alertas para auditores externos. Só admins leem o audit_log; o arquivo
+   * é entregue depois de registrado no histórico, o que também o grava na própria auditoria.
+   */
+  const handleAuditExport = async () => {
+    if (!company || !isAdmin) return;
+
+    setLoading(true);
+    try {
+      const trail = await fetchAuditTrail(range);
+      setProgress(null);
+      if (!trail || !confirmCapped(trail.entries, 'linhas de auditoria') || !confirmCapped(trail.alerts, 'linhas de alertas')) return;
+
+      const { timeZone } = companyPeriodSettings(company);
+      const entries = filterByPeriod(trail.entries.rows, range, timeZone);
+      const alerts = filterByPeriod(trail.alerts.rows, range, timeZone);
+      const userNames = await fetchUserNames([...entries.map(e => e.user_id), ...alerts.map(a => a.user_id)]);
+      const auditRows = formatAuditRows(entries, userNames, timeZone);
+      const alertRows = formatAlertRows(alerts, userNames, timeZone);
+      const start = toLocalDate(range.start);
+      const end = toLocalDate(range.end);
+
+      let blob: Blob;
+      if (exportFormat === 'pdf') {
+        blob = buildAuditPdf({
+          company: { name: company.name, document: company.document },
+          start,
+          end,
+          auditRows,
+          alertRows,
+        });
+      } else if (exportFormat === 'csv') {
+        blob = rowsToCsvBlob(buildAuditTrailRows(entries, alerts, userNames, timeZone));
+      } else {
+        blob = await workbookToBlob(buildAuditWorkbook(auditRows, alertRows, company.name));
+      }
+
+      const fileName = `${exportFileName('audit_trail', start, end)}.${exportFormat}`;
+      const { error: recordError, stored } = await recordExport(blob, {
+        file_name: fileName,
+        format: exportFormat,
+        export_type: 'audit_trail',
+        period_start: range.start,
+        period_end: range.end,
+        template_id: null,
+        template_snapshot: null,
+      });
+
+      if (recordError) {
+        console.error('Error recording audit export:', recordError);
+        toast({
+          title: 'Erro',
+          description: 'Não foi possível registrar a exportação na trilha de auditoria.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      downloadBlob(blob, fileName);
+
+      await createAlert('export_completed', `Exportação da trilha de auditoria - Formato ${EXPORT_FORMAT_LABELS[exportFormat]}`, {
+        file_name: fileName,
+        format: exportFormat,
+        export_type: 'audit_trail',
+        rows_count: auditRows.length + alertRows.length,
+      });
+
+      toast({
+        title: 'Sucesso',
+        description: stored
+          ? `${auditRows.length} registros de auditoria e ${alertRows.length} alertas exportados.`
+          : 'Exportação realizada, mas o arquivo não pôde ser guardado no histórico.',
+      });
+    } catch (error) {
+      console.error('Error exporting audit trail:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível exportar a trilha de auditoria.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+      setProgress(null);
     }
   };
 
+  const isTransactionsOnlyFormat = exportFormat in ACCOUNTING_LAYOUTS || exportFormat in INTERCHANGE_FORMATS;
+  const isAuditTrail = exportType === 'audit_trail' && !isTransactionsOnlyFormat;
+
   if (!company) {
     return (
       <div className="p-6 lg:p-8">
@@ -380,7 +589,7 @@ export default function Export() {
           Exportar Dados
         </h1>
         <p className="text-muted-foreground">
-          Exporte relatórios em CSV e XLSX
+          Exporte relatórios em CSV, XLSX e PDF, lançamentos para o seu contador ou extratos OFX e QIF
         </p>
       </div>
 
@@ -396,58 +605,89 @@ export default function Export() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Período</Label>
-                <Select value={periodType} onValueChange={(v) => setPeriodType(v as PeriodType)}>
-                  <SelectTrigger>
-                    <Calendar className="h-4 w-4 mr-2" />
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="today">Hoje</SelectItem>
-                    <SelectItem value="week">Esta Semana</SelectItem>
-                    <SelectItem value="month">Este Mês</SelectItem>
-                    <SelectItem value="quarter">Último Trimestre</SelectItem>
-                    <SelectItem value="year">Este Ano</SelectItem>
-                    <SelectItem value="custom">Personalizado</SelectItem>
-                  </SelectContent>
-                </Select>
+                <PeriodPicker value={period} onChange={setPeriod} range={range} />
               </div>
 
               <div className="space-y-2">
                 <Label>Tipo de Exportação</Label>
-                <Select value={exportType} onValueChange={(v) => setExportType(v as ExportType)}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="transactions">Transações Brutas</SelectItem>
-                    <SelectItem value="monthly_summary">Resumo Mensal</SelectItem>
-                    <SelectItem value="category_summary">Resumo por Categoria</SelectItem>
-                    <SelectItem value="full_report">Relatório Completo</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
-
-            {periodType === 'custom' && (
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label>Data Inicial</Label>
-                  <Input
-                    type="date"
-                    value={customStartDate}
-                    onChange={(e) => setCustomStartDate(e.target.value)}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label>Data Final</Label>
-                  <Input
-                    type="date"
-                    value={customEndDate}
-                    onChange={(e) => setCustomEndDate(e.target.value)}
-                  />
+                <div className="flex gap-2">
+                  <Select
+                    value={
+                      isTransactionsOnlyFormat
+                        ? 'transactions'
+                        : selectedTemplate ? `${TEMPLATE_PREFIX}${selectedTemplate.id}` : exportType
+                    }
+                    onValueChange={handleTypeChange}
+                    disabled={isTransactionsOnlyFormat}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="transactions">Transações Brutas</SelectItem>
+                      <SelectItem value="monthly_summary">Resumo Mensal</SelectItem>
+                      <SelectItem value="category_summary">Resumo por Categoria</SelectItem>
+                      <SelectItem value="full_report">Relatório Completo</SelectItem>
+                      {isAdmin && (
+                        <SelectItem value="audit_trail">Trilha de Auditoria e Alertas</SelectItem>
+                      )}
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={`${TEMPLATE_PREFIX}${template.id}`}>
+                          Modelo: {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {canEdit && !isTransactionsOnlyFormat && (
+                    <>
+                      {selectedTemplate && (
+                        <>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            title="Editar modelo"
+                            onClick={() => {
+                              setEditingTemplate(selectedTemplate);
+                              setTemplateDialogOpen(true);
+                            }}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            title="Excluir modelo"
+                            onClick={handleDeleteTemplate}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        title="Novo modelo"
+                        onClick={() => {
+                          setEditingTemplate(null);
+                          setTemplateDialogOpen(true);
+                        }}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
                 </div>
+                {isAuditTrail && (
+                  <p className="text-xs text-muted-foreground">
+                    Alterações registradas (ação, tabela, registro, usuário e valores antes/depois) e
+                    alertas do período. A exportação também fica registrada na auditoria.
+                  </p>
+                )}
               </div>
-            )}
+            </div>
 
             <div className="space-y-2">
               <Label>Formato</Label>
@@ -470,11 +710,107 @@ export default function Export() {
                   <FileText className="h-4 w-4" />
                   CSV
                 </Button>
+                <Button
+                  type="button"
+                  variant={exportFormat === 'pdf' ? 'default' : 'outline'}
+                  onClick={() => setExportFormat('pdf')}
+                  className="gap-2"
+                  disabled={!!selectedTemplate}
+                >
+                  <FileType className="h-4 w-4" />
+                  PDF
+                </Button>
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Exportação Contábil</Label>
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(ACCOUNTING_LAYOUTS) as AccountingLayout[]).map(layout => (
+                  <Button
+                    key={layout}
+                    type="button"
+                    variant={exportFormat === layout ? 'default' : 'outline'}
+                    onClick={() => {
+                      setExportFormat(layout);
+                      setSelectedTemplateId(null);
+                    }}
+                    className="gap-2"
+                    title={ACCOUNTING_LAYOUTS[layout].description}
+                  >
+                    <BookOpen className="h-4 w-4" />
+                    {ACCOUNTING_LAYOUTS[layout].label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Lançamentos de partidas dobradas usando a conta contábil de cada categoria e a conta
+                de caixa/bancos definida em Configurações
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Outros Aplicativos Financeiros</Label>
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(INTERCHANGE_FORMATS) as InterchangeFormat[]).map(interchange => (
+                  <Button
+                    key={interchange}
+                    type="button"
+                    variant={exportFormat === interchange ? 'default' : 'outline'}
+                    onClick={() => {
+                      setExportFormat(interchange);
+                      setSelectedTemplateId(null);
+                    }}
+                    className="gap-2"
+                    title={INTERCHANGE_FORMATS[interchange].description}
+                  >
+                    <ArrowLeftRight className="h-4 w-4" />
+                    {INTERCHANGE_FORMATS[interchange].label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Transações do período com valor positivo para receitas e negativo para despesas. O OFX
+                pode ser importado de volta sem duplicar as transações existentes
+              </p>
+            </div>
+
+            {accountingIssues && (
+              <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-4 space-y-3">
+                <div className="flex items-center gap-2 text-destructive font-medium">
+                  <AlertCircle className="h-4 w-4" />
+                  Mapeamento contábil incompleto
+                </div>
+                {accountingIssues.missingCashAccount && (
+                  <p className="text-sm">
+                    Defina a conta contábil de caixa/bancos em{' '}
+                    <Link to="/settings" className="underline">Configurações</Link>.
+                  </p>
+                )}
+                {accountingIssues.unmapped.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm">
+                      Transações do período sem conta contábil — defina a conta em{' '}
+                      <Link to="/categories" className="underline">Categorias</Link>
+                      {accountingIssues.unmapped.some(c => c.name === UNCATEGORIZED_LABEL) && ' e categorize as transações sem categoria'}:
+                    </p>
+                    <ul className="text-sm space-y-1">
+                      {accountingIssues.unmapped.map(category => (
+                        <li key={category.name} className="flex justify-between gap-4">
+                          <span>{category.name}</span>
+                          <span className="text-muted-foreground">
+                            {category.count} {category.count === 1 ? 'transação' : 'transações'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
             <Button
-              onClick={handleExport}
+              onClick={isAuditTrail ? handleAuditExport : handleExport}
               disabled={loading}
               className="w-full gap-2"
               size="lg"
@@ -482,6 +818,16 @@ export default function Export() {
               <Download className="h-5 w-5" />
               {loading ? 'Exportando...' : 'Exportar Dados'}
             </Button>
+
+            {progress && (
+              <div className="space-y-2">
+                <Progress value={progress.total ? (progress.loaded / progress.total) * 100 : 0} />
+                <p className="text-sm text-muted-foreground text-center">
+                  Lendo {progress.loaded.toLocaleString('pt-BR')}
+                  {progress.total !== null && ` de ${progress.total.toLocaleString('pt-BR')}`} {progress.label}
+                </p>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -514,23 +860,151 @@ export default function Export() {
                           {item.file_name}
                         </span>
                       </div>
-                      <Badge variant="outline" className="text-xs">
-                        {item.format.toUpperCase()}
-                      </Badge>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="outline" className="text-xs">
+                          {EXPORT_FORMAT_LABELS[item.format as ExportFormat] || item.format.toUpperCase()}
+                        </Badge>
+                        <ExportDownloadButton item={item} download={downloadExport} />
+                      </div>
                     </div>
                     <div className="flex items-center justify-between text-xs text-muted-foreground">
-                      <span>{getExportTypeLabel(item.export_type)}</span>
+                      <span>{exportHistoryTypeLabel(item)}</span>
                       <span>
                         {format(new Date(item.created_at), "dd/MM/yy HH:mm")}
                       </span>
                     </div>
                   </div>
                 ))}
+                <Button variant="ghost" size="sm" className="w-full gap-2" asChild>
+                  <Link to="/export/history">
+                    <History className="h-4 w-4" />
+                    Ver histórico completo
+                  </Link>
+                </Button>
               </div>
             )}
           </CardContent>
         </Card>
       </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Exportações Agendadas
+            </CardTitle>
+            <CardDescription>
+              Geradas automaticamente, guardadas no histórico e enviadas por e-mail
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => {
+                setEditingSchedule(null);
+                setScheduleDialogOpen(true);
+              }}
+            >
+              <Plus className="h-4 w-4" />
+              Novo agendamento
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {schedules.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              Nenhuma exportação agendada.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {schedules.map((schedule) => (
+                <div
+                  key={schedule.id}
+                  className="p-4 rounded-lg bg-muted/50 flex flex-col md:flex-row md:items-center gap-4"
+                >
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{schedule.name}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {EXPORT_FORMAT_LABELS[schedule.format]}
+                      </Badge>
+                      {schedule.lastStatus === 'error' && (
+                        <Badge variant="destructive" className="text-xs">Falhou</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {getScheduleTypeLabel(schedule)} · {SCHEDULE_PERIODS[schedule.period]} · {describeRecurrence(schedule)}
+                    </p>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                      <span>
+                        {schedule.isActive
+                          ? `Próxima execução: ${formatScheduleTime(schedule.nextRunAt, companyTimeZone)}`
+                          : 'Pausado'}
+                      </span>
+                      {schedule.lastRunAt && (
+                        <span>Última: {formatScheduleTime(schedule.lastRunAt, companyTimeZone)}</span>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <Mail className="h-3 w-3" />
+                        {schedule.recipients.length > 0 ? schedule.recipients.join(', ') : 'Sem destinatários'}
+                      </span>
+                    </div>
+                    {schedule.lastStatus === 'error' && schedule.lastError && (
+                      <p className="text-xs text-destructive">{schedule.lastError}</p>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={schedule.isActive}
+                        onCheckedChange={() => handleToggleSchedule(schedule)}
+                        aria-label={schedule.isActive ? 'Pausar agendamento' : 'Ativar agendamento'}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Editar agendamento"
+                        onClick={() => {
+                          setEditingSchedule(schedule);
+                          setScheduleDialogOpen(true);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Excluir agendamento"
+                        onClick={() => handleDeleteSchedule(schedule)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ExportScheduleDialog
+        open={scheduleDialogOpen}
+        schedule={editingSchedule}
+        templates={templates}
+        onClose={() => setScheduleDialogOpen(false)}
+        onSave={handleSaveSchedule}
+      />
+
+      <ExportTemplateDialog
+        open={templateDialogOpen}
+        template={editingTemplate}
+        categories={categories}
+        onClose={() => setTemplateDialogOpen(false)}
+        onSave={handleSaveTemplate}
+      />
     </div>
   );
 }
@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, Clock, Copy, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useExportHistory } from '@/hooks/useExportHistory';
+import { ExportDownloadButton } from '@/components/export/ExportDownloadButton';
+import { EXPORT_FORMAT_LABELS, ExportFormat } from '@/lib/export/reports';
+import { exportHistoryTypeLabel, formatFileSize, isExportAvailable } from '@/lib/export/history';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+const PAGE_SIZE = 20;
+
+const formatDay = (day: string | null) => day ? day.split('-').reverse().join('/') : '-';
+
+export default function ExportHistory() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [page, setPage] = useState(0);
+  const [filterFormat, setFilterFormat] = useState('all');
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+
+  const { items, total, loading, downloadExport } = useExportHistory({
+    page,
+    pageSize: PAGE_SIZE,
+    format: filterFormat,
+  });
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  useEffect(() => {
+    setPage(0);
+  }, [filterFormat]);
+
+  // Nome de quem exportou (ou criou o agendamento)
+  useEffect(() => {
+    const missing = [...new Set(items.map(i => i.user_id))].filter(id => !userNames[id]);
+    if (missing.length === 0) return;
+
+    supabase
+      .from('profiles')
+      .select('user_id, full_name')
+      .in('user_id', missing)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching profiles:', error);
+          return;
+        }
+        // Usuários sem perfil também entram, para não buscar de novo
+        setUserNames(names => ({
+          ...names,
+          ...Object.fromEntries(missing.map(id => [id, 'Usuário'])),
+          ...Object.fromEntries((data || []).map(p => [p.user_id, p.full_name || 'Usuário'])),
+        }));
+      });
+  }, [items, userNames]);
+
+  const handleCopyChecksum = async (checksum: string) => {
+    try {
+      await navigator.clipboard.writeText(checksum);
+      toast({ title: 'Checksum copiado', description: checksum });
+    } catch {
+      toast({ title: 'Erro', description: 'Não foi possível copiar o checksum.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground">
+            Histórico de Exportações
+          </h1>
+          <p className="text-muted-foreground">
+            Baixe novamente os arquivos exportados e confira o checksum do que foi enviado
+          </p>
+        </div>
+        <Button variant="outline" className="gap-2" onClick={() => navigate('/export')}>
+          <ArrowLeft className="h-4 w-4" />
+          Nova exportação
+        </Button>
+      </div>
+
+      <Card className="p-4">
+        <Select value={filterFormat} onValueChange={setFilterFormat}>
+          <SelectTrigger className="w-full sm:w-[220px]">
+            <SelectValue placeholder="Formato" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os formatos</SelectItem>
+            {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </Card>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Arquivo</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Período</TableHead>
+                <TableHead>Exportado por</TableHead>
+                <TableHead className="text-right">Tamanho</TableHead>
+                <TableHead>Checksum (SHA-256)</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8">
+                    Carregando...
+                  </TableCell>
+                </TableRow>
+              ) : items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    <History className="h-8 w-8 mx-auto mb-2" />
+                    Nenhuma exportação encontrada
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium max-w-[260px]">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate">{item.file_name}</span>
+                        <Badge variant="outline" className="text-xs shrink-0">
+                          {EXPORT_FORMAT_LABELS[item.format as ExportFormat] || item.format.toUpperCase()}
+                        </Badge>
+                      </div>
+                      <span className="block text-xs text-muted-foreground font-normal">
+                        {isExportAvailable(item)
+                          ? item.expires_at && `Disponível até ${format(new Date(item.expires_at), 'dd/MM/yyyy')}`
+                          : item.expires_at ? 'Arquivo removido pela retenção' : 'Arquivo não guardado'}
+                      </span>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(item.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                    </TableCell>
+                    <TableCell>
+                      {exportHistoryTypeLabel(item)}
+                      {item.schedule_id && (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Clock className="h-3 w-3" />
+                          Agendada
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDay(item.period_start)} a {formatDay(item.period_end)}
+                    </TableCell>
+                    <TableCell>{userNames[item.user_id] || '-'}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatFileSize(item.file_size)}</TableCell>
+                    <TableCell>
+                      {item.checksum ? (
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 font-mono text-xs text-muted-foreground hover:text-foreground"
+                          title={item.checksum}
+                          onClick={() => handleCopyChecksum(item.checksum!)}
+                        >
+                          {item.checksum.slice(0, 12)}…
+                          <Copy className="h-3 w-3" />
+                        </button>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <ExportDownloadButton item={item} download={downloadExport} />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-end gap-2 p-4 text-sm border-t">
+            <span className="text-muted-foreground">
+              Página {page + 1} de {pageCount} ({total} exportações)
+            </span>
+            <Button variant="outline" size="icon" disabled={page === 0} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
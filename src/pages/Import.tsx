@@ -1,8 +1,12 @@
-import { useState, useRef, useEffect } from 'react';
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, X, Loader2 } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, X, Loader2, Undo2, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
 import {
   Select,
   SelectContent,
@@ -23,65 +27,185 @@ import { useAuth } from '@/hooks/useAuth';
 import { useCompany } from '@/hooks/useCompany';
 import { supabase } from '@/integrations/supabase/client';
 import { useAlerts } from '@/hooks/useAlerts';
-import ExcelJS from 'exceljs';
+import { useImportProfiles } from '@/hooks/useImportProfiles';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useTransfers } from '@/hooks/useTransfers';
+import { ImportProfileBar } from '@/components/import/ImportProfileBar';
+import { ImportReviewTable, ReviewTransfer } from '@/components/import/ImportReviewTable';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { ImportStatusBadge } from '@/components/import/ImportStatusBadge';
+import { RevertImportDialog } from '@/components/import/RevertImportDialog';
+import { useImportHistory, ImportHistoryItem } from '@/hooks/useImportHistory';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-
-interface ColumnMapping {
-  date: string;
-  description: string;
-  amount: string;
-  category: string;
-  taxAmount: string;
-  productCost: string;
+import { decodeText } from '@/lib/import/encoding';
+import { isOFX, parseOFX, ofxToEntries, exportedTransactionId } from '@/lib/import/ofx';
+import { isNFeFile, readNFeSources, nfeSourcesToEntries } from '@/lib/import/nfe';
+import { detectMarketplaceReport, marketplaceReportToEntries, MarketplaceReport } from '@/lib/import/marketplace';
+import { hasCnabExtension, isCnabFile, parseCnab, cnabToEntries, CnabNotice } from '@/lib/import/cnab';
+import { WorksheetData, detectHeaderRow, readWorksheets, stripFooterRows, toTabular } from '@/lib/import/spreadsheet';
+import type { DateFormat, DecimalSeparator } from '@/lib/import/values';
+import {
+  ColumnMapping,
+  EMPTY_MAPPING,
+  DEFAULT_IMPORT_SETTINGS,
+  ImportSettings,
+  SignConvention,
+  sanitizeMapping,
+  suggestMapping,
+} from '@/lib/import/mapping';
+import {
+  DuplicateContext,
+  ExistingTransaction,
+  ReviewRow,
+  RowFields,
+  buildReviewRows,
+  entriesToReviewRows,
+  findReviewTransfers,
+  flagDuplicate,
+  isAccepted,
+  resolveCategory,
+  reviewDateRange,
+  reviseRow,
+} from '@/lib/import/review';
+import {
+  FailedRowDetail,
+  canRevertImport,
+  failedRowsToReviewRows,
+  generalError,
+  parseErrorDetails,
+  parseImportSettings,
+  toFailedRow,
+} from '@/lib/import/history';
+import type { ImportEntry } from '@/lib/import/types';
+import type { TransferCandidate } from '@/lib/transfers';
+
+interface Category {
+  id: string;
+  name: string;
+  color: string;
 }
 
-interface ImportHistoryItem {
-  id: string;
-  file_name: string;
-  rows_imported: number;
-  rows_failed: number;
-  status: string;
-  created_at: string;
+interface ImportProgress {
+  done: number;
+  total: number;
 }
 
+// Linhas por requisição de gravação
+const BATCH_SIZE = 500;
+
+const NONE_VALUE = '__none__';
+
+const MAPPING_FIELDS: { field: keyof ColumnMapping; label: string; required: boolean }[] = [
+  { field: 'date', label: 'Data', required: true },
+  { field: 'description', label: 'Descrição', required: true },
+  { field: 'amount', label: 'Valor', required: true },
+  { field: 'category', label: 'Categoria', required: false },
+  { field: 'taxAmount', label: 'Imposto', required: false },
+  { field: 'productCost', label: 'Custo do Produto', required: false },
+];
+
 export default function Import() {
   const { user } = useAuth();
   const { company, canEdit } = useCompany();
   const { toast } = useToast();
-  const { createAlert, checkDuplicates } = useAlerts();
+  const { createAlert } = useAlerts();
+  const { profiles, findMatchingProfile, saveProfile, deleteProfile } = useImportProfiles();
+  const { accounts, activeAccounts } = useAccounts();
+  const { linkTransfer } = useTransfers();
+  const { items: importHistory, refetch: fetchHistory, fetchImport, revertImport } = useImportHistory({ pageSize: 5 });
+  const location = useLocation();
+  const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [file, setFile] = useState<File | null>(null);
-  const [headers, setHeaders] = useState<string[]>([]);
-  const [previewData, setPreviewData] = useState<any[]>([]);
-  const [mapping, setMapping] = useState<ColumnMapping>({
-    date: '',
-    description: '',
-    amount: '',
-    category: '',
-    taxAmount: '',
-    productCost: '',
-  });
+  // Lote cujas linhas com falha estão sendo reprocessadas (sem arquivo)
+  const [retryOf, setRetryOf] = useState<ImportHistoryItem | null>(null);
+  // Todas as linhas do arquivo, incluindo as que antecedem o cabeçalho
+  const [sheets, setSheets] = useState<WorksheetData[]>([]);
+  // Abas importadas com o mesmo mapeamento; a primeira define cabeçalho e prévia
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  // Lançamentos já normalizados (OFX), que dispensam o mapeamento de colunas
+  const [parsedEntries, setParsedEntries] = useState<ImportEntry[] | null>(null);
+  // Itens descartados antes da revisão (XMLs que não são NF-e da empresa, pedidos ilegíveis de marketplace)
+  const [rejectedItems, setRejectedItems] = useState<FailedRowDetail[]>([]);
+  // Títulos rejeitados ou baixados do retorno CNAB, registrados como alertas ao importar
+  const [titleNotices, setTitleNotices] = useState<CnabNotice[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [settings, setSettings] = useState<ImportSettings>(DEFAULT_IMPORT_SETTINGS);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  const [suggestedProfileId, setSuggestedProfileId] = useState<string | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  // Simulação completa da importação, revisada antes de gravar
+  const [reviewRows, setReviewRows] = useState<ReviewRow[]>([]);
+  const [duplicateContext, setDuplicateContext] = useState<DuplicateContext | null>(null);
+  // Prováveis transferências que o usuário preferiu importar como lançamento comum
+  const [unlinkedTransfers, setUnlinkedTransfers] = useState<Set<number>>(new Set());
+  const [reviewing, setReviewing] = useState(false);
   const [importing, setImporting] = useState(false);
-  const [importHistory, setImportHistory] = useState<ImportHistoryItem[]>([]);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [revertTarget, setRevertTarget] = useState<ImportHistoryItem | null>(null);
   const [step, setStep] = useState<'upload' | 'mapping' | 'preview'>('upload');
 
+  const activeSheets = useMemo(
+    () => sheets.filter(s => selectedSheets.includes(s.name)),
+    [sheets, selectedSheets]
+  );
+  const rawData = useMemo(() => activeSheets[0]?.rows ?? [], [activeSheets]);
+
+  const { headers, rows, footerRows } = useMemo(() => {
+    const tabular = toTabular(rawData, settings.headerRow);
+    const { rows, skipped } = stripFooterRows(tabular.rows);
+    return { headers: tabular.headers, rows, footerRows: skipped };
+  }, [rawData, settings.headerRow]);
+
+  const retryImportId = (location.state as { retryImportId?: string } | null)?.retryImportId;
+
   useEffect(() => {
     if (user && company) {
-      fetchHistory();
+      if (retryImportId) {
+        loadRetry(retryImportId);
+      } else {
+        fetchCategories();
+      }
     }
-  }, [user, company]);
+  }, [user, company, retryImportId]);
 
-  const fetchHistory = async () => {
-    if (!company) return;
+  const fetchCategories = async (): Promise<Category[]> => {
+    if (!company) return [];
     const { data } = await supabase
-      .from('import_history')
-      .select('*')
+      .from('categories')
+      .select('id, name, color')
       .eq('company_id', company.id)
-      .order('created_at', { ascending: false })
-      .limit(5);
-    if (data) setImportHistory(data);
+      .order('name');
+    if (data) setCategories(data);
+    return data || [];
+  };
+
+  /**
+   * Reabre na revisão as linhas que falharam em um lote do histórico
+   */
+  const loadRetry = async (importId: string) => {
+    // Limpa o estado da navegação para não reprocessar de novo ao recarregar
+    navigate(location.pathname, { replace: true, state: null });
+
+    const [item, categoryList] = await Promise.all([fetchImport(importId), fetchCategories()]);
+    const itemSettings = parseImportSettings(item?.settings ?? null);
+    const retryRows = item ? failedRowsToReviewRows(parseErrorDetails(item.error_details), itemSettings) : [];
+
+    if (!item || retryRows.length === 0) {
+      toast({
+        title: 'Nada para reprocessar',
+        description: 'Esta importação não tem linhas com falha que possam ser reprocessadas.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    resetImport();
+    setRetryOf(item);
+    setSettings(itemSettings);
+    await startReview(retryRows, categoryList);
   };
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -92,58 +216,168 @@ export default function Import() {
       'text/csv',
       'application/vnd.ms-excel',
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/x-ofx',
+      'application/xml',
+      'text/xml',
+      'application/zip',
+      'application/x-zip-compressed',
+      'text/plain',
     ];
+    const fileName = selectedFile.name.toLowerCase();
 
     if (!validTypes.includes(selectedFile.type) && 
-        !selectedFile.name.endsWith('.csv') && 
-        !selectedFile.name.endsWith('.xlsx') &&
-        !selectedFile.name.endsWith('.xls')) {
+        !fileName.endsWith('.csv') && 
+        !fileName.endsWith('.tsv') &&
+        !fileName.endsWith('.xlsx') &&
+        !fileName.endsWith('.xls') &&
+        !fileName.endsWith('.ofx') &&
+        !isNFeFile(selectedFile) &&
+        !hasCnabExtension(selectedFile)) {
       toast({
         title: 'Formato inválido',
-        description: 'Por favor, selecione um arquivo CSV ou XLSX.',
+        description: 'Por favor, selecione um arquivo CSV, XLSX, OFX, retorno CNAB, XML de NF-e ou ZIP de XMLs.',
         variant: 'destructive',
       });
       return;
     }
 
     setFile(selectedFile);
-    await parseFile(selectedFile);
+    if (fileName.endsWith('.ofx')) {
+      await parseOFXFile(selectedFile);
+    } else if (isNFeFile(selectedFile)) {
+      await parseNFeFile(selectedFile);
+    } else if (await isCnabFile(selectedFile)) {
+      await parseCnabFile(selectedFile);
+    } else {
+      await parseFile(selectedFile);
+    }
   };
 
-  const parseFile = async (file: File) => {
+  const parseOFXFile = async (file: File) => {
     try {
-      const workbook = new ExcelJS.Workbook();
-      const arrayBuffer = await file.arrayBuffer();
-      
-      if (file.name.endsWith('.csv')) {
-        const text = await file.text();
-        const lines = text.split('\n').filter(line => line.trim());
-        const worksheet = workbook.addWorksheet('Sheet1');
-        lines.forEach(line => {
-          const values = line.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-          worksheet.addRow(values);
+      const text = decodeText(await file.arrayBuffer());
+      if (!isOFX(text)) throw new Error('Cabeçalho OFX não encontrado');
+
+      const entries = ofxToEntries(parseOFX(text));
+      if (entries.length === 0) {
+        toast({
+          title: 'Arquivo vazio',
+          description: 'O extrato não contém lançamentos.',
+          variant: 'destructive',
         });
-      } else {
-        await workbook.xlsx.load(arrayBuffer);
+        return;
       }
 
-      const worksheet = workbook.worksheets[0];
-      if (!worksheet) {
+      setParsedEntries(entries);
+      await startReview(entriesToReviewRows(entries, DEFAULT_IMPORT_SETTINGS));
+    } catch (error) {
+      console.error('Error parsing OFX file:', error);
+      toast({
+        title: 'Erro ao ler arquivo',
+        description: 'Não foi possível processar o extrato OFX selecionado.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const parseNFeFile = async (file: File) => {
+    if (!company?.document) {
+      toast({
+        title: 'CNPJ não cadastrado',
+        description: 'Cadastre o CNPJ da empresa para identificar notas de entrada e saída.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const sources = await readNFeSources(file);
+      const { entries, labels, rejected } = nfeSourcesToEntries(sources, company.document);
+
+      if (entries.length === 0) {
         toast({
-          title: 'Arquivo vazio',
-          description: 'O arquivo não contém planilhas.',
+          title: 'Nenhuma NF-e válida',
+          description: rejected[0]
+            ? `${rejected[0].fileName}: ${rejected[0].error}`
+            : 'O arquivo ZIP não contém XMLs.',
           variant: 'destructive',
         });
         return;
       }
 
-      const jsonData: any[][] = [];
-      worksheet.eachRow((row, rowNumber) => {
-        const rowValues = row.values as any[];
-        jsonData.push(rowValues.slice(1));
+      setParsedEntries(entries);
+      setRejectedItems(rejected.map(r => ({ label: r.fileName, values: null, error: r.error })));
+      await startReview(entriesToReviewRows(entries, DEFAULT_IMPORT_SETTINGS, labels));
+    } catch (error) {
+      console.error('Error parsing NF-e file:', error);
+      toast({
+        title: 'Erro ao ler arquivo',
+        description: 'Não foi possível processar o XML ou ZIP selecionado.',
+        variant: 'destructive',
       });
+    }
+  };
+
+  const parseCnabFile = async (file: File) => {
+    try {
+      const cnab = parseCnab(decodeText(await file.arrayBuffer()));
+      const { entries, labels, notices, errors } = cnabToEntries(cnab);
+      const lineErrors = [...cnab.errors, ...errors];
 
-      if (jsonData.length < 2) {
+      if (entries.length === 0 && notices.length === 0) {
+        toast({
+          title: 'Nenhum título para importar',
+          description: lineErrors[0]
+            ? `${lineErrors[0].label}: ${lineErrors[0].error}`
+            : 'O retorno não contém títulos liquidados, rejeitados ou baixados.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setParsedEntries(entries);
+      setRejectedItems(lineErrors.map(e => ({ label: e.label, values: null, error: e.error })));
+      setTitleNotices(notices);
+      await startReview(entriesToReviewRows(entries, DEFAULT_IMPORT_SETTINGS, labels));
+    } catch (error) {
+      console.error('Error parsing CNAB file:', error);
+      toast({
+        title: 'Erro ao ler arquivo',
+        description: (error as Error).message || 'Não foi possível processar o arquivo de retorno.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const parseMarketplaceReport = async (data: unknown[][], report: MarketplaceReport) => {
+    const { entries, labels, rejected, cancelled } = marketplaceReportToEntries(data, report);
+
+    if (entries.length === 0) {
+      toast({
+        title: 'Nenhum pedido para importar',
+        description: rejected[0]
+          ? `${rejected[0].label}: ${rejected[0].error}`
+          : `O relatório do ${report.layout.name} não contém pedidos com repasse.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: `Relatório do ${report.layout.name} reconhecido`,
+      description: `Cada pedido foi separado em venda, comissão, frete e tarifas${cancelled > 0 ? `; ${cancelled} cancelados foram ignorados` : ''}.`,
+    });
+
+    setParsedEntries(entries);
+    setRejectedItems(rejected.map(r => ({ label: r.label, values: null, error: r.error })));
+    await startReview(entriesToReviewRows(entries, DEFAULT_IMPORT_SETTINGS, labels));
+  };
+
+  const parseFile = async (file: File) => {
+    try {
+      const workbook = (await readWorksheets(file)).filter(sheet => sheet.rows.length >= 2);
+
+      if (workbook.length === 0) {
         toast({
           title: 'Arquivo vazio',
           description: 'O arquivo não contém dados suficientes.',
@@ -152,11 +386,33 @@ export default function Import() {
         return;
       }
 
-      const headerRow = jsonData[0].map(h => String(h || ''));
-      const dataRows = jsonData.slice(1, 6);
+      // Relatórios de repasse conhecidos dispensam o mapeamento de colunas
+      for (const sheet of workbook) {
+        const report = detectMarketplaceReport(sheet.rows);
+        if (report) {
+          await parseMarketplaceReport(sheet.rows, report);
+          return;
+        }
+      }
+
+      const data = workbook[0].rows;
+      setSheets(workbook);
+      setSelectedSheets([workbook[0].name]);
+
+      const match = findMatchingProfile(data);
+      if (match) {
+        setSettings(match.profile.settings);
+        setMapping(match.profile.mapping);
+        setSelectedProfileId(match.profile.id);
+        setSuggestedProfileId(match.profile.id);
+      } else {
+        const headerRow = detectHeaderRow(data);
+        setSettings({ ...DEFAULT_IMPORT_SETTINGS, headerRow });
+        setMapping(suggestMapping(toTabular(data, headerRow).headers));
+        setSelectedProfileId(null);
+        setSuggestedProfileId(null);
+      }
 
-      setHeaders(headerRow);
-      setPreviewData(dataRows);
       setStep('mapping');
     } catch (error) {
       console.error('Error parsing file:', error);
@@ -168,6 +424,74 @@ export default function Import() {
     }
   };
 
+  const handleProfileSelect = (profileId: string | null) => {
+    setSelectedProfileId(profileId);
+    const profile = profiles.find(p => p.id === profileId);
+
+    if (profile) {
+      setSettings(profile.settings);
+      setMapping(sanitizeMapping(profile.mapping, toTabular(rawData, profile.settings.headerRow).headers));
+    } else {
+      const headerRow = detectHeaderRow(rawData);
+      setSettings({ ...DEFAULT_IMPORT_SETTINGS, headerRow });
+      setMapping(suggestMapping(toTabular(rawData, headerRow).headers));
+    }
+  };
+
+  const handleProfileSave = async (name: string, profileId?: string) => {
+    const { error, profile } = await saveProfile(name, headers, mapping, settings, profileId);
+
+    if (error || !profile) {
+      toast({
+        title: 'Erro',
+        description: error?.message || 'Não foi possível salvar o perfil.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSelectedProfileId(profile.id);
+    toast({
+      title: 'Perfil salvo',
+      description: `O perfil "${profile.name}" será sugerido para arquivos com este cabeçalho.`,
+    });
+  };
+
+  const handleProfileDelete = async (profileId: string) => {
+    const { error } = await deleteProfile(profileId);
+
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível excluir o perfil.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSelectedProfileId(null);
+    setSuggestedProfileId(prev => prev === profileId ? null : prev);
+  };
+
+  const handleHeaderRowChange = (value: string) => {
+    const headerRow = Math.min(Math.max(parseInt(value) || 1, 1), rawData.length);
+    setSettings(prev => ({ ...prev, headerRow }));
+    // Cabeçalhos mudam com a linha escolhida; refaz a sugestão de colunas
+    setMapping(suggestMapping(toTabular(rawData, headerRow).headers));
+  };
+
+  const handleSheetToggle = (name: string, checked: boolean) => {
+    setSelectedSheets(prev => {
+      const next = checked ? [...prev, name] : prev.filter(n => n !== name);
+      // Ao menos uma aba continua selecionada
+      return next.length > 0 ? next : prev;
+    });
+  };
+
+  const handleSettingChange = <K extends keyof ImportSettings>(key: K, value: ImportSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
   const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
     setMapping(prev => ({ ...prev, [field]: value }));
   };
@@ -186,220 +510,453 @@ export default function Import() {
 
   const proceedToPreview = () => {
     if (!validateMapping()) return;
-    setStep('preview');
-  };
 
-  const parseAmount = (value: any): { amount: number; type: 'income' | 'expense' } => {
-    if (typeof value === 'number') {
-      return {
-        amount: Math.abs(value),
-        type: value >= 0 ? 'income' : 'expense',
-      };
+    const mappedColumns = Object.values(mapping).filter(Boolean);
+    const result: ReviewRow[] = [];
+
+    for (const sheet of activeSheets) {
+      const tabular = toTabular(sheet.rows, settings.headerRow);
+      const missing = mappedColumns.filter(column => !tabular.headers.includes(column));
+      if (missing.length > 0) {
+        toast({
+          title: 'Abas com cabeçalhos diferentes',
+          description: `A aba "${sheet.name}" não tem as colunas ${missing.join(', ')} na linha ${settings.headerRow}.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const sheetRows = buildReviewRows(
+        stripFooterRows(tabular.rows).rows,
+        tabular.headers,
+        mapping,
+        settings,
+        settings.headerRow + 1,
+        activeSheets.length > 1 ? sheet.name : undefined,
+      );
+      const offset = result.length;
+      result.push(...sheetRows.map(row => ({ ...row, index: offset + row.index })));
     }
 
-    const strValue = String(value).replace(/[R$\s]/g, '').replace(',', '.');
-    const numValue = parseFloat(strValue);
-    
-    return {
-      amount: Math.abs(numValue),
-      type: numValue >= 0 ? 'income' : 'expense',
-    };
+    startReview(result);
+  };
+
+  /**
+   * Id da categoria usada na checagem de duplicidade; undefined quando ela ainda será criada
+   */
+  const categoryIdFor = (entry: ImportEntry, categoryList: Category[]): string | null | undefined => {
+    const category = resolveCategory(entry, categoryList);
+    if (!category) return null;
+    return category.isNew ? undefined : category.id;
   };
 
-  const parseDate = (value: any): string => {
-    if (!value) return new Date().toISOString().split('T')[0];
+  const flagRow = (row: ReviewRow, context: DuplicateContext, categoryList = categories) =>
+    flagDuplicate(row, context, row.entry ? categoryIdFor(row.entry, categoryList) : null);
 
-    if (value instanceof Date) {
-      return value.toISOString().split('T')[0];
+  const fetchExistingExternalIds = async (externalIds: string[]): Promise<Set<string>> => {
+    const existing = new Set<string>();
+    if (!company || externalIds.length === 0) return existing;
+
+    // Consulta em lotes para não estourar o tamanho da URL do PostgREST
+    for (let i = 0; i < externalIds.length; i += 200) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('external_id')
+        .eq('company_id', company.id)
+        .in('external_id', externalIds.slice(i, i + 200));
+
+      if (error) throw error;
+      data?.forEach(t => t.external_id && existing.add(t.external_id));
     }
 
-    const strValue = String(value);
-    
-    const brMatch = strValue.match(/(\d{2})\/(\d{2})\/(\d{4})/);
-    if (brMatch) {
-      return `${brMatch[3]}-${brMatch[2]}-${brMatch[1]}`;
+    // OFX exportado por esta empresa: o FITID é o id da transação original
+    const exported = new Map<string, string>();
+    externalIds.forEach(externalId => {
+      const transactionId = exportedTransactionId(externalId);
+      if (transactionId) exported.set(transactionId, externalId);
+    });
+    const exportedIds = [...exported.keys()];
+
+    for (let i = 0; i < exportedIds.length; i += 200) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id')
+        .eq('company_id', company.id)
+        .in('id', exportedIds.slice(i, i + 200));
+
+      if (error) throw error;
+      data?.forEach(t => existing.add(exported.get(t.id)!));
     }
+    return existing;
+  };
+
+  const fetchExistingTransactions = async (range: [string, string] | null): Promise<ExistingTransaction[]> => {
+    const existing: ExistingTransaction[] = [];
+    if (!company || !range) return existing;
+
+    // O PostgREST limita cada resposta a 1000 linhas
+    for (let from = 0; ; from += 1000) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, amount, date, type, category_id, account_id, transfer_id')
+        .eq('company_id', company.id)
+        .gte('date', range[0])
+        .lte('date', range[1])
+        .order('date')
+        .range(from, from + 999);
+
+      if (error) throw error;
+      existing.push(...(data || []));
+      if (!data || data.length < 1000) break;
+    }
+    return existing;
+  };
 
-    const isoMatch = strValue.match(/(\d{4})-(\d{2})-(\d{2})/);
-    if (isoMatch) {
-      return strValue;
+  const startReview = async (initialRows: ReviewRow[], categoryList = categories) => {
+    setReviewing(true);
+    try {
+      const context: DuplicateContext = {
+        knownExternalIds: await fetchExistingExternalIds(
+          initialRows.map(r => r.entry?.externalId).filter((id): id is string => !!id)
+        ),
+        existing: await fetchExistingTransactions(reviewDateRange(initialRows)),
+      };
+
+      setDuplicateContext(context);
+      setUnlinkedTransfers(new Set());
+      setReviewRows(initialRows.map(row => flagRow(row, context, categoryList)));
+      setStep('preview');
+    } catch (error) {
+      console.error('Error reviewing import:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível verificar duplicidades. Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      setReviewing(false);
     }
+  };
+
+  const handleRowFix = (index: number, fields: RowFields) => {
+    setReviewRows(prev => prev.map(row => {
+      if (row.index !== index) return row;
+      const revised = reviseRow(row, fields, settings);
+      return duplicateContext ? flagRow(revised, duplicateContext) : revised;
+    }));
+  };
 
-    return new Date().toISOString().split('T')[0];
+  const handleRowExclude = (index: number, excluded: boolean) => {
+    setReviewRows(prev => prev.map(row => row.index === index ? { ...row, excluded } : row));
   };
 
+  const handleLinkTransfer = (index: number, linked: boolean) => {
+    setUnlinkedTransfers(prev => {
+      const next = new Set(prev);
+      if (linked) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  const acceptedCount = reviewRows.filter(isAccepted).length;
+
+  const sourceName = file?.name ?? retryOf?.file_name ?? '';
+
+  // Conta de um perfil ou lote antigo pode ter sido excluída: cai na conta padrão
+  const importAccountId = accounts.some(a => a.id === settings.accountId) ? settings.accountId : null;
+  const defaultAccount = activeAccounts.find(a => a.is_default);
+  const targetAccountId = importAccountId ?? defaultAccount?.id ?? null;
+
+  // Saída e entrada de mesmo valor em contas diferentes, a poucos dias uma da outra
+  const transferMatches = useMemo(
+    () => duplicateContext
+      ? findReviewTransfers(reviewRows, duplicateContext.existing, targetAccountId)
+      : new Map<number, TransferCandidate>(),
+    [reviewRows, duplicateContext, targetAccountId],
+  );
+  const reviewTransfers = useMemo(() => new Map<number, ReviewTransfer>(
+    [...transferMatches].map(([index, match]) => [index, {
+      accountName: accounts.find(a => a.id === match.account_id)?.name ?? 'outra conta',
+      linked: !unlinkedTransfers.has(index),
+    }])
+  ), [transferMatches, accounts, unlinkedTransfers]);
+  const importAccountSelect = (
+    <AccountSelect
+      accounts={accounts.filter(a => !a.archived || a.id === importAccountId)}
+      value={importAccountId || NONE_VALUE}
+      onChange={(v) => handleSettingChange('accountId', v === NONE_VALUE ? null : v)}
+      emptyOption={{
+        value: NONE_VALUE,
+        label: defaultAccount ? `Conta padrão (${defaultAccount.name})` : 'Conta padrão',
+      }}
+    />
+  );
+
   const handleImport = async () => {
-    if (!file || !user || !company) return;
+    if (!sourceName || !user || !company) return;
+
+    const accepted = reviewRows.filter(isAccepted);
+    // Prováveis transferências confirmadas: gravadas uma a uma para vincular à outra perna
+    const transferRows = accepted.filter(r => reviewTransfers.get(r.index)?.linked);
+    const batchRows = accepted.filter(r => !reviewTransfers.get(r.index)?.linked);
+    let transfersLinked = 0;
+    const invalidRows = reviewRows.filter(r => !r.excluded && !r.entry);
+    let rowsImported = 0;
+    // Linhas excluídas na revisão e lançamentos já importados
+    let rowsSkipped = reviewRows.filter(r => !isAccepted(r) && (r.excluded || r.duplicate === 'imported')).length;
+    let rowsFailed = invalidRows.length + rejectedItems.length;
+    const errors: FailedRowDetail[] = [
+      ...rejectedItems,
+      ...invalidRows.map(r => toFailedRow(r, r.errors.join('; '))),
+    ];
+    let importId: string | null = null;
 
     setImporting(true);
-    let rowsImported = 0;
-    let rowsFailed = 0;
-    const errors: string[] = [];
+    setProgress({ done: 0, total: accepted.length });
 
     try {
-      const workbook = new ExcelJS.Workbook();
-      const arrayBuffer = await file.arrayBuffer();
-      
-      if (file.name.endsWith('.csv')) {
-        const text = await file.text();
-        const lines = text.split('\n').filter(line => line.trim());
-        const worksheet = workbook.addWorksheet('Sheet1');
-        lines.forEach(line => {
-          const values = line.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-          worksheet.addRow(values);
-        });
-      } else {
-        await workbook.xlsx.load(arrayBuffer);
-      }
-
-      const worksheet = workbook.worksheets[0];
-      if (!worksheet) throw new Error('No worksheet found');
-
-      const jsonData: any[][] = [];
-      worksheet.eachRow((row) => {
-        const rowValues = row.values as any[];
-        jsonData.push(rowValues.slice(1));
-      });
-      
-      const headerRow = jsonData[0].map(h => String(h || ''));
-      const dataRows = jsonData.slice(1);
-
-      const dateIdx = headerRow.indexOf(mapping.date);
-      const descIdx = headerRow.indexOf(mapping.description);
-      const amountIdx = headerRow.indexOf(mapping.amount);
-      const categoryIdx = mapping.category ? headerRow.indexOf(mapping.category) : -1;
-      const taxIdx = mapping.taxAmount ? headerRow.indexOf(mapping.taxAmount) : -1;
-      const costIdx = mapping.productCost ? headerRow.indexOf(mapping.productCost) : -1;
-
-      const { data: categories } = await supabase
+      // O histórico nasce antes da gravação: se o navegador fechar no meio,
+      // o lote fica como 'processing' e pode ser desfeito pela lista
+      const { data: history, error: historyError } = await supabase
+        .from('import_history')
+        .insert({
+          user_id: user.id,
+          company_id: company.id,
+          file_name: sourceName,
+          rows_total: reviewRows.length + rejectedItems.length,
+          status: 'processing',
+          settings: { ...settings },
+          retry_of: retryOf?.id ?? null,
+        })
+        .select('id')
+        .single();
+
+      if (historyError) throw historyError;
+      importId = history.id;
+
+      const { data: existingCategories, error: categoriesError } = await supabase
         .from('categories')
         .select('id, name')
         .eq('company_id', company.id);
 
-      const categoryMap = new Map(categories?.map(c => [c.name.toLowerCase(), c.id]) || []);
-
-      for (let i = 0; i < dataRows.length; i++) {
-        const row = dataRows[i];
-        if (!row || row.length === 0 || !row[descIdx]) continue;
-
-        try {
-          const { amount, type } = parseAmount(row[amountIdx]);
-          const date = parseDate(row[dateIdx]);
-          const description = String(row[descIdx] || '');
-          const categoryName = categoryIdx >= 0 ? String(row[categoryIdx] || '') : '';
-          
-          let categoryId: string | null = null;
-          if (categoryName) {
-            const existingCategoryId = categoryMap.get(categoryName.toLowerCase());
-            if (existingCategoryId) {
-              categoryId = existingCategoryId;
-            } else {
-              const { data: newCategory, error: catError } = await supabase
-                .from('categories')
-                .insert({
-                  user_id: user.id,
-                  company_id: company.id,
-                  name: categoryName,
-                  color: '#' + Math.floor(Math.random()*16777215).toString(16).padStart(6, '0'),
-                })
-                .select('id')
-                .single();
-
-              if (!catError && newCategory) {
-                categoryId = newCategory.id;
-                categoryMap.set(categoryName.toLowerCase(), categoryId);
-              }
-            }
-          }
+      if (categoriesError) throw categoriesError;
 
-          const { isDuplicate, duplicateId } = await checkDuplicates(categoryId, amount, date);
-          
-          if (isDuplicate) {
+      const categoryMap = new Map(existingCategories?.map(c => [c.name.toLowerCase(), c.id]) || []);
+
+      // Categorias novas são criadas de uma vez, marcadas com o lote para o desfazer
+      const newCategoryNames = new Map<string, string>();
+      accepted.forEach(({ entry }) => {
+        const name = entry.categoryName?.trim();
+        if (name && !categoryMap.has(name.toLowerCase())) newCategoryNames.set(name.toLowerCase(), name);
+      });
+
+      if (newCategoryNames.size > 0) {
+        const { data: newCategories, error: newCategoriesError } = await supabase
+          .from('categories')
+          .insert(Array.from(newCategoryNames.values()).map(name => ({
+            user_id: user.id,
+            company_id: company.id,
+            name,
+            color: '#' + Math.floor(Math.random()*16777215).toString(16).padStart(6, '0'),
+            import_id: importId,
+          })))
+          .select('id, name');
+
+        if (newCategoriesError) throw newCategoriesError;
+        newCategories?.forEach(c => categoryMap.set(c.name.toLowerCase(), c.id));
+      }
+
+      const toTransaction = ({ entry }: ReviewRow) => ({
+        user_id: user.id,
+        company_id: company.id,
+        description: entry.description,
+        amount: entry.amount,
+        type: entry.type,
+        date: entry.date,
+        category_id: entry.categoryName
+          ? categoryMap.get(entry.categoryName.trim().toLowerCase()) ?? null
+          : entry.categoryId ?? null,
+        tax_amount: entry.taxAmount ?? null,
+        product_cost: entry.productCost ?? null,
+        notes: entry.notes ?? null,
+        source: entry.source ?? null,
+        profit: entry.profit ?? 0,
+        external_id: entry.externalId ?? null,
+        account_id: importAccountId,
+        origin: 'import',
+        import_id: importId,
+      });
+      // (company_id, external_id) já existente: importado em paralelo, apenas ignora
+      const upsertOptions = { onConflict: 'company_id,external_id', ignoreDuplicates: true };
+
+      for (let i = 0; i < batchRows.length; i += BATCH_SIZE) {
+        const batch = batchRows.slice(i, i + BATCH_SIZE);
+
+        const { data: inserted, error } = await supabase
+          .from('transactions')
+          .upsert(batch.map(toTransaction), upsertOptions)
+          .select('id');
+
+        if (error) {
+          // Cada lote é gravado por inteiro ou não é gravado
+          rowsFailed += batch.length;
+          errors.push(...batch.map(r => toFailedRow(r, error.message)));
+        } else {
+          rowsImported += inserted?.length ?? 0;
+          rowsSkipped += batch.length - (inserted?.length ?? 0);
+
+          // Possíveis duplicidades mantidas pelo usuário na revisão
+          for (const { entry, duplicate, duplicateOf } of batch) {
+            if (duplicate !== 'probable') continue;
             await createAlert('duplicate_detected', `Possível duplicidade detectada na importação`, {
-              originalId: duplicateId,
-              duplicateDescription: description,
-              amount,
-              date,
-              type,
+              originalId: duplicateOf,
+              duplicateDescription: entry.description,
+              amount: entry.amount,
+              date: entry.date,
+              type: entry.type,
             });
           }
+        }
 
-          const transactionData = {
-            user_id: user.id,
-            company_id: company.id,
-            description,
-            amount,
-            type,
-            date,
-            category_id: categoryId,
-            tax_amount: taxIdx >= 0 ? parseFloat(String(row[taxIdx] || 0)) || null : null,
-            product_cost: costIdx >= 0 ? parseFloat(String(row[costIdx] || 0)) || null : null,
-            origin: 'import',
-          };
-
-          const { error } = await supabase
-            .from('transactions')
-            .insert([transactionData]);
-
-          if (error) throw error;
-          rowsImported++;
-
-        } catch (rowError: any) {
-          rowsFailed++;
-          errors.push(`Linha ${i + 2}: ${rowError.message}`);
+        setProgress({ done: Math.min(i + BATCH_SIZE, batchRows.length), total: accepted.length });
+      }
+
+      for (const [i, row] of transferRows.entries()) {
+        const { data: inserted, error } = await supabase
+          .from('transactions')
+          .upsert(toTransaction(row), upsertOptions)
+          .select('id')
+          .maybeSingle();
+
+        if (error) {
+          rowsFailed += 1;
+          errors.push(toFailedRow(row, error.message));
+        } else if (!inserted) {
+          rowsSkipped += 1;
+        } else {
+          rowsImported += 1;
+
+          // Se o vínculo falhar, o lançamento fica importado como receita/despesa comum
+          const { error: linkError } = await linkTransfer(inserted.id, transferMatches.get(row.index)!.id);
+          if (linkError) {
+            console.error('Error linking transfer:', linkError);
+          } else {
+            transfersLinked += 1;
+          }
         }
+
+        setProgress({ done: batchRows.length + i + 1, total: accepted.length });
       }
 
-      await supabase
+      const { error: finishError } = await supabase
         .from('import_history')
-        .insert({
-          user_id: user.id,
-          company_id: company.id,
-          file_name: file.name,
+        .update({
           rows_imported: rowsImported,
           rows_failed: rowsFailed,
-          status: rowsFailed === 0 ? 'success' : 'partial',
-          error_details: errors.length > 0 ? errors : null,
-        });
+          rows_skipped: rowsSkipped,
+          status: rowsFailed === 0 ? 'success' : rowsImported === 0 ? 'failed' : 'partial',
+          error_details: errors.length > 0 ? errors.map(e => ({ ...e })) : null,
+        })
+        .eq('id', importId);
+
+      if (finishError) throw finishError;
+
+      for (const { kind, title, description } of titleNotices) {
+        await createAlert(
+          'title_rejected',
+          `Boleto ${title.documentNumber || title.ourNumber} ${kind === 'rejected' ? 'rejeitado' : 'baixado sem pagamento'}: ${description}`,
+          {
+            fileName: sourceName,
+            importId,
+            ourNumber: title.ourNumber,
+            documentNumber: title.documentNumber,
+            payerName: title.payerName,
+            amount: title.amount,
+            dueDate: title.dueDate,
+            occurrence: title.occurrence,
+            reasons: title.reasons,
+          },
+        );
+      }
 
-      await createAlert('import_completed', `Importação concluída: ${file.name}`, {
-        fileName: file.name,
+      await createAlert('import_completed', `Importação concluída: ${sourceName}`, {
+        fileName: sourceName,
+        importId,
         rowsImported,
         rowsFailed,
+        rowsSkipped,
+        transfersLinked,
       });
 
       toast({
         title: 'Importação concluída',
-        description: `${rowsImported} registros importados${rowsFailed > 0 ? `, ${rowsFailed} com erro` : ''}.`,
+        description: `${rowsImported} registros importados${transfersLinked > 0 ? ` (${transfersLinked} como transferência)` : ''}${rowsSkipped > 0 ? `, ${rowsSkipped} ignorados` : ''}${rowsFailed > 0 ? `, ${rowsFailed} com erro` : ''}.`,
       });
 
       resetImport();
-      fetchHistory();
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('Import error:', error);
+
+      if (importId) {
+        await supabase
+          .from('import_history')
+          .update({
+            rows_imported: rowsImported,
+            rows_failed: rowsFailed,
+            rows_skipped: rowsSkipped,
+            status: 'failed',
+            error_details: [...errors, generalError((error as Error).message)].map(e => ({ ...e })),
+          })
+          .eq('id', importId);
+      }
+
       toast({
         title: 'Erro na importação',
-        description: error.message || 'Ocorreu um erro durante a importação.',
+        description: (error as Error).message || 'Ocorreu um erro durante a importação.',
         variant: 'destructive',
       });
     } finally {
       setImporting(false);
+      setProgress(null);
+      fetchHistory();
     }
   };
 
+  const handleRevert = async (item: ImportHistoryItem) => {
+    const { error, result } = await revertImport(item.id);
+
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível desfazer a importação.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Importação desfeita',
+      description: `${result.transactions_deleted} lançamentos removidos${result.categories_deleted > 0 ? ` e ${result.categories_deleted} categorias criadas pela importação` : ''}.`,
+    });
+    fetchCategories();
+  };
+
   const resetImport = () => {
     setFile(null);
-    setHeaders([]);
-    setPreviewData([]);
-    setMapping({
-      date: '',
-      description: '',
-      amount: '',
-      category: '',
-      taxAmount: '',
-      productCost: '',
-    });
+    setRetryOf(null);
+    setSheets([]);
+    setSelectedSheets([]);
+    setParsedEntries(null);
+    setRejectedItems([]);
+    setTitleNotices([]);
+    setMapping(EMPTY_MAPPING);
+    setSettings(DEFAULT_IMPORT_SETTINGS);
+    setSelectedProfileId(null);
+    setSuggestedProfileId(null);
+    setReviewRows([]);
+    setDuplicateContext(null);
+    setUnlinkedTransfers(new Set());
     setStep('upload');
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -427,7 +984,7 @@ export default function Import() {
           Importar Dados
         </h1>
         <p className="text-muted-foreground">
-          Importe planilhas CSV e XLSX para o sistema
+          Importe planilhas CSV e XLSX ou extratos bancários OFX
         </p>
       </div>
 
@@ -442,7 +999,7 @@ export default function Import() {
         </span>
         <span className="text-muted-foreground">→</span>
         <span className={step === 'preview' ? 'text-primary font-medium' : 'text-muted-foreground'}>
-          3. Importar
+          3. Revisar e importar
         </span>
       </div>
 
@@ -453,7 +1010,7 @@ export default function Import() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv,.xlsx,.xls"
+              accept=".csv,.tsv,.xlsx,.xls,.ofx,.ret,.txt,.cnab,.xml,.zip"
               onChange={handleFileSelect}
               className="hidden"
               id="file-upload"
@@ -466,7 +1023,10 @@ export default function Import() {
               <div>
                 <p className="text-lg font-medium">Arraste ou clique para selecionar</p>
                 <p className="text-sm text-muted-foreground">
-                  Arquivos suportados: CSV, XLSX, XLS
+                  Arquivos suportados: CSV, XLSX, XLS, OFX, retorno CNAB 240/400, XML de NF-e ou ZIP com vários XMLs
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Relatórios de repasse do Mercado Livre, Shopee, Magalu e Loja Integrada são reconhecidos automaticamente
                 </p>
               </div>
             </label>
@@ -484,6 +1044,7 @@ export default function Import() {
                 <p className="font-medium">{file?.name}</p>
                 <p className="text-sm text-muted-foreground">
                   {headers.length} colunas detectadas
+                  {sheets.length > 1 && ` · ${activeSheets.length} de ${sheets.length} abas selecionadas`}
                 </p>
               </div>
             </div>
@@ -492,98 +1053,167 @@ export default function Import() {
             </Button>
           </div>
 
+          {sheets.length > 1 && (
+            <div className="space-y-2">
+              <Label>Abas a importar</Label>
+              <p className="text-xs text-muted-foreground">
+                Todas as abas selecionadas usam o mesmo mapeamento e a mesma linha de cabeçalho.
+              </p>
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                {sheets.map(sheet => (
+                  <label key={sheet.name} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedSheets.includes(sheet.name)}
+                      onCheckedChange={(checked) => handleSheetToggle(sheet.name, checked === true)}
+                    />
+                    {sheet.name}
+                    <span className="text-muted-foreground">({sheet.rows.length} linhas)</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <ImportProfileBar
+            profiles={profiles}
+            selectedId={selectedProfileId}
+            suggestedId={suggestedProfileId}
+            onSelect={handleProfileSelect}
+            onSave={handleProfileSave}
+            onDelete={handleProfileDelete}
+          />
+
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {MAPPING_FIELDS.map(({ field, label, required }) => (
+              <div key={field} className="space-y-2">
+                <Label>{label}{required && ' *'}</Label>
+                <Select
+                  value={mapping[field] || NONE_VALUE}
+                  onValueChange={(v) => handleMappingChange(field, v === NONE_VALUE ? '' : v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a coluna" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE_VALUE}>{required ? 'Selecione a coluna' : 'Nenhuma'}</SelectItem>
+                    {headers.filter(Boolean).map((h) => (
+                      <SelectItem key={h} value={h}>{h}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
             <div className="space-y-2">
-              <Label>Data *</Label>
-              <Select value={mapping.date} onValueChange={(v) => handleMappingChange('date', v)}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Selecione a coluna" />
-                </SelectTrigger>
-                <SelectContent>
-                  {headers.map((h) => (
-                    <SelectItem key={h} value={h}>{h}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <Label>Linha do cabeçalho</Label>
+              <Input
+                type="number"
+                min={1}
+                max={rawData.length}
+                value={settings.headerRow}
+                onChange={(e) => handleHeaderRowChange(e.target.value)}
+              />
             </div>
 
             <div className="space-y-2">
-              <Label>Descrição *</Label>
-              <Select value={mapping.description} onValueChange={(v) => handleMappingChange('description', v)}>
+              <Label>Formato de data</Label>
+              <Select
+                value={settings.dateFormat}
+                onValueChange={(v) => handleSettingChange('dateFormat', v as DateFormat)}
+              >
                 <SelectTrigger>
-                  <SelectValue placeholder="Selecione a coluna" />
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {headers.map((h) => (
-                    <SelectItem key={h} value={h}>{h}</SelectItem>
-                  ))}
+                  <SelectItem value="auto">Automático</SelectItem>
+                  <SelectItem value="dd/MM/yyyy">dd/mm/aaaa</SelectItem>
+                  <SelectItem value="MM/dd/yyyy">mm/dd/aaaa</SelectItem>
+                  <SelectItem value="yyyy-MM-dd">aaaa-mm-dd</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label>Valor *</Label>
-              <Select value={mapping.amount} onValueChange={(v) => handleMappingChange('amount', v)}>
+              <Label>Separador decimal</Label>
+              <Select
+                value={settings.decimalSeparator}
+                onValueChange={(v) => handleSettingChange('decimalSeparator', v as DecimalSeparator)}
+              >
                 <SelectTrigger>
-                  <SelectValue placeholder="Selecione a coluna" />
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {headers.map((h) => (
-                    <SelectItem key={h} value={h}>{h}</SelectItem>
-                  ))}
+                  <SelectItem value="auto">Automático</SelectItem>
+                  <SelectItem value=",">Vírgula (1.234,56)</SelectItem>
+                  <SelectItem value=".">Ponto (1,234.56)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label>Categoria</Label>
-              <Select value={mapping.category} onValueChange={(v) => handleMappingChange('category', v)}>
+              <Label>Sinal do valor</Label>
+              <Select
+                value={settings.signConvention}
+                onValueChange={(v) => handleSettingChange('signConvention', v as SignConvention)}
+              >
                 <SelectTrigger>
-                  <SelectValue placeholder="Selecione a coluna" />
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="">Nenhuma</SelectItem>
-                  {headers.map((h) => (
-                    <SelectItem key={h} value={h}>{h}</SelectItem>
-                  ))}
+                  <SelectItem value="signed">Positivo = receita</SelectItem>
+                  <SelectItem value="inverted">Positivo = despesa</SelectItem>
+                  <SelectItem value="expense">Tudo despesa</SelectItem>
+                  <SelectItem value="income">Tudo receita</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label>Imposto</Label>
-              <Select value={mapping.taxAmount} onValueChange={(v) => handleMappingChange('taxAmount', v)}>
+              <Label>Categoria padrão</Label>
+              <Select
+                value={settings.defaultCategoryId || NONE_VALUE}
+                onValueChange={(v) => handleSettingChange('defaultCategoryId', v === NONE_VALUE ? null : v)}
+              >
                 <SelectTrigger>
-                  <SelectValue placeholder="Selecione a coluna" />
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="">Nenhuma</SelectItem>
-                  {headers.map((h) => (
-                    <SelectItem key={h} value={h}>{h}</SelectItem>
+                  <SelectItem value={NONE_VALUE}>Nenhuma</SelectItem>
+                  {categories.map(cat => (
+                    <SelectItem key={cat.id} value={cat.id}>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: cat.color }}
+                        />
+                        {cat.name}
+                      </div>
+                    </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label>Custo do Produto</Label>
-              <Select value={mapping.productCost} onValueChange={(v) => handleMappingChange('productCost', v)}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Selecione a coluna" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="">Nenhuma</SelectItem>
-                  {headers.map((h) => (
-                    <SelectItem key={h} value={h}>{h}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <Label>Conta de destino</Label>
+              {importAccountSelect}
             </div>
           </div>
 
           {/* Preview Table */}
           <div>
-            <h3 className="text-sm font-medium mb-2">Prévia dos dados</h3>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium">
+                Prévia dos dados{activeSheets.length > 1 && ` (${activeSheets[0].name})`}
+              </h3>
+              {footerRows > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {footerRows} {footerRows === 1 ? 'linha de total no rodapé será ignorada' : 'linhas de total no rodapé serão ignoradas'}
+                </p>
+              )}
+            </div>
             <div className="overflow-x-auto border rounded-lg">
               <Table>
                 <TableHeader>
@@ -594,7 +1224,7 @@ export default function Import() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {previewData.map((row, i) => (
+                  {rows.slice(0, 5).map((row, i) => (
                     <TableRow key={i}>
                       {headers.map((h, j) => (
                         <TableCell key={j} className="whitespace-nowrap">
@@ -612,8 +1242,15 @@ export default function Import() {
             <Button variant="outline" onClick={resetImport}>
               Cancelar
             </Button>
-            <Button onClick={proceedToPreview}>
-              Continuar
+            <Button onClick={proceedToPreview} disabled={reviewing}>
+              {reviewing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Verificando...
+                </>
+              ) : (
+                'Revisar linhas'
+              )}
             </Button>
           </div>
         </Card>
@@ -625,34 +1262,88 @@ export default function Import() {
           <div className="flex items-center gap-3">
             <CheckCircle className="h-6 w-6 text-primary" />
             <div>
-              <p className="font-medium">Pronto para importar</p>
+              <p className="font-medium">Revise antes de importar</p>
               <p className="text-sm text-muted-foreground">
-                {file?.name} - Mapeamento configurado
+                {retryOf
+                  ? `Reprocessando ${reviewRows.length} linhas com falha de ${retryOf.file_name}.`
+                  : `${sourceName} - ${reviewRows.length} ${parsedEntries ? 'lançamentos lidos' : 'linhas no arquivo'}.`}
+                Corrija ou desmarque as linhas com problema; somente as marcadas e válidas serão gravadas.
               </p>
             </div>
           </div>
 
-          <div className="bg-muted/50 rounded-lg p-4 space-y-2">
-            <p className="text-sm"><strong>Data:</strong> {mapping.date}</p>
-            <p className="text-sm"><strong>Descrição:</strong> {mapping.description}</p>
-            <p className="text-sm"><strong>Valor:</strong> {mapping.amount}</p>
-            {mapping.category && <p className="text-sm"><strong>Categoria:</strong> {mapping.category}</p>}
-            {mapping.taxAmount && <p className="text-sm"><strong>Imposto:</strong> {mapping.taxAmount}</p>}
-            {mapping.productCost && <p className="text-sm"><strong>Custo:</strong> {mapping.productCost}</p>}
-          </div>
+          {rejectedItems.length > 0 && (
+            <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-4 space-y-1">
+              <p className="text-sm font-medium text-destructive flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {rejectedItems.length} {rejectedItems.length === 1 ? 'item ignorado' : 'itens ignorados'}
+              </p>
+              {rejectedItems.map((r, i) => (
+                <p key={i} className="text-xs text-muted-foreground">
+                  {r.label}: {r.error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {titleNotices.length > 0 && (
+            <div className="rounded-lg border border-warning/50 bg-warning/5 p-4 space-y-1">
+              <p className="text-sm font-medium text-warning flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {titleNotices.length} {titleNotices.length === 1 ? 'título rejeitado ou baixado será registrado' : 'títulos rejeitados ou baixados serão registrados'} como alerta
+              </p>
+              {titleNotices.map(({ title, description }, i) => (
+                <p key={i} className="text-xs text-muted-foreground">
+                  {title.label}: boleto {title.documentNumber || title.ourNumber}{title.payerName ? ` (${title.payerName})` : ''} - {description}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* Arquivos sem etapa de mapeamento (OFX, CNAB, repasses) escolhem a conta aqui */}
+          {(parsedEntries || retryOf) && (
+            <div className="space-y-2 max-w-xs">
+              <Label>Conta de destino</Label>
+              {importAccountSelect}
+            </div>
+          )}
+
+          <ImportReviewTable
+            rows={reviewRows}
+            categories={categories}
+            onFix={handleRowFix}
+            onExclude={handleRowExclude}
+            transfers={reviewTransfers}
+            onLinkTransfer={handleLinkTransfer}
+          />
+
+          {progress && (
+            <div className="space-y-2">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+              <p className="text-sm text-muted-foreground text-center">
+                Gravando {progress.done.toLocaleString('pt-BR')} de {progress.total.toLocaleString('pt-BR')} linhas
+              </p>
+            </div>
+          )}
 
           <div className="flex justify-end gap-2">
-            <Button variant="outline" onClick={() => setStep('mapping')}>
+            <Button
+              variant="outline"
+              disabled={importing}
+              onClick={() => parsedEntries || retryOf ? resetImport() : setStep('mapping')}
+            >
               Voltar
             </Button>
-            <Button onClick={handleImport} disabled={importing}>
+            <Button onClick={handleImport} disabled={importing || (acceptedCount === 0 && titleNotices.length === 0)}>
               {importing ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                   Importando...
                 </>
               ) : (
-                'Importar Dados'
+                acceptedCount === 0
+                  ? 'Registrar alertas'
+                  : `Importar ${acceptedCount} ${acceptedCount === 1 ? 'linha' : 'linhas'}`
               )}
             </Button>
           </div>
@@ -662,7 +1353,13 @@ export default function Import() {
       {/* Import History */}
       {importHistory.length > 0 && (
         <Card className="p-6">
-          <h2 className="text-lg font-semibold mb-4">Histórico de Importações</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold">Histórico de Importações</h2>
+            <Button variant="ghost" size="sm" className="gap-2" onClick={() => navigate('/import/history')}>
+              <History className="h-4 w-4" />
+              Ver histórico completo
+            </Button>
+          </div>
           <div className="space-y-3">
             {importHistory.map((item) => (
               <div key={item.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
@@ -672,19 +1369,41 @@ export default function Import() {
                     {format(new Date(item.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
                   </p>
                 </div>
-                <div className="text-right">
-                  <p className="text-sm">
-                    <span className="text-primary">{item.rows_imported}</span> importados
-                    {item.rows_failed > 0 && (
-                      <span className="text-destructive ml-2">{item.rows_failed} falhas</span>
-                    )}
-                  </p>
+                <div className="flex items-center gap-3">
+                  <div className="text-right">
+                    <p className="text-sm">
+                      <span className="text-primary">{item.rows_imported}</span> importados
+                      {item.rows_skipped > 0 && (
+                        <span className="text-muted-foreground ml-2">{item.rows_skipped} ignorados</span>
+                      )}
+                      {item.rows_failed > 0 && (
+                        <span className="text-destructive ml-2">{item.rows_failed} falhas</span>
+                      )}
+                    </p>
+                    <ImportStatusBadge status={item.status} className="mt-1" />
+                  </div>
+                  {canRevertImport(item) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRevertTarget(item)}
+                      title="Desfazer importação"
+                    >
+                      <Undo2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </div>
             ))}
           </div>
         </Card>
       )}
+
+      <RevertImportDialog
+        item={revertTarget}
+        onClose={() => setRevertTarget(null)}
+        onConfirm={handleRevert}
+      />
     </div>
   );
 }
@@ -0,0 +1,211 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, Eye, History, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useCompany } from '@/hooks/useCompany';
+import { useImportHistory, ImportHistoryItem } from '@/hooks/useImportHistory';
+import { ImportStatusBadge } from '@/components/import/ImportStatusBadge';
+import { ImportDetailSheet } from '@/components/import/ImportDetailSheet';
+import { RevertImportDialog } from '@/components/import/RevertImportDialog';
+import { IMPORT_STATUS, canRevertImport } from '@/lib/import/history';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+const PAGE_SIZE = 20;
+
+export default function ImportHistory() {
+  const { canEdit } = useCompany();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [page, setPage] = useState(0);
+  const [filterStatus, setFilterStatus] = useState('all');
+  const [selectedItem, setSelectedItem] = useState<ImportHistoryItem | null>(null);
+  const [revertTarget, setRevertTarget] = useState<ImportHistoryItem | null>(null);
+
+  const { items, total, loading, revertImport } = useImportHistory({
+    page,
+    pageSize: PAGE_SIZE,
+    status: filterStatus,
+  });
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  useEffect(() => {
+    setPage(0);
+  }, [filterStatus]);
+
+  const handleRevert = async (item: ImportHistoryItem) => {
+    const { error, result } = await revertImport(item.id);
+
+    if (error) {
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível desfazer a importação.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Importação desfeita',
+      description: `${result.transactions_deleted} lançamentos removidos${result.categories_deleted > 0 ? ` e ${result.categories_deleted} categorias criadas pela importação` : ''}.`,
+    });
+  };
+
+  const handleRetry = (item: ImportHistoryItem) => {
+    navigate('/import', { state: { retryImportId: item.id } });
+  };
+
+  return (
+    <div className="p-6 lg:p-8 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground">
+            Histórico de Importações
+          </h1>
+          <p className="text-muted-foreground">
+            Consulte as linhas rejeitadas, reprocesse falhas ou desfaça importações
+          </p>
+        </div>
+        <Button variant="outline" className="gap-2" onClick={() => navigate('/import')}>
+          <ArrowLeft className="h-4 w-4" />
+          Nova importação
+        </Button>
+      </div>
+
+      <Card className="p-4">
+        <Select value={filterStatus} onValueChange={setFilterStatus}>
+          <SelectTrigger className="w-full sm:w-[220px]">
+            <SelectValue placeholder="Situação" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas as situações</SelectItem>
+            {Object.entries(IMPORT_STATUS).map(([status, { label }]) => (
+              <SelectItem key={status} value={status}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </Card>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Arquivo</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead className="text-right">Linhas</TableHead>
+                <TableHead className="text-right">Importadas</TableHead>
+                <TableHead className="text-right">Ignoradas</TableHead>
+                <TableHead className="text-right">Falhas</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8">
+                    Carregando...
+                  </TableCell>
+                </TableRow>
+              ) : items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    <History className="h-8 w-8 mx-auto mb-2" />
+                    Nenhuma importação encontrada
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map((item) => (
+                  <TableRow key={item.id} className="cursor-pointer" onClick={() => setSelectedItem(item)}>
+                    <TableCell className="font-medium max-w-[240px] truncate">
+                      {item.file_name}
+                      {item.retry_of && (
+                        <span className="block text-xs text-muted-foreground font-normal">Reprocessamento</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(item.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                    </TableCell>
+                    <TableCell className="text-right">{item.rows_total ?? '-'}</TableCell>
+                    <TableCell className="text-right text-primary">{item.rows_imported ?? 0}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{item.rows_skipped ?? 0}</TableCell>
+                    <TableCell className="text-right text-destructive">{item.rows_failed ?? 0}</TableCell>
+                    <TableCell><ImportStatusBadge status={item.status} /></TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setSelectedItem(item)}
+                          title="Ver detalhes"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        {canEdit && canRevertImport(item) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setRevertTarget(item)}
+                            title="Desfazer importação"
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-end gap-2 p-4 text-sm border-t">
+            <span className="text-muted-foreground">
+              Página {page + 1} de {pageCount} ({total} importações)
+            </span>
+            <Button variant="outline" size="icon" disabled={page === 0} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </Card>
+
+      <ImportDetailSheet
+        item={selectedItem}
+        onClose={() => setSelectedItem(null)}
+        onRetry={canEdit ? handleRetry : undefined}
+      />
+
+      <RevertImportDialog
+        item={revertTarget}
+        onClose={() => setRevertTarget(null)}
+        onConfirm={handleRevert}
+      />
+    </div>
+  );
+}
@@ -3,13 +3,6 @@ import { FileText, TrendingUp, TrendingDown, DollarSign, PieChart, BarChart3, Li
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -20,10 +13,18 @@ import {
 } from '@/components/ui/table';
 import { useAuth } from '@/hooks/useAuth';
 import { useCompany } from '@/hooks/useCompany';
+import { useAccounts, fetchAccountBalances } from '@/hooks/useAccounts';
 import { supabase } from '@/integrations/supabase/client';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart as ReLineChart, Line, PieChart as RePieChart, Pie, Cell, Legend } from 'recharts';
-import { format, startOfMonth, endOfMonth, subMonths, startOfYear, endOfYear } from 'date-fns';
+import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { usePeriod } from '@/hooks/usePeriod';
+import { PeriodPicker } from '@/components/PeriodPicker';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { describeRange, monthsInRange, previousPeriod, shiftDate, toLocalDate } from '@/lib/periods';
+import { ALL_ACCOUNTS, consolidatedBalance, signedAmount } from '@/lib/accounts';
+import { isTransferLeg, withoutTransfers } from '@/lib/transfers';
+import { competenceDate } from '@/lib/installments';
 
 interface Transaction {
   id: string;
@@ -31,9 +32,11 @@ interface Transaction {
   amount: number;
   type: 'income' | 'expense';
   date: string;
+  competence_date: string | null;
   category_id: string | null;
   tax_amount: number | null;
   product_cost: number | null;
+  transfer_id: string | null;
   categories?: {
     name: string;
     color: string;
@@ -56,6 +59,13 @@ interface CashFlowData {
   accumulated: number;
 }
 
+interface AccountBalances {
+  /** Saldo das contas no dia anterior ao início do período */
+  opening: number;
+  /** Saldo das contas no último dia do período */
+  closing: number;
+}
+
 interface CategoryData {
   name: string;
   value: number;
@@ -70,8 +80,10 @@ export default function Reports() {
   const { company } = useCompany();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear().toString());
-  const [selectedMonth, setSelectedMonth] = useState((new Date().getMonth() + 1).toString());
+  const { selection: period, setSelection: setPeriod, range } = usePeriod({ preset: 'year_to_date' });
+  const { accounts } = useAccounts();
+  const [filterAccount, setFilterAccount] = useState(ALL_ACCOUNTS);
+  const [accountBalances, setAccountBalances] = useState<AccountBalances | null>(null);
   const [dreData, setDreData] = useState<DREData | null>(null);
   const [cashFlowData, setCashFlowData] = useState<CashFlowData[]>([]);
   const [categoryData, setCategoryData] = useState<CategoryData[]>([]);
@@ -81,17 +93,18 @@ export default function Reports() {
     if (user && company) {
       fetchTransactions();
     }
-  }, [user, company, selectedYear, selectedMonth]);
+  }, [user, company, range, filterAccount]);
 
   const fetchTransactions = async () => {
     if (!company) return;
     
     setLoading(true);
     try {
-      const yearStart = startOfYear(new Date(parseInt(selectedYear), 0));
-      const yearEnd = endOfYear(new Date(parseInt(selectedYear), 0));
+      // Inclui o período anterior equivalente, usado no comparativo
+      const previous = previousPeriod(range);
+      const accountId = filterAccount !== ALL_ACCOUNTS ? filterAccount : null;
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('transactions')
         .select(`
           *,
@@ -101,19 +114,46 @@ export default function Reports() {
           )
         `)
         .eq('company_id', company.id)
-        .gte('date', format(yearStart, 'yyyy-MM-dd'))
-        .lte('date', format(yearEnd, 'yyyy-MM-dd'))
-        .order('date', { ascending: true });
+        // Parcelas com vencimento fora do período entram na DRE pela data da venda
+        .or(
+          `and(date.gte.${previous.start},date.lte.${range.end}),`
+          + `and(competence_date.gte.${previous.start},competence_date.lte.${range.end})`
+        );
+      if (accountId) query = query.eq('account_id', accountId);
+
+      // Saldo de abertura: o do dia anterior ao início do período
+      const [
+        { data, error },
+        openingBalances,
+        closingBalances,
+        { data: accountOpenings, error: accountsError },
+      ] = await Promise.all([
+        query.order('date', { ascending: true }),
+        fetchAccountBalances(shiftDate(range.start, -1)),
+        fetchAccountBalances(range.end),
+        supabase.from('accounts').select('id, opening_balance, opening_date').eq('company_id', company.id),
+      ]);
 
       if (error) throw error;
+      if (accountsError) throw accountsError;
+
+      const accountIds = accountId ? [accountId] : [];
+      const balances = {
+        opening: consolidatedBalance(openingBalances, accountIds),
+        closing: consolidatedBalance(closingBalances, accountIds),
+      };
+      setAccountBalances(balances);
 
       const typedData = (data || []).map(t => ({
         ...t,
         type: t.type as 'income' | 'expense'
       }));
       
-      setTransactions(typedData);
-      calculateReports(typedData);
+      setTransactions(typedData.filter(t => t.date >= range.start && t.date <= range.end));
+      // Contas abertas dentro do período entram no acumulado no mês da abertura
+      const openedInPeriod = (accountOpenings || []).filter(a =>
+        a.opening_date >= range.start && a.opening_date <= range.end && (!accountId || a.id === accountId));
+      calculateReports(typedData, balances.opening, openedInPeriod);
     } catch (error) {
       console.error('Error fetching transactions:', error);
     } finally {
@@ -121,24 +161,29 @@ export default function Reports() {
     }
   };
 
-  const calculateReports = (data: Transaction[]) => {
-    // Filter for selected month for DRE
-    const monthStart = startOfMonth(new Date(parseInt(selectedYear), parseInt(selectedMonth) - 1));
-    const monthEnd = endOfMonth(new Date(parseInt(selectedYear), parseInt(selectedMonth) - 1));
-    
-    const monthTransactions = data.filter(t => {
-      const date = new Date(t.date);
-      return date >= monthStart && date <= monthEnd;
-    });
+  const calculateReports = (
+    data: Transaction[],
+    openingBalance: number,
+    openedInPeriod: { opening_balance: number; opening_date: string }[],
+  ) => {
+    // Datas 'yyyy-MM-dd' comparadas como texto, sem conversão de fuso
+    const periodWithTransfers = data.filter(t => t.date >= range.start && t.date <= range.end);
+    // Transferências entre contas não são receita nem despesa
+    const periodTransactions = withoutTransfers(periodWithTransfers);
+    const previous = previousPeriod(range);
+    const previousTransactions = withoutTransfers(data).filter(t => t.date >= previous.start && t.date <= previous.end);
+    // A DRE é por competência: parcelas contam na data da compra ou venda, não no vencimento
+    const competenceTransactions = withoutTransfers(data).filter(t =>
+      competenceDate(t) >= range.start && competenceDate(t) <= range.end);
 
     // Calculate DRE
-    const grossRevenue = monthTransactions
+    const grossRevenue = competenceTransactions
       .filter(t => t.type === 'income')
       .reduce((sum, t) => sum + t.amount, 0);
     
-    const taxes = monthTransactions.reduce((sum, t) => sum + (t.tax_amount || 0), 0);
-    const productCosts = monthTransactions.reduce((sum, t) => sum + (t.product_cost || 0), 0);
-    const operationalExpenses = monthTransactions
+    const taxes = competenceTransactions.reduce((sum, t) => sum + (t.tax_amount || 0), 0);
+    const productCosts = competenceTransactions.reduce((sum, t) => sum + (t.product_cost || 0), 0);
+    const operationalExpenses = competenceTransactions
       .filter(t => t.type === 'expense')
       .reduce((sum, t) => sum + t.amount, 0);
     
@@ -154,24 +199,27 @@ export default function Reports() {
 
     // Calculate Cash Flow (monthly)
     const monthlyData: CashFlowData[] = [];
-    let accumulated = 0;
+    // O acumulado parte do saldo das contas no início do período
+    let accumulated = openingBalance;
+    const months = monthsInRange(range);
+    const multipleYears = months[0].slice(0, 4) !== months[months.length - 1].slice(0, 4);
 
-    for (let i = 0; i < 12; i++) {
-      const mStart = startOfMonth(new Date(parseInt(selectedYear), i));
-      const mEnd = endOfMonth(new Date(parseInt(selectedYear), i));
-      
-      const monthTx = data.filter(t => {
-        const date = new Date(t.date);
-        return date >= mStart && date <= mEnd;
-      });
+    for (const month of months) {
+      const monthTx = periodTransactions.filter(t => t.date.startsWith(month));
 
       const income = monthTx.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0);
       const expense = monthTx.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0);
       const balance = income - expense;
-      accumulated += balance;
+      // Com uma conta filtrada, as transferências de/para outras contas também movem o saldo
+      accumulated += balance + periodWithTransfers
+        .filter(t => isTransferLeg(t) && t.date.startsWith(month))
+        .reduce((sum, t) => sum + signedAmount(t), 0)
+        + openedInPeriod
+          .filter(a => a.opening_date.startsWith(month))
+          .reduce((sum, a) => sum + Number(a.opening_balance), 0);
 
       monthlyData.push({
-        month: format(mStart, 'MMM', { locale: ptBR }),
+        month: format(toLocalDate(`${month}-01`), multipleYears ? 'MMM/yy' : 'MMM', { locale: ptBR }),
         income,
         expense,
         balance,
@@ -183,7 +231,7 @@ export default function Reports() {
     // Calculate Category breakdown (ABC Curve)
     const categoryTotals: Record<string, { name: string; value: number; color: string }> = {};
     
-    monthTransactions.forEach(t => {
+    periodTransactions.forEach(t => {
       const catName = t.categories?.name || 'Sem categoria';
       const catColor = t.categories?.color || '#888888';
       
@@ -206,12 +254,13 @@ export default function Reports() {
 
     setCategoryData(categoryWithPercentage);
 
-    // Year-over-year comparison
-    const currentYearTotal = data.reduce((sum, t) => 
+    // Comparison with the previous equivalent period
+    const balanceOf = (list: Transaction[]) => list.reduce((sum, t) =>
       sum + (t.type === 'income' ? t.amount : -t.amount), 0);
-    
+
     setComparisonData([
-      { name: selectedYear, value: currentYearTotal }
+      { name: describeRange(previous), value: balanceOf(previousTransactions) },
+      { name: describeRange(range), value: balanceOf(periodTransactions) },
     ]);
   };
 
@@ -222,12 +271,6 @@ export default function Reports() {
     }).format(value);
   };
 
-  const years = Array.from({ length: 5 }, (_, i) => (new Date().getFullYear() - i).toString());
-  const months = Array.from({ length: 12 }, (_, i) => ({
-    value: (i + 1).toString(),
-    label: format(new Date(2024, i), 'MMMM', { locale: ptBR }),
-  }));
-
   return (
     <div className="p-6 lg:p-8 space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -239,29 +282,15 @@ export default function Reports() {
             Análises financeiras e relatórios avançados
           </p>
         </div>
-        <div className="flex gap-2">
-          <Select value={selectedMonth} onValueChange={setSelectedMonth}>
-            <SelectTrigger className="w-32">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {months.map((m) => (
-                <SelectItem key={m.value} value={m.value}>
-                  {m.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-          <Select value={selectedYear} onValueChange={setSelectedYear}>
-            <SelectTrigger className="w-24">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {years.map((y) => (
-                <SelectItem key={y} value={y}>{y}</SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+        <div className="flex flex-col sm:flex-row sm:items-start gap-2">
+          <AccountSelect
+            accounts={accounts}
+            value={filterAccount}
+            onChange={setFilterAccount}
+            allowAll
+            className="w-full sm:w-48"
+          />
+          <PeriodPicker value={period} onChange={setPeriod} range={range} className="sm:text-right" />
         </div>
       </div>
 
@@ -288,9 +317,12 @@ export default function Reports() {
         {/* DRE Tab */}
         <TabsContent value="dre">
           <Card className="p-6">
-            <h2 className="text-xl font-semibold mb-6">
-              Demonstração do Resultado do Exercício - {months.find(m => m.value === selectedMonth)?.label} {selectedYear}
+            <h2 className="text-xl font-semibold">
+              Demonstração do Resultado do Exercício - {describeRange(range)}
             </h2>
+            <p className="text-sm text-muted-foreground mb-6">
+              Regime de competência: compras e vendas parceladas entram pela data da operação.
+            </p>
             
             {loading ? (
               <div className="text-center py-8 text-muted-foreground">Carregando...</div>
@@ -342,12 +374,32 @@ export default function Reports() {
         {/* Cash Flow Tab */}
         <TabsContent value="cashflow">
           <Card className="p-6">
-            <h2 className="text-xl font-semibold mb-6">Fluxo de Caixa - {selectedYear}</h2>
+            <h2 className="text-xl font-semibold mb-6">Fluxo de Caixa - {describeRange(range)}</h2>
             
             {loading ? (
               <div className="text-center py-8 text-muted-foreground">Carregando...</div>
             ) : (
               <>
+                {accountBalances && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                    <div className="rounded-lg bg-muted/50 p-4">
+                      <p className="text-sm text-muted-foreground">Saldo inicial das contas</p>
+                      <p className="text-lg font-semibold">{formatCurrency(accountBalances.opening)}</p>
+                    </div>
+                    <div className="rounded-lg bg-muted/50 p-4">
+                      <p className="text-sm text-muted-foreground">Variação no período</p>
+                      <p className={`text-lg font-semibold ${accountBalances.closing - accountBalances.opening >= 0 ? 'text-primary' : 'text-destructive'}`}>
+                        {formatCurrency(accountBalances.closing - accountBalances.opening)}
+                      </p>
+                    </div>
+                    <div className="rounded-lg bg-muted/50 p-4">
+                      <p className="text-sm text-muted-foreground">
+                        {filterAccount === ALL_ACCOUNTS ? 'Saldo consolidado' : 'Saldo da conta'} no fim do período
+                      </p>
+                      <p className="text-lg font-semibold">{formatCurrency(accountBalances.closing)}</p>
+                    </div>
+                  </div>
+                )}
                 <div className="h-80 mb-6">
                   <ResponsiveContainer width="100%" height="100%">
                     <BarChart data={cashFlowData}>
@@ -509,7 +561,7 @@ export default function Reports() {
         {/* Comparison Tab */}
         <TabsContent value="comparison">
           <Card className="p-6">
-            <h2 className="text-xl font-semibold mb-6">Comparativo Anual</h2>
+            <h2 className="text-xl font-semibold mb-6">Comparativo com o Período Anterior</h2>
             
             {loading ? (
               <div className="text-center py-8 text-muted-foreground">Carregando...</div>
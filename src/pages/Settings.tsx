@@ -53,6 +53,7 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { BRAZIL_TIME_ZONES } from '@/lib/periods';
 
 interface AuthorizedEmail {
   id: string;
@@ -84,6 +85,10 @@ interface Company {
   email: string | null;
   phone: string | null;
   address: string | null;
+  accounting_cash_account: string | null;
+  export_retention_days: number;
+  timezone: string;
+  fiscal_year_start_month: number;
 }
 
 interface Subscription {
@@ -117,7 +122,7 @@ const roleLabels: Record<string, string> = {
 
 export default function Settings() {
   const { user } = useAuth();
-  const { company, userRole, loading: companyLoading, isAdmin, canEdit } = useCompany();
+  const { company, userRole, loading: companyLoading, isAdmin, canEdit, refreshCompany } = useCompany();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   
@@ -255,6 +260,16 @@ export default function Settings() {
   const handleSaveCompany = async () => {
     if (!companyData || !isAdmin) return;
 
+    const retention = companyData.export_retention_days;
+    if (!Number.isInteger(retention) || retention < 30 || retention > 3650) {
+      toast({
+        title: 'Erro',
+        description: 'A retenção dos arquivos exportados deve ser de 30 a 3650 dias.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('companies')
@@ -264,10 +279,17 @@ export default function Settings() {
           email: companyData.email,
           phone: companyData.phone,
           address: companyData.address,
+          accounting_cash_account: companyData.accounting_cash_account?.trim() || null,
+          export_retention_days: companyData.export_retention_days,
+          timezone: companyData.timezone,
+          fiscal_year_start_month: companyData.fiscal_year_start_month,
         })
         .eq('id', companyData.id);
 
       if (error) throw error;
+
+      // Fuso e exercício fiscal são lidos do contexto pelas telas de período
+      await refreshCompany();
       
       toast({
         title: 'Sucesso',
@@ -741,6 +763,73 @@ export default function Settings() {
                       disabled={!isAdmin}
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="company_cash_account">Conta contábil de caixa/bancos</Label>
+                    <Input
+                      id="company_cash_account"
+                      value={companyData.accounting_cash_account || ''}
+                      onChange={(e) => setCompanyData({ ...companyData, accounting_cash_account: e.target.value })}
+                      placeholder="Ex: 1.1.1.02.001"
+                      disabled={!isAdmin}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Contrapartida dos lançamentos na exportação contábil, conforme o plano de contas do seu contador
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="company_export_retention">Guardar arquivos exportados por (dias)</Label>
+                    <Input
+                      id="company_export_retention"
+                      type="number"
+                      min={30}
+                      max={3650}
+                      value={companyData.export_retention_days}
+                      onChange={(e) => setCompanyData({ ...companyData, export_retention_days: Number(e.target.value) })}
+                      disabled={!isAdmin}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Entre 30 e 3650 dias; vale para as próximas exportações. O registro e o checksum ficam no histórico
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Fuso horário</Label>
+                    <Select
+                      value={companyData.timezone}
+                      onValueChange={(value) => setCompanyData({ ...companyData, timezone: value })}
+                      disabled={!isAdmin}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(BRAZIL_TIME_ZONES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Define o que é "hoje", "este mês" e "este trimestre" nos relatórios e exportações
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Início do exercício fiscal</Label>
+                    <Select
+                      value={String(companyData.fiscal_year_start_month)}
+                      onValueChange={(value) => setCompanyData({ ...companyData, fiscal_year_start_month: Number(value) })}
+                      disabled={!isAdmin}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: 12 }, (_, i) => (
+                          <SelectItem key={i + 1} value={String(i + 1)}>
+                            {format(new Date(2024, i), 'MMMM', { locale: ptBR })}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
               )}
               {isAdmin && (
@@ -32,10 +32,17 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { useCompany } from '@/hooks/useCompany';
 import { useAlerts } from '@/hooks/useAlerts';
+import { useAccounts } from '@/hooks/useAccounts';
 import { supabase } from '@/integrations/supabase/client';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { ALL_ACCOUNTS } from '@/lib/accounts';
+import { TRANSFER_LABEL, isTransferLeg } from '@/lib/transfers';
+import { useTransfers } from '@/hooks/useTransfers';
+import { useInstallments } from '@/hooks/useInstallments';
+import { installmentLabel } from '@/lib/installments';
 
 interface Category {
   id: string;
@@ -48,6 +55,10 @@ interface Transaction {
   date: string;
   description: string;
   category_id: string | null;
+  account_id: string | null;
+  transfer_id: string | null;
+  installment_plan_id: string | null;
+  installment_number: number | null;
   subcategory: string | null;
   amount: number;
   type: 'income' | 'expense';
@@ -56,6 +67,7 @@ interface Transaction {
   profit: number | null;
   origin: string | null;
   categories?: Category;
+  installment_plans?: { installment_count: number } | null;
 }
 
 interface EditingCell {
@@ -66,9 +78,12 @@ interface EditingCell {
 
 export default function Spreadsheet() {
   const { user } = useAuth();
-  const { company, canEdit } = useCompany();
+  const { company, canEdit, isAdmin } = useCompany();
   const { toast } = useToast();
   const { createAlert } = useAlerts();
+  const { accounts } = useAccounts();
+  const { deleteTransfer } = useTransfers();
+  const { deletePlan } = useInstallments();
   
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -78,6 +93,7 @@ export default function Spreadsheet() {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterMonth, setFilterMonth] = useState('all');
   const [filterCategory, setFilterCategory] = useState('all');
+  const [filterAccount, setFilterAccount] = useState(ALL_ACCOUNTS);
   const [deleteId, setDeleteId] = useState<string | null>(null);
 
   useEffect(() => {
@@ -124,6 +140,9 @@ export default function Spreadsheet() {
               id,
               name,
               color
+            ),
+            installment_plans (
+              installment_count
             )
           `)
           .eq('company_id', company.id)
@@ -159,6 +178,10 @@ export default function Spreadsheet() {
 
   const handleCellDoubleClick = (id: string, field: keyof Transaction, value: any) => {
     if (!canEdit) return;
+    // Data das pernas de transferência e das parcelas só muda pela transferência ou pelo
+    // parcelamento (tela de Transações)
+    const transaction = transactions.find(t => t.id === id);
+    if (field === 'date' && (isTransferLeg(transaction ?? {}) || transaction?.installment_plan_id)) return;
     setEditingCell({ id, field, value });
   };
 
@@ -216,6 +239,43 @@ export default function Spreadsheet() {
     }
   };
 
+  const handleAccountChange = async (transaction: Transaction, accountId: string) => {
+    if (accountId === transaction.account_id) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('transactions')
+        .update({ account_id: accountId })
+        .eq('id', transaction.id);
+
+      if (error) throw error;
+
+      await createAlert('transaction_edited', `Transação editada: ${transaction.description}`, {
+        transactionId: transaction.id,
+        field: 'account_id',
+        oldValue: transaction.account_id,
+        newValue: accountId,
+      });
+
+      toast({
+        title: 'Salvo',
+        description: 'Alteração salva automaticamente.',
+      });
+
+      await fetchData();
+    } catch (error) {
+      console.error('Error saving:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível salvar a alteração.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleCellBlur();
@@ -269,6 +329,34 @@ export default function Spreadsheet() {
 
     try {
       const transaction = transactions.find(t => t.id === deleteId);
+
+      // Perna de transferência: exclui a transferência inteira (as duas contas)
+      if (transaction?.transfer_id) {
+        const { error } = await deleteTransfer(transaction.transfer_id);
+        if (error) throw error;
+
+        toast({
+          title: 'Excluído',
+          description: 'Transferência removida com sucesso.',
+        });
+
+        await fetchData();
+        return;
+      }
+
+      // Parcela: exclui o parcelamento inteiro
+      if (transaction?.installment_plan_id) {
+        const { error } = await deletePlan(transaction.installment_plan_id);
+        if (error) throw error;
+
+        toast({
+          title: 'Excluído',
+          description: 'Parcelamento removido com sucesso.',
+        });
+
+        await fetchData();
+        return;
+      }
       
       const { error } = await supabase
         .from('transactions')
@@ -312,7 +400,8 @@ export default function Spreadsheet() {
     const matchesSearch = t.description.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesMonth = filterMonth === 'all' || t.date.startsWith(filterMonth);
     const matchesCategory = filterCategory === 'all' || t.category_id === filterCategory;
-    return matchesSearch && matchesMonth && matchesCategory;
+    const matchesAccount = filterAccount === ALL_ACCOUNTS || t.account_id === filterAccount;
+    return matchesSearch && matchesMonth && matchesCategory && matchesAccount;
   });
 
   const getOriginLabel = (origin: string | null) => {
@@ -437,6 +526,13 @@ export default function Spreadsheet() {
               ))}
             </SelectContent>
           </Select>
+          <AccountSelect
+            accounts={accounts}
+            value={filterAccount}
+            onChange={setFilterAccount}
+            allowAll
+            className="w-full sm:w-48"
+          />
         </div>
       </Card>
 
@@ -458,6 +554,7 @@ export default function Spreadsheet() {
                 <TableHead className="min-w-[200px]">Descrição</TableHead>
                 <TableHead>Categoria</TableHead>
                 <TableHead>Subcategoria</TableHead>
+                <TableHead className="min-w-[160px]">Conta</TableHead>
                 <TableHead className="text-right">Valor</TableHead>
                 <TableHead className="text-right">Imposto</TableHead>
                 <TableHead className="text-right">Custo</TableHead>
@@ -469,13 +566,13 @@ export default function Spreadsheet() {
             <TableBody>
               {loading ? (
                 <TableRow>
-                  <TableCell colSpan={canEdit ? 10 : 9} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={canEdit ? 11 : 10} className="text-center py-8 text-muted-foreground">
                     Carregando...
                   </TableCell>
                 </TableRow>
               ) : filteredTransactions.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={canEdit ? 10 : 9} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={canEdit ? 11 : 10} className="text-center py-8 text-muted-foreground">
                     Nenhuma transação encontrada.
                   </TableCell>
                 </TableRow>
@@ -491,14 +588,23 @@ export default function Spreadsheet() {
                       )}
                     </TableCell>
                     <TableCell>
-                      {renderEditableCell(
-                        transaction,
-                        'description',
-                        transaction.description
-                      )}
+                      <div className="flex items-center gap-2">
+                        {renderEditableCell(
+                          transaction,
+                          'description',
+                          transaction.description
+                        )}
+                        {transaction.installment_number && transaction.installment_plans && (
+                          <span className="text-xs text-muted-foreground whitespace-nowrap" title="Parcela">
+                            {installmentLabel(transaction.installment_number, transaction.installment_plans.installment_count)}
+                          </span>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>
-                      {transaction.categories ? (
+                      {isTransferLeg(transaction) ? (
+                        <span className="text-sm text-muted-foreground">{TRANSFER_LABEL}</span>
+                      ) : transaction.categories ? (
                         <div className="flex items-center gap-2">
                           <div
                             className="w-3 h-3 rounded-full"
@@ -517,10 +623,26 @@ export default function Spreadsheet() {
                         transaction.subcategory || '-'
                       )}
                     </TableCell>
+                    <TableCell>
+                      {canEdit && !isTransferLeg(transaction) ? (
+                        <AccountSelect
+                          accounts={accounts.filter(a => !a.archived || a.id === transaction.account_id)}
+                          value={transaction.account_id || ''}
+                          onChange={(accountId) => handleAccountChange(transaction, accountId)}
+                          className="h-8 text-sm"
+                        />
+                      ) : (
+                        <span className="text-sm">
+                          {accounts.find(a => a.id === transaction.account_id)?.name || '-'}
+                        </span>
+                      )}
+                    </TableCell>
                     <TableCell className="text-right">
                       <span className={cn(
                         'font-medium',
-                        transaction.type === 'income' ? 'text-primary' : 'text-destructive'
+                        isTransferLeg(transaction)
+                          ? 'text-muted-foreground'
+                          : transaction.type === 'income' ? 'text-primary' : 'text-destructive'
                       )}>
                         {formatCurrency(transaction.amount)}
                       </span>
@@ -556,14 +678,17 @@ export default function Spreadsheet() {
                     </TableCell>
                     {canEdit && (
                       <TableCell>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 text-destructive hover:text-destructive"
-                          onClick={() => setDeleteId(transaction.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {/* Excluir uma parcela ou perna de transferência exclui o conjunto, o que só admins podem fazer */}
+                        {((!transaction.installment_plan_id && !transaction.transfer_id) || isAdmin) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                            onClick={() => setDeleteId(transaction.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </TableCell>
                     )}
                   </TableRow>
@@ -580,7 +705,11 @@ export default function Spreadsheet() {
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir esta transação? Esta ação não pode ser desfeita.
+              {transactions.find(t => t.id === deleteId)?.transfer_id
+                ? 'Esta transação faz parte de uma transferência: a saída e a entrada nas duas contas serão excluídas. Esta ação não pode ser desfeita.'
+                : transactions.find(t => t.id === deleteId)?.installment_plan_id
+                  ? 'Esta transação é parcela de um parcelamento: todas as parcelas serão excluídas. Esta ação não pode ser desfeita.'
+                  : 'Tem certeza que deseja excluir esta transação? Esta ação não pode ser desfeita.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1,11 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useCompany } from '@/hooks/useCompany';
 import { useAudit } from '@/hooks/useAudit';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useTransfers, Transfer } from '@/hooks/useTransfers';
+import { useInstallments, InstallmentPlan } from '@/hooks/useInstallments';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import {
@@ -30,10 +34,16 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Plus, Pencil, Trash2, Filter, Search, Lock } from 'lucide-react';
+import { Plus, Pencil, Trash2, Filter, Search, Lock, ArrowLeftRight, CreditCard } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
+import { AccountSelect } from '@/components/accounts/AccountSelect';
+import { TransferDialog } from '@/components/transfers/TransferDialog';
+import { InstallmentDialog } from '@/components/installments/InstallmentDialog';
+import { ALL_ACCOUNTS, runningBalances } from '@/lib/accounts';
+import { TRANSFER_LABEL, isTransferLeg } from '@/lib/transfers';
+import { installmentLabel } from '@/lib/installments';
 
 interface Category {
   id: string;
@@ -51,24 +61,38 @@ interface Transaction {
   source: string | null;
   notes: string | null;
   category_id: string | null;
+  account_id: string | null;
+  transfer_id: string | null;
+  installment_plan_id: string | null;
+  installment_number: number | null;
+  created_at: string;
   categories?: Category;
+  installment_plans?: { installment_count: number } | null;
 }
 
 export default function Transactions() {
   const { user } = useAuth();
   const { company, canEdit, isAdmin } = useCompany();
   const { logAction } = useAudit();
+  const { accounts, activeAccounts, balances, refreshAccounts } = useAccounts();
+  const { fetchTransfer, deleteTransfer } = useTransfers();
+  const { fetchPlan, deletePlan } = useInstallments();
   const { toast } = useToast();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const [editingTransfer, setEditingTransfer] = useState<Transfer | null>(null);
+  const [installmentDialogOpen, setInstallmentDialogOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<InstallmentPlan | null>(null);
   
   // Filter states
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all');
+  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense' | 'transfer'>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterAccount, setFilterAccount] = useState<string>(ALL_ACCOUNTS);
   
   // Form states
   const [formDescription, setFormDescription] = useState('');
@@ -76,6 +100,7 @@ export default function Transactions() {
   const [formType, setFormType] = useState<'income' | 'expense'>('expense');
   const [formDate, setFormDate] = useState(new Date().toISOString().split('T')[0]);
   const [formCategory, setFormCategory] = useState<string>('');
+  const [formAccount, setFormAccount] = useState<string>('');
   const [formSource, setFormSource] = useState('');
   const [formNotes, setFormNotes] = useState('');
 
@@ -96,6 +121,7 @@ export default function Transactions() {
           },
           () => {
             fetchData();
+            refreshAccounts();
           }
         )
         .subscribe();
@@ -137,10 +163,14 @@ export default function Transactions() {
               name,
               color,
               keywords
+            ),
+            installment_plans (
+              installment_count
             )
           `)
           .eq('company_id', company.id)
-          .order('date', { ascending: false }),
+          .order('date', { ascending: false })
+          .order('created_at', { ascending: false }),
         supabase
           .from('categories')
           .select('*')
@@ -175,18 +205,60 @@ export default function Transactions() {
     setFormType('expense');
     setFormDate(new Date().toISOString().split('T')[0]);
     setFormCategory('');
+    setFormAccount('');
     setFormSource('');
     setFormNotes('');
     setEditingTransaction(null);
   };
 
-  const openEditDialog = (transaction: Transaction) => {
+  const openTransferDialog = (transfer: Transfer | null) => {
+    setEditingTransfer(transfer);
+    setTransferDialogOpen(true);
+  };
+
+  const openInstallmentDialog = (plan: InstallmentPlan | null) => {
+    setEditingPlan(plan);
+    setInstallmentDialogOpen(true);
+  };
+
+  const openEditDialog = async (transaction: Transaction) => {
+    // As pernas de uma transferência são editadas juntas, pela transferência
+    if (transaction.transfer_id) {
+      const transfer = await fetchTransfer(transaction.transfer_id);
+      if (transfer) {
+        openTransferDialog(transfer);
+      } else {
+        toast({
+          title: 'Erro',
+          description: 'Não foi possível carregar a transferência.',
+          variant: 'destructive',
+        });
+      }
+      return;
+    }
+
+    // As parcelas são editadas e reagendadas juntas, pelo parcelamento
+    if (transaction.installment_plan_id) {
+      const plan = await fetchPlan(transaction.installment_plan_id);
+      if (plan) {
+        openInstallmentDialog(plan);
+      } else {
+        toast({
+          title: 'Erro',
+          description: 'Não foi possível carregar o parcelamento.',
+          variant: 'destructive',
+        });
+      }
+      return;
+    }
+
     setEditingTransaction(transaction);
     setFormDescription(transaction.description);
     setFormAmount(Math.abs(transaction.amount).toString());
     setFormType(transaction.type);
     setFormDate(transaction.date);
     setFormCategory(transaction.category_id || '');
+    setFormAccount(transaction.account_id || '');
     setFormSource(transaction.source || '');
     setFormNotes(transaction.notes || '');
     setDialogOpen(true);
@@ -204,6 +276,8 @@ export default function Transactions() {
       type: formType,
       date: formDate,
       category_id: formCategory || null,
+      // Sem conta escolhida, o banco usa a conta padrão da empresa
+      account_id: formAccount || defaultAccountId || null,
       source: formSource || null,
       notes: formNotes || null,
     };
@@ -254,6 +328,7 @@ export default function Transactions() {
       setDialogOpen(false);
       resetForm();
       fetchData();
+      refreshAccounts();
     } catch (error: any) {
       console.error('Error saving transaction:', error);
       toast({
@@ -274,10 +349,44 @@ export default function Transactions() {
       return;
     }
 
-    if (!confirm('Tem certeza que deseja excluir esta transação?')) return;
-
     const transaction = transactions.find(t => t.id === id);
 
+    if (transaction?.transfer_id) {
+      if (!confirm('Excluir a transferência? A saída e a entrada nas duas contas serão excluídas.')) return;
+
+      const { error } = await deleteTransfer(transaction.transfer_id);
+      toast(error ? {
+        title: 'Erro',
+        description: error.message || 'Não foi possível excluir a transferência.',
+        variant: 'destructive',
+      } : {
+        title: 'Sucesso',
+        description: 'Transferência excluída com sucesso.',
+      });
+      fetchData();
+      refreshAccounts();
+      return;
+    }
+
+    if (transaction?.installment_plan_id) {
+      if (!confirm(`Excluir o parcelamento "${transaction.description}"? Todas as parcelas serão excluídas.`)) return;
+
+      const { error } = await deletePlan(transaction.installment_plan_id);
+      toast(error ? {
+        title: 'Erro',
+        description: error.message || 'Não foi possível excluir o parcelamento.',
+        variant: 'destructive',
+      } : {
+        title: 'Sucesso',
+        description: 'Parcelamento excluído com sucesso.',
+      });
+      fetchData();
+      refreshAccounts();
+      return;
+    }
+
+    if (!confirm('Tem certeza que deseja excluir esta transação?')) return;
+
     try {
       const { error } = await supabase
         .from('transactions')
@@ -298,6 +407,7 @@ export default function Transactions() {
         description: 'Transação excluída com sucesso.',
       });
       fetchData();
+      refreshAccounts();
     } catch (error: any) {
       console.error('Error deleting transaction:', error);
       toast({
@@ -317,11 +427,32 @@ export default function Transactions() {
 
   const filteredTransactions = transactions.filter(t => {
     const matchesSearch = t.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = filterType === 'all' || t.type === filterType;
+    // Receitas e despesas não incluem as pernas de transferência
+    const matchesType = filterType === 'all'
+      || (filterType === 'transfer' ? isTransferLeg(t) : t.type === filterType && !isTransferLeg(t));
     const matchesCategory = filterCategory === 'all' || t.category_id === filterCategory;
-    return matchesSearch && matchesType && matchesCategory;
+    const matchesAccount = filterAccount === ALL_ACCOUNTS || t.account_id === filterAccount;
+    return matchesSearch && matchesType && matchesCategory && matchesAccount;
   });
 
+  const defaultAccountId = activeAccounts.find(a => a.is_default)?.id;
+  const accountById = useMemo(() => new Map(accounts.map(a => [a.id, a])), [accounts]);
+  // Conta arquivada continua aparecendo ao editar um lançamento dela
+  const formAccounts = accounts.filter(a => !a.archived || a.id === editingTransaction?.account_id);
+
+  // Saldo após cada lançamento, calculado sobre todos os lançamentos da conta (sem os demais filtros)
+  const selectedAccount = filterAccount !== ALL_ACCOUNTS ? accountById.get(filterAccount) : undefined;
+  const accountRunningBalances = useMemo(() => {
+    if (!selectedAccount || balances[selectedAccount.id] === undefined) return null;
+    return runningBalances(
+      transactions.filter(t => t.account_id === selectedAccount.id),
+      balances[selectedAccount.id],
+      selectedAccount.opening_date,
+    );
+  }, [transactions, selectedAccount, balances]);
+
+  const columnCount = 6 + (accountRunningBalances ? 1 : 0) + (canEdit ? 1 : 0);
+
   return (
     <div className="p-6 lg:p-8 space-y-6">
       {/* Header */}
@@ -335,121 +466,139 @@ export default function Transactions() {
           </p>
         </div>
         {canEdit ? (
-          <Dialog open={dialogOpen} onOpenChange={(open) => {
-            setDialogOpen(open);
-            if (!open) resetForm();
-          }}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="h-4 w-4" />
-                Nova Transação
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[500px]">
-              <DialogHeader>
-                <DialogTitle className="font-display">
-                  {editingTransaction ? 'Editar Transação' : 'Nova Transação'}
-                </DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4 mt-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="col-span-2 space-y-2">
-                    <Label htmlFor="description">Descrição</Label>
-                    <Input
-                      id="description"
-                      value={formDescription}
-                      onChange={(e) => setFormDescription(e.target.value)}
-                      placeholder="Ex: Venda de produto"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="amount">Valor</Label>
-                    <Input
-                      id="amount"
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      value={formAmount}
-                      onChange={(e) => setFormAmount(e.target.value)}
-                      placeholder="0,00"
-                      required
-                    />
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => openTransferDialog(null)}>
+              <ArrowLeftRight className="h-4 w-4" />
+              Nova Transferência
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => openInstallmentDialog(null)}>
+              <CreditCard className="h-4 w-4" />
+              Novo Parcelamento
+            </Button>
+            <Dialog open={dialogOpen} onOpenChange={(open) => {
+              setDialogOpen(open);
+              if (!open) resetForm();
+            }}>
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Nova Transação
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[500px]">
+                <DialogHeader>
+                  <DialogTitle className="font-display">
+                    {editingTransaction ? 'Editar Transação' : 'Nova Transação'}
+                  </DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="col-span-2 space-y-2">
+                      <Label htmlFor="description">Descrição</Label>
+                      <Input
+                        id="description"
+                        value={formDescription}
+                        onChange={(e) => setFormDescription(e.target.value)}
+                        placeholder="Ex: Venda de produto"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="amount">Valor</Label>
+                      <Input
+                        id="amount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formAmount}
+                        onChange={(e) => setFormAmount(e.target.value)}
+                        placeholder="0,00"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="type">Tipo</Label>
+                      <Select value={formType} onValueChange={(v) => setFormType(v as 'income' | 'expense')}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="income">Receita</SelectItem>
+                          <SelectItem value="expense">Despesa</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="date">Data</Label>
+                      <Input
+                        id="date"
+                        type="date"
+                        value={formDate}
+                        onChange={(e) => setFormDate(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="category">Categoria</Label>
+                      <Select value={formCategory} onValueChange={setFormCategory}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categories.map(cat => (
+                            <SelectItem key={cat.id} value={cat.id}>
+                              <div className="flex items-center gap-2">
+                                <div 
+                                  className="w-3 h-3 rounded-full" 
+                                  style={{ backgroundColor: cat.color }}
+                                />
+                                {cat.name}
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label htmlFor="account">Conta</Label>
+                      <AccountSelect
+                        accounts={formAccounts}
+                        value={formAccount || defaultAccountId || ''}
+                        onChange={setFormAccount}
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label htmlFor="source">Origem</Label>
+                      <Input
+                        id="source"
+                        value={formSource}
+                        onChange={(e) => setFormSource(e.target.value)}
+                        placeholder="Ex: Mercado Livre, Shopee..."
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label htmlFor="notes">Observações</Label>
+                      <Textarea
+                        id="notes"
+                        value={formNotes}
+                        onChange={(e) => setFormNotes(e.target.value)}
+                        placeholder="Notas adicionais..."
+                        rows={2}
+                      />
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="type">Tipo</Label>
-                    <Select value={formType} onValueChange={(v) => setFormType(v as 'income' | 'expense')}>
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="income">Receita</SelectItem>
-                        <SelectItem value="expense">Despesa</SelectItem>
-                      </SelectContent>
-                    </Select>
+                  <div className="flex justify-end gap-2 pt-4">
+                    <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                      Cancelar
+                    </Button>
+                    <Button type="submit">
+                      {editingTransaction ? 'Salvar' : 'Adicionar'}
+                    </Button>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="date">Data</Label>
-                    <Input
-                      id="date"
-                      type="date"
-                      value={formDate}
-                      onChange={(e) => setFormDate(e.target.value)}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="category">Categoria</Label>
-                    <Select value={formCategory} onValueChange={setFormCategory}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Selecione..." />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {categories.map(cat => (
-                          <SelectItem key={cat.id} value={cat.id}>
-                            <div className="flex items-center gap-2">
-                              <div 
-                                className="w-3 h-3 rounded-full" 
-                                style={{ backgroundColor: cat.color }}
-                              />
-                              {cat.name}
-                            </div>
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="col-span-2 space-y-2">
-                    <Label htmlFor="source">Origem</Label>
-                    <Input
-                      id="source"
-                      value={formSource}
-                      onChange={(e) => setFormSource(e.target.value)}
-                      placeholder="Ex: Mercado Livre, Shopee..."
-                    />
-                  </div>
-                  <div className="col-span-2 space-y-2">
-                    <Label htmlFor="notes">Observações</Label>
-                    <Textarea
-                      id="notes"
-                      value={formNotes}
-                      onChange={(e) => setFormNotes(e.target.value)}
-                      placeholder="Notas adicionais..."
-                      rows={2}
-                    />
-                  </div>
-                </div>
-                <div className="flex justify-end gap-2 pt-4">
-                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                    Cancelar
-                  </Button>
-                  <Button type="submit">
-                    {editingTransaction ? 'Salvar' : 'Adicionar'}
-                  </Button>
-                </div>
-              </form>
-            </DialogContent>
-          </Dialog>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         ) : (
           <div className="flex items-center gap-2 text-muted-foreground">
             <Lock className="h-4 w-4" />
@@ -470,7 +619,7 @@ export default function Transactions() {
               className="pl-9"
             />
           </div>
-          <Select value={filterType} onValueChange={(v) => setFilterType(v as 'all' | 'income' | 'expense')}>
+          <Select value={filterType} onValueChange={(v) => setFilterType(v as 'all' | 'income' | 'expense' | 'transfer')}>
             <SelectTrigger className="w-full sm:w-40">
               <Filter className="h-4 w-4 mr-2" />
               <SelectValue />
@@ -479,6 +628,7 @@ export default function Transactions() {
               <SelectItem value="all">Todos</SelectItem>
               <SelectItem value="income">Receitas</SelectItem>
               <SelectItem value="expense">Despesas</SelectItem>
+              <SelectItem value="transfer">Transferências</SelectItem>
             </SelectContent>
           </Select>
           <Select value={filterCategory} onValueChange={setFilterCategory}>
@@ -500,6 +650,13 @@ export default function Transactions() {
               ))}
             </SelectContent>
           </Select>
+          <AccountSelect
+            accounts={accounts}
+            value={filterAccount}
+            onChange={setFilterAccount}
+            allowAll
+            className="w-full sm:w-48"
+          />
         </div>
       </div>
 
@@ -511,22 +668,24 @@ export default function Transactions() {
               <TableRow>
                 <TableHead>Descrição</TableHead>
                 <TableHead>Categoria</TableHead>
+                <TableHead>Conta</TableHead>
                 <TableHead>Data</TableHead>
                 <TableHead>Origem</TableHead>
                 <TableHead className="text-right">Valor</TableHead>
+                {accountRunningBalances && <TableHead className="text-right">Saldo</TableHead>}
                 {canEdit && <TableHead className="w-[100px]">Ações</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
               {loading ? (
                 <TableRow>
-                  <TableCell colSpan={canEdit ? 6 : 5} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
                     Carregando...
                   </TableCell>
                 </TableRow>
               ) : filteredTransactions.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={canEdit ? 6 : 5} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
                     Nenhuma transação encontrada.
                   </TableCell>
                 </TableRow>
@@ -535,9 +694,19 @@ export default function Transactions() {
                   <TableRow key={transaction.id}>
                     <TableCell className="font-medium">
                       {transaction.description}
+                      {transaction.installment_number && transaction.installment_plans && (
+                        <Badge variant="outline" className="ml-2 font-normal" title="Parcela">
+                          {installmentLabel(transaction.installment_number, transaction.installment_plans.installment_count)}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
-                      {transaction.categories && (
+                      {isTransferLeg(transaction) ? (
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <ArrowLeftRight className="h-3 w-3" />
+                          <span className="text-sm">{TRANSFER_LABEL}</span>
+                        </div>
+                      ) : transaction.categories && (
                         <div className="flex items-center gap-2">
                           <div 
                             className="w-3 h-3 rounded-full" 
@@ -547,6 +716,9 @@ export default function Transactions() {
                         </div>
                       )}
                     </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {(transaction.account_id && accountById.get(transaction.account_id)?.name) || '-'}
+                    </TableCell>
                     <TableCell className="text-muted-foreground">
                       {format(new Date(transaction.date), "dd/MM/yyyy", { locale: ptBR })}
                     </TableCell>
@@ -555,11 +727,20 @@ export default function Transactions() {
                     </TableCell>
                     <TableCell className={cn(
                       "text-right font-semibold",
-                      transaction.type === 'income' ? "text-primary" : "text-destructive"
+                      isTransferLeg(transaction)
+                        ? "text-muted-foreground"
+                        : transaction.type === 'income' ? "text-primary" : "text-destructive"
                     )}>
                       {transaction.type === 'income' ? '+' : '-'}
                       {formatCurrency(transaction.amount)}
                     </TableCell>
+                    {accountRunningBalances && (
+                      <TableCell className="text-right text-muted-foreground">
+                        {accountRunningBalances.has(transaction.id)
+                          ? formatCurrency(accountRunningBalances.get(transaction.id)!)
+                          : '-'}
+                      </TableCell>
+                    )}
                     {canEdit && (
                       <TableCell>
                         <div className="flex items-center gap-1">
@@ -590,6 +771,29 @@ export default function Transactions() {
           </Table>
         </div>
       </div>
+
+      <TransferDialog
+        open={transferDialogOpen}
+        onOpenChange={setTransferDialogOpen}
+        accounts={accounts}
+        transfer={editingTransfer}
+        onSaved={() => {
+          fetchData();
+          refreshAccounts();
+        }}
+      />
+
+      <InstallmentDialog
+        open={installmentDialogOpen}
+        onOpenChange={setInstallmentDialogOpen}
+        accounts={accounts}
+        categories={categories}
+        plan={editingPlan}
+        onSaved={() => {
+          fetchData();
+          refreshAccounts();
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,427 @@
+// =====================================================
+// EDGE FUNCTION: EXPORTAÇÕES AGENDADAS
+// Chamada pelo pg_cron a cada 15 minutos (ver migration de export_schedules).
+// Para cada agendamento vencido: gera o arquivo, grava no bucket "exports",
+// registra no histórico e envia o link por e-mail aos destinatários.
+// Também remove do Storage os arquivos do histórico vencidos pela retenção.
+//
+// Variáveis de ambiente:
+//   SCHEDULED_EXPORTS_SECRET  segredo enviado pelo cron no cabeçalho x-cron-secret
+//   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_FROM
+//   SMTP_SECURITY             tls | starttls (padrão) | none
+//
+// Teste local com o catcher de e-mails do `supabase start` (Inbucket/Mailpit):
+//   SMTP_HOST=host.docker.internal SMTP_PORT=54325 SMTP_SECURITY=none
+//   curl -X POST http://127.0.0.1:54321/functions/v1/scheduled-exports \
+//     -H "x-cron-secret: $SCHEDULED_EXPORTS_SECRET" -d '{"scheduleId":"<id>"}'
+// =====================================================
+
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import type { Database, Tables } from '@/integrations/supabase/types';
+import {
+  EXPORT_FORMAT_LABELS,
+  EXPORT_TYPE_LABELS,
+  ExportFormat,
+  ExportRow,
+  ExportTransaction,
+  ExportType,
+  buildExportRows,
+  exportFileName,
+  periodFilter,
+  splitByBasis,
+} from '@/lib/export/reports';
+import { buildPdfReport } from '@/lib/export/pdf';
+import { buildFullReportWorkbook, buildRowsWorkbook, workbookToBlob } from '@/lib/export/xlsx';
+import { rowsToCsvBlob } from '@/lib/export/csv';
+import { fetchAllPages } from '@/lib/export/paging';
+import {
+  ExportTemplate,
+  TemplateColumn,
+  TemplateDateFormat,
+  TemplateFilters,
+  TemplateNumberFormat,
+  buildTemplateRows,
+  sanitizeTemplate,
+  templateFileName,
+  templateSnapshot,
+} from '@/lib/export/templates';
+import { EXPORTS_BUCKET, exportStoragePath, sha256Hex } from '@/lib/export/history';
+import {
+  SCHEDULE_PERIODS,
+  ScheduleFrequency,
+  SchedulePeriod,
+  computeNextRun,
+  computeSchedulePeriod,
+} from '@/lib/export/schedules';
+import { companyPeriodSettings } from '@/lib/periods';
+
+type Client = SupabaseClient<Database>;
+type Schedule = Tables<'export_schedules'>;
+type Company = Pick<Tables<'companies'>, 'name' | 'document' | 'timezone' | 'fiscal_year_start_month'>;
+
+interface GeneratedFile {
+  name: string;
+  blob: Blob;
+  rowsCount: number;
+  template: ExportTemplate | null;
+}
+
+// Agendamentos e arquivos vencidos processados por chamada; o restante fica para a próxima
+const BATCH_SIZE = 20;
+const PURGE_BATCH_SIZE = 100;
+const LINK_EXPIRATION_DAYS = 7;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/** 'yyyy-MM-dd' como meia-noite local, igual às datas escolhidas na tela */
+const parseDay = (day: string) => new Date(`${day}T00:00:00`);
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : (err as { message?: string })?.message || String(err);
+
+async function fetchTransactions(supabase: Client, companyId: string, start: string, end: string) {
+  const { rows, total, capped } = await fetchAllPages((from, to) =>
+    supabase
+      .from('transactions')
+      .select('*, categories (name, color, account_code)', { count: 'exact' })
+      .eq('company_id', companyId)
+      .or(periodFilter({ start, end }))
+      .order('date', { ascending: false })
+      .order('id')
+      .range(from, to)
+  );
+
+  // Um arquivo incompleto enviado sem aviso é pior que a falha registrada no agendamento
+  if (capped) throw new Error(`Só ${rows.length} de ${total} transações puderam ser lidas; exportação cancelada.`);
+  return rows as ExportTransaction[];
+}
+
+const rowsBlob = (rows: ExportRow[], format: 'csv' | 'xlsx') =>
+  format === 'csv' ? Promise.resolve(rowsToCsvBlob(rows)) : workbookToBlob(buildRowsWorkbook(rows));
+
+/**
+ * Modelo do agendamento; a função usa a service role, então a empresa é conferida aqui
+ */
+async function fetchTemplate(supabase: Client, schedule: Schedule): Promise<ExportTemplate> {
+  if (!schedule.template_id) throw new Error('O modelo de exportação do agendamento foi excluído.');
+
+  const { data, error } = await supabase
+    .from('export_templates')
+    .select('*')
+    .eq('id', schedule.template_id)
+    .eq('company_id', schedule.company_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error('O modelo de exportação do agendamento não foi encontrado.');
+  return sanitizeTemplate({
+    id: data.id,
+    name: data.name,
+    columns: data.columns as unknown as TemplateColumn[],
+    dateFormat: data.date_format as TemplateDateFormat,
+    numberFormat: data.number_format as TemplateNumberFormat,
+    filters: data.filters as unknown as TemplateFilters,
+  });
+}
+
+async function fetchCreatorNames(supabase: Client, transactions: ExportTransaction[]) {
+  const userIds = [...new Set(transactions.map(t => t.user_id).filter(Boolean))] as string[];
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('user_id, full_name')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(p => [p.user_id, p.full_name || 'Usuário']));
+}
+
+/**
+ * Gera o arquivo do agendamento com as mesmas regras da tela de exportação
+ */
+async function generateFile(
+  supabase: Client,
+  schedule: Schedule,
+  company: Company,
+  start: string,
+  end: string,
+): Promise<GeneratedFile> {
+  const { cash: transactions, competence } = splitByBasis(
+    await fetchTransactions(supabase, schedule.company_id, start, end),
+    { start, end },
+  );
+  const startDate = parseDay(start);
+  const endDate = parseDay(end);
+  const format = schedule.format as 'csv' | 'xlsx' | 'pdf';
+
+  if (schedule.export_type === 'template') {
+    if (format === 'pdf') throw new Error('Modelos de exportação não podem ser gerados em PDF.');
+
+    const template = await fetchTemplate(supabase, schedule);
+    const creators = template.columns.some(c => c.field === 'created_by')
+      ? await fetchCreatorNames(supabase, transactions)
+      : {};
+    const rows = buildTemplateRows(transactions, template, creators);
+
+    return {
+      name: `${templateFileName(template, startDate, endDate)}.${format}`,
+      blob: await rowsBlob(rows, format),
+      rowsCount: rows.length,
+      template,
+    };
+  }
+
+  const exportType = schedule.export_type as ExportType;
+  const name = `${exportFileName(exportType, startDate, endDate)}.${format}`;
+
+  if (format === 'pdf') {
+    const blob = buildPdfReport({
+      exportType,
+      company,
+      start: startDate,
+      end: endDate,
+      transactions,
+      competenceTransactions: competence,
+    });
+    return { name, blob, rowsCount: transactions.length, template: null };
+  }
+
+  if (format === 'xlsx' && exportType === 'full_report') {
+    const blob = await workbookToBlob(buildFullReportWorkbook(transactions, competence, company.name));
+    return { name, blob, rowsCount: transactions.length, template: null };
+  }
+
+  const rows = buildExportRows(exportType, transactions, competence);
+  return {
+    name,
+    blob: await rowsBlob(rows, format),
+    rowsCount: rows.length,
+    template: null,
+  };
+}
+
+async function sendEmail(recipients: string[], subject: string, text: string, html: string) {
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) throw new Error('SMTP não configurado (SMTP_HOST).');
+
+  const security = Deno.env.get('SMTP_SECURITY') || 'starttls';
+  const username = Deno.env.get('SMTP_USER');
+
+  const client = new SMTPClient({
+    connection: {
+      hostname,
+      port: Number(Deno.env.get('SMTP_PORT') || (security === 'tls' ? 465 : 587)),
+      tls: security === 'tls',
+      auth: username ? { username, password: Deno.env.get('SMTP_PASS') || '' } : undefined,
+    },
+    // Catchers locais não oferecem STARTTLS nem autenticação
+    debug: security === 'none' ? { allowUnsecure: true, noStartTLS: true } : undefined,
+  });
+
+  try {
+    await client.send({
+      from: Deno.env.get('SMTP_FROM') || username || 'no-reply@localhost',
+      to: recipients,
+      subject,
+      content: text,
+      html,
+    });
+  } finally {
+    await client.close();
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Executa um agendamento. A próxima execução é reservada antes de gerar o arquivo,
+ * assim duas chamadas simultâneas do cron não processam o mesmo agendamento.
+ */
+async function runSchedule(supabase: Client, schedule: Schedule, now: Date) {
+  const { data: company, error: companyError } = await supabase
+    .from('companies')
+    .select('name, document, timezone, fiscal_year_start_month')
+    .eq('id', schedule.company_id)
+    .single();
+
+  // Sem a empresa não há como calcular o horário; o agendamento fica para a próxima chamada
+  if (companyError) {
+    console.error(`Scheduled export ${schedule.id} failed:`, companyError);
+    return { id: schedule.id, status: 'error', error: errorMessage(companyError) };
+  }
+
+  // Horário e período no fuso e no exercício fiscal da empresa
+  const settings = companyPeriodSettings(company);
+  const nextRun = computeNextRun({
+    frequency: schedule.frequency as ScheduleFrequency,
+    dayOfWeek: schedule.day_of_week,
+    dayOfMonth: schedule.day_of_month,
+    hour: schedule.run_hour,
+  }, now, settings);
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('export_schedules')
+    .update({ next_run_at: nextRun.toISOString() })
+    .eq('id', schedule.id)
+    .eq('next_run_at', schedule.next_run_at)
+    .select('id');
+
+  if (claimError) throw claimError;
+  if (!claimed?.length) return { id: schedule.id, status: 'skipped' };
+
+  try {
+    const { start, end } = computeSchedulePeriod(schedule.period as SchedulePeriod, now, settings);
+    const file = await generateFile(supabase, schedule, company, start, end);
+    const storagePath = exportStoragePath(schedule.company_id, file.name, now);
+
+    const { error: uploadError } = await supabase.storage
+      .from(EXPORTS_BUCKET)
+      .upload(storagePath, file.blob, { contentType: file.blob.type });
+
+    if (uploadError) throw uploadError;
+
+    const { error: historyError } = await supabase.from('export_history').insert({
+      user_id: schedule.user_id,
+      company_id: schedule.company_id,
+      file_name: file.name,
+      format: schedule.format,
+      export_type: schedule.export_type,
+      period_start: start,
+      period_end: end,
+      template_id: file.template?.id ?? null,
+      template_snapshot: file.template ? templateSnapshot(file.template) : null,
+      schedule_id: schedule.id,
+      storage_path: storagePath,
+      checksum: await sha256Hex(file.blob),
+      file_size: file.blob.size,
+    });
+
+    if (historyError) throw historyError;
+
+    if (schedule.recipients.length > 0) {
+      const { data: signed, error: signError } = await supabase.storage
+        .from(EXPORTS_BUCKET)
+        .createSignedUrl(storagePath, LINK_EXPIRATION_DAYS * 24 * 60 * 60);
+
+      if (signError) throw signError;
+
+      const typeLabel = file.template
+        ? `Modelo: ${file.template.name}`
+        : EXPORT_TYPE_LABELS[schedule.export_type as ExportType];
+      const period = `${start.split('-').reverse().join('/')} a ${end.split('-').reverse().join('/')}`;
+      const lines = [
+        `Exportação agendada "${schedule.name}" (${typeLabel}, ${EXPORT_FORMAT_LABELS[schedule.format as ExportFormat]})`,
+        `Período: ${period} (${SCHEDULE_PERIODS[schedule.period as SchedulePeriod]})`,
+        `${file.rowsCount} ${file.rowsCount === 1 ? 'linha' : 'linhas'}`,
+      ];
+
+      await sendEmail(
+        schedule.recipients,
+        `${schedule.name} — ${period}`,
+        [...lines, '', `Baixar arquivo (link válido por ${LINK_EXPIRATION_DAYS} dias):`, signed.signedUrl].join('\n'),
+        lines.map(l => `<p>${escapeHtml(l)}</p>`).join('')
+          + `<p><a href="${escapeHtml(signed.signedUrl)}">Baixar ${escapeHtml(file.name)}</a>`
+          + ` (link válido por ${LINK_EXPIRATION_DAYS} dias)</p>`,
+      );
+    }
+
+    await supabase
+      .from('export_schedules')
+      .update({ last_run_at: now.toISOString(), last_status: 'success', last_error: null })
+      .eq('id', schedule.id);
+
+    return { id: schedule.id, status: 'success', file: storagePath };
+  } catch (err) {
+    const message = errorMessage(err);
+    console.error(`Scheduled export ${schedule.id} failed:`, err);
+
+    await supabase
+      .from('export_schedules')
+      .update({ last_run_at: now.toISOString(), last_status: 'error', last_error: message })
+      .eq('id', schedule.id);
+
+    await supabase.from('alerts').insert({
+      user_id: schedule.user_id,
+      company_id: schedule.company_id,
+      type: 'system',
+      message: `Falha na exportação agendada "${schedule.name}"`,
+      metadata: { schedule_id: schedule.id, error: message },
+    });
+
+    return { id: schedule.id, status: 'error', error: message };
+  }
+}
+
+/**
+ * Remove do Storage os arquivos cuja retenção venceu; o registro e o checksum ficam no histórico
+ */
+async function purgeExpiredExports(supabase: Client, now: Date) {
+  const { data: expired, error } = await supabase
+    .from('export_history')
+    .select('id, storage_path')
+    .not('storage_path', 'is', null)
+    .lte('expires_at', now.toISOString())
+    .limit(PURGE_BATCH_SIZE);
+
+  if (error) throw error;
+  if (!expired?.length) return 0;
+
+  const { error: removeError } = await supabase.storage
+    .from(EXPORTS_BUCKET)
+    .remove(expired.map(item => item.storage_path!));
+
+  if (removeError) throw removeError;
+
+  const { error: updateError } = await supabase
+    .from('export_history')
+    .update({ storage_path: null })
+    .in('id', expired.map(item => item.id));
+
+  if (updateError) throw updateError;
+  return expired.length;
+}
+
+Deno.serve(async (req) => {
+  const secret = Deno.env.get('SCHEDULED_EXPORTS_SECRET');
+  if (!secret || req.headers.get('x-cron-secret') !== secret) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const supabase = createClient<Database>(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  );
+
+  // Corpo opcional { scheduleId } executa um agendamento na hora (testes e reprocessamento)
+  const body = await req.json().catch(() => ({})) as { scheduleId?: string };
+  const now = new Date();
+
+  let query = supabase.from('export_schedules').select('*');
+  query = body.scheduleId
+    ? query.eq('id', body.scheduleId)
+    : query.eq('is_active', true).lte('next_run_at', now.toISOString()).order('next_run_at').limit(BATCH_SIZE);
+
+  const { data: schedules, error } = await query;
+  if (error) {
+    console.error('Error fetching export schedules:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+
+  const results = [];
+  for (const schedule of schedules || []) {
+    results.push(await runSchedule(supabase, schedule, now));
+  }
+
+  let purged = 0;
+  try {
+    purged = await purgeExpiredExports(supabase, now);
+  } catch (err) {
+    console.error('Error purging expired exports:', err);
+  }
+
+  return jsonResponse({ processed: results.length, results, purged });
+});
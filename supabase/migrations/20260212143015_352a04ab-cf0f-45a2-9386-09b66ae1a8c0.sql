@@ -0,0 +1,15 @@
+-- =====================================================
+-- IMPORTAÇÃO OFX: identificador externo das transações
+-- =====================================================
+
+-- 1. Identificador da transação no sistema de origem (ex: FITID do OFX).
+--    Gravado com prefixo da origem e da conta ("ofx:<conta>:<fitid>") para que
+--    reimportar um extrato sobreposto nunca gere lançamentos duplicados.
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+-- NULLs são distintos no Postgres, então lançamentos manuais não são afetados
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_company_external_id_key UNIQUE (company_id, external_id);
+
+-- 2. Linhas ignoradas por já existirem (duplicidade por identificador externo)
+ALTER TABLE public.import_history ADD COLUMN IF NOT EXISTS rows_skipped INTEGER DEFAULT 0;
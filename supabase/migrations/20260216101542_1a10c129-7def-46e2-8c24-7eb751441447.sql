@@ -0,0 +1,44 @@
+-- =====================================================
+-- PERFIS DE IMPORTAÇÃO (MAPEAMENTOS SALVOS POR EMPRESA)
+-- =====================================================
+
+CREATE TABLE public.import_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  -- Cabeçalhos normalizados ("data|descricao|valor") para sugerir o perfil automaticamente
+  header_signature TEXT NOT NULL,
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  date_format TEXT NOT NULL DEFAULT 'auto',
+  decimal_separator TEXT NOT NULL DEFAULT 'auto',
+  sign_convention TEXT NOT NULL DEFAULT 'signed',
+  default_category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  -- Linha (1 = primeira) onde está o cabeçalho; linhas anteriores são ignoradas
+  header_row INTEGER NOT NULL DEFAULT 1 CHECK (header_row >= 1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (company_id, name),
+  CHECK (date_format IN ('auto', 'dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd')),
+  CHECK (decimal_separator IN ('auto', ',', '.')),
+  CHECK (sign_convention IN ('signed', 'inverted', 'expense', 'income'))
+);
+
+ALTER TABLE public.import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view import profiles"
+ON public.import_profiles FOR SELECT
+TO authenticated
+USING (company_id = public.get_user_company_id());
+
+CREATE POLICY "Company members can manage import profiles"
+ON public.import_profiles FOR ALL
+TO authenticated
+USING (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')))
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE TRIGGER update_import_profiles_updated_at
+BEFORE UPDATE ON public.import_profiles
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_import_profiles_company_id ON public.import_profiles(company_id);
@@ -0,0 +1,95 @@
+-- =====================================================
+-- LOTES DE IMPORTAÇÃO: VÍNCULO COM O HISTÓRICO E DESFAZER
+-- =====================================================
+
+-- Cada lançamento e categoria criados por uma importação apontam para o seu lote
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES public.import_history(id) ON DELETE SET NULL;
+
+ALTER TABLE public.categories
+  ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES public.import_history(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_import_id ON public.transactions(import_id);
+CREATE INDEX IF NOT EXISTS idx_categories_import_id ON public.categories(import_id);
+
+-- O histórico é criado antes da gravação (status 'processing') e atualizado ao final;
+-- um lote que ficou em 'processing' foi interrompido e pode ser desfeito
+ALTER TABLE public.import_history ADD COLUMN IF NOT EXISTS rows_total INTEGER DEFAULT 0;
+ALTER TABLE public.import_history ADD COLUMN IF NOT EXISTS reverted_at TIMESTAMPTZ;
+ALTER TABLE public.import_history ADD COLUMN IF NOT EXISTS reverted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- DESFAZER UMA IMPORTAÇÃO
+-- Remove os lançamentos do lote e as categorias criadas por ele que não
+-- são usadas por nenhum outro lançamento ou perfil de importação.
+-- Administradores podem desfazer qualquer lote da empresa; o perfil
+-- financeiro apenas os lotes que ele mesmo importou.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.revert_import(p_import_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = pg_catalog, public
+AS $$
+DECLARE
+  v_import public.import_history%ROWTYPE;
+  v_transactions INTEGER;
+  v_categories INTEGER;
+BEGIN
+  SELECT * INTO v_import
+  FROM public.import_history
+  WHERE id = p_import_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_import.company_id IS DISTINCT FROM public.get_user_company_id() THEN
+    RAISE EXCEPTION 'Importação não encontrada';
+  END IF;
+
+  IF NOT public.is_subscription_active(v_import.company_id) THEN
+    RAISE EXCEPTION 'Assinatura inativa';
+  END IF;
+
+  IF NOT (public.has_role('admin') OR (public.has_role('financeiro') AND v_import.user_id = auth.uid())) THEN
+    RAISE EXCEPTION 'Sem permissão para desfazer esta importação';
+  END IF;
+
+  IF v_import.status = 'reverted' THEN
+    RAISE EXCEPTION 'Esta importação já foi desfeita';
+  END IF;
+
+  DELETE FROM public.transactions
+  WHERE import_id = p_import_id
+    AND company_id = v_import.company_id;
+  GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+  DELETE FROM public.categories c
+  WHERE c.import_id = p_import_id
+    AND c.company_id = v_import.company_id
+    AND NOT EXISTS (SELECT 1 FROM public.transactions t WHERE t.category_id = c.id)
+    AND NOT EXISTS (SELECT 1 FROM public.import_profiles p WHERE p.default_category_id = c.id);
+  GET DIAGNOSTICS v_categories = ROW_COUNT;
+
+  UPDATE public.import_history
+  SET status = 'reverted',
+      reverted_at = now(),
+      reverted_by = auth.uid()
+  WHERE id = p_import_id;
+
+  PERFORM public.log_audit_event(
+    'import_history',
+    'REVERT',
+    p_import_id,
+    jsonb_build_object('status', v_import.status, 'rows_imported', v_import.rows_imported),
+    jsonb_build_object('transactions_deleted', v_transactions, 'categories_deleted', v_categories)
+  );
+
+  RETURN jsonb_build_object(
+    'transactions_deleted', v_transactions,
+    'categories_deleted', v_categories
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.revert_import(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.revert_import(UUID) TO authenticated;
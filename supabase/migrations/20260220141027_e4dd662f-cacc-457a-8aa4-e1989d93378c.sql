@@ -0,0 +1,20 @@
+-- =====================================================
+-- HISTÓRICO DE IMPORTAÇÕES: DETALHES E REPROCESSAMENTO
+-- =====================================================
+
+-- Opções de interpretação usadas no lote (formato de data, separador, sinal...),
+-- reaplicadas ao reprocessar as linhas que falharam
+ALTER TABLE public.import_history ADD COLUMN IF NOT EXISTS settings JSONB;
+
+-- Lote de origem quando a importação reprocessa linhas que falharam em outra
+ALTER TABLE public.import_history
+  ADD COLUMN IF NOT EXISTS retry_of UUID REFERENCES public.import_history(id) ON DELETE SET NULL;
+
+-- O histórico passa a ser da empresa, não só de quem importou
+CREATE POLICY "Company members can view import history"
+ON public.import_history FOR SELECT
+TO authenticated
+USING (company_id = public.get_user_company_id());
+
+CREATE INDEX IF NOT EXISTS idx_import_history_company_created
+ON public.import_history(company_id, created_at DESC);
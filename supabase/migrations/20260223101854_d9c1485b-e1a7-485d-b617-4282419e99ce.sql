@@ -0,0 +1,9 @@
+-- =====================================================
+-- EXPORTAÇÃO CONTÁBIL: PLANO DE CONTAS DO CONTADOR
+-- =====================================================
+
+-- Conta do plano de contas do escritório contábil para onde vão os lançamentos da categoria
+ALTER TABLE public.categories ADD COLUMN IF NOT EXISTS account_code TEXT;
+
+-- Conta de contrapartida (caixa/bancos) de todos os lançamentos exportados
+ALTER TABLE public.companies ADD COLUMN IF NOT EXISTS accounting_cash_account TEXT;
@@ -0,0 +1,47 @@
+-- =====================================================
+-- MODELOS DE EXPORTAÇÃO (COLUNAS, FORMATOS E FILTROS POR EMPRESA)
+-- =====================================================
+
+CREATE TABLE public.export_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  -- Lista ordenada de { field, header }: campo exportado e título da coluna
+  columns JSONB NOT NULL DEFAULT '[]'::jsonb,
+  date_format TEXT NOT NULL DEFAULT 'dd/MM/yyyy',
+  number_format TEXT NOT NULL DEFAULT 'number',
+  -- Filtros aplicados além do período (tipo, categorias, origens, fontes, faixa de valor)
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (company_id, name),
+  CHECK (jsonb_typeof(columns) = 'array'),
+  CHECK (date_format IN ('dd/MM/yyyy', 'yyyy-MM-dd', 'MM/dd/yyyy')),
+  CHECK (number_format IN ('number', 'decimal_comma', 'currency'))
+);
+
+ALTER TABLE public.export_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view export templates"
+ON public.export_templates FOR SELECT
+TO authenticated
+USING (company_id = public.get_user_company_id());
+
+CREATE POLICY "Company members can manage export templates"
+ON public.export_templates FOR ALL
+TO authenticated
+USING (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')))
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE TRIGGER update_export_templates_updated_at
+BEFORE UPDATE ON public.export_templates
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_export_templates_company_id ON public.export_templates(company_id);
+
+-- O histórico guarda o modelo usado e uma cópia da configuração no momento da exportação,
+-- para reproduzir o arquivo mesmo que o modelo seja alterado ou excluído depois
+ALTER TABLE public.export_history
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.export_templates(id) ON DELETE SET NULL;
+ALTER TABLE public.export_history ADD COLUMN IF NOT EXISTS template_snapshot JSONB;
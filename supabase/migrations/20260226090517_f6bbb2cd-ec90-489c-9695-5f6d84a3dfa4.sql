@@ -0,0 +1,105 @@
+-- =====================================================
+-- EXPORTAÇÕES AGENDADAS
+-- Executadas pela Edge Function scheduled-exports (pg_cron a cada 15 minutos):
+-- o arquivo vai para o bucket "exports", entra no histórico e o link é enviado por e-mail
+-- =====================================================
+
+CREATE TABLE public.export_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE NOT NULL,
+  -- Quem criou o agendamento; as execuções entram no histórico em nome dele
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  export_type TEXT NOT NULL DEFAULT 'monthly_summary',
+  template_id UUID REFERENCES public.export_templates(id) ON DELETE SET NULL,
+  format TEXT NOT NULL DEFAULT 'xlsx',
+  frequency TEXT NOT NULL DEFAULT 'monthly',
+  day_of_week INTEGER CHECK (day_of_week BETWEEN 0 AND 6),
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 28),
+  -- Hora de Brasília
+  run_hour INTEGER NOT NULL DEFAULT 8 CHECK (run_hour BETWEEN 0 AND 23),
+  period TEXT NOT NULL DEFAULT 'previous_month',
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMPTZ NOT NULL,
+  last_run_at TIMESTAMPTZ,
+  last_status TEXT,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (export_type IN ('transactions', 'monthly_summary', 'category_summary', 'full_report', 'template')),
+  CHECK (format IN ('csv', 'xlsx', 'pdf')),
+  CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  CHECK (period IN ('previous_day', 'previous_week', 'previous_month', 'month_to_date', 'last_7_days', 'last_30_days')),
+  CHECK (last_status IS NULL OR last_status IN ('success', 'error')),
+  CHECK (frequency <> 'weekly' OR day_of_week IS NOT NULL),
+  CHECK (frequency <> 'monthly' OR day_of_month IS NOT NULL)
+);
+
+ALTER TABLE public.export_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view export schedules"
+ON public.export_schedules FOR SELECT
+TO authenticated
+USING (company_id = public.get_user_company_id());
+
+CREATE POLICY "Company members can manage export schedules"
+ON public.export_schedules FOR ALL
+TO authenticated
+USING (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')))
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE TRIGGER update_export_schedules_updated_at
+BEFORE UPDATE ON public.export_schedules
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_export_schedules_company_id ON public.export_schedules(company_id);
+CREATE INDEX idx_export_schedules_due ON public.export_schedules(next_run_at) WHERE is_active;
+
+-- Arquivo gerado no Storage e agendamento de origem
+ALTER TABLE public.export_history ADD COLUMN IF NOT EXISTS storage_path TEXT;
+ALTER TABLE public.export_history
+  ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES public.export_schedules(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- BUCKET PRIVADO DOS ARQUIVOS EXPORTADOS
+-- Caminho: <company_id>/<ano>/<arquivo>; só a Edge Function (service role) grava
+-- =====================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('exports', 'exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Company members can read their exports"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'exports'
+  AND (storage.foldername(name))[1] = public.get_user_company_id()::text
+);
+
+-- =====================================================
+-- CRON
+-- A URL do projeto e o segredo compartilhado com a função ficam no Vault:
+--   SELECT vault.create_secret('https://<projeto>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<segredo>', 'scheduled_exports_secret');
+-- O mesmo segredo vai em SCHEDULED_EXPORTS_SECRET nas variáveis da função.
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'run-scheduled-exports',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/scheduled-exports',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'scheduled_exports_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
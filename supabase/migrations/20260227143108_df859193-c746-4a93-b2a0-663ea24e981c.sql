@@ -0,0 +1,63 @@
+-- =====================================================
+-- ARQUIVOS DAS EXPORTAÇÕES GUARDADOS NO STORAGE
+-- Toda exportação (manual ou agendada) grava o arquivo no bucket "exports"
+-- com checksum SHA-256, para comprovar o que foi enviado e quando
+-- =====================================================
+
+ALTER TABLE public.export_history ADD COLUMN IF NOT EXISTS checksum TEXT;
+ALTER TABLE public.export_history ADD COLUMN IF NOT EXISTS file_size BIGINT;
+-- Depois desta data o arquivo é removido do Storage; o registro e o checksum permanecem
+ALTER TABLE public.export_history ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+-- Retenção por empresa (padrão de 5 anos, prazo de guarda de documentos fiscais)
+ALTER TABLE public.companies
+  ADD COLUMN IF NOT EXISTS export_retention_days INTEGER NOT NULL DEFAULT 1825
+  CHECK (export_retention_days BETWEEN 30 AND 3650);
+
+CREATE OR REPLACE FUNCTION public.set_export_history_expiration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.storage_path IS NOT NULL AND NEW.expires_at IS NULL THEN
+    SELECT NEW.created_at + make_interval(days => c.export_retention_days)
+    INTO NEW.expires_at
+    FROM public.companies c
+    WHERE c.id = NEW.company_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_export_history_expiration
+BEFORE INSERT ON public.export_history
+FOR EACH ROW EXECUTE FUNCTION public.set_export_history_expiration();
+
+CREATE INDEX IF NOT EXISTS idx_export_history_company_created
+  ON public.export_history(company_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_export_history_expires_at
+  ON public.export_history(expires_at) WHERE storage_path IS NOT NULL;
+
+-- Histórico visível para toda a empresa e imutável: cada usuário só registra as próprias exportações
+DROP POLICY IF EXISTS "Users can manage their own export history" ON public.export_history;
+
+CREATE POLICY "Company members can view export history"
+ON public.export_history FOR SELECT
+TO authenticated
+USING (company_id = public.get_user_company_id());
+
+CREATE POLICY "Users can record their own exports"
+ON public.export_history FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND company_id = public.get_user_company_id());
+
+-- Exportações feitas no navegador enviam o arquivo para a pasta da própria empresa
+CREATE POLICY "Company members can upload their exports"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'exports'
+  AND (storage.foldername(name))[1] = public.get_user_company_id()::text
+);
@@ -0,0 +1,12 @@
+-- =====================================================
+-- CONFIGURAÇÃO DE PERÍODOS DA EMPRESA
+-- Fuso horário usado para calcular "hoje", meses e trimestres das consultas
+-- e mês de início do exercício fiscal
+-- =====================================================
+
+ALTER TABLE public.companies
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+
+ALTER TABLE public.companies
+  ADD COLUMN IF NOT EXISTS fiscal_year_start_month INTEGER NOT NULL DEFAULT 1
+  CHECK (fiscal_year_start_month BETWEEN 1 AND 12);
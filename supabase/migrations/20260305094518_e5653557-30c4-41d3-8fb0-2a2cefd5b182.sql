@@ -0,0 +1,43 @@
+-- =====================================================
+-- EXPORTAÇÕES NA TRILHA DE AUDITORIA
+-- Toda exportação registrada (manual ou agendada) entra no audit_log, inclusive
+-- a exportação da própria trilha de auditoria pedida por auditores externos
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.log_export_history_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.audit_log (company_id, user_id, table_name, action, record_id, new_data)
+  VALUES (
+    NEW.company_id,
+    NEW.user_id,
+    'export_history',
+    'export',
+    NEW.id,
+    jsonb_build_object(
+      'file_name', NEW.file_name,
+      'format', NEW.format,
+      'export_type', NEW.export_type,
+      'period_start', NEW.period_start,
+      'period_end', NEW.period_end,
+      'checksum', NEW.checksum,
+      'schedule_id', NEW.schedule_id
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_export_history_audit
+AFTER INSERT ON public.export_history
+FOR EACH ROW EXECUTE FUNCTION public.log_export_history_audit();
+
+-- Consultas por período da exportação de auditoria
+CREATE INDEX IF NOT EXISTS idx_audit_log_company_created
+  ON public.audit_log(company_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_alerts_company_created
+  ON public.alerts(company_id, created_at);
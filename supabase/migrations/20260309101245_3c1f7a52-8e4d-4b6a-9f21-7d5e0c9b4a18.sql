@@ -0,0 +1,160 @@
+-- =====================================================
+-- CONTAS E CARTEIRAS (CONTA CORRENTE, POUPANÇA, CAIXA, MARKETPLACE, CARTÃO)
+-- Toda transação passa por uma conta; o saldo de cada conta é o saldo inicial mais
+-- as movimentações a partir da data de abertura
+-- =====================================================
+
+CREATE TABLE public.accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'checking',
+  -- Saldo na data de abertura; lançamentos anteriores a ela não entram no saldo
+  opening_balance NUMERIC(15,2) NOT NULL DEFAULT 0,
+  opening_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  color TEXT NOT NULL DEFAULT '#3B82F6',
+  -- Conta usada quando o lançamento chega sem conta (importações antigas, API, planilha)
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (company_id, name),
+  CHECK (type IN ('checking', 'savings', 'cash', 'marketplace', 'credit_card'))
+);
+
+CREATE UNIQUE INDEX idx_accounts_company_default
+  ON public.accounts(company_id) WHERE is_default;
+
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view accounts"
+ON public.accounts FOR SELECT
+TO authenticated
+USING (company_id = public.get_user_company_id());
+
+CREATE POLICY "Company members can manage accounts"
+ON public.accounts FOR ALL
+TO authenticated
+USING (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')))
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE TRIGGER update_accounts_updated_at
+BEFORE UPDATE ON public.accounts
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- CONTA DE CADA TRANSAÇÃO
+-- =====================================================
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account_date
+  ON public.transactions(account_id, date);
+
+-- Conta padrão de cada empresa existente, aberta na data do lançamento mais antigo
+INSERT INTO public.accounts (company_id, name, type, opening_date, is_default)
+SELECT c.id,
+       'Conta principal',
+       'checking',
+       COALESCE((SELECT MIN(t.date) FROM public.transactions t WHERE t.company_id = c.id), CURRENT_DATE),
+       true
+FROM public.companies c;
+
+UPDATE public.transactions t
+SET account_id = a.id
+FROM public.accounts a
+WHERE a.company_id = t.company_id
+  AND a.is_default
+  AND t.account_id IS NULL;
+
+-- Lançamento sem conta vai para a conta padrão da empresa, criada se ainda não
+-- existir. Mantém funcionando importações, sincronizações e a planilha
+CREATE OR REPLACE FUNCTION public.set_transaction_default_account()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.account_id IS NOT NULL OR NEW.company_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO NEW.account_id
+  FROM public.accounts
+  WHERE company_id = NEW.company_id AND is_default;
+
+  IF NEW.account_id IS NULL THEN
+    INSERT INTO public.accounts (company_id, user_id, name, type, opening_date, is_default)
+    VALUES (NEW.company_id, NEW.user_id, 'Conta principal', 'checking', LEAST(NEW.date, CURRENT_DATE), true)
+    ON CONFLICT (company_id) WHERE is_default DO NOTHING;
+
+    SELECT id INTO NEW.account_id
+    FROM public.accounts
+    WHERE company_id = NEW.company_id AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_transaction_default_account
+BEFORE INSERT ON public.transactions
+FOR EACH ROW EXECUTE FUNCTION public.set_transaction_default_account();
+
+-- Transações sem empresa (anteriores à multiempresa) ficam sem conta
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_account_required
+  CHECK (account_id IS NOT NULL OR company_id IS NULL);
+
+-- A conta precisa ser da mesma empresa do lançamento
+CREATE OR REPLACE FUNCTION public.check_transaction_account_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.accounts
+    WHERE id = NEW.account_id AND company_id IS NOT DISTINCT FROM NEW.company_id
+  ) THEN
+    RAISE EXCEPTION 'Conta não pertence à empresa do lançamento';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_transaction_account_company
+BEFORE INSERT OR UPDATE OF account_id, company_id ON public.transactions
+FOR EACH ROW EXECUTE FUNCTION public.check_transaction_account_company();
+
+-- =====================================================
+-- SALDOS
+-- =====================================================
+
+-- Saldo de cada conta da empresa do usuário: saldo inicial mais receitas menos
+-- despesas desde a data de abertura, até p_as_of (inclusive) quando informado
+CREATE OR REPLACE FUNCTION public.account_balances(p_as_of DATE DEFAULT NULL)
+RETURNS TABLE (account_id UUID, balance NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT a.id,
+         a.opening_balance + COALESCE(SUM(CASE WHEN t.type = 'income' THEN ABS(t.amount) ELSE -ABS(t.amount) END), 0)
+  FROM public.accounts a
+  LEFT JOIN public.transactions t
+    ON t.account_id = a.id
+   AND t.date >= a.opening_date
+   AND (p_as_of IS NULL OR t.date <= p_as_of)
+  WHERE a.company_id = public.get_user_company_id()
+  GROUP BY a.id, a.opening_balance
+$$;
+
+-- Conta de destino lembrada nos perfis de importação
+ALTER TABLE public.import_profiles
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
@@ -0,0 +1,320 @@
+-- =====================================================
+-- TRANSFERÊNCIAS ENTRE CONTAS
+-- Uma transferência tem duas pernas em transactions: saída (expense) na conta de origem
+-- e entrada (income) na conta de destino. As pernas movem o saldo das contas, mas não
+-- entram em receitas e despesas
+-- =====================================================
+
+CREATE TABLE public.transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  from_account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT NOT NULL,
+  to_account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT NOT NULL,
+  amount NUMERIC(15,2) NOT NULL,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  description TEXT NOT NULL DEFAULT 'Transferência',
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (amount > 0),
+  CHECK (from_account_id <> to_account_id)
+);
+
+ALTER TABLE public.transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view transfers"
+ON public.transfers FOR SELECT
+TO authenticated
+USING (company_id = public.get_user_company_id());
+
+CREATE POLICY "Company members can manage transfers"
+ON public.transfers FOR ALL
+TO authenticated
+USING (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')))
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE TRIGGER update_transfers_updated_at
+BEFORE UPDATE ON public.transfers
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_transfers_company_date ON public.transfers(company_id, date);
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS transfer_id UUID REFERENCES public.transfers(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_id ON public.transactions(transfer_id);
+
+-- =====================================================
+-- PERNAS SÓ MUDAM PELA TRANSFERÊNCIA
+-- As funções abaixo ligam app.transfer_sync durante a gravação; fora delas, valor,
+-- tipo, conta e data de uma perna não podem ser alterados isoladamente
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.protect_transfer_legs()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.transfer_sync', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Na exclusão em cascata a transferência já foi removida
+    IF OLD.transfer_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.transfers WHERE id = OLD.transfer_id) THEN
+      RAISE EXCEPTION 'Lançamento faz parte de uma transferência; exclua a transferência';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.transfer_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Transferências devem ser criadas pela tela de transferências';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF (OLD.transfer_id IS NOT NULL OR NEW.transfer_id IS NOT NULL) AND (
+    NEW.transfer_id IS DISTINCT FROM OLD.transfer_id
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.account_id IS DISTINCT FROM OLD.account_id
+    OR NEW.date IS DISTINCT FROM OLD.date
+  ) THEN
+    RAISE EXCEPTION 'Lançamento faz parte de uma transferência; edite a transferência';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_transfer_legs
+BEFORE INSERT OR UPDATE OR DELETE ON public.transactions
+FOR EACH ROW EXECUTE FUNCTION public.protect_transfer_legs();
+
+-- =====================================================
+-- CRIAR, EDITAR, VINCULAR E EXCLUIR (ATÔMICO)
+-- =====================================================
+
+-- Cria (sem p_transfer_id) ou atualiza a transferência e as duas pernas na mesma transação
+CREATE OR REPLACE FUNCTION public.save_transfer(
+  p_from_account_id UUID,
+  p_to_account_id UUID,
+  p_amount NUMERIC,
+  p_date DATE,
+  p_description TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_transfer_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id UUID := public.get_user_company_id();
+  v_id UUID := p_transfer_id;
+  v_description TEXT := COALESCE(NULLIF(trim(p_description), ''), 'Transferência');
+  v_notes TEXT := NULLIF(trim(p_notes), '');
+BEGIN
+  PERFORM set_config('app.transfer_sync', 'on', true);
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.transfers (company_id, user_id, from_account_id, to_account_id, amount, date, description, notes)
+    VALUES (v_company_id, auth.uid(), p_from_account_id, p_to_account_id, p_amount, p_date, v_description, v_notes)
+    RETURNING id INTO v_id;
+
+    INSERT INTO public.transactions (company_id, user_id, account_id, transfer_id, type, amount, date, description, notes, origin)
+    VALUES
+      (v_company_id, auth.uid(), p_from_account_id, v_id, 'expense', p_amount, p_date, v_description, v_notes, 'manual'),
+      (v_company_id, auth.uid(), p_to_account_id, v_id, 'income', p_amount, p_date, v_description, v_notes, 'manual');
+  ELSE
+    UPDATE public.transfers
+    SET from_account_id = p_from_account_id,
+        to_account_id = p_to_account_id,
+        amount = p_amount,
+        date = p_date,
+        description = v_description,
+        notes = v_notes
+    WHERE id = v_id AND company_id = v_company_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transferência não encontrada';
+    END IF;
+
+    UPDATE public.transactions
+    SET account_id = CASE WHEN type = 'expense' THEN p_from_account_id ELSE p_to_account_id END,
+        amount = p_amount,
+        date = p_date,
+        description = v_description,
+        notes = v_notes
+    WHERE transfer_id = v_id;
+  END IF;
+
+  PERFORM set_config('app.transfer_sync', 'off', true);
+  RETURN v_id;
+END;
+$$;
+
+-- Transforma dois lançamentos já gravados (uma saída e uma entrada de mesmo valor em
+-- contas diferentes) em uma transferência; usado pela importação
+CREATE OR REPLACE FUNCTION public.link_transfer(p_first_id UUID, p_second_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id UUID := public.get_user_company_id();
+  v_out public.transactions%ROWTYPE;
+  v_in public.transactions%ROWTYPE;
+  v_swap public.transactions%ROWTYPE;
+  v_id UUID;
+BEGIN
+  SELECT * INTO v_out FROM public.transactions WHERE id = p_first_id AND company_id = v_company_id FOR UPDATE;
+  SELECT * INTO v_in FROM public.transactions WHERE id = p_second_id AND company_id = v_company_id FOR UPDATE;
+
+  IF v_out.id IS NULL OR v_in.id IS NULL THEN
+    RAISE EXCEPTION 'Lançamento não encontrado';
+  END IF;
+  IF v_out.transfer_id IS NOT NULL OR v_in.transfer_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Lançamento já faz parte de uma transferência';
+  END IF;
+  IF v_out.type = v_in.type THEN
+    RAISE EXCEPTION 'Uma transferência precisa de uma saída e uma entrada';
+  END IF;
+  IF ABS(v_out.amount) <> ABS(v_in.amount) THEN
+    RAISE EXCEPTION 'Os lançamentos têm valores diferentes';
+  END IF;
+  IF v_out.account_id IS NOT DISTINCT FROM v_in.account_id THEN
+    RAISE EXCEPTION 'Os lançamentos estão na mesma conta';
+  END IF;
+
+  IF v_out.type = 'income' THEN
+    v_swap := v_out;
+    v_out := v_in;
+    v_in := v_swap;
+  END IF;
+
+  INSERT INTO public.transfers (company_id, user_id, from_account_id, to_account_id, amount, date, description)
+  VALUES (v_company_id, auth.uid(), v_out.account_id, v_in.account_id, ABS(v_out.amount), v_out.date, v_out.description)
+  RETURNING id INTO v_id;
+
+  PERFORM set_config('app.transfer_sync', 'on', true);
+  -- Cada perna mantém a própria data (o banco pode compensar dias depois); transferência não tem categoria
+  UPDATE public.transactions
+  SET transfer_id = v_id,
+      category_id = NULL
+  WHERE id IN (v_out.id, v_in.id);
+  PERFORM set_config('app.transfer_sync', 'off', true);
+
+  RETURN v_id;
+END;
+$$;
+
+-- Exclui a transferência e, em cascata, as duas pernas
+CREATE OR REPLACE FUNCTION public.delete_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.transfer_sync', 'on', true);
+
+  DELETE FROM public.transfers
+  WHERE id = p_transfer_id AND company_id = public.get_user_company_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transferência não encontrada';
+  END IF;
+
+  PERFORM set_config('app.transfer_sync', 'off', true);
+END;
+$$;
+
+-- =====================================================
+-- DESFAZER IMPORTAÇÃO COM PERNAS DE TRANSFERÊNCIA
+-- A perna que não veio do lote volta a ser um lançamento comum
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.revert_import(p_import_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = pg_catalog, public
+AS $$
+DECLARE
+  v_import public.import_history%ROWTYPE;
+  v_transactions INTEGER;
+  v_categories INTEGER;
+  v_transfers UUID[];
+BEGIN
+  SELECT * INTO v_import
+  FROM public.import_history
+  WHERE id = p_import_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_import.company_id IS DISTINCT FROM public.get_user_company_id() THEN
+    RAISE EXCEPTION 'Importação não encontrada';
+  END IF;
+
+  IF NOT public.is_subscription_active(v_import.company_id) THEN
+    RAISE EXCEPTION 'Assinatura inativa';
+  END IF;
+
+  IF NOT (public.has_role('admin') OR (public.has_role('financeiro') AND v_import.user_id = auth.uid())) THEN
+    RAISE EXCEPTION 'Sem permissão para desfazer esta importação';
+  END IF;
+
+  IF v_import.status = 'reverted' THEN
+    RAISE EXCEPTION 'Esta importação já foi desfeita';
+  END IF;
+
+  SELECT array_agg(DISTINCT transfer_id) INTO v_transfers
+  FROM public.transactions
+  WHERE import_id = p_import_id
+    AND company_id = v_import.company_id
+    AND transfer_id IS NOT NULL;
+
+  IF v_transfers IS NOT NULL THEN
+    PERFORM set_config('app.transfer_sync', 'on', true);
+    UPDATE public.transactions SET transfer_id = NULL WHERE transfer_id = ANY(v_transfers);
+    DELETE FROM public.transfers WHERE id = ANY(v_transfers);
+    PERFORM set_config('app.transfer_sync', 'off', true);
+  END IF;
+
+  DELETE FROM public.transactions
+  WHERE import_id = p_import_id
+    AND company_id = v_import.company_id;
+  GET DIAGNOSTICS v_transactions = ROW_COUNT;
+
+  DELETE FROM public.categories c
+  WHERE c.import_id = p_import_id
+    AND c.company_id = v_import.company_id
+    AND NOT EXISTS (SELECT 1 FROM public.transactions t WHERE t.category_id = c.id)
+    AND NOT EXISTS (SELECT 1 FROM public.import_profiles p WHERE p.default_category_id = c.id);
+  GET DIAGNOSTICS v_categories = ROW_COUNT;
+
+  UPDATE public.import_history
+  SET status = 'reverted',
+      reverted_at = now(),
+      reverted_by = auth.uid()
+  WHERE id = p_import_id;
+
+  PERFORM public.log_audit_event(
+    'import_history',
+    'REVERT',
+    p_import_id,
+    jsonb_build_object('status', v_import.status, 'rows_imported', v_import.rows_imported),
+    jsonb_build_object('transactions_deleted', v_transactions, 'categories_deleted', v_categories)
+  );
+
+  RETURN jsonb_build_object(
+    'transactions_deleted', v_transactions,
+    'categories_deleted', v_categories
+  );
+END;
+$$;
@@ -0,0 +1,186 @@
+-- =====================================================
+-- CONTAS A PAGAR E A RECEBER (TÍTULOS)
+-- Um título tem competência, vencimento e situação; a baixa gera o lançamento
+-- realizado em transactions (bill_id), com o valor pago já com juros e desconto
+-- =====================================================
+
+CREATE TABLE public.bills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('payable', 'receivable')),
+  description TEXT NOT NULL,
+  counterparty TEXT,
+  document_number TEXT,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  -- Conta prevista para a baixa; sem ela, a baixa usa a conta padrão
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  amount NUMERIC(15,2) NOT NULL CHECK (amount > 0),
+  competence_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'overdue', 'cancelled')),
+  paid_at DATE,
+  paid_amount NUMERIC(15,2),
+  interest_amount NUMERIC(15,2) NOT NULL DEFAULT 0 CHECK (interest_amount >= 0),
+  discount_amount NUMERIC(15,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (status <> 'paid' OR (paid_at IS NOT NULL AND paid_amount IS NOT NULL))
+);
+
+ALTER TABLE public.bills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view bills"
+ON public.bills FOR SELECT
+TO authenticated
+USING (company_id = public.get_user_company_id());
+
+CREATE POLICY "Company members can manage bills"
+ON public.bills FOR ALL
+TO authenticated
+USING (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')))
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE TRIGGER update_bills_updated_at
+BEFORE UPDATE ON public.bills
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_bills_company_status_due ON public.bills(company_id, status, due_date);
+
+-- Lançamento realizado da baixa (um por título)
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS bill_id UUID REFERENCES public.bills(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_bill_id ON public.transactions(bill_id) WHERE bill_id IS NOT NULL;
+
+-- =====================================================
+-- BAIXA E ESTORNO
+-- =====================================================
+
+-- Registra o pagamento/recebimento: valor pago = valor + juros - desconto
+CREATE OR REPLACE FUNCTION public.settle_bill(
+  p_bill_id UUID,
+  p_paid_at DATE,
+  p_interest NUMERIC DEFAULT 0,
+  p_discount NUMERIC DEFAULT 0,
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_bill public.bills%ROWTYPE;
+  v_interest NUMERIC := COALESCE(p_interest, 0);
+  v_discount NUMERIC := COALESCE(p_discount, 0);
+  v_paid NUMERIC;
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_bill FROM public.bills
+  WHERE id = p_bill_id AND company_id = public.get_user_company_id()
+  FOR UPDATE;
+
+  IF v_bill.id IS NULL THEN
+    RAISE EXCEPTION 'Título não encontrado';
+  END IF;
+  IF v_bill.status NOT IN ('pending', 'overdue') THEN
+    RAISE EXCEPTION 'Título já baixado ou cancelado';
+  END IF;
+  IF v_interest < 0 OR v_discount < 0 THEN
+    RAISE EXCEPTION 'Juros e desconto não podem ser negativos';
+  END IF;
+
+  v_paid := v_bill.amount + v_interest - v_discount;
+  IF v_paid <= 0 THEN
+    RAISE EXCEPTION 'O desconto não pode ser maior que o valor do título';
+  END IF;
+
+  INSERT INTO public.transactions (
+    company_id, user_id, account_id, bill_id, type, amount, date, description,
+    category_id, source, notes, origin
+  )
+  VALUES (
+    v_bill.company_id, auth.uid(), COALESCE(p_account_id, v_bill.account_id), v_bill.id,
+    CASE WHEN v_bill.kind = 'payable' THEN 'expense' ELSE 'income' END,
+    v_paid, p_paid_at, v_bill.description, v_bill.category_id, v_bill.counterparty,
+    v_bill.notes, 'manual'
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.bills
+  SET status = 'paid',
+      paid_at = p_paid_at,
+      paid_amount = v_paid,
+      interest_amount = v_interest,
+      discount_amount = v_discount,
+      account_id = COALESCE(p_account_id, v_bill.account_id)
+  WHERE id = v_bill.id;
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- Excluir o lançamento da baixa (estorno, exclusão na tela de transações ou desfazer
+-- importação) reabre o título
+CREATE OR REPLACE FUNCTION public.reopen_bill_on_transaction_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.bills
+  SET status = CASE WHEN due_date < CURRENT_DATE THEN 'overdue' ELSE 'pending' END,
+      paid_at = NULL,
+      paid_amount = NULL,
+      interest_amount = 0,
+      discount_amount = 0
+  WHERE id = OLD.bill_id AND status = 'paid';
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER reopen_bill_on_transaction_delete
+AFTER DELETE ON public.transactions
+FOR EACH ROW
+WHEN (OLD.bill_id IS NOT NULL)
+EXECUTE FUNCTION public.reopen_bill_on_transaction_delete();
+
+CREATE OR REPLACE FUNCTION public.reopen_bill(p_bill_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.bills
+    WHERE id = p_bill_id AND company_id = public.get_user_company_id() AND status = 'paid'
+  ) THEN
+    RAISE EXCEPTION 'Título não encontrado ou não baixado';
+  END IF;
+
+  DELETE FROM public.transactions WHERE bill_id = p_bill_id;
+END;
+$$;
+
+-- =====================================================
+-- VENCIDOS
+-- Passa para 'overdue' os títulos pendentes com vencimento antes de p_today (data no
+-- fuso da empresa) e devolve os que mudaram, para gerar os alertas uma única vez
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.mark_overdue_bills(p_today DATE)
+RETURNS SETOF public.bills
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE public.bills
+  SET status = 'overdue'
+  WHERE company_id = public.get_user_company_id()
+    AND status = 'pending'
+    AND due_date < p_today
+  RETURNING *;
+$$;
@@ -0,0 +1,245 @@
+-- =====================================================
+-- RECORRÊNCIAS
+-- Regras (aluguel, assinaturas, pró-labore, empréstimos) que geram os títulos a pagar
+-- e a receber futuros. Cada ocorrência tem um número (recurrence_index) único por regra,
+-- e a regra guarda até qual número já gerou: mudar a regra ou rodar a geração de novo
+-- nunca duplica ocorrências, e ocorrências excluídas pelo usuário não voltam
+-- =====================================================
+
+CREATE TABLE public.recurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('payable', 'receivable')),
+  description TEXT NOT NULL,
+  counterparty TEXT,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  amount NUMERIC(15,2) NOT NULL CHECK (amount > 0),
+  notes TEXT,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'yearly')),
+  -- A cada N semanas, meses ou anos
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 60),
+  -- Dia do vencimento (mensal e anual); além do fim do mês, cai no último dia
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  max_occurrences INTEGER CHECK (max_occurrences > 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  -- Estado da geração: a ocorrência anchor_index cai na primeira data da regra a partir
+  -- de anchor_date; generated_count é o maior número de ocorrência já gerado
+  anchor_date DATE,
+  anchor_index INTEGER NOT NULL DEFAULT 1,
+  generated_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (frequency = 'weekly' OR day_of_month IS NOT NULL),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+ALTER TABLE public.recurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view recurrences"
+ON public.recurrences FOR SELECT
+TO authenticated
+USING (company_id = public.get_user_company_id());
+
+CREATE POLICY "Company members can manage recurrences"
+ON public.recurrences FOR ALL
+TO authenticated
+USING (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')))
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE TRIGGER update_recurrences_updated_at
+BEFORE UPDATE ON public.recurrences
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_recurrences_company ON public.recurrences(company_id);
+
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS recurrence_id UUID REFERENCES public.recurrences(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recurrence_index INTEGER,
+  -- Ocorrência editada individualmente: mudanças na regra não a alteram
+  ADD COLUMN IF NOT EXISTS recurrence_detached BOOLEAN NOT NULL DEFAULT false,
+  ADD CONSTRAINT bills_recurrence_occurrence_key UNIQUE (recurrence_id, recurrence_index);
+
+-- =====================================================
+-- DATAS DAS OCORRÊNCIAS
+-- =====================================================
+
+-- Data da ocorrência p_step (0 = primeira) contando a partir de p_anchor
+CREATE OR REPLACE FUNCTION public.recurrence_date(
+  p_anchor DATE,
+  p_frequency TEXT,
+  p_interval INTEGER,
+  p_day INTEGER,
+  p_step INTEGER
+)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_months INTEGER := CASE WHEN p_frequency = 'yearly' THEN 12 ELSE 1 END * p_interval;
+  v_month DATE := date_trunc('month', p_anchor)::date;
+  v_last_day INTEGER;
+BEGIN
+  IF p_frequency = 'weekly' THEN
+    RETURN p_anchor + p_step * p_interval * 7;
+  END IF;
+
+  -- Primeiro mês em que o dia do vencimento não é anterior à âncora
+  v_last_day := EXTRACT(DAY FROM (v_month + INTERVAL '1 month' - INTERVAL '1 day'))::int;
+  IF v_month + LEAST(p_day, v_last_day) - 1 < p_anchor THEN
+    v_month := (v_month + INTERVAL '1 month')::date;
+  END IF;
+
+  v_month := (v_month + make_interval(months => p_step * v_months))::date;
+  v_last_day := EXTRACT(DAY FROM (v_month + INTERVAL '1 month' - INTERVAL '1 day'))::int;
+  RETURN v_month + LEAST(p_day, v_last_day) - 1;
+END;
+$$;
+
+-- =====================================================
+-- GERAÇÃO
+-- =====================================================
+
+-- Gera as ocorrências ainda não geradas com vencimento até p_until (padrão: 60 dias à
+-- frente). SECURITY INVOKER: chamada pelo app, respeita o RLS da empresa do usuário
+CREATE OR REPLACE FUNCTION public.generate_recurrence_bills(p_recurrence_id UUID, p_until DATE DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  r public.recurrences%ROWTYPE;
+  v_until DATE := COALESCE(p_until, CURRENT_DATE + 60);
+  v_n INTEGER;
+  v_date DATE;
+  v_created INTEGER := 0;
+BEGIN
+  SELECT * INTO r FROM public.recurrences WHERE id = p_recurrence_id FOR UPDATE;
+  IF r.id IS NULL OR NOT r.active THEN
+    RETURN 0;
+  END IF;
+
+  v_n := r.generated_count + 1;
+  LOOP
+    EXIT WHEN r.max_occurrences IS NOT NULL AND v_n > r.max_occurrences;
+
+    v_date := public.recurrence_date(
+      COALESCE(r.anchor_date, r.start_date), r.frequency, r.interval_count,
+      COALESCE(r.day_of_month, 1), v_n - r.anchor_index
+    );
+    EXIT WHEN v_date > v_until OR (r.end_date IS NOT NULL AND v_date > r.end_date);
+
+    -- Ocorrência mantida (paga ou editada) com o mesmo número: não duplica
+    INSERT INTO public.bills (
+      company_id, user_id, kind, description, counterparty, category_id, account_id,
+      amount, competence_date, due_date, notes, recurrence_id, recurrence_index
+    )
+    VALUES (
+      r.company_id, r.user_id, r.kind, r.description, r.counterparty, r.category_id, r.account_id,
+      r.amount, v_date, v_date, r.notes, r.id, v_n
+    )
+    ON CONFLICT ON CONSTRAINT bills_recurrence_occurrence_key DO NOTHING;
+
+    IF FOUND THEN
+      v_created := v_created + 1;
+    END IF;
+    v_n := v_n + 1;
+  END LOOP;
+
+  UPDATE public.recurrences SET generated_count = v_n - 1 WHERE id = r.id;
+  RETURN v_created;
+END;
+$$;
+
+-- Depois de alterar a regra: refaz as ocorrências em aberto (não editadas à parte) com
+-- vencimento a partir de p_from; as pagas, canceladas e editadas continuam como estão.
+-- p_anchor fixa a data da primeira ocorrência refeita (edição de "esta e as próximas")
+CREATE OR REPLACE FUNCTION public.apply_recurrence(p_recurrence_id UUID, p_from DATE, p_anchor DATE DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  r public.recurrences%ROWTYPE;
+  v_index INTEGER;
+  v_due DATE;
+  v_anchor DATE;
+BEGIN
+  SELECT * INTO r FROM public.recurrences
+  WHERE id = p_recurrence_id AND company_id = public.get_user_company_id()
+  FOR UPDATE;
+
+  IF r.id IS NULL THEN
+    RAISE EXCEPTION 'Recorrência não encontrada';
+  END IF;
+
+  WITH removed AS (
+    DELETE FROM public.bills
+    WHERE recurrence_id = r.id
+      AND NOT recurrence_detached
+      AND status IN ('pending', 'overdue')
+      AND due_date >= p_from
+    RETURNING recurrence_index, due_date
+  )
+  SELECT MIN(recurrence_index), MIN(due_date) INTO v_index, v_due FROM removed;
+
+  IF v_index IS NULL THEN
+    -- Nada a refazer: a regra nova vale a partir da próxima ocorrência
+    v_index := r.generated_count + 1;
+    SELECT MAX(due_date) + 1 INTO v_due FROM public.bills WHERE recurrence_id = r.id;
+    v_anchor := COALESCE(p_anchor, GREATEST(p_from, COALESCE(v_due, r.start_date)));
+  ELSE
+    -- No mensal e no anual, o novo dia de vencimento vale já no mês da primeira ocorrência refeita
+    v_anchor := COALESCE(p_anchor, GREATEST(
+      p_from,
+      CASE WHEN r.frequency = 'weekly' THEN v_due ELSE date_trunc('month', v_due)::date END
+    ));
+  END IF;
+
+  UPDATE public.recurrences
+  SET anchor_date = v_anchor,
+      anchor_index = v_index,
+      generated_count = v_index - 1
+  WHERE id = r.id;
+
+  RETURN public.generate_recurrence_bills(r.id);
+END;
+$$;
+
+-- Geração diária de todas as empresas, chamada pelo pg_cron (sem usuário logado)
+CREATE OR REPLACE FUNCTION public.generate_recurring_bills(p_days_ahead INTEGER DEFAULT 60)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_created INTEGER := 0;
+BEGIN
+  FOR v_id IN SELECT id FROM public.recurrences WHERE active LOOP
+    v_created := v_created + public.generate_recurrence_bills(v_id, CURRENT_DATE + p_days_ahead);
+  END LOOP;
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_bills(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- CRON
+-- Todo dia às 03:15 UTC (00:15 em Brasília), mesmo sem ninguém abrir o app
+-- =====================================================
+
+SELECT cron.schedule(
+  'generate-recurring-bills',
+  '15 3 * * *',
+  $$ SELECT public.generate_recurring_bills(); $$
+);
@@ -0,0 +1,243 @@
+-- =====================================================
+-- PARCELAMENTOS
+-- Uma compra ou venda parcelada gera uma transação por parcela, com a data do vencimento
+-- (fluxo de caixa). Todas as parcelas guardam a data da venda em competence_date,
+-- usada pela DRE por competência
+-- =====================================================
+
+CREATE TABLE public.installment_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+  description TEXT NOT NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  source TEXT,
+  notes TEXT,
+  total_amount NUMERIC(15,2) NOT NULL CHECK (total_amount > 0),
+  installment_count INTEGER NOT NULL CHECK (installment_count BETWEEN 2 AND 12),
+  sale_date DATE NOT NULL,
+  first_due_date DATE NOT NULL,
+  -- Parcela que recebe os centavos que sobram da divisão
+  remainder_on TEXT NOT NULL DEFAULT 'first' CHECK (remainder_on IN ('first', 'last')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.installment_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view installment plans"
+ON public.installment_plans FOR SELECT
+TO authenticated
+USING (company_id = public.get_user_company_id());
+
+CREATE POLICY "Company members can manage installment plans"
+ON public.installment_plans FOR ALL
+TO authenticated
+USING (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')))
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE TRIGGER update_installment_plans_updated_at
+BEFORE UPDATE ON public.installment_plans
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_installment_plans_company ON public.installment_plans(company_id);
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS installment_plan_id UUID REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS installment_number INTEGER,
+  -- Data de competência (DRE); sem ela, vale a data do lançamento
+  ADD COLUMN IF NOT EXISTS competence_date DATE,
+  ADD CONSTRAINT transactions_installment_key UNIQUE (installment_plan_id, installment_number);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_competence_date
+ON public.transactions(company_id, competence_date)
+WHERE competence_date IS NOT NULL;
+
+-- =====================================================
+-- PARCELAS SÓ MUDAM PELO PARCELAMENTO
+-- Como nas transferências: fora de save_installment_plan e delete_installment_plan,
+-- valor, tipo, data e competência de uma parcela não mudam isoladamente
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.protect_installments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.installment_sync', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Na exclusão em cascata o parcelamento já foi removido
+    IF OLD.installment_plan_id IS NOT NULL
+      AND EXISTS (SELECT 1 FROM public.installment_plans WHERE id = OLD.installment_plan_id) THEN
+      RAISE EXCEPTION 'Lançamento é parcela de um parcelamento; exclua o parcelamento';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.installment_plan_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Parcelas devem ser criadas pelo parcelamento';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF (OLD.installment_plan_id IS NOT NULL OR NEW.installment_plan_id IS NOT NULL) AND (
+    NEW.installment_plan_id IS DISTINCT FROM OLD.installment_plan_id
+    OR NEW.installment_number IS DISTINCT FROM OLD.installment_number
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.competence_date IS DISTINCT FROM OLD.competence_date
+  ) THEN
+    RAISE EXCEPTION 'Lançamento é parcela de um parcelamento; edite o parcelamento';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_installments
+BEFORE INSERT OR UPDATE OR DELETE ON public.transactions
+FOR EACH ROW EXECUTE FUNCTION public.protect_installments();
+
+-- =====================================================
+-- CRIAR, REAGENDAR E EXCLUIR (ATÔMICO)
+-- =====================================================
+
+-- Cria (sem p_plan_id) ou atualiza o parcelamento e regrava as parcelas: a parcela N vence
+-- N-1 meses depois da primeira (no último dia do mês quando o dia não existe). Parcelas
+-- existentes são atualizadas no lugar, as que sobram são excluídas
+CREATE OR REPLACE FUNCTION public.save_installment_plan(
+  p_type TEXT,
+  p_description TEXT,
+  p_total_amount NUMERIC,
+  p_installment_count INTEGER,
+  p_sale_date DATE,
+  p_first_due_date DATE,
+  p_remainder_on TEXT DEFAULT 'first',
+  p_category_id UUID DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_source TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_plan_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id UUID := public.get_user_company_id();
+  v_id UUID := p_plan_id;
+  v_description TEXT := trim(p_description);
+  v_source TEXT := NULLIF(trim(p_source), '');
+  v_notes TEXT := NULLIF(trim(p_notes), '');
+  -- Em centavos: cada parcela recebe a divisão inteira e uma delas, o resto
+  v_total_cents BIGINT := round(p_total_amount * 100);
+  v_base_cents BIGINT := v_total_cents / p_installment_count;
+  v_rest_cents BIGINT := v_total_cents % p_installment_count;
+  v_amount NUMERIC(15,2);
+  v_date DATE;
+  n INTEGER;
+BEGIN
+  IF v_description IS NULL OR v_description = '' THEN
+    RAISE EXCEPTION 'Informe a descrição do parcelamento';
+  END IF;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.installment_plans (
+      company_id, user_id, type, description, category_id, account_id, source, notes,
+      total_amount, installment_count, sale_date, first_due_date, remainder_on
+    )
+    VALUES (
+      v_company_id, auth.uid(), p_type, v_description, p_category_id, p_account_id, v_source, v_notes,
+      p_total_amount, p_installment_count, p_sale_date, p_first_due_date, p_remainder_on
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE public.installment_plans
+    SET type = p_type,
+        description = v_description,
+        category_id = p_category_id,
+        account_id = p_account_id,
+        source = v_source,
+        notes = v_notes,
+        total_amount = p_total_amount,
+        installment_count = p_installment_count,
+        sale_date = p_sale_date,
+        first_due_date = p_first_due_date,
+        remainder_on = p_remainder_on
+    WHERE id = v_id AND company_id = v_company_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Parcelamento não encontrado';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.installment_sync', 'on', true);
+
+  FOR n IN 1..p_installment_count LOOP
+    v_amount := (v_base_cents + CASE
+      WHEN (p_remainder_on = 'first' AND n = 1) OR (p_remainder_on = 'last' AND n = p_installment_count)
+      THEN v_rest_cents ELSE 0 END) / 100.0;
+    v_date := (p_first_due_date + make_interval(months => n - 1))::date;
+
+    UPDATE public.transactions
+    SET type = p_type,
+        description = v_description,
+        category_id = p_category_id,
+        -- Sem conta escolhida, as parcelas ficam onde estão
+        account_id = COALESCE(p_account_id, account_id),
+        source = v_source,
+        notes = v_notes,
+        amount = v_amount,
+        date = v_date,
+        competence_date = p_sale_date
+    WHERE installment_plan_id = v_id AND installment_number = n;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.transactions (
+        company_id, user_id, account_id, category_id, type, description, source, notes,
+        amount, date, competence_date, installment_plan_id, installment_number, origin
+      )
+      VALUES (
+        v_company_id, auth.uid(), p_account_id, p_category_id, p_type, v_description, v_source, v_notes,
+        v_amount, v_date, p_sale_date, v_id, n, 'manual'
+      );
+    END IF;
+  END LOOP;
+
+  DELETE FROM public.transactions
+  WHERE installment_plan_id = v_id AND installment_number > p_installment_count;
+
+  PERFORM set_config('app.installment_sync', 'off', true);
+  RETURN v_id;
+END;
+$$;
+
+-- Exclui o parcelamento e, em cascata, todas as parcelas
+CREATE OR REPLACE FUNCTION public.delete_installment_plan(p_plan_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.installment_sync', 'on', true);
+
+  DELETE FROM public.installment_plans
+  WHERE id = p_plan_id AND company_id = public.get_user_company_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Parcelamento não encontrado';
+  END IF;
+
+  PERFORM set_config('app.installment_sync', 'off', true);
+END;
+$$;
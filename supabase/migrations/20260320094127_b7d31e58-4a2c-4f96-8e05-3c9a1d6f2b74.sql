@@ -0,0 +1,33 @@
+-- =====================================================
+-- EXPORTAÇÕES AGENDADAS NO FUSO DA EMPRESA
+-- O horário e o período de cada execução seguem companies.timezone e o exercício
+-- fiscal da empresa (antes, Brasília fixo)
+-- =====================================================
+
+ALTER TABLE public.export_schedules
+  DROP CONSTRAINT IF EXISTS export_schedules_period_check;
+
+ALTER TABLE public.export_schedules
+  ADD CONSTRAINT export_schedules_period_check
+  CHECK (period IN ('previous_day', 'previous_week', 'previous_month', 'month_to_date', 'last_7_days', 'last_30_days', 'previous_fiscal_year'));
+
+-- Ao trocar o fuso da empresa, a próxima execução mantém o mesmo horário "de parede"
+CREATE OR REPLACE FUNCTION public.shift_export_schedules_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.export_schedules
+  SET next_run_at = (next_run_at AT TIME ZONE OLD.timezone) AT TIME ZONE NEW.timezone
+  WHERE company_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER shift_export_schedules_timezone
+AFTER UPDATE OF timezone ON public.companies
+FOR EACH ROW
+WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+EXECUTE FUNCTION public.shift_export_schedules_timezone();
@@ -0,0 +1,15 @@
+-- =====================================================
+-- UPLOAD DE EXPORTAÇÕES SÓ PARA ADMIN E FINANCEIRO
+-- O perfil leitura continua exportando, mas o arquivo não é guardado no Storage
+-- =====================================================
+
+DROP POLICY IF EXISTS "Company members can upload their exports" ON storage.objects;
+
+CREATE POLICY "Company members can upload their exports"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'exports'
+  AND (storage.foldername(name))[1] = public.get_user_company_id()::text
+  AND (public.has_role('admin') OR public.has_role('financeiro'))
+);
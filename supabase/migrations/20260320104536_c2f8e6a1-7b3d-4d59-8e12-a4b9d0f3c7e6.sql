@@ -0,0 +1,44 @@
+-- =====================================================
+-- TRILHA DE AUDITORIA EXPORTADA SÓ PARA ADMINISTRADORES
+-- Como audit_log, os arquivos da trilha (export_type 'audit_trail') e seus registros no
+-- histórico de exportações ficam visíveis apenas para admins
+-- =====================================================
+
+DROP POLICY IF EXISTS "Company members can view export history" ON public.export_history;
+
+CREATE POLICY "Company members can view export history"
+ON public.export_history FOR SELECT
+TO authenticated
+USING (
+  company_id = public.get_user_company_id()
+  AND (export_type <> 'audit_trail' OR public.has_role('admin'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_history_audit_storage_path
+  ON public.export_history(storage_path) WHERE export_type = 'audit_trail';
+
+-- SECURITY DEFINER: a consulta não pode passar pela política acima, que esconde justamente
+-- esses registros de quem não é admin
+CREATE OR REPLACE FUNCTION public.is_audit_export(_storage_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.export_history
+    WHERE storage_path = _storage_path AND export_type = 'audit_trail'
+  )
+$$;
+
+DROP POLICY IF EXISTS "Company members can read their exports" ON storage.objects;
+
+CREATE POLICY "Company members can read their exports"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'exports'
+  AND (storage.foldername(name))[1] = public.get_user_company_id()::text
+  AND (public.has_role('admin') OR NOT public.is_audit_export(name))
+);
@@ -0,0 +1,23 @@
+-- =====================================================
+-- SALDO INICIAL SÓ A PARTIR DA DATA DE ABERTURA
+-- Em datas anteriores à abertura a conta ainda não existia: o saldo é zero
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.account_balances(p_as_of DATE DEFAULT NULL)
+RETURNS TABLE (account_id UUID, balance NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT a.id,
+         CASE WHEN p_as_of IS NULL OR a.opening_date <= p_as_of THEN a.opening_balance ELSE 0 END
+           + COALESCE(SUM(CASE WHEN t.type = 'income' THEN ABS(t.amount) ELSE -ABS(t.amount) END), 0)
+  FROM public.accounts a
+  LEFT JOIN public.transactions t
+    ON t.account_id = a.id
+   AND t.date >= a.opening_date
+   AND (p_as_of IS NULL OR t.date <= p_as_of)
+  WHERE a.company_id = public.get_user_company_id()
+  GROUP BY a.id, a.opening_balance, a.opening_date
+$$;
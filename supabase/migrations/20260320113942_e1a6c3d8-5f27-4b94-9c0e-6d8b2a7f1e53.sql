@@ -0,0 +1,31 @@
+-- =====================================================
+-- ESTORNO DE BAIXA SÓ PARA ADMINISTRADORES
+-- O estorno exclui o lançamento realizado, e só admins excluem lançamentos: sem a
+-- checagem, para o financeiro o DELETE não removia nada e o título seguia baixado
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.reopen_bill(p_bill_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role('admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem estornar baixas';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.bills
+    WHERE id = p_bill_id AND company_id = public.get_user_company_id() AND status = 'paid'
+  ) THEN
+    RAISE EXCEPTION 'Título não encontrado ou não baixado';
+  END IF;
+
+  DELETE FROM public.transactions WHERE bill_id = p_bill_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lançamento da baixa não encontrado';
+  END IF;
+END;
+$$;
@@ -0,0 +1,66 @@
+-- =====================================================
+-- VENCIDOS PELO PG_CRON
+-- Como as recorrências e as exportações agendadas, os títulos passam para 'overdue'
+-- sem depender de alguém abrir Contas ou o Dashboard. O "hoje" é o do fuso de cada
+-- empresa, por isso a rotina roda de hora em hora
+-- =====================================================
+
+DROP FUNCTION IF EXISTS public.mark_overdue_bills(DATE);
+
+-- Marca os vencidos de todas as empresas e gera um alerta para cada título (só na
+-- mudança de situação, então um título não gera alerta duas vezes)
+CREATE OR REPLACE FUNCTION public.mark_overdue_bills()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH overdue AS (
+    UPDATE public.bills b
+    SET status = 'overdue'
+    FROM public.companies c
+    WHERE c.id = b.company_id
+      AND b.status = 'pending'
+      AND b.due_date < (now() AT TIME ZONE c.timezone)::date
+    RETURNING b.*
+  ),
+  alerted AS (
+    INSERT INTO public.alerts (user_id, company_id, type, message, metadata)
+    SELECT
+      -- Quem cadastrou o título; sem ele, um administrador da empresa
+      COALESCE(o.user_id, (
+        SELECT r.user_id FROM public.user_roles r
+        WHERE r.company_id = o.company_id AND r.role = 'admin'
+        LIMIT 1
+      )),
+      o.company_id,
+      'bill_overdue',
+      'Conta ' || CASE WHEN o.kind = 'payable' THEN 'a pagar' ELSE 'a receber' END || ' vencida: ' || o.description,
+      jsonb_build_object(
+        'bill_id', o.id,
+        'kind', o.kind,
+        'counterparty', o.counterparty,
+        'amount', o.amount,
+        'due_date', o.due_date
+      )
+    FROM overdue o
+    WHERE o.user_id IS NOT NULL
+       OR EXISTS (SELECT 1 FROM public.user_roles r WHERE r.company_id = o.company_id AND r.role = 'admin')
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_count FROM overdue;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_overdue_bills() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'mark-overdue-bills',
+  '5 * * * *',
+  $$ SELECT public.mark_overdue_bills(); $$
+);
@@ -0,0 +1,177 @@
+-- =====================================================
+-- PARCELAMENTOS: EXCLUSÃO DE PARCELAS SÓ PARA ADMINISTRADORES
+-- Reduzir o número de parcelas ou excluir o parcelamento exclui lançamentos, o que
+-- segue a mesma regra de transactions
+-- =====================================================
+
+-- Cria (sem p_plan_id) ou atualiza o parcelamento e regrava as parcelas: a parcela N vence
+-- N-1 meses depois da primeira (no último dia do mês quando o dia não existe). Parcelas
+-- existentes são atualizadas no lugar, as que sobram são excluídas
+CREATE OR REPLACE FUNCTION public.save_installment_plan(
+  p_type TEXT,
+  p_description TEXT,
+  p_total_amount NUMERIC,
+  p_installment_count INTEGER,
+  p_sale_date DATE,
+  p_first_due_date DATE,
+  p_remainder_on TEXT DEFAULT 'first',
+  p_category_id UUID DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_source TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_plan_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id UUID := public.get_user_company_id();
+  v_id UUID := p_plan_id;
+  v_description TEXT := trim(p_description);
+  v_source TEXT := NULLIF(trim(p_source), '');
+  v_notes TEXT := NULLIF(trim(p_notes), '');
+  -- Em centavos: cada parcela recebe a divisão inteira e uma delas, o resto
+  v_total_cents BIGINT := round(p_total_amount * 100);
+  v_base_cents BIGINT := v_total_cents / p_installment_count;
+  v_rest_cents BIGINT := v_total_cents % p_installment_count;
+  v_amount NUMERIC(15,2);
+  v_date DATE;
+  v_excess INTEGER;
+  v_deleted INTEGER;
+  n INTEGER;
+BEGIN
+  IF v_description IS NULL OR v_description = '' THEN
+    RAISE EXCEPTION 'Informe a descrição do parcelamento';
+  END IF;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.installment_plans (
+      company_id, user_id, type, description, category_id, account_id, source, notes,
+      total_amount, installment_count, sale_date, first_due_date, remainder_on
+    )
+    VALUES (
+      v_company_id, auth.uid(), p_type, v_description, p_category_id, p_account_id, v_source, v_notes,
+      p_total_amount, p_installment_count, p_sale_date, p_first_due_date, p_remainder_on
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE public.installment_plans
+    SET type = p_type,
+        description = v_description,
+        category_id = p_category_id,
+        account_id = p_account_id,
+        source = v_source,
+        notes = v_notes,
+        total_amount = p_total_amount,
+        installment_count = p_installment_count,
+        sale_date = p_sale_date,
+        first_due_date = p_first_due_date,
+        remainder_on = p_remainder_on
+    WHERE id = v_id AND company_id = v_company_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Parcelamento não encontrado';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.installment_sync', 'on', true);
+
+  FOR n IN 1..p_installment_count LOOP
+    v_amount := (v_base_cents + CASE
+      WHEN (p_remainder_on = 'first' AND n = 1) OR (p_remainder_on = 'last' AND n = p_installment_count)
+      THEN v_rest_cents ELSE 0 END) / 100.0;
+    v_date := (p_first_due_date + make_interval(months => n - 1))::date;
+
+    UPDATE public.transactions
+    SET type = p_type,
+        description = v_description,
+        category_id = p_category_id,
+        -- Sem conta escolhida, as parcelas ficam onde estão
+        account_id = COALESCE(p_account_id, account_id),
+        source = v_source,
+        notes = v_notes,
+        amount = v_amount,
+        date = v_date,
+        competence_date = p_sale_date
+    WHERE installment_plan_id = v_id AND installment_number = n;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.transactions (
+        company_id, user_id, account_id, category_id, type, description, source, notes,
+        amount, date, competence_date, installment_plan_id, installment_number, origin
+      )
+      VALUES (
+        v_company_id, auth.uid(), p_account_id, p_category_id, p_type, v_description, v_source, v_notes,
+        v_amount, v_date, p_sale_date, v_id, n, 'manual'
+      );
+    END IF;
+  END LOOP;
+
+  -- Parcelas que sobram são lançamentos excluídos, o que só admins podem fazer; sem a
+  -- checagem, o RLS ignoraria o DELETE e as parcelas antigas continuariam no caixa
+  SELECT count(*) INTO v_excess FROM public.transactions
+  WHERE installment_plan_id = v_id AND installment_number > p_installment_count;
+
+  IF v_excess > 0 AND NOT public.has_role('admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem reduzir o número de parcelas';
+  END IF;
+
+  DELETE FROM public.transactions
+  WHERE installment_plan_id = v_id AND installment_number > p_installment_count;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  IF v_deleted <> v_excess THEN
+    RAISE EXCEPTION 'Não foi possível excluir as parcelas que sobram';
+  END IF;
+
+  PERFORM set_config('app.installment_sync', 'off', true);
+  RETURN v_id;
+END;
+$$;
+
+-- Exclui o parcelamento e, em cascata, todas as parcelas. A cascata não passa pelo RLS
+-- de transactions, por isso a regra de exclusão (só admins) é conferida aqui
+CREATE OR REPLACE FUNCTION public.delete_installment_plan(p_plan_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role('admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem excluir parcelamentos';
+  END IF;
+
+  PERFORM set_config('app.installment_sync', 'on', true);
+
+  DELETE FROM public.installment_plans
+  WHERE id = p_plan_id AND company_id = public.get_user_company_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Parcelamento não encontrado';
+  END IF;
+
+  PERFORM set_config('app.installment_sync', 'off', true);
+END;
+$$;
+
+-- A exclusão direta do parcelamento também apagaria as parcelas em cascata
+DROP POLICY IF EXISTS "Company members can manage installment plans" ON public.installment_plans;
+
+CREATE POLICY "Company members can create installment plans"
+ON public.installment_plans FOR INSERT
+TO authenticated
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE POLICY "Company members can update installment plans"
+ON public.installment_plans FOR UPDATE
+TO authenticated
+USING (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')))
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE POLICY "Admins can delete installment plans"
+ON public.installment_plans FOR DELETE
+TO authenticated
+USING (company_id = public.get_user_company_id() AND public.has_role('admin'));
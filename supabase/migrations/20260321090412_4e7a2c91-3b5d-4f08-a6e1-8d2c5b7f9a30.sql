@@ -0,0 +1,30 @@
+-- =====================================================
+-- SALDO ATUAL SEM LANÇAMENTOS FUTUROS
+-- Sem data, o saldo vai até hoje no fuso da empresa: lançamentos agendados para
+-- depois não entram no saldo atual
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.account_balances(p_as_of DATE DEFAULT NULL)
+RETURNS TABLE (account_id UUID, balance NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT COALESCE(p_as_of, (now() AT TIME ZONE c.timezone)::date) AS as_of
+    FROM public.companies c
+    WHERE c.id = public.get_user_company_id()
+  )
+  SELECT a.id,
+         CASE WHEN a.opening_date <= p.as_of THEN a.opening_balance ELSE 0 END
+           + COALESCE(SUM(CASE WHEN t.type = 'income' THEN ABS(t.amount) ELSE -ABS(t.amount) END), 0)
+  FROM public.accounts a
+  CROSS JOIN params p
+  LEFT JOIN public.transactions t
+    ON t.account_id = a.id
+   AND t.date >= a.opening_date
+   AND t.date <= p.as_of
+  WHERE a.company_id = public.get_user_company_id()
+  GROUP BY a.id, a.opening_balance, a.opening_date, p.as_of
+$$;
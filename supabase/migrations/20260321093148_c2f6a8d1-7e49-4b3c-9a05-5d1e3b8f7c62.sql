@@ -0,0 +1,48 @@
+-- =====================================================
+-- EXCLUSÃO DE TRANSFERÊNCIAS SÓ POR ADMINS
+-- Excluir a transferência apaga as duas pernas em cascata, e a cascata não passa
+-- pelo RLS de transactions (exclusão só por admins)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.delete_transfer(p_transfer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role('admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem excluir transferências';
+  END IF;
+
+  PERFORM set_config('app.transfer_sync', 'on', true);
+
+  DELETE FROM public.transfers
+  WHERE id = p_transfer_id AND company_id = public.get_user_company_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transferência não encontrada';
+  END IF;
+
+  PERFORM set_config('app.transfer_sync', 'off', true);
+END;
+$$;
+
+-- A exclusão direta da transferência também apagaria as pernas em cascata
+DROP POLICY IF EXISTS "Company members can manage transfers" ON public.transfers;
+
+CREATE POLICY "Company members can create transfers"
+ON public.transfers FOR INSERT
+TO authenticated
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE POLICY "Company members can update transfers"
+ON public.transfers FOR UPDATE
+TO authenticated
+USING (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')))
+WITH CHECK (company_id = public.get_user_company_id() AND (public.has_role('admin') OR public.has_role('financeiro')));
+
+CREATE POLICY "Admins can delete transfers"
+ON public.transfers FOR DELETE
+TO authenticated
+USING (company_id = public.get_user_company_id() AND public.has_role('admin'));
@@ -0,0 +1,25 @@
+-- =====================================================
+-- TÍTULO REABERTO VENCIDO NO FUSO DA EMPRESA
+-- Ao excluir o lançamento da baixa, o título volta como vencido conforme a data de
+-- hoje no fuso da empresa, como na marcação de vencidos (antes, CURRENT_DATE em UTC)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.reopen_bill_on_transaction_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.bills b
+  SET status = CASE WHEN b.due_date < (now() AT TIME ZONE c.timezone)::date THEN 'overdue' ELSE 'pending' END,
+      paid_at = NULL,
+      paid_amount = NULL,
+      interest_amount = 0,
+      discount_amount = 0
+  FROM public.companies c
+  WHERE b.id = OLD.bill_id
+    AND b.status = 'paid'
+    AND c.id = b.company_id;
+  RETURN OLD;
+END;
+$$;
@@ -0,0 +1,92 @@
+-- =====================================================
+-- GERAÇÃO DE RECORRÊNCIAS: PERMISSÃO E FUSO DA EMPRESA
+-- Pelo app, só admins e financeiro da empresa da regra geram ocorrências; o pg_cron
+-- (sem usuário logado) continua gerando para todas as empresas. O horizonte padrão
+-- conta a partir de hoje no fuso da empresa (antes, CURRENT_DATE em UTC)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.generate_recurrence_bills(p_recurrence_id UUID, p_until DATE DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  r public.recurrences%ROWTYPE;
+  v_until DATE;
+  v_n INTEGER;
+  v_date DATE;
+  v_created INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT (public.has_role('admin') OR public.has_role('financeiro')) THEN
+    RAISE EXCEPTION 'Sem permissão para gerar as ocorrências da recorrência';
+  END IF;
+
+  SELECT * INTO r FROM public.recurrences
+  WHERE id = p_recurrence_id
+    AND (auth.uid() IS NULL OR company_id = public.get_user_company_id())
+  FOR UPDATE;
+  IF r.id IS NULL OR NOT r.active THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(p_until, (now() AT TIME ZONE c.timezone)::date + 60) INTO v_until
+  FROM public.companies c
+  WHERE c.id = r.company_id;
+
+  v_n := r.generated_count + 1;
+  LOOP
+    EXIT WHEN r.max_occurrences IS NOT NULL AND v_n > r.max_occurrences;
+
+    v_date := public.recurrence_date(
+      COALESCE(r.anchor_date, r.start_date), r.frequency, r.interval_count,
+      COALESCE(r.day_of_month, 1), v_n - r.anchor_index
+    );
+    EXIT WHEN v_date > v_until OR (r.end_date IS NOT NULL AND v_date > r.end_date);
+
+    -- Ocorrência mantida (paga ou editada) com o mesmo número: não duplica
+    INSERT INTO public.bills (
+      company_id, user_id, kind, description, counterparty, category_id, account_id,
+      amount, competence_date, due_date, notes, recurrence_id, recurrence_index
+    )
+    VALUES (
+      r.company_id, r.user_id, r.kind, r.description, r.counterparty, r.category_id, r.account_id,
+      r.amount, v_date, v_date, r.notes, r.id, v_n
+    )
+    ON CONFLICT ON CONSTRAINT bills_recurrence_occurrence_key DO NOTHING;
+
+    IF FOUND THEN
+      v_created := v_created + 1;
+    END IF;
+    v_n := v_n + 1;
+  END LOOP;
+
+  UPDATE public.recurrences SET generated_count = v_n - 1 WHERE id = r.id;
+  RETURN v_created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_bills(p_days_ahead INTEGER DEFAULT 60)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_until DATE;
+  v_created INTEGER := 0;
+BEGIN
+  FOR v_id, v_until IN
+    SELECT r.id, (now() AT TIME ZONE c.timezone)::date + p_days_ahead
+    FROM public.recurrences r
+    JOIN public.companies c ON c.id = r.company_id
+    WHERE r.active
+  LOOP
+    v_created := v_created + public.generate_recurrence_bills(v_id, v_until);
+  END LOOP;
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_bills(INTEGER) FROM PUBLIC, anon, authenticated;